@@ -1,6 +1,15 @@
 const { getAppData, getSimilarApps, getSearchSuggestions } = require('./services/app-store-scraper');
 const { generateKeywords } = require('./services/keyword-generator');
+const { getKeywordProviderConfig, createKeywordProvider } = require('./services/keyword-providers');
+const { buildKeywordClusters } = require('./services/keyword-clusters');
 const { ASOAnalyzer } = require('./services/aso-analyzer');
+const { createKeywordMetricsCache, createFileMetricsStore } = require('./services/keyword-metrics-cache');
+const {
+  DEFAULT_SCORING_CONFIG,
+  resolveScoringConfig,
+  validateScoringConfig,
+  calculateOpportunityScore
+} = require('./services/scoring');
 const fs = require('fs');
 const path = require('path');
 
@@ -8,30 +17,30 @@ const path = require('path');
 const MAX_COMPETITORS = 7;  // Increased from 3 for more keyword coverage
 
 /**
- * Collects app data and similar apps, then logs the main app
+ * Collects app data and similar apps from a storefront, then logs the main app
  */
-async function collectAppData(appId) {
+async function collectAppData(appId, country) {
   // Validate app ID is numeric
   const numericAppId = parseInt(appId, 10);
   if (isNaN(numericAppId) || numericAppId <= 0) {
     throw new Error('App ID must be a valid numeric value');
   }
 
-  console.log(`🚀 Starting analysis for app ID: ${numericAppId}`);
+  console.log(`🚀 Starting analysis for app ID: ${numericAppId} (${country.toUpperCase()} storefront)`);
   
   // Get app data from App Store
-  const appData = await getAppData(numericAppId);
+  const appData = await getAppData(numericAppId, country);
 
   // Get similar apps (increased to 7 for better keyword coverage)
-  const allSimilarApps = await getSimilarApps(numericAppId);
+  const allSimilarApps = await getSimilarApps(numericAppId, country);
   const topSimilarApps = allSimilarApps.slice(0, MAX_COMPETITORS);
 
   // Scrape app data for similar apps
   const similarAppsData = [];
   for (const similarApp of topSimilarApps) {
     try {
-      const similarAppData = await getAppData(similarApp.id);
-      similarAppsData.push(similarAppData);
+      const similarAppData = await getAppData(similarApp.id, country);
+      similarAppsData.push({ ...similarAppData, id: similarApp.id });
     } catch (error) {
       console.warn(`⚠️ Failed to scrape data for similar app ${similarApp.id}: ${error.message}`);
     }
@@ -44,6 +53,50 @@ async function collectAppData(appId) {
   return { appData, similarApps: similarAppsData, numericAppId };
 }
 
+/**
+ * Loads scoring overrides from scoring.json next to main.js, if present
+ * Lets a category use its own recommendation cut-offs and opportunity weights
+ */
+function loadScoringConfig() {
+  const configFile = path.join(__dirname, 'scoring.json');
+  if (!fs.existsSync(configFile)) {
+    return DEFAULT_SCORING_CONFIG;
+  }
+
+  const config = resolveScoringConfig(JSON.parse(fs.readFileSync(configFile, 'utf8')));
+  const errors = validateScoringConfig(config);
+  if (errors.length > 0) {
+    throw new Error(`Invalid scoring.json: ${errors.join('; ')}`);
+  }
+
+  console.log('⚖️ Using scoring settings from scoring.json');
+  return config;
+}
+
+/**
+ * Keyword metrics cache shared by every app analyzed on this machine
+ * Kept in .cache/keyword-metrics.json so analyzing similar apps reuses metrics
+ */
+function createMetricsCache() {
+  const cache = createKeywordMetricsCache({
+    store: createFileMetricsStore(path.join(process.cwd(), '.cache', 'keyword-metrics.json'))
+  });
+
+  if (cache.ttlMs > 0) {
+    console.log(`♻️ Reusing keyword metrics fetched in the last ${Math.round(cache.ttlMs / 3600000)} hours`);
+  }
+  return cache;
+}
+
+/**
+ * Folder name for an app's results
+ * Non-US storefronts get a country suffix so their progress files don't collide
+ */
+function getResultsFolderName(appData, country) {
+  const appName = appData.title.replace(/[^a-zA-Z0-9]/g, '_').slice(0, 30);
+  return country === 'us' ? appName : `${appName}_${country}`;
+}
+
 /**
  * Deduplicates keywords - removes duplicates and near-duplicates
  */
@@ -64,22 +117,66 @@ function deduplicateKeywords(keywords) {
   return unique;
 }
 
+/**
+ * Records where a keyword came from (first source wins)
+ * Autocomplete suggestions take precedence since they are proven searches,
+ * but keep the screenshot attribution of the AI keyword they replace
+ */
+function addKeywordSource(keywordSources, keyword, source) {
+  const normalized = keyword.toLowerCase().trim().replace(/\s+/g, ' ');
+  const existing = keywordSources.get(normalized);
+
+  if (!existing) {
+    keywordSources.set(normalized, source);
+  } else if (source.source === 'autocomplete' && existing.source !== 'autocomplete') {
+    keywordSources.set(normalized, existing.fromScreenshots ? { ...source, fromScreenshots: true } : source);
+  }
+}
+
+/**
+ * Whether the model took a keyword from the app's screenshots
+ */
+function isScreenshotKeyword(generated, keyword) {
+  return generated.screenshotKeywords.some(k => k.toLowerCase() === keyword.toLowerCase());
+}
+
 /**
  * Generates keywords for main app and similar apps
  */
-async function generateAppKeywords(appData, similarApps) {
-  console.log('\n🧠 Generating keywords for main app...');
+async function generateAppKeywords(appData, similarApps, keywordSources) {
+  const { provider, model } = getKeywordProviderConfig();
+  console.log(`\n🧠 Generating keywords for main app with ${provider} (${model})...`);
   const mainAppKeywords = await generateKeywords(appData);
+  mainAppKeywords.keywords.forEach(k => addKeywordSource(keywordSources, k, {
+    source: 'ai',
+    fromScreenshots: isScreenshotKeyword(mainAppKeywords, k)
+  }));
   
   console.log(`✅ Generated keywords for ${appData.title}:`);
   console.log(mainAppKeywords.keywords.join(', '));
+  if (mainAppKeywords.screenshotKeywords.length > 0) {
+    console.log(`🖼️  From screenshots: ${mainAppKeywords.screenshotKeywords.join(', ')}`);
+  }
   
   console.log(`\n🧠 Generating keywords for ${similarApps.length} similar apps...`);
   const similarAppKeywords = [];
+  // Kept per competitor so the keyword gap report can compare them with the main app
+  const competitorKeywords = [];
   for (const similarApp of similarApps) {
     try {
       const keywords = await generateKeywords(similarApp);
       similarAppKeywords.push(...keywords.keywords);
+      competitorKeywords.push({
+        appStoreId: String(similarApp.id),
+        title: similarApp.title,
+        keywords: deduplicateKeywords(keywords.keywords)
+      });
+      keywords.keywords.forEach(k => addKeywordSource(keywordSources, k, {
+        source: 'competitor',
+        sourceAppStoreId: String(similarApp.id),
+        sourceAppTitle: similarApp.title,
+        fromScreenshots: isScreenshotKeyword(keywords, k)
+      }));
       console.log(`✅ Generated keywords for ${similarApp.title}:`);
       console.log(keywords.keywords.join(', '));
     } catch (error) {
@@ -98,15 +195,154 @@ async function generateAppKeywords(appData, similarApps) {
   return {
     mainAppKeywords: mainAppKeywords.keywords,
     similarAppKeywords: similarAppKeywords,
+    competitorKeywords: competitorKeywords,
     allKeywords: allKeywords
   };
 }
 
+/**
+ * Compares the main app's keywords with each competitor's
+ * missing: keywords only competitors were associated with, best opportunity first
+ * exclusive: keywords no competitor was associated with
+ * Autocomplete suggestions count as the main app's since they grow from its keywords
+ */
+function buildKeywordGaps(ownKeywords, competitorKeywords, keywordAnalysis) {
+  const own = new Set(deduplicateKeywords(ownKeywords));
+  const analysisByKeyword = new Map(keywordAnalysis.map(k => [k.keyword, k]));
+  const competitorsByKeyword = new Map();
+
+  for (const competitor of competitorKeywords) {
+    for (const keyword of competitor.keywords) {
+      if (!competitorsByKeyword.has(keyword)) competitorsByKeyword.set(keyword, []);
+      competitorsByKeyword.get(keyword).push(competitor.title);
+    }
+  }
+
+  const withMetrics = (keyword, competitors) => {
+    const analysis = analysisByKeyword.get(keyword) || {};
+    return {
+      keyword,
+      competitors,
+      traffic: analysis.traffic ?? null,
+      difficulty: analysis.difficulty ?? null,
+      opportunity: analysis.opportunity ?? null,
+      recommendation: analysis.recommendation || null
+    };
+  };
+
+  const missing = [...competitorsByKeyword.entries()]
+    .filter(([keyword]) => !own.has(keyword))
+    .map(([keyword, competitors]) => withMetrics(keyword, competitors))
+    .sort((a, b) => (b.opportunity ?? -1) - (a.opportunity ?? -1) || b.competitors.length - a.competitors.length);
+
+  const exclusive = [...own]
+    .filter(keyword => !competitorsByKeyword.has(keyword))
+    .map(keyword => withMetrics(keyword, []))
+    .sort((a, b) => (b.opportunity ?? -1) - (a.opportunity ?? -1));
+
+  return {
+    missing,
+    exclusive,
+    shared: [...own].filter(keyword => competitorsByKeyword.has(keyword)).length
+  };
+}
+
+/**
+ * Saves the keyword gap report next to the progressive results
+ */
+function saveKeywordGaps(keywordGaps, appData, country) {
+  const appName = getResultsFolderName(appData, country);
+  const gapsFile = path.join(process.cwd(), 'results', appName, `${appName}_gaps.json`);
+  fs.writeFileSync(gapsFile, JSON.stringify({ appData, country, createdAt: new Date().toISOString(), ...keywordGaps }, null, 2));
+  console.log(`💾 Keyword gaps saved to: ${appName}/${appName}_gaps.json`);
+}
+
+/**
+ * Displays the keywords competitors are associated with and the main app isn't
+ */
+function displayKeywordGaps(keywordGaps) {
+  console.log('\n' + '='.repeat(80));
+  console.log('🕳️  KEYWORD GAPS VS COMPETITORS');
+  console.log('='.repeat(80));
+
+  if (keywordGaps.missing.length === 0) {
+    console.log('\n   No competitor keywords missing from your own keywords');
+  } else {
+    console.log(`\n🎯 MISSING (${keywordGaps.missing.length} competitor keywords you don't cover):`);
+    keywordGaps.missing.slice(0, 15).forEach(k => {
+      console.log(`   ${k.keyword.padEnd(30)} | Opportunity: ${String(k.opportunity ?? '-').padStart(3)} | ${k.competitors.slice(0, 3).join(', ')}`);
+    });
+    if (keywordGaps.missing.length > 15) {
+      console.log(`   ... and ${keywordGaps.missing.length - 15} more`);
+    }
+  }
+
+  console.log(`\n🛡️  ONLY YOURS: ${keywordGaps.exclusive.length} keywords | SHARED: ${keywordGaps.shared} keywords`);
+}
+
+/**
+ * Groups the analyzed keywords into topic clusters, one metadata theme each
+ * Uses embeddings from the keyword provider when KEYWORD_CLUSTERING=embeddings
+ */
+async function clusterAnalyzedKeywords(keywordAnalysis) {
+  console.log('\n🧩 Grouping keywords into topic clusters...');
+
+  const analyzed = keywordAnalysis
+    .filter(k => k.analysisSucceeded !== false)
+    .map(k => ({
+      keyword: k.keyword,
+      traffic: k.traffic,
+      difficulty: k.difficulty,
+      opportunity: k.opportunity,
+      recommendation: k.recommendation
+    }));
+
+  let provider;
+  try {
+    provider = createKeywordProvider();
+  } catch (error) {
+    console.warn(`⚠️ ${error.message}`);
+  }
+
+  const { method, clusters } = await buildKeywordClusters(analyzed, { provider });
+  console.log(`✅ ${clusters.length} clusters from ${analyzed.length} keywords (by ${method === 'embeddings' ? 'embeddings' : 'shared words'})`);
+
+  return { method, clusters };
+}
+
+/**
+ * Saves the keyword clusters next to the progressive results
+ */
+function saveKeywordClusters(keywordClusters, appData, country) {
+  const appName = getResultsFolderName(appData, country);
+  const clustersFile = path.join(process.cwd(), 'results', appName, `${appName}_clusters.json`);
+  fs.writeFileSync(clustersFile, JSON.stringify({ appData, country, createdAt: new Date().toISOString(), ...keywordClusters }, null, 2));
+  console.log(`💾 Keyword clusters saved to: ${appName}/${appName}_clusters.json`);
+}
+
+/**
+ * Displays the topic clusters with the most opportunity
+ */
+function displayKeywordClusters(keywordClusters) {
+  console.log('\n' + '='.repeat(80));
+  console.log('🧩 KEYWORD TOPIC CLUSTERS');
+  console.log('='.repeat(80));
+
+  const themes = keywordClusters.clusters.filter(c => c.keywords.length > 1);
+  themes.slice(0, 10).forEach(c => {
+    console.log(`\n   ${c.label.toUpperCase()} (${c.keywords.length} keywords) | Traffic: ${c.traffic} | Opportunity: ${c.opportunity}`);
+    console.log(`   ${c.keywords.slice(0, 8).map(k => k.keyword).join(', ')}${c.keywords.length > 8 ? ', ...' : ''}`);
+  });
+
+  const singles = keywordClusters.clusters.length - themes.length;
+  console.log(`\n   ${themes.length} topics with several keywords, ${singles} keywords on their own`);
+}
+
 /**
  * Fetches App Store autocomplete suggestions for seed keywords
  * These are PROVEN user searches, not AI guesses
  */
-async function getAutocompleteSuggestions(seedKeywords) {
+async function getAutocompleteSuggestions(seedKeywords, keywordSources, country) {
   console.log('\n🔍 Fetching App Store autocomplete suggestions (proven searches)...');
   
   // Use first 5 keywords as seeds to get suggestions
@@ -115,8 +351,11 @@ async function getAutocompleteSuggestions(seedKeywords) {
   
   for (const seed of seeds) {
     try {
-      const results = await getSearchSuggestions(seed);
-      results.forEach(s => suggestions.add(s.toLowerCase().trim()));
+      const results = await getSearchSuggestions(seed, country);
+      results.forEach(s => {
+        suggestions.add(s.toLowerCase().trim());
+        addKeywordSource(keywordSources, s, { source: 'autocomplete', sourceSeed: seed.toLowerCase().trim() });
+      });
     } catch (error) {
       console.warn(`⚠️ Failed to get suggestions for "${seed}": ${error.message}`);
     }
@@ -128,23 +367,6 @@ async function getAutocompleteSuggestions(seedKeywords) {
   return uniqueSuggestions;
 }
 
-/**
- * Calculates opportunity score: higher traffic + lower difficulty = better opportunity
- * Score ranges from 0-100, with 100 being the best opportunity
- * Returns null if either score is null (failed analysis)
- */
-function calculateOpportunityScore(trafficScore, difficultyScore) {
-  // If either score is null (failed analysis), return null
-  if (trafficScore === null || difficultyScore === null) {
-    return null;
-  }
-  
-  // Opportunity = Traffic potential weighted against difficulty
-  // Formula: (traffic * 0.6) + ((100 - difficulty) * 0.4)
-  // Traffic matters more, but low difficulty is a nice bonus
-  return Math.round((trafficScore * 0.6) + ((100 - difficultyScore) * 0.4));
-}
-
 /**
  * Generate summary data from current results
  */
@@ -181,18 +403,83 @@ function updateSummaryFile(results, allKeywords, appData, baseFilename, appResul
   fs.writeFileSync(summaryFile, summaryText);
 }
 
+/**
+ * Turns an analyzer result into the metrics stored for a keyword
+ * @returns {Object} { traffic, difficulty, opportunity, recommendation, analysisSucceeded, error, failureReason, analyzedAt }
+ */
+function scoreKeywordAnalysis(analysis, scoringConfig) {
+  // Check if analysis actually succeeded (not a silent failure with null scores)
+  const analysisSucceeded = analysis.analysisSucceeded !== false && 
+                             analysis.trafficScore !== null && 
+                             analysis.difficultyScore !== null;
+  
+  const opportunityScore = analysisSucceeded 
+    ? calculateOpportunityScore(analysis.trafficScore, analysis.difficultyScore, scoringConfig)
+    : null;
+
+  return {
+    traffic: analysis.trafficScore,
+    difficulty: analysis.difficultyScore,
+    opportunity: opportunityScore,
+    recommendation: analysis.recommendation,
+    analysisSucceeded: analysisSucceeded,
+    error: analysis.error || null,
+    // no_data (final) or transient (retried on the next run), null on success
+    failureReason: analysis.failureReason || null,
+    // Cached metrics keep the time they were measured
+    analyzedAt: analysis.fetchedAt || new Date().toISOString()
+  };
+}
+
+/**
+ * Builds the contents of a _progressive_final.json file
+ * Successful keywords come first, best opportunity first, failed ones at the end
+ */
+function buildFinalData(results, appData, country, totalKeywords) {
+  // Separate successful analyses from failed ones
+  const successfulResults = results.filter(r => r.analysisSucceeded !== false);
+  const failedResults = results.filter(r => r.analysisSucceeded === false);
+  
+  // Sort successful results by opportunity score (highest first)
+  successfulResults.sort((a, b) => (b.opportunity || 0) - (a.opportunity || 0));
+  
+  // Combine: successful first (sorted), then failed at the end
+  const sortedResults = [...successfulResults, ...failedResults];
+
+  return {
+    appData: appData,
+    country,
+    completedAt: new Date().toISOString(),
+    totalKeywords,
+    results: sortedResults,
+    summary: {
+      total: results.length,
+      analyzed: successfulResults.length,
+      failed: failedResults.length,
+      excellent: successfulResults.filter(k => k.recommendation === 'excellent').length,
+      good: successfulResults.filter(k => k.recommendation === 'good').length,
+      consider: successfulResults.filter(k => k.recommendation === 'consider').length,
+      challenging: successfulResults.filter(k => k.recommendation === 'challenging').length,
+      avoid: successfulResults.filter(k => k.recommendation === 'avoid').length
+    }
+  };
+}
+
 /**
  * Analyzes ALL keywords with ASO metrics and ranks by opportunity
- * Saves results incrementally after each keyword for resilience
+ * Keywords go through the analyzer's rate-limited worker pool; results are saved
+ * incrementally as each keyword finishes for resilience
  * Updates summary file after every 10 keywords
  */
-async function analyzeAllKeywords(allKeywords, appData) {
+async function analyzeAllKeywords(allKeywords, appData, keywordSources, country, scoringConfig, forceRefresh = false) {
   console.log(`\n📊 Analyzing ALL ${allKeywords.length} keywords with ASO (this may take a moment)...`);
 
-  const asoAnalyzer = new ASOAnalyzer('itunes');
+  const cache = createMetricsCache();
+  const asoAnalyzer = new ASOAnalyzer('itunes', country, scoringConfig, { cache, forceRefresh });
   const results = [];
   const resultsDir = path.join(process.cwd(), 'results');
-  const appName = appData.title.replace(/[^a-zA-Z0-9]/g, '_').slice(0, 30);
+  // US results keep the original folder name, other storefronts get their own folder
+  const appName = getResultsFolderName(appData, country);
   const baseFilename = `${appName}_progressive`;
 
   // Create app-specific results folder
@@ -202,133 +489,118 @@ async function analyzeAllKeywords(allKeywords, appData) {
   }
 
   // Check if there's an existing progress file to resume from
+  // Keywords whose lookups kept failing are analyzed again, keywords without data are not
   const progressFile = path.join(appResultsDir, `${baseFilename}.json`);
-  let startIndex = 0;
 
   if (fs.existsSync(progressFile)) {
     try {
       const existingData = JSON.parse(fs.readFileSync(progressFile, 'utf8'));
-      results.push(...existingData.results);
-      startIndex = existingData.lastAnalyzedIndex + 1;
-      console.log(`\n📂 Resuming from keyword ${startIndex + 1}/${allKeywords.length}...`);
+      results.push(...existingData.results.filter(r => r.failureReason !== 'transient'));
+      console.log(`\n📂 Resuming with ${results.length}/${allKeywords.length} keywords already analyzed...`);
     } catch (error) {
       console.log(`\n⚠️ Could not resume from progress file, starting fresh...`);
     }
   }
 
-  for (let i = startIndex; i < allKeywords.length; i++) {
-    const keyword = allKeywords[i];
-    try {
-      const analysis = await asoAnalyzer.analyzeKeyword(keyword);
-      
-      // Check if analysis actually succeeded (not a silent failure with null scores)
-      const analysisSucceeded = analysis.analysisSucceeded !== false && 
-                                 analysis.trafficScore !== null && 
-                                 analysis.difficultyScore !== null;
-      
-      const opportunityScore = analysisSucceeded 
-        ? calculateOpportunityScore(analysis.trafficScore, analysis.difficultyScore)
-        : null;
-
-      const keywordResult = {
-        keyword,
-        traffic: analysis.trafficScore,
-        difficulty: analysis.difficultyScore,
-        opportunity: opportunityScore,
-        recommendation: analysis.recommendation,
-        analysisSucceeded: analysisSucceeded,
-        error: analysis.error || null,
-        analyzedAt: new Date().toISOString()
-      };
-
-      results.push(keywordResult);
-
-      // Save progress after each keyword
-      const progressData = {
-        appData: appData,
-        lastAnalyzedIndex: i,
-        totalKeywords: allKeywords.length,
-        results: results,
-        lastUpdated: new Date().toISOString()
-      };
-
-      fs.writeFileSync(progressFile, JSON.stringify(progressData, null, 2));
-
-      // Progress indicator every 5 keywords (more frequent now)
-      if ((i + 1) % 5 === 0 || i === allKeywords.length - 1) {
-        const failedCount = results.filter(r => !r.analysisSucceeded).length;
-        const failedNote = failedCount > 0 ? ` (${failedCount} failed)` : '';
-        console.log(`   Analyzed ${i + 1}/${allKeywords.length} keywords...${failedNote} (💾 saved)`);
-
-        // Update summary file after every 10 keywords
-        if ((i + 1) % 10 === 0 || i === allKeywords.length - 1) {
-          updateSummaryFile(results, allKeywords, appData, baseFilename, appResultsDir);
-          console.log(`   📊 Summary updated! Check ${appName}/${baseFilename}_summary.txt`);
-        }
+  const done = new Set(results.map(r => r.keyword));
+  const pending = allKeywords.filter(keyword => !done.has(keyword));
+
+  await asoAnalyzer.analyzeKeywords(pending, async (analysis) => {
+    const keyword = analysis.keyword;
+    const source = keywordSources.get(keyword) || { source: 'unknown' };
+
+    const keywordResult = {
+      keyword,
+      ...scoreKeywordAnalysis(analysis, scoringConfig),
+      ...source
+    };
+
+    results.push(keywordResult);
+
+    // Save progress after each keyword
+    const progressData = {
+      appData: appData,
+      country,
+      totalKeywords: allKeywords.length,
+      results: results,
+      lastUpdated: new Date().toISOString()
+    };
+
+    fs.writeFileSync(progressFile, JSON.stringify(progressData, null, 2));
+
+    // Progress indicator every 5 keywords (more frequent now)
+    const analyzed = results.length;
+    if (analyzed % 5 === 0 || analyzed === allKeywords.length) {
+      const failedCount = results.filter(r => !r.analysisSucceeded).length;
+      const failedNote = failedCount > 0 ? ` (${failedCount} failed)` : '';
+      console.log(`   Analyzed ${analyzed}/${allKeywords.length} keywords...${failedNote} (💾 saved)`);
+
+      // Update summary file after every 10 keywords
+      if (analyzed % 10 === 0 || analyzed === allKeywords.length) {
+        updateSummaryFile(results, allKeywords, appData, baseFilename, appResultsDir);
+        console.log(`   📊 Summary updated! Check ${appName}/${baseFilename}_summary.txt`);
       }
-    } catch (error) {
-      console.warn(`⚠️ Failed to analyze keyword "${keyword}": ${error.message}`);
-
-      // Record the failure properly
-      const keywordResult = {
-        keyword,
-        traffic: null,
-        difficulty: null,
-        opportunity: null,
-        recommendation: 'analysis_failed',
-        analysisSucceeded: false,
-        error: error.message,
-        analyzedAt: new Date().toISOString()
-      };
-      
-      results.push(keywordResult);
-
-      // Save progress even on errors
-      const progressData = {
-        appData: appData,
-        lastAnalyzedIndex: i,
-        totalKeywords: allKeywords.length,
-        results: results,
-        lastUpdated: new Date().toISOString()
-      };
-
-      fs.writeFileSync(progressFile, JSON.stringify(progressData, null, 2));
     }
-  }
+  });
 
-  // Separate successful analyses from failed ones
-  const successfulResults = results.filter(r => r.analysisSucceeded !== false);
-  const failedResults = results.filter(r => r.analysisSucceeded === false);
-  
-  // Sort successful results by opportunity score (highest first)
-  successfulResults.sort((a, b) => (b.opportunity || 0) - (a.opportunity || 0));
-  
-  // Combine: successful first (sorted), then failed at the end
-  const sortedResults = [...successfulResults, ...failedResults];
+  const retryable = results.filter(r => r.failureReason === 'transient').length;
+  if (retryable > 0) {
+    console.log(`\n⚠️ ${retryable} keywords failed on network or rate-limit errors, run again to retry them`);
+  }
 
   // Save final results
-  const finalData = {
-    appData: appData,
-    completedAt: new Date().toISOString(),
-    totalKeywords: allKeywords.length,
-    results: sortedResults,
-    summary: {
-      total: results.length,
-      analyzed: successfulResults.length,
-      failed: failedResults.length,
-      excellent: successfulResults.filter(k => k.recommendation === 'excellent').length,
-      good: successfulResults.filter(k => k.recommendation === 'good').length,
-      consider: successfulResults.filter(k => k.recommendation === 'consider').length,
-      challenging: successfulResults.filter(k => k.recommendation === 'challenging').length,
-      avoid: successfulResults.filter(k => k.recommendation === 'avoid').length
-    }
-  };
+  const finalData = buildFinalData(results, appData, country, allKeywords.length);
 
   const finalFile = path.join(appResultsDir, `${baseFilename}_final.json`);
   fs.writeFileSync(finalFile, JSON.stringify(finalData, null, 2));
   console.log(`\n💾 Final results saved to: ${appName}/${baseFilename}_final.json`);
 
-  return sortedResults;
+  if (cache.stats.hits > 0) {
+    console.log(`♻️ ${cache.stats.hits} keywords came from the metrics cache, ${cache.stats.misses} were fetched`);
+  }
+
+  return finalData.results;
+}
+
+/**
+ * Re-analyzes the failed keywords of a finished run
+ * Reads a _progressive_final.json file, runs only its failed keywords through the
+ * analyzer again and rewrites the file and its summary in place, so a run hit by
+ * network or rate-limit errors doesn't have to go through the whole pipeline again.
+ * @param {string} finalFile - Path of the _progressive_final.json file
+ * @param {Object} scoringConfig - Recommendation thresholds and opportunity weights
+ * @returns {Promise<Object>} { retried, recovered, stillFailed }
+ */
+async function retryFailedKeywords(finalFile, scoringConfig = DEFAULT_SCORING_CONFIG) {
+  const data = JSON.parse(fs.readFileSync(finalFile, 'utf8'));
+  // Files written before storefronts were selectable are from the US store
+  const country = data.country || 'us';
+  const failed = data.results.filter(r => r.analysisSucceeded === false);
+
+  if (failed.length === 0) {
+    console.log('✅ No failed keywords to retry');
+    return { retried: 0, recovered: 0, stillFailed: 0 };
+  }
+
+  console.log(`\n🔁 Retrying ${failed.length} failed keywords from ${path.basename(finalFile)} (${country})...`);
+
+  const asoAnalyzer = new ASOAnalyzer('itunes', country, scoringConfig, { cache: createMetricsCache() });
+  const analyses = await asoAnalyzer.analyzeKeywords(failed.map(r => r.keyword));
+
+  // Keep each keyword's source fields, replace its metrics
+  const retried = new Map(failed.map((r, i) => [r, { ...r, ...scoreKeywordAnalysis(analyses[i], scoringConfig) }]));
+  const results = data.results.map(r => retried.get(r) || r);
+
+  const finalData = buildFinalData(results, data.appData, country, data.totalKeywords ?? results.length);
+  fs.writeFileSync(finalFile, JSON.stringify(finalData, null, 2));
+
+  const baseFilename = path.basename(finalFile).replace(/_final\.json$/, '');
+  updateSummaryFile(finalData.results, results.map(r => r.keyword), data.appData, baseFilename, path.dirname(finalFile));
+
+  const recovered = Array.from(retried.values()).filter(r => r.analysisSucceeded).length;
+  console.log(`\n💾 ${recovered} of ${failed.length} keywords recovered, saved to ${finalFile}`);
+
+  return { retried: failed.length, recovered, stillFailed: failed.length - recovered };
 }
 
 /**
@@ -415,40 +687,59 @@ function displayResults(results) {
 /**
  * Main entry function for app analysis
  * @param {string|number} appId - The app ID (must be numeric)
+ * @param {string} country - App Store storefront to analyze (defaults to 'us')
+ * @param {Object} scoringConfig - Recommendation thresholds and opportunity weights
+ * @param {Object} options - { forceRefresh: fetch fresh metrics instead of using the cache }
  */
-async function analyzeApp(appId) {
+async function analyzeApp(appId, country = 'us', scoringConfig = DEFAULT_SCORING_CONFIG, options = {}) {
   try {
     // Step 1: Collect app data and similar apps (now 7 competitors instead of 3)
-    const { appData, similarApps } = await collectAppData(appId);
+    const { appData, similarApps } = await collectAppData(appId, country);
 
     // Step 2: Generate keywords for main app and similar apps
-    const { mainAppKeywords, similarAppKeywords, allKeywords } = await generateAppKeywords(appData, similarApps);
+    // keywordSources tracks where each keyword came from (AI, competitor or autocomplete)
+    const keywordSources = new Map();
+    const { mainAppKeywords, similarAppKeywords, competitorKeywords, allKeywords } = await generateAppKeywords(appData, similarApps, keywordSources);
 
     // Step 3: Get App Store autocomplete suggestions (proven user searches)
-    const autocompleteSuggestions = await getAutocompleteSuggestions(mainAppKeywords);
+    const autocompleteSuggestions = await getAutocompleteSuggestions(mainAppKeywords, keywordSources, country);
     
     // Combine AI-generated keywords with proven autocomplete searches
     const combinedKeywords = deduplicateKeywords([...allKeywords, ...autocompleteSuggestions]);
     console.log(`\n📦 Total unique keywords to analyze: ${combinedKeywords.length}`);
 
     // Step 4: Analyze ALL keywords (not random 5) and rank by opportunity
-    const keywordAnalysis = await analyzeAllKeywords(combinedKeywords, appData);
+    const keywordAnalysis = await analyzeAllKeywords(combinedKeywords, appData, keywordSources, country, scoringConfig, options.forceRefresh);
 
     // Step 5: Display ranked results
     displayResults(keywordAnalysis);
 
+    // Step 6: Compare the app's keywords with each competitor's
+    const keywordGaps = buildKeywordGaps([...mainAppKeywords, ...autocompleteSuggestions], competitorKeywords, keywordAnalysis);
+    displayKeywordGaps(keywordGaps);
+    saveKeywordGaps(keywordGaps, appData, country);
+
+    // Step 7: Group keywords into topic clusters to plan one metadata theme per cluster
+    const keywordClusters = await clusterAnalyzedKeywords(keywordAnalysis);
+    displayKeywordClusters(keywordClusters);
+    saveKeywordClusters(keywordClusters, appData, country);
+
     // Separate successful from failed analyses for summary
     const successfulAnalyses = keywordAnalysis.filter(k => k.analysisSucceeded !== false);
     const failedAnalyses = keywordAnalysis.filter(k => k.analysisSucceeded === false);
     
     return {
       appData,
+      country,
       similarApps,
       mainAppKeywords,
       similarAppKeywords,
+      competitorKeywords,
       autocompleteSuggestions,
       allKeywords: combinedKeywords,
       keywordAnalysis,
+      keywordGaps,
+      keywordClusters,
       // Quick access to best opportunities (only from successful analyses)
       topOpportunities: successfulAnalyses.filter(k => k.recommendation === 'excellent' || k.recommendation === 'good'),
       summary: {
@@ -591,6 +882,29 @@ function generateSummaryText(results) {
     lines.push(`Autocomplete Suggestions: ${results.autocompleteSuggestions.length}`);
     lines.push('');
 
+    // Keywords competitors cover and the app doesn't
+    if (results.keywordGaps) {
+      lines.push('🕳️  KEYWORD GAPS VS COMPETITORS');
+      lines.push('-'.repeat(50));
+      lines.push(`Missing: ${results.keywordGaps.missing.length} | Only yours: ${results.keywordGaps.exclusive.length} | Shared: ${results.keywordGaps.shared}`);
+      results.keywordGaps.missing.slice(0, 15).forEach(k => {
+        lines.push(`   ${k.keyword.padEnd(30)} | Opportunity: ${String(k.opportunity ?? '-').padStart(3)} | ${k.competitors.slice(0, 3).join(', ')}`);
+      });
+      lines.push('');
+    }
+
+    // Topic clusters to plan metadata themes around
+    if (results.keywordClusters) {
+      const themes = results.keywordClusters.clusters.filter(c => c.keywords.length > 1);
+      lines.push('🧩 KEYWORD TOPIC CLUSTERS');
+      lines.push('-'.repeat(50));
+      themes.slice(0, 10).forEach(c => {
+        lines.push(`   ${c.label.padEnd(30)} | ${String(c.keywords.length).padStart(2)} keywords | Traffic: ${String(c.traffic).padStart(4)} | Opportunity: ${c.opportunity}`);
+        lines.push(`      ${c.keywords.slice(0, 8).map(k => k.keyword).join(', ')}`);
+      });
+      lines.push('');
+    }
+
     // Recommendations
     lines.push('🎯 BUSINESS RECOMMENDATIONS');
     lines.push('-'.repeat(50));
@@ -622,32 +936,67 @@ function generateSummaryText(results) {
 
 // Export for use in other modules
 module.exports = {
-  analyzeApp
+  analyzeApp,
+  retryFailedKeywords
 };
 
 // If run directly, get app ID from command line arguments
 if (require.main === module) {
-  const appId = process.argv[2];
+  const args = process.argv.slice(2).filter(arg => !arg.startsWith('--'));
+  const appId = args[0];
+  const country = (args[1] || 'us').toLowerCase();
+  // --refresh ignores cached keyword metrics and fetches every keyword again
+  const forceRefresh = process.argv.includes('--refresh');
+  // --retry-failed <file> re-analyzes only the failed keywords of a _progressive_final.json
+  const retryFailed = process.argv.includes('--retry-failed');
 
   if (!appId) {
-    console.error('❌ Please provide an app ID as argument');
-    console.log('Usage: node main.js <appId>');
+    console.error(retryFailed ? '❌ Please provide a _progressive_final.json file' : '❌ Please provide an app ID as argument');
+    console.log('Usage: node main.js <appId> [country] [--refresh]');
+    console.log('       node main.js --retry-failed <results/App/App_progressive_final.json>');
     console.log('Example: node main.js 310633997');
+    console.log('Example: node main.js 310633997 de');
+    console.log('Example: node main.js 310633997 --refresh');
     process.exit(1);
   }
 
-  // Run analysis (results and summaries are saved incrementally during analysis)
-  analyzeApp(appId).then(results => {
-    if (results) {
-      const appName = results.appData.title.replace(/[^a-zA-Z0-9]/g, '_').slice(0, 30);
-      console.log('\n✅ Analysis complete! Check the results/ directory for:');
-      console.log(`   📁 App folder: results/${appName}/`);
-      console.log(`   📄 Final JSON: ${appName}/progressive_final.json`);
-      console.log(`   📊 Summary: ${appName}/progressive_summary.txt`);
-      console.log(`   📈 Progress: ${appName}/progressive.json`);
-    }
-  }).catch(error => {
-    console.error('❌ Analysis failed:', error.message);
+  if (!retryFailed && !/^[a-z]{2}$/.test(country)) {
+    console.error('❌ Country must be a two-letter App Store storefront code, e.g. us, gb, de, jp');
     process.exit(1);
-  });
+  }
+
+  let scoringConfig;
+  try {
+    scoringConfig = loadScoringConfig();
+  } catch (error) {
+    console.error(`❌ ${error.message}`);
+    process.exit(1);
+  }
+
+  if (retryFailed) {
+    if (!fs.existsSync(appId)) {
+      console.error(`❌ File not found: ${appId}`);
+      process.exit(1);
+    }
+
+    retryFailedKeywords(appId, scoringConfig).catch(error => {
+      console.error('❌ Retry failed:', error.message);
+      process.exit(1);
+    });
+  } else {
+    // Run analysis (results and summaries are saved incrementally during analysis)
+    analyzeApp(appId, country, scoringConfig, { forceRefresh }).then(results => {
+      if (results) {
+        const appName = getResultsFolderName(results.appData, results.country);
+        console.log('\n✅ Analysis complete! Check the results/ directory for:');
+        console.log(`   📁 App folder: results/${appName}/`);
+        console.log(`   📄 Final JSON: ${appName}/progressive_final.json`);
+        console.log(`   📊 Summary: ${appName}/progressive_summary.txt`);
+        console.log(`   📈 Progress: ${appName}/progressive.json`);
+      }
+    }).catch(error => {
+      console.error('❌ Analysis failed:', error.message);
+      process.exit(1);
+    });
+  }
 }
\ No newline at end of file
@@ -3,8 +3,9 @@ const store = require('app-store-scraper');
 /**
  * App Store scraper service
  * Fetches app data, similar apps, and search suggestions
+ * Every call takes a storefront country code (us, gb, de, jp, ...)
  */
-async function getAppData(trackId) {
+async function getAppData(trackId, country = 'us') {
   try {
     // Validate trackId is numeric
     const numericTrackId = parseInt(trackId, 10);
@@ -13,10 +14,12 @@ async function getAppData(trackId) {
     }
 
     // Fetch app data from app-store-scraper
-    const appData = await store.app({ id: numericTrackId });
+    const appData = await store.app({ id: numericTrackId, country });
     
     // Return structured data with title, description, and screenshots
+    // The track ID lets the web dashboard match imported results to the app
     return {
+      id: numericTrackId,
       title: appData.title,
       description: appData.description,
       genres: appData.genres || [],
@@ -34,7 +37,7 @@ async function getAppData(trackId) {
 /**
  * Get similar apps by track ID
  */
-async function getSimilarApps(trackId) {
+async function getSimilarApps(trackId, country = 'us') {
   try {
     // Validate trackId is numeric
     const numericTrackId = parseInt(trackId, 10);
@@ -43,7 +46,7 @@ async function getSimilarApps(trackId) {
     }
 
     // Fetch similar apps data from app-store-scraper
-    const similarApps = await store.similar({ id: numericTrackId });
+    const similarApps = await store.similar({ id: numericTrackId, country });
     
     return similarApps;
     
@@ -59,14 +62,14 @@ async function getSimilarApps(trackId) {
  * Get App Store search suggestions (autocomplete)
  * These are PROVEN user searches - what real users type
  */
-async function getSearchSuggestions(term) {
+async function getSearchSuggestions(term, country = 'us') {
   try {
     if (!term || term.trim().length === 0) {
       return [];
     }
 
     // Use app-store-scraper's suggest function
-    const suggestions = await store.suggest({ term: term.trim() });
+    const suggestions = await store.suggest({ term: term.trim(), country });
     
     // Extract just the search terms
     return suggestions.map(s => s.term || s);
@@ -1,13 +1,26 @@
 const { ASO } = require('aso-v2');
+const { DEFAULT_SCORING_CONFIG, getRecommendation } = require('./scoring');
+const { NoKeywordDataError, createRateLimiter, getKeywordPoolConfig, runKeywordPool } = require('./keyword-pool');
 
 /**
  * ASO keyword analysis service using aso-v2
+ * With a metrics cache (see keyword-metrics-cache.js) keywords scored recently for
+ * any app are answered from the cache; forceRefresh always fetches and re-caches.
+ * Keywords are measured in a rate-limited worker pool (see keyword-pool.js) that
+ * retries network and rate-limit failures.
  */
 class ASOAnalyzer {
-  constructor(platform = 'gplay') {
-    // Initialize ASO for specified platform ('gplay' or 'itunes')
-    this.aso = new ASO(platform);
+  constructor(platform = 'gplay', country = 'us', scoringConfig = DEFAULT_SCORING_CONFIG, options = {}) {
+    // Initialize ASO for specified platform ('gplay' or 'itunes') and storefront
+    // Store options are passed on to the scraper's search and suggest calls
+    this.aso = new ASO(platform, { country });
     this.platform = platform;
+    this.country = country;
+    this.scoringConfig = scoringConfig;
+    this.cache = options.cache || null;
+    this.forceRefresh = Boolean(options.forceRefresh);
+    this.pool = options.pool || getKeywordPoolConfig();
+    this.throttle = createRateLimiter(this.pool.requestsPerSecond);
   }
 
   /**
@@ -16,96 +29,151 @@ class ASOAnalyzer {
    * @returns {Promise<Object>} Analysis results with traffic and difficulty scores
    */
   async analyzeKeyword(keyword) {
-    try {
-      console.log(`Analyzing keyword: "${keyword}" on ${this.platform}...`);
-      
-      // Get keyword analysis from ASO-V2
-      const analysis = await this.aso.analyzeKeyword(keyword);
-      
-      // DEFENSIVE PARSING: Check if we got valid data back
-      // Some keywords return undefined/null when there's no data (not an error, just no results)
-      if (!analysis || typeof analysis !== 'object') {
-        throw new Error('ASO returned empty or invalid response');
-      }
-      
-      // Check if traffic object exists and has a score
-      if (!analysis.traffic || analysis.traffic.score === undefined || analysis.traffic.score === null) {
-        throw new Error('No traffic data returned - keyword may have no search volume');
-      }
-      
-      // Check if difficulty object exists and has a score
-      if (!analysis.difficulty || analysis.difficulty.score === undefined || analysis.difficulty.score === null) {
-        throw new Error('No difficulty data returned - insufficient ranking data');
+    const [result] = await this.analyzeKeywords([keyword]);
+    return result;
+  }
+
+  /**
+   * Measures a keyword once, from the cache or with one aso-v2 lookup
+   * @param {string} keyword - The keyword to measure
+   * @param {Function} throttle - Awaited right before the lookup to respect the request budget
+   * @returns {Promise<Object>} Analysis result
+   * @throws {NoKeywordDataError} When aso-v2 has no data for the keyword
+   */
+  async measureKeyword(keyword, throttle = this.throttle) {
+    if (this.cache && !this.forceRefresh) {
+      const cached = await this.cache.get(keyword, this.platform, this.country);
+      if (cached) {
+        console.log(`♻️ Cached metrics for "${keyword}" on ${this.platform} (${this.country}) from ${cached.fetchedAt}`);
+        return { ...this.buildAnalysisResult(keyword, cached.breakdown), cached: true, fetchedAt: cached.fetchedAt };
       }
-      
-      // Extract scores from the correct properties
-      const trafficScore = analysis.traffic.score;
-      const difficultyScore = analysis.difficulty.score;
-      
-      // Convert to 0-100 scale (ASO-V2 uses 0-10 scale)
-      const trafficScore100 = Math.round(trafficScore * 10);
-      const difficultyScore100 = Math.round(difficultyScore * 10);
-      
-      return {
-        keyword: keyword,
-        platform: this.platform,
-        trafficScore: trafficScore100,
-        difficultyScore: difficultyScore100,
-        competitionLevel: this.getCompetitionLevel(difficultyScore100),
-        trafficLevel: this.getTrafficLevel(trafficScore100),
-        recommendation: this.getRecommendation(trafficScore100, difficultyScore100),
-        analysisSucceeded: true,
-        rawData: analysis,
-        // Include detailed breakdown
-        details: {
-          traffic: {
-            original: trafficScore,
-            scaled: trafficScore100,
-            breakdown: analysis.traffic
-          },
-          difficulty: {
-            original: difficultyScore,
-            scaled: difficultyScore100,
-            breakdown: analysis.difficulty
-          }
-        }
-      };
-      
-    } catch (error) {
-      console.error(`Error analyzing keyword "${keyword}":`, error.message);
-      return {
-        keyword: keyword,
-        platform: this.platform,
-        trafficScore: null,  // null instead of 0 - distinguishes "failed" from "actually zero"
-        difficultyScore: null,
-        competitionLevel: 'unknown',
-        trafficLevel: 'unknown',
-        recommendation: 'analysis_failed',
-        analysisSucceeded: false,
-        error: error.message
-      };
     }
+
+    await throttle();
+    console.log(`Analyzing keyword: "${keyword}" on ${this.platform} (${this.country})...`);
+
+    // Get keyword analysis from ASO-V2
+    const analysis = await this.aso.analyzeKeyword(keyword);
+
+    // DEFENSIVE PARSING: Check if we got valid data back
+    // Some keywords return undefined/null when there's no data (not an error, just no results)
+    if (!analysis || typeof analysis !== 'object') {
+      throw new NoKeywordDataError('ASO returned empty or invalid response');
+    }
+
+    // Check if traffic object exists and has a score
+    if (!analysis.traffic || analysis.traffic.score === undefined || analysis.traffic.score === null) {
+      throw new NoKeywordDataError('No traffic data returned - keyword may have no search volume');
+    }
+
+    // Check if difficulty object exists and has a score
+    if (!analysis.difficulty || analysis.difficulty.score === undefined || analysis.difficulty.score === null) {
+      throw new NoKeywordDataError('No difficulty data returned - insufficient ranking data');
+    }
+
+    const result = this.buildAnalysisResult(keyword, analysis);
+
+    if (this.cache) {
+      await this.cache.set(keyword, this.platform, this.country, {
+        traffic: result.trafficScore,
+        difficulty: result.difficultyScore,
+        breakdown: analysis
+      });
+    }
+
+    return { ...result, cached: false, fetchedAt: new Date().toISOString() };
   }
 
   /**
-   * Analyzes multiple keywords in batch
+   * Shapes a valid aso-v2 analysis, fresh or cached, into an analysis result
+   * @param {string} keyword - The analyzed keyword
+   * @param {Object} analysis - aso-v2 result with traffic and difficulty scores on a 0-10 scale
+   */
+  buildAnalysisResult(keyword, analysis) {
+    // Extract scores from the correct properties
+    const trafficScore = analysis.traffic.score;
+    const difficultyScore = analysis.difficulty.score;
+
+    // Convert to 0-100 scale (ASO-V2 uses 0-10 scale)
+    const trafficScore100 = Math.round(trafficScore * 10);
+    const difficultyScore100 = Math.round(difficultyScore * 10);
+
+    return {
+      keyword: keyword,
+      platform: this.platform,
+      trafficScore: trafficScore100,
+      difficultyScore: difficultyScore100,
+      competitionLevel: this.getCompetitionLevel(difficultyScore100),
+      trafficLevel: this.getTrafficLevel(trafficScore100),
+      recommendation: this.getRecommendation(trafficScore100, difficultyScore100),
+      analysisSucceeded: true,
+      rawData: analysis,
+      // Include detailed breakdown
+      details: {
+        traffic: {
+          original: trafficScore,
+          scaled: trafficScore100,
+          breakdown: analysis.traffic
+        },
+        difficulty: {
+          original: difficultyScore,
+          scaled: difficultyScore100,
+          breakdown: analysis.difficulty
+        }
+      }
+    };
+  }
+
+  /**
+   * Shapes a failed analysis
+   * failureReason tells a keyword without data ('no_data', final) apart from one whose
+   * lookups kept failing ('transient', worth trying again later).
+   */
+  buildFailedResult(keyword, error, failureReason) {
+    return {
+      keyword: keyword,
+      platform: this.platform,
+      trafficScore: null,  // null instead of 0 - distinguishes "failed" from "actually zero"
+      difficultyScore: null,
+      competitionLevel: 'unknown',
+      trafficLevel: 'unknown',
+      recommendation: 'analysis_failed',
+      analysisSucceeded: false,
+      failureReason,
+      error: error.message
+    };
+  }
+
+  /**
+   * Analyzes multiple keywords with the worker pool
    * @param {Array<string>} keywords - Array of keywords to analyze
-   * @returns {Promise<Array<Object>>} Array of analysis results
+   * @param {Function} onResult - Optional async (result, index) callback as each keyword finishes
+   * @returns {Promise<Array<Object>>} Array of analysis results in keyword order
    */
-  async analyzeKeywords(keywords) {
-    console.log(`Analyzing ${keywords.length} keywords on ${this.platform}...`);
-    
-    const results = [];
-    
-    // Process keywords with delay to avoid rate limiting
-    for (const keyword of keywords) {
-      const analysis = await this.analyzeKeyword(keyword);
-      results.push(analysis);
-      
-      // Add small delay between requests
-      await this.delay(500);
+  async analyzeKeywords(keywords, onResult) {
+    if (keywords.length > 1) {
+      console.log(`Analyzing ${keywords.length} keywords on ${this.platform} (${this.pool.concurrency} at a time, ${this.pool.requestsPerSecond}/s)...`);
     }
-    
+
+    const results = new Array(keywords.length);
+
+    await runKeywordPool(keywords, (keyword, { throttle }) => this.measureKeyword(keyword, throttle), {
+      ...this.pool,
+      throttle: this.throttle,
+      onRetry: (keyword, error, attempt, wait) => {
+        console.warn(`⏳ "${keyword}" failed (${error.message}), retry ${attempt}/${this.pool.maxRetries} in ${(wait / 1000).toFixed(1)}s`);
+      },
+      onSettled: async (keyword, outcome, index) => {
+        if (outcome.status === 'succeeded') {
+          results[index] = outcome.value;
+        } else {
+          console.error(`Error analyzing keyword "${keyword}":`, outcome.error.message);
+          results[index] = this.buildFailedResult(keyword, outcome.error, outcome.status === 'no_data' ? 'no_data' : 'transient');
+        }
+        if (onResult) await onResult(results[index], index);
+      }
+    });
+
     return results;
   }
 
@@ -137,33 +205,14 @@ class ASOAnalyzer {
 
   /**
    * Provides keyword recommendation based on traffic and difficulty
-   * CALIBRATED FOR REAL APP STORE DATA:
-   * - Most niche keywords have traffic scores of 10-30
-   * - Traffic 40+ is already considered good volume
-   * - Traffic 60+ is high-volume competitive terms
+   * Thresholds come from the shared scoring config (see scoring.js)
    * 
    * @param {number} trafficScore - Traffic score (0-100)
    * @param {number} difficultyScore - Difficulty score (0-100)
    * @returns {string} Recommendation
    */
   getRecommendation(trafficScore, difficultyScore) {
-    // EXCELLENT: Good traffic with low competition - prioritize these!
-    // Traffic >= 25 (decent search volume) + Difficulty <= 35 (easy to rank)
-    if (trafficScore >= 25 && difficultyScore <= 35) return 'excellent';
-    
-    // GOOD: Moderate traffic with manageable competition
-    // Traffic >= 15 (some volume) + Difficulty <= 45 (winnable)
-    if (trafficScore >= 15 && difficultyScore <= 45) return 'good';
-    
-    // CHALLENGING: High traffic but very competitive
-    // Worth it only if it's core to your app
-    if (trafficScore >= 40 && difficultyScore >= 60) return 'challenging';
-    
-    // AVOID: Low traffic + high difficulty = waste of effort
-    if (trafficScore <= 15 && difficultyScore >= 50) return 'avoid';
-    
-    // CONSIDER: Everything else - evaluate case by case
-    return 'consider';
+    return getRecommendation(trafficScore, difficultyScore, this.scoringConfig);
   }
 
   /**
@@ -0,0 +1,47 @@
+// Type declarations for keyword-clusters.js, used by the web dashboard
+
+import type { KeywordProvider } from './keyword-providers';
+
+export type ClusteringMethod = 'tokens' | 'embeddings';
+
+export interface ClusterableKeyword {
+  keyword: string;
+  traffic?: number | null;
+  opportunity?: number | null;
+}
+
+// traffic and opportunity are summed over the cluster's keywords
+export interface KeywordCluster<T extends ClusterableKeyword = ClusterableKeyword> {
+  label: string;
+  keywords: T[];
+  traffic: number;
+  opportunity: number;
+}
+
+export interface ClusterOptions {
+  embeddings?: number[][];
+  threshold?: number;
+}
+
+export interface BuildClustersOptions {
+  provider?: KeywordProvider;
+  method?: ClusteringMethod;
+  threshold?: number;
+}
+
+export const CLUSTERING_METHODS: ClusteringMethod[];
+
+export const DEFAULT_CLUSTER_THRESHOLD: number;
+
+export function getClusteringMethod(env?: Record<string, string | undefined>): ClusteringMethod;
+
+export function stemWord(word: string): string;
+
+export function keywordTokens(keyword: string): string[];
+
+export function clusterKeywords<T extends ClusterableKeyword>(keywords: T[], options?: ClusterOptions): KeywordCluster<T>[];
+
+export function buildKeywordClusters<T extends ClusterableKeyword>(
+  keywords: T[],
+  options?: BuildClustersOptions
+): Promise<{ method: ClusteringMethod; clusters: KeywordCluster<T>[] }>;
@@ -0,0 +1,222 @@
+/**
+ * Groups keywords into topic clusters, shared by the CLI and the web dashboard
+ * "voice recorder", "audio recorder", "record meetings" and "meeting recorder" end up
+ * in one cluster because their words overlap once plurals and verb forms are folded.
+ * With embeddings from the keyword provider, keywords that share no words but mean
+ * the same ("voice memos", "audio notes") can join a cluster as well.
+ *
+ * Configuration comes from the environment:
+ *   KEYWORD_CLUSTERING  tokens | embeddings (default: tokens)
+ */
+
+const CLUSTERING_METHODS = ['tokens', 'embeddings'];
+
+// Clusters keep merging while the average similarity between them reaches this
+const DEFAULT_CLUSTER_THRESHOLD = 0.5;
+
+// Embedding cosine similarity below this counts as unrelated. Above it the cosine is
+// rescaled to 0-1, so 0.75 weighs like keywords sharing half their words.
+const EMBEDDING_SIMILARITY_FLOOR = 0.5;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'app', 'apps', 'best', 'by', 'for', 'free', 'from', 'in', 'my', 'of', 'on',
+  'the', 'to', 'with', 'your'
+]);
+
+// Embeddings by model and text, so re-clustering the same keywords doesn't call the model again
+const embeddingCache = new Map();
+
+// Keywords embedded per provider request, Gemini's batchEmbedContents accepts at most 100
+const EMBEDDING_BATCH_SIZE = 100;
+
+/**
+ * Reads the clustering method from environment variables
+ * @param {Object} env - Environment to read (defaults to process.env)
+ * @returns {string} tokens | embeddings
+ */
+function getClusteringMethod(env = process.env) {
+  const method = (env.KEYWORD_CLUSTERING || 'tokens').toLowerCase();
+  if (!CLUSTERING_METHODS.includes(method)) {
+    throw new Error(`Unknown KEYWORD_CLUSTERING "${method}". Use one of: ${CLUSTERING_METHODS.join(', ')}`);
+  }
+  return method;
+}
+
+/**
+ * Folds plurals and common verb/noun endings so "recorder", "recording",
+ * "records" and "record" compare equal. Crude on purpose: it only has to make
+ * related keywords match each other, not produce dictionary words.
+ */
+function stemWord(word) {
+  if (word.length <= 4) return word;
+
+  const singular = word
+    .replace(/ies$/, 'y')
+    .replace(/(ss|us|is)$/, '$1_')
+    .replace(/s$/, '')
+    .replace(/_$/, '');
+  const stemmed = singular.replace(/(ing|er|ed)$/, '');
+
+  // Don't cut a word down to almost nothing ("users" stays "user")
+  return stemmed.length >= 3 ? stemmed : singular;
+}
+
+/**
+ * The distinct stemmed words of a keyword that say what it is about
+ * @returns {Array<string>}
+ */
+function keywordTokens(keyword) {
+  const words = keyword
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word.length > 0 && !STOP_WORDS.has(word));
+  return Array.from(new Set(words.map(stemWord)));
+}
+
+// Dice coefficient of two token lists: 1 for the same words, 0 for none in common
+function tokenSimilarity(a, b) {
+  if (a.length === 0 || b.length === 0) return 0;
+  const shared = a.filter(token => b.includes(token)).length;
+  return (2 * shared) / (a.length + b.length);
+}
+
+function cosineSimilarity(a, b) {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function embeddingSimilarity(a, b) {
+  const cosine = cosineSimilarity(a, b);
+  return cosine <= EMBEDDING_SIMILARITY_FLOOR ? 0 : (cosine - EMBEDDING_SIMILARITY_FLOOR) / (1 - EMBEDDING_SIMILARITY_FLOOR);
+}
+
+/**
+ * Groups keywords into topic clusters with average-linkage agglomerative clustering:
+ * every keyword starts on its own and the two most similar clusters merge until no
+ * pair reaches the threshold. Similarity is word overlap, or the better of word
+ * overlap and embedding similarity when embeddings are given.
+ *
+ * Each cluster is labelled with its most central keyword (highest traffic on ties)
+ * and carries the summed traffic and opportunity of its keywords, so clusters can be
+ * compared as metadata themes. Clusters come back largest opportunity first.
+ *
+ * @param {Array<Object>} keywords - { keyword, traffic?, opportunity?, ... }, extra fields are kept
+ * @param {Object} options - { embeddings?: Array<Array<number>> in keyword order, threshold?: number }
+ * @returns {Array<{ label: string, keywords: Array<Object>, traffic: number, opportunity: number }>}
+ */
+function clusterKeywords(keywords, options = {}) {
+  const threshold = options.threshold ?? DEFAULT_CLUSTER_THRESHOLD;
+  const embeddings = options.embeddings;
+  const tokens = keywords.map(k => keywordTokens(k.keyword));
+
+  const similarity = keywords.map((_, i) => keywords.map((__, j) => {
+    if (i === j) return 1;
+    const overlap = tokenSimilarity(tokens[i], tokens[j]);
+    return embeddings ? Math.max(overlap, embeddingSimilarity(embeddings[i], embeddings[j])) : overlap;
+  }));
+
+  const averageSimilarity = (a, b) => {
+    let total = 0;
+    for (const i of a) {
+      for (const j of b) total += similarity[i][j];
+    }
+    return total / (a.length * b.length);
+  };
+
+  let groups = keywords.map((_, i) => [i]);
+  for (;;) {
+    let best = null;
+    for (let a = 0; a < groups.length; a++) {
+      for (let b = a + 1; b < groups.length; b++) {
+        const score = averageSimilarity(groups[a], groups[b]);
+        if (score >= threshold && (!best || score > best.score)) {
+          best = { a, b, score };
+        }
+      }
+    }
+
+    if (!best) break;
+    groups[best.a] = [...groups[best.a], ...groups[best.b]];
+    groups = groups.filter((_, i) => i !== best.b);
+  }
+
+  return groups
+    .map(group => {
+      const members = group.map(i => keywords[i]);
+      const centrality = i => group.reduce((sum, j) => sum + similarity[i][j], 0);
+      const labelIndex = group.reduce((best, i) => {
+        const diff = centrality(i) - centrality(best);
+        return diff > 1e-9 || (Math.abs(diff) <= 1e-9 && (keywords[i].traffic ?? 0) > (keywords[best].traffic ?? 0)) ? i : best;
+      });
+
+      return {
+        label: keywords[labelIndex].keyword,
+        keywords: members.sort((a, b) => (b.opportunity ?? -1) - (a.opportunity ?? -1)),
+        traffic: members.reduce((sum, k) => sum + (k.traffic ?? 0), 0),
+        opportunity: members.reduce((sum, k) => sum + (k.opportunity ?? 0), 0)
+      };
+    })
+    .sort((a, b) => b.opportunity - a.opportunity || b.keywords.length - a.keywords.length);
+}
+
+/**
+ * Embeds keywords with the provider in batches, reusing cached vectors
+ * @returns {Promise<Array<Array<number>>>} Vectors in keyword order
+ */
+async function embedKeywords(provider, keywords) {
+  const key = text => `${provider.name}:${provider.embeddingModel}:${text}`;
+  const missing = Array.from(new Set(keywords.filter(text => !embeddingCache.has(key(text)))));
+
+  for (let start = 0; start < missing.length; start += EMBEDDING_BATCH_SIZE) {
+    const batch = missing.slice(start, start + EMBEDDING_BATCH_SIZE);
+    const vectors = await provider.embed(batch);
+    batch.forEach((text, i) => embeddingCache.set(key(text), vectors[i]));
+  }
+
+  return keywords.map(text => embeddingCache.get(key(text)));
+}
+
+/**
+ * Clusters keywords with the configured method
+ * Falls back to word overlap when the provider can't embed or the request fails,
+ * and reports which method was actually used.
+ * @param {Array<Object>} keywords - { keyword, traffic?, opportunity?, ... }
+ * @param {Object} options - { provider?: keyword provider, method?: tokens | embeddings, threshold?: number }
+ * @returns {Promise<{ method: string, clusters: Array<Object> }>}
+ */
+async function buildKeywordClusters(keywords, options = {}) {
+  const method = options.method || getClusteringMethod();
+  const provider = options.provider;
+
+  if (method === 'embeddings' && keywords.length > 1) {
+    if (!provider || typeof provider.embed !== 'function') {
+      console.warn(`⚠️ The ${provider ? provider.name : 'keyword'} provider has no embeddings, clustering by shared words`);
+    } else {
+      try {
+        const embeddings = await embedKeywords(provider, keywords.map(k => k.keyword));
+        return { method: 'embeddings', clusters: clusterKeywords(keywords, { embeddings, threshold: options.threshold }) };
+      } catch (error) {
+        console.warn(`⚠️ Keyword embeddings failed, clustering by shared words: ${error.message}`);
+      }
+    }
+  }
+
+  return { method: 'tokens', clusters: clusterKeywords(keywords, { threshold: options.threshold }) };
+}
+
+module.exports = {
+  CLUSTERING_METHODS,
+  DEFAULT_CLUSTER_THRESHOLD,
+  getClusteringMethod,
+  stemWord,
+  keywordTokens,
+  clusterKeywords,
+  buildKeywordClusters
+};
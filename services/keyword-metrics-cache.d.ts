@@ -0,0 +1,42 @@
+// Type declarations for keyword-metrics-cache.js, used by the web dashboard
+
+export interface MetricsLookup {
+  keyword: string;
+  platform: string;
+  country: string;
+}
+
+// traffic and difficulty on the 0-100 scale, breakdown is aso-v2's raw analysis
+export interface CachedKeywordMetrics extends MetricsLookup {
+  traffic: number;
+  difficulty: number;
+  breakdown: unknown;
+  fetchedAt: string;
+}
+
+export interface KeywordMetricsStore {
+  get(lookup: MetricsLookup): Promise<CachedKeywordMetrics | null>;
+  set(entry: CachedKeywordMetrics): Promise<void>;
+}
+
+export interface KeywordMetricsCache {
+  ttlMs: number;
+  stats: { hits: number; misses: number };
+  get(keyword: string, platform: string, country: string): Promise<CachedKeywordMetrics | null>;
+  set(
+    keyword: string,
+    platform: string,
+    country: string,
+    metrics: { traffic: number; difficulty: number; breakdown: unknown }
+  ): Promise<void>;
+}
+
+export const DEFAULT_CACHE_TTL_HOURS: number;
+
+export function getKeywordCacheTtlMs(env?: Record<string, string | undefined>): number;
+
+export function createMemoryMetricsStore(): KeywordMetricsStore;
+
+export function createFileMetricsStore(file: string): KeywordMetricsStore;
+
+export function createKeywordMetricsCache(options?: { store?: KeywordMetricsStore; ttlMs?: number }): KeywordMetricsCache;
@@ -0,0 +1,146 @@
+const fs = require('fs');
+const path = require('path');
+
+/**
+ * Keyword metrics cache shared by the CLI and the web dashboard
+ * Scoring a keyword with aso-v2 takes 300-500 ms and its traffic and difficulty move
+ * slowly, so metrics fetched while analyzing one app are reused for every other app
+ * that targets the same keyword in the same storefront until they expire.
+ *
+ * Entries are keyed on keyword + platform + country and hold the scaled scores,
+ * aso-v2's raw breakdown and when they were fetched. Where they are kept is up to
+ * the store: the CLI uses a JSON file, the web dashboard its SQLite database.
+ *
+ * Configuration comes from the environment:
+ *   KEYWORD_CACHE_TTL_HOURS  how long fetched metrics are reused (default: 168, 0 turns the cache off)
+ */
+
+const DEFAULT_CACHE_TTL_HOURS = 168;
+
+/**
+ * Reads the cache TTL from environment variables
+ * @param {Object} env - Environment to read (defaults to process.env)
+ * @returns {number} TTL in milliseconds, 0 when caching is off
+ */
+function getKeywordCacheTtlMs(env = process.env) {
+  const value = env.KEYWORD_CACHE_TTL_HOURS;
+  const hours = value === undefined || value === '' ? DEFAULT_CACHE_TTL_HOURS : Number(value);
+  if (!Number.isFinite(hours) || hours < 0) {
+    throw new Error(`Invalid KEYWORD_CACHE_TTL_HOURS "${value}". Use a number of hours, or 0 to turn the cache off`);
+  }
+  return hours * 60 * 60 * 1000;
+}
+
+// Normalize: lowercase, trim, remove extra spaces
+function normalizeCacheKeyword(keyword) {
+  return keyword.toLowerCase().trim().replace(/\s+/g, ' ');
+}
+
+function metricsCacheKey({ keyword, platform, country }) {
+  return `${platform}:${country}:${normalizeCacheKeyword(keyword)}`;
+}
+
+/**
+ * Store that only lives as long as the process
+ */
+function createMemoryMetricsStore() {
+  const entries = new Map();
+  return {
+    async get(lookup) {
+      return entries.get(metricsCacheKey(lookup)) || null;
+    },
+    async set(entry) {
+      entries.set(metricsCacheKey(entry), entry);
+    }
+  };
+}
+
+/**
+ * JSON file store used by the CLI
+ * The file is read on first use and rewritten after every new entry, so an
+ * interrupted run keeps everything it fetched.
+ * @param {string} file - Path of the cache file, created on first write
+ */
+function createFileMetricsStore(file) {
+  let entries = null;
+
+  const load = () => {
+    if (!entries) {
+      try {
+        entries = JSON.parse(fs.readFileSync(file, 'utf8'));
+      } catch {
+        entries = {};
+      }
+    }
+    return entries;
+  };
+
+  return {
+    async get(lookup) {
+      return load()[metricsCacheKey(lookup)] || null;
+    },
+    async set(entry) {
+      load()[metricsCacheKey(entry)] = entry;
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      fs.writeFileSync(file, JSON.stringify(entries));
+    }
+  };
+}
+
+/**
+ * Creates a metrics cache on top of a store
+ * get() only returns entries younger than the TTL; set() stores freshly fetched
+ * metrics. Hits and misses are counted so callers can report what the cache saved.
+ * @param {Object} options - { store?: defaults to an in-memory store, ttlMs?: defaults to getKeywordCacheTtlMs() }
+ */
+function createKeywordMetricsCache(options = {}) {
+  const store = options.store || createMemoryMetricsStore();
+  const ttlMs = options.ttlMs ?? getKeywordCacheTtlMs();
+  const stats = { hits: 0, misses: 0 };
+
+  return {
+    ttlMs,
+    stats,
+
+    /**
+     * @returns {Promise<Object|null>} { keyword, platform, country, traffic, difficulty, breakdown, fetchedAt } or null
+     */
+    async get(keyword, platform, country) {
+      if (ttlMs <= 0) return null;
+
+      const entry = await store.get({ keyword: normalizeCacheKeyword(keyword), platform, country });
+      if (!entry || Date.now() - new Date(entry.fetchedAt).getTime() > ttlMs) {
+        stats.misses++;
+        return null;
+      }
+
+      stats.hits++;
+      return entry;
+    },
+
+    /**
+     * @param {Object} metrics - { traffic, difficulty, breakdown }, scores on the 0-100 scale
+     */
+    async set(keyword, platform, country, metrics) {
+      if (ttlMs <= 0) return;
+
+      await store.set({
+        keyword: normalizeCacheKeyword(keyword),
+        platform,
+        country,
+        traffic: metrics.traffic,
+        difficulty: metrics.difficulty,
+        breakdown: metrics.breakdown,
+        fetchedAt: new Date().toISOString()
+      });
+    }
+  };
+}
+
+module.exports = {
+  DEFAULT_CACHE_TTL_HOURS,
+  getKeywordCacheTtlMs,
+  createMemoryMetricsStore,
+  createFileMetricsStore,
+  createKeywordMetricsCache
+};
@@ -0,0 +1,84 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const {
+  DEFAULT_CACHE_TTL_HOURS,
+  getKeywordCacheTtlMs,
+  createMemoryMetricsStore,
+  createFileMetricsStore,
+  createKeywordMetricsCache
+} = require('./keyword-metrics-cache');
+
+const HOUR_MS = 60 * 60 * 1000;
+const metrics = { traffic: 40, difficulty: 25, breakdown: { installs: 3 } };
+
+test('getKeywordCacheTtlMs', async (t) => {
+  await t.test('defaults to a week', () => {
+    assert.equal(getKeywordCacheTtlMs({}), DEFAULT_CACHE_TTL_HOURS * HOUR_MS);
+    assert.equal(getKeywordCacheTtlMs({ KEYWORD_CACHE_TTL_HOURS: '' }), DEFAULT_CACHE_TTL_HOURS * HOUR_MS);
+  });
+
+  await t.test('reads hours, 0 turns the cache off', () => {
+    assert.equal(getKeywordCacheTtlMs({ KEYWORD_CACHE_TTL_HOURS: '24' }), 24 * HOUR_MS);
+    assert.equal(getKeywordCacheTtlMs({ KEYWORD_CACHE_TTL_HOURS: '0' }), 0);
+  });
+
+  await t.test('rejects negative and non-numeric values', () => {
+    assert.throws(() => getKeywordCacheTtlMs({ KEYWORD_CACHE_TTL_HOURS: '-1' }), /Invalid KEYWORD_CACHE_TTL_HOURS/);
+    assert.throws(() => getKeywordCacheTtlMs({ KEYWORD_CACHE_TTL_HOURS: 'week' }), /Invalid KEYWORD_CACHE_TTL_HOURS/);
+  });
+});
+
+test('createKeywordMetricsCache', async (t) => {
+  await t.test('returns stored metrics until they expire', async () => {
+    const store = createMemoryMetricsStore();
+    const cache = createKeywordMetricsCache({ store, ttlMs: HOUR_MS });
+
+    await cache.set('Meeting Notes', 'iphone', 'us', metrics);
+    const entry = await cache.get('meeting notes', 'iphone', 'us');
+    assert.equal(entry.traffic, 40);
+    assert.deepEqual(entry.breakdown, { installs: 3 });
+
+    await store.set({ ...entry, fetchedAt: new Date(Date.now() - 2 * HOUR_MS).toISOString() });
+    assert.equal(await cache.get('meeting notes', 'iphone', 'us'), null);
+    assert.deepEqual(cache.stats, { hits: 1, misses: 1 });
+  });
+
+  await t.test('matches keywords however they are spaced or cased', async () => {
+    const cache = createKeywordMetricsCache({ ttlMs: HOUR_MS });
+    await cache.set('  Voice   Recorder ', 'iphone', 'us', metrics);
+    assert.ok(await cache.get('voice recorder', 'iphone', 'us'));
+  });
+
+  await t.test('keeps storefronts and platforms apart', async () => {
+    const cache = createKeywordMetricsCache({ ttlMs: HOUR_MS });
+    await cache.set('notes', 'iphone', 'us', metrics);
+    assert.equal(await cache.get('notes', 'iphone', 'de'), null);
+    assert.equal(await cache.get('notes', 'ipad', 'us'), null);
+  });
+
+  await t.test('stores and returns nothing when the TTL is 0', async () => {
+    const store = createMemoryMetricsStore();
+    const cache = createKeywordMetricsCache({ store, ttlMs: 0 });
+    await cache.set('notes', 'iphone', 'us', metrics);
+    assert.equal(await store.get({ keyword: 'notes', platform: 'iphone', country: 'us' }), null);
+    assert.equal(await cache.get('notes', 'iphone', 'us'), null);
+  });
+});
+
+test('createFileMetricsStore keeps entries across instances', async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'keyword-metrics-'));
+  try {
+    const file = path.join(dir, 'nested', 'keyword-metrics.json');
+    await createKeywordMetricsCache({ store: createFileMetricsStore(file), ttlMs: HOUR_MS })
+      .set('notes', 'iphone', 'us', metrics);
+
+    const entry = await createKeywordMetricsCache({ store: createFileMetricsStore(file), ttlMs: HOUR_MS })
+      .get('notes', 'iphone', 'us');
+    assert.equal(entry.difficulty, 25);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,38 @@
+// Type declarations for keyword-pool.js, used by the web dashboard
+
+export interface KeywordPoolConfig {
+  concurrency: number;
+  requestsPerSecond: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export type Throttle = () => Promise<void>;
+
+export type PoolOutcome<T> =
+  | { status: 'succeeded'; value: T }
+  | { status: 'no_data'; error: NoKeywordDataError }
+  | { status: 'failed'; error: unknown; attempts: number };
+
+export interface KeywordPoolOptions<I, T> extends Partial<KeywordPoolConfig> {
+  throttle?: Throttle;
+  onRetry?: (item: I, error: unknown, attempt: number, waitMs: number) => void;
+  onSettled?: (item: I, outcome: PoolOutcome<T>, index: number) => void | Promise<void>;
+}
+
+export const DEFAULT_POOL_CONFIG: KeywordPoolConfig;
+
+export class NoKeywordDataError extends Error {}
+
+export function getKeywordPoolConfig(env?: Record<string, string | undefined>): KeywordPoolConfig;
+
+export function createRateLimiter(requestsPerSecond: number): Throttle;
+
+export function backoffDelay(attempt: number, baseDelayMs?: number, maxDelayMs?: number): number;
+
+export function runKeywordPool<I, T>(
+  items: I[],
+  task: (item: I, context: { throttle: Throttle; attempt: number }) => Promise<T>,
+  options?: KeywordPoolOptions<I, T>
+): Promise<PoolOutcome<T>[]>;
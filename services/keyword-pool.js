@@ -0,0 +1,153 @@
+/**
+ * Worker pool for keyword analysis, shared by the CLI and the web dashboard
+ * Keywords are measured by a few workers at once while a shared rate limiter keeps
+ * aso-v2 lookups under a requests-per-second budget. A lookup that fails because of
+ * the network or the App Store throttling us is retried with exponential backoff and
+ * jitter; a keyword the App Store simply has no data for is reported as such right
+ * away, so only those become final failures.
+ *
+ * Configuration comes from the environment:
+ *   KEYWORD_CONCURRENCY          keywords analyzed at the same time (default: 3)
+ *   KEYWORD_REQUESTS_PER_SECOND  aso-v2 lookups started per second across all workers (default: 2)
+ *   KEYWORD_MAX_RETRIES          retries after a network or rate-limit failure (default: 3)
+ */
+
+const DEFAULT_POOL_CONFIG = {
+  concurrency: 3,
+  requestsPerSecond: 2,
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000
+};
+
+/**
+ * Thrown when aso-v2 answers but has no traffic or difficulty data for a keyword.
+ * Retrying won't change that, so the pool records it as a final failure.
+ */
+class NoKeywordDataError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'NoKeywordDataError';
+  }
+}
+
+function readNumber(env, name, fallback, min) {
+  const value = env[name];
+  if (value === undefined || value === '') return fallback;
+
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < min) {
+    throw new Error(`Invalid ${name} "${value}". Use a number of at least ${min}`);
+  }
+  return number;
+}
+
+/**
+ * Reads the pool settings from environment variables
+ * @param {Object} env - Environment to read (defaults to process.env)
+ * @returns {Object} { concurrency, requestsPerSecond, maxRetries, baseDelayMs, maxDelayMs }
+ */
+function getKeywordPoolConfig(env = process.env) {
+  return {
+    ...DEFAULT_POOL_CONFIG,
+    concurrency: Math.floor(readNumber(env, 'KEYWORD_CONCURRENCY', DEFAULT_POOL_CONFIG.concurrency, 1)),
+    requestsPerSecond: readNumber(env, 'KEYWORD_REQUESTS_PER_SECOND', DEFAULT_POOL_CONFIG.requestsPerSecond, 0.1),
+    maxRetries: Math.floor(readNumber(env, 'KEYWORD_MAX_RETRIES', DEFAULT_POOL_CONFIG.maxRetries, 0))
+  };
+}
+
+function sleep(ms) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Creates a throttle that spaces out request starts to stay within the budget
+ * Callers await it right before a request; concurrent callers queue up in order.
+ * @param {number} requestsPerSecond - Requests allowed to start per second
+ * @returns {Function} async throttle()
+ */
+function createRateLimiter(requestsPerSecond) {
+  const interval = 1000 / requestsPerSecond;
+  let nextStart = 0;
+
+  return async function throttle() {
+    const now = Date.now();
+    const start = Math.max(now, nextStart);
+    nextStart = start + interval;
+    if (start > now) await sleep(start - now);
+  };
+}
+
+/**
+ * Wait before a retry: doubles per attempt up to the cap, with full jitter so
+ * workers that failed together don't retry together
+ * @param {number} attempt - 1 for the first retry
+ */
+function backoffDelay(attempt, baseDelayMs = DEFAULT_POOL_CONFIG.baseDelayMs, maxDelayMs = DEFAULT_POOL_CONFIG.maxDelayMs) {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+}
+
+/**
+ * Runs a task for every item with a pool of workers
+ * The task gets the item and { throttle, attempt }. It should await throttle()
+ * right before each network request, so work answered from a cache costs nothing
+ * from the budget. A NoKeywordDataError settles the item as no_data, any other
+ * error is retried until maxRetries is used up and then settles it as failed.
+ *
+ * @param {Array} items - Items to process
+ * @param {Function} task - async (item, { throttle, attempt }) => value
+ * @param {Object} options - Pool config overrides, plus throttle? to share a rate
+ *   limiter between pools, onRetry?(item, error, attempt, waitMs) and onSettled?(item, outcome, index)
+ * @returns {Promise<Array<Object>>} Outcomes in item order: { status: 'succeeded', value },
+ *   { status: 'no_data', error } or { status: 'failed', error, attempts }
+ */
+async function runKeywordPool(items, task, options = {}) {
+  const config = { ...getKeywordPoolConfig(), ...options };
+  const throttle = options.throttle || createRateLimiter(config.requestsPerSecond);
+  const outcomes = new Array(items.length);
+  let next = 0;
+
+  const settle = async (index) => {
+    const item = items[index];
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return { status: 'succeeded', value: await task(item, { throttle, attempt }) };
+      } catch (error) {
+        if (error instanceof NoKeywordDataError) {
+          return { status: 'no_data', error };
+        }
+        if (attempt >= config.maxRetries) {
+          return { status: 'failed', error, attempts: attempt + 1 };
+        }
+
+        const wait = backoffDelay(attempt + 1, config.baseDelayMs, config.maxDelayMs);
+        if (options.onRetry) options.onRetry(item, error, attempt + 1, wait);
+        await sleep(wait);
+      }
+    }
+  };
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      outcomes[index] = await settle(index);
+      if (options.onSettled) await options.onSettled(items[index], outcomes[index], index);
+    }
+  };
+
+  const workers = Math.min(config.concurrency, items.length);
+  await Promise.all(Array.from({ length: workers }, worker));
+
+  return outcomes;
+}
+
+module.exports = {
+  DEFAULT_POOL_CONFIG,
+  NoKeywordDataError,
+  getKeywordPoolConfig,
+  createRateLimiter,
+  backoffDelay,
+  runKeywordPool
+};
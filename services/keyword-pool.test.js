@@ -0,0 +1,119 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const {
+  DEFAULT_POOL_CONFIG,
+  NoKeywordDataError,
+  getKeywordPoolConfig,
+  createRateLimiter,
+  backoffDelay,
+  runKeywordPool
+} = require('./keyword-pool');
+
+// Pool options that don't wait between attempts or requests
+const fast = { concurrency: 2, maxRetries: 2, baseDelayMs: 1, maxDelayMs: 1, throttle: async () => {} };
+
+test('getKeywordPoolConfig', async (t) => {
+  await t.test('uses the defaults without environment variables', () => {
+    assert.deepEqual(getKeywordPoolConfig({}), DEFAULT_POOL_CONFIG);
+  });
+
+  await t.test('reads the environment', () => {
+    const config = getKeywordPoolConfig({
+      KEYWORD_CONCURRENCY: '5.7',
+      KEYWORD_REQUESTS_PER_SECOND: '0.5',
+      KEYWORD_MAX_RETRIES: '0'
+    });
+    assert.equal(config.concurrency, 5);
+    assert.equal(config.requestsPerSecond, 0.5);
+    assert.equal(config.maxRetries, 0);
+  });
+
+  await t.test('rejects values below the minimum', () => {
+    assert.throws(() => getKeywordPoolConfig({ KEYWORD_CONCURRENCY: '0' }), /Invalid KEYWORD_CONCURRENCY/);
+    assert.throws(() => getKeywordPoolConfig({ KEYWORD_MAX_RETRIES: 'many' }), /Invalid KEYWORD_MAX_RETRIES/);
+  });
+});
+
+test('backoffDelay', async (t) => {
+  await t.test('doubles per attempt with jitter in the upper half', (t) => {
+    t.mock.method(Math, 'random', () => 0);
+    assert.deepEqual([1, 2, 3].map(attempt => backoffDelay(attempt, 1000, 30000)), [500, 1000, 2000]);
+
+    Math.random.mock.mockImplementation(() => 1);
+    assert.deepEqual([1, 2, 3].map(attempt => backoffDelay(attempt, 1000, 30000)), [1000, 2000, 4000]);
+  });
+
+  await t.test('never exceeds the cap', () => {
+    for (let attempt = 1; attempt <= 20; attempt++) {
+      assert.ok(backoffDelay(attempt, 1000, 30000) <= 30000);
+    }
+  });
+});
+
+test('createRateLimiter spaces out request starts', async () => {
+  const throttle = createRateLimiter(50);
+  const started = Date.now();
+  await Promise.all([throttle(), throttle(), throttle()]);
+  // The third request starts two 20 ms intervals after the first
+  assert.ok(Date.now() - started >= 35);
+});
+
+test('runKeywordPool', async (t) => {
+  await t.test('returns outcomes in item order', async () => {
+    const outcomes = await runKeywordPool([30, 10, 20], async (ms) => {
+      await new Promise(resolve => setTimeout(resolve, ms));
+      return ms * 2;
+    }, fast);
+    assert.deepEqual(outcomes.map(outcome => outcome.value), [60, 20, 40]);
+  });
+
+  await t.test('runs at most the configured number of tasks at once', async () => {
+    let running = 0;
+    let peak = 0;
+    await runKeywordPool([1, 2, 3, 4, 5], async () => {
+      peak = Math.max(peak, ++running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+    }, fast);
+    assert.equal(peak, 2);
+  });
+
+  await t.test('retries transient failures until they succeed', async () => {
+    const retries = [];
+    const outcomes = await runKeywordPool(['notes'], async (item, { attempt }) => {
+      if (attempt < 2) throw new Error('ECONNRESET');
+      return item;
+    }, { ...fast, onRetry: (item, error, attempt) => retries.push(attempt) });
+
+    assert.deepEqual(outcomes, [{ status: 'succeeded', value: 'notes' }]);
+    assert.deepEqual(retries, [1, 2]);
+  });
+
+  await t.test('gives up after the last retry', async () => {
+    const [outcome] = await runKeywordPool(['notes'], async () => {
+      throw new Error('429');
+    }, fast);
+    assert.equal(outcome.status, 'failed');
+    assert.equal(outcome.attempts, 3);
+    assert.equal(outcome.error.message, '429');
+  });
+
+  await t.test('does not retry keywords without data', async () => {
+    let calls = 0;
+    const [outcome] = await runKeywordPool(['notes'], async () => {
+      calls++;
+      throw new NoKeywordDataError('No data');
+    }, fast);
+    assert.equal(outcome.status, 'no_data');
+    assert.equal(calls, 1);
+  });
+
+  await t.test('reports every settled item', async () => {
+    const settled = [];
+    await runKeywordPool(['a', 'b'], async (item) => item, {
+      ...fast,
+      onSettled: (item, outcome, index) => settled.push([item, outcome.status, index])
+    });
+    assert.deepEqual(settled.sort(), [['a', 'succeeded', 0], ['b', 'succeeded', 1]]);
+  });
+});
@@ -0,0 +1,59 @@
+// Type declarations for keyword-providers.js, used by the web dashboard
+
+export type KeywordProviderName = 'gemini' | 'openai' | 'mock';
+
+export interface KeywordProviderConfig {
+  provider: KeywordProviderName;
+  model: string;
+  embeddingModel: string;
+  baseUrl: string;
+  apiKey: string;
+}
+
+// Base64 encoded image passed to multimodal models
+export interface KeywordImage {
+  data: string;
+  mimeType: string;
+}
+
+export interface KeywordRequest {
+  title: string;
+  description: string;
+  country?: string;
+  images?: KeywordImage[];
+}
+
+// screenshotKeywords is the subset of keywords the model took from the screenshots
+export interface KeywordResult {
+  keywords: string[];
+  screenshotKeywords: string[];
+}
+
+export interface KeywordProvider {
+  name: KeywordProviderName;
+  model: string;
+  generateKeywords(request: KeywordRequest): Promise<KeywordResult>;
+  // Only providers with an embedding endpoint; the mock provider has none
+  embeddingModel?: string;
+  embed?(texts: string[]): Promise<number[][]>;
+}
+
+export const PROVIDER_NAMES: KeywordProviderName[];
+
+export const DEFAULT_MODELS: Record<KeywordProviderName, string>;
+
+export const DEFAULT_EMBEDDING_MODELS: Record<KeywordProviderName, string>;
+
+export const MAX_SCREENSHOTS: number;
+
+export function getKeywordProviderConfig(env?: Record<string, string | undefined>): KeywordProviderConfig;
+
+export function createKeywordProvider(config?: KeywordProviderConfig): KeywordProvider;
+
+export function buildKeywordPrompt(request: KeywordRequest): string;
+
+export function parseKeywordResponse(text: string): KeywordResult;
+
+export function fetchImageAsBase64(imageUrl: string): Promise<KeywordImage>;
+
+export function fetchScreenshots(urls: string[], limit?: number): Promise<KeywordImage[]>;
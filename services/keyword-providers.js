@@ -0,0 +1,443 @@
+const { KEYWORD_FUNCTION } = require('../tools/keyword-tool');
+
+/**
+ * Keyword generation providers shared by the CLI and the web dashboard
+ * Every provider takes the same request and returns { keywords, screenshotKeywords },
+ * where screenshotKeywords are the ones the model took from the attached screenshots:
+ * - gemini: Google Gemini through its REST API (GEMINI_API_KEY)
+ * - openai: any OpenAI-compatible chat completions endpoint, e.g. a local model server
+ * - mock:   deterministic keywords from the app's own text, no network needed
+ *
+ * Configuration comes from the environment:
+ *   KEYWORD_PROVIDER  gemini | openai | mock (default: gemini)
+ *   KEYWORD_MODEL     model name, defaults per provider
+ *   OPENAI_BASE_URL   base URL of the OpenAI-compatible API (default: https://api.openai.com/v1)
+ *   OPENAI_API_KEY    bearer token for it, optional for local servers
+ *   KEYWORD_EMBEDDING_MODEL  embedding model for keyword clustering, defaults per provider
+ *
+ * The gemini and openai providers can also embed keywords (embed), which keyword
+ * clustering uses to group keywords that mean the same without sharing words.
+ */
+
+const PROVIDER_NAMES = ['gemini', 'openai', 'mock'];
+
+const DEFAULT_MODELS = {
+  gemini: 'gemini-2.5-flash',
+  openai: 'gpt-4o-mini',
+  mock: 'mock'
+};
+
+const DEFAULT_EMBEDDING_MODELS = {
+  gemini: 'text-embedding-004',
+  openai: 'text-embedding-3-small',
+  mock: ''
+};
+
+// App Store pages show up to 10 screenshots; the first ones carry the captions that matter most
+const MAX_SCREENSHOTS = 5;
+
+// Requests that hang are aborted, so a stuck model can't keep an analysis running forever.
+// Keyword generation gets the longest, local models can take a while with screenshots.
+const GENERATE_TIMEOUT_MS = 2 * 60 * 1000;
+const EMBED_TIMEOUT_MS = 60 * 1000;
+const IMAGE_TIMEOUT_MS = 15 * 1000;
+
+/**
+ * Builds the provider config from environment variables
+ * @param {Object} env - Environment to read (defaults to process.env)
+ * @returns {{ provider: string, model: string, embeddingModel: string, baseUrl: string, apiKey: string }}
+ */
+function getKeywordProviderConfig(env = process.env) {
+  const provider = (env.KEYWORD_PROVIDER || 'gemini').toLowerCase();
+  if (!PROVIDER_NAMES.includes(provider)) {
+    throw new Error(`Unknown KEYWORD_PROVIDER "${provider}". Use one of: ${PROVIDER_NAMES.join(', ')}`);
+  }
+
+  return {
+    provider,
+    model: env.KEYWORD_MODEL || DEFAULT_MODELS[provider],
+    embeddingModel: provider === 'mock' ? '' : (env.KEYWORD_EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODELS[provider]),
+    baseUrl: provider === 'openai' ? (env.OPENAI_BASE_URL || 'https://api.openai.com/v1') : '',
+    apiKey: provider === 'gemini' ? (env.GEMINI_API_KEY || '') : provider === 'openai' ? (env.OPENAI_API_KEY || '') : ''
+  };
+}
+
+/**
+ * Builds the prompt shared by all LLM providers
+ * @param {Object} request - { title, description, country?, images? }
+ */
+function buildKeywordPrompt(request) {
+  const lines = [
+    'Analyze this app store data and generate the most relevant search keywords that users would likely use to find this app on the App Store.',
+    '',
+    `Title: ${request.title}`,
+    '',
+    `Description: ${request.description}`,
+    ''
+  ];
+
+  if (request.country) {
+    lines.push(`Storefront: ${request.country}. Use the language and phrasing people search with in this storefront.`, '');
+  }
+
+  const hasImages = request.images && request.images.length > 0;
+  if (hasImages) {
+    lines.push(
+      'Screenshots of the App Store page are attached. Use what they show, especially their captions, together with the title and description.',
+      'List the keywords you took from the screenshots (caption text or features shown) in "screenshotKeywords" as well.',
+      ''
+    );
+  }
+
+  lines.push(
+    'Only return exact search phrases users would type that are directly related to the title, screenshots and description.',
+    'Exclude long tail keywords, "* app" search phrases and phrases nobody would search for.',
+    'Generate 20-30 keywords.',
+    '',
+    hasImages
+      ? 'Return ONLY JSON in the form {"keywords": ["keyword 1", "keyword 2"], "screenshotKeywords": ["keyword 2"]}, nothing else.'
+      : 'Return ONLY JSON in the form {"keywords": ["keyword 1", "keyword 2"]}, nothing else.'
+  );
+
+  return lines.join('\n');
+}
+
+const toKeywordList = list => (Array.isArray(list) ? list : [])
+  .filter(k => typeof k === 'string' && k.trim().length > 0)
+  .map(k => k.trim());
+
+/**
+ * Extracts the keywords from a model's text output
+ * Accepts {"keywords": [...], "screenshotKeywords": [...]} or a bare JSON array,
+ * optionally wrapped in prose or code fences. Screenshot keywords the model didn't
+ * also list as keywords are dropped.
+ * @returns {{ keywords: Array<string>, screenshotKeywords: Array<string> }}
+ */
+function parseKeywordResponse(text) {
+  const candidates = [text.match(/\{[\s\S]*\}/), text.match(/\[[\s\S]*\]/)];
+
+  for (const match of candidates) {
+    if (!match) continue;
+    try {
+      const parsed = JSON.parse(match[0]);
+      const list = Array.isArray(parsed) ? parsed : parsed.keywords;
+      if (Array.isArray(list)) {
+        const keywords = toKeywordList(list);
+        const known = new Set(keywords.map(k => k.toLowerCase()));
+        const screenshotKeywords = toKeywordList(parsed.screenshotKeywords)
+          .filter(k => known.has(k.toLowerCase()));
+        return { keywords, screenshotKeywords };
+      }
+    } catch {
+      // Try the next shape
+    }
+  }
+
+  throw new Error('Failed to parse keywords from AI response');
+}
+
+/**
+ * Google Gemini via the generateContent REST endpoint
+ * Uses a JSON response schema so the output is always {"keywords": [...]}
+ */
+function createGeminiProvider(config) {
+  return {
+    name: 'gemini',
+    model: config.model,
+    embeddingModel: config.embeddingModel,
+    async generateKeywords(request) {
+      if (!config.apiKey) {
+        throw new Error('GEMINI_API_KEY is not set. Set it, or choose another KEYWORD_PROVIDER (openai, mock)');
+      }
+
+      const parts = [{ text: buildKeywordPrompt(request) }];
+      for (const image of request.images || []) {
+        parts.push({ inlineData: { data: image.data, mimeType: image.mimeType } });
+      }
+
+      const url = `https://generativelanguage.googleapis.com/v1beta/models/${config.model}:generateContent`;
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-goog-api-key': config.apiKey },
+        body: JSON.stringify({
+          contents: [{ role: 'user', parts }],
+          generationConfig: {
+            responseMimeType: 'application/json',
+            responseSchema: {
+              type: 'OBJECT',
+              properties: {
+                keywords: {
+                  type: 'ARRAY',
+                  items: { type: 'STRING' },
+                  description: KEYWORD_FUNCTION.input_schema.properties.keywords.description
+                },
+                screenshotKeywords: {
+                  type: 'ARRAY',
+                  items: { type: 'STRING' },
+                  description: 'The keywords taken from the screenshots'
+                }
+              },
+              required: ['keywords']
+            }
+          }
+        }),
+        signal: AbortSignal.timeout(GENERATE_TIMEOUT_MS)
+      });
+
+      if (!response.ok) {
+        throw new Error(`Gemini request failed: ${response.status} ${await response.text()}`);
+      }
+
+      const data = await response.json();
+      const text = (data.candidates?.[0]?.content?.parts || []).map(part => part.text || '').join('');
+      return parseKeywordResponse(text);
+    },
+    async embed(texts) {
+      if (!config.apiKey) {
+        throw new Error('GEMINI_API_KEY is not set');
+      }
+
+      const url = `https://generativelanguage.googleapis.com/v1beta/models/${config.embeddingModel}:batchEmbedContents`;
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-goog-api-key': config.apiKey },
+        body: JSON.stringify({
+          requests: texts.map(text => ({
+            model: `models/${config.embeddingModel}`,
+            content: { parts: [{ text }] }
+          }))
+        }),
+        signal: AbortSignal.timeout(EMBED_TIMEOUT_MS)
+      });
+
+      if (!response.ok) {
+        throw new Error(`Gemini embedding request failed: ${response.status} ${await response.text()}`);
+      }
+
+      const data = await response.json();
+      return (data.embeddings || []).map(embedding => embedding.values);
+    }
+  };
+}
+
+/**
+ * OpenAI-compatible chat completions endpoint
+ * Works with OpenAI itself and local servers such as Ollama, LM Studio or vLLM
+ */
+function createOpenAIProvider(config) {
+  return {
+    name: 'openai',
+    model: config.model,
+    embeddingModel: config.embeddingModel,
+    async generateKeywords(request) {
+      const content = [{ type: 'text', text: buildKeywordPrompt(request) }];
+      for (const image of request.images || []) {
+        content.push({ type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } });
+      }
+
+      const headers = { 'Content-Type': 'application/json' };
+      if (config.apiKey) {
+        headers.Authorization = `Bearer ${config.apiKey}`;
+      }
+
+      const response = await fetch(`${config.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: config.model,
+          temperature: 0.2,
+          messages: [
+            { role: 'system', content: KEYWORD_FUNCTION.description },
+            // Plain text keeps text-only local models working when there are no screenshots
+            { role: 'user', content: content.length === 1 ? content[0].text : content }
+          ]
+        }),
+        signal: AbortSignal.timeout(GENERATE_TIMEOUT_MS)
+      });
+
+      if (!response.ok) {
+        throw new Error(`Keyword model request failed: ${response.status} ${await response.text()}`);
+      }
+
+      const data = await response.json();
+      return parseKeywordResponse(data.choices?.[0]?.message?.content || '');
+    },
+    async embed(texts) {
+      const headers = { 'Content-Type': 'application/json' };
+      if (config.apiKey) {
+        headers.Authorization = `Bearer ${config.apiKey}`;
+      }
+
+      const response = await fetch(`${config.baseUrl.replace(/\/$/, '')}/embeddings`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ model: config.embeddingModel, input: texts }),
+        signal: AbortSignal.timeout(EMBED_TIMEOUT_MS)
+      });
+
+      if (!response.ok) {
+        throw new Error(`Embedding request failed: ${response.status} ${await response.text()}`);
+      }
+
+      const data = await response.json();
+      return (data.data || [])
+        .sort((a, b) => a.index - b.index)
+        .map(item => item.embedding);
+    }
+  };
+}
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'your', 'you', 'our', 'are', 'this', 'that', 'from', 'into', 'all',
+  'any', 'can', 'more', 'most', 'not', 'but', 'have', 'has', 'will', 'just', 'get', 'its', 'it\'s',
+  'one', 'out', 'use', 'app', 'apps', 'also', 'than', 'then', 'them', 'they', 'what', 'when', 'who',
+  'how', 'new', 'now', 'every', 'each', 'about', 'over', 'like', 'make', 'made', 'free', 'best'
+]);
+
+/**
+ * Deterministic offline provider for CI and machines without model access
+ * Picks the most frequent meaningful words and word pairs from the title and
+ * description, so the same app always yields the same keywords.
+ */
+function createMockProvider(config) {
+  return {
+    name: 'mock',
+    model: config.model,
+    async generateKeywords(request) {
+      const isKeyword = word => word.length >= 3 && !STOP_WORDS.has(word);
+      // Split into clauses first so word pairs never span punctuation
+      const clauses = text => (text || '')
+        .toLowerCase()
+        .split(/[.,;:!?()\n]+/)
+        .map(clause => clause.split(/[^\p{L}\p{N}']+/u).filter(Boolean));
+
+      const wordCounts = new Map();
+      const pairCounts = new Map();
+      const count = (counts, term, weight) => counts.set(term, (counts.get(term) || 0) + weight);
+
+      const titleWords = clauses(request.title).flat().filter(isKeyword);
+      // Title words count double so they rank first
+      for (const [source, weight] of [[request.title, 2], [request.description, 1]]) {
+        for (const clause of clauses(source)) {
+          clause.forEach((word, i) => {
+            if (isKeyword(word)) count(wordCounts, word, weight);
+            const previous = clause[i - 1];
+            if (previous && previous !== word && isKeyword(previous) && isKeyword(word)) {
+              count(pairCounts, `${previous} ${word}`, weight);
+            }
+          });
+        }
+      }
+
+      const ranked = counts => Array.from(counts.entries())
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .map(([term]) => term);
+
+      const keywords = [...ranked(wordCounts).slice(0, 15), ...ranked(pairCounts).slice(0, 10)];
+      if (titleWords.length > 1) {
+        keywords.unshift(titleWords.slice(0, 3).join(' '));
+      }
+
+      // It never looks at screenshots, so nothing is attributed to them
+      return { keywords: Array.from(new Set(keywords)), screenshotKeywords: [] };
+    }
+  };
+}
+
+/**
+ * Downloads image from URL and converts to base64 with proper media type detection
+ * @param {string} imageUrl - URL of the image
+ * @returns {Promise<Object>} Object with base64 data and mimeType
+ */
+async function fetchImageAsBase64(imageUrl) {
+  try {
+    const response = await fetch(imageUrl, { signal: AbortSignal.timeout(IMAGE_TIMEOUT_MS) });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch image: ${response.status}`);
+    }
+
+    const arrayBuffer = await response.arrayBuffer();
+    const buffer = Buffer.from(arrayBuffer);
+
+    // Detect image format from Content-Type header or URL extension
+    let mediaType = 'image/jpeg'; // default
+    const contentType = response.headers.get('content-type');
+
+    if (contentType) {
+      if (contentType.includes('image/png')) {
+        mediaType = 'image/png';
+      } else if (contentType.includes('image/jpeg') || contentType.includes('image/jpg')) {
+        mediaType = 'image/jpeg';
+      } else if (contentType.includes('image/webp')) {
+        mediaType = 'image/webp';
+      } else if (contentType.includes('image/gif')) {
+        mediaType = 'image/gif';
+      }
+    } else {
+      // Fallback to URL extension
+      if (imageUrl.toLowerCase().includes('.png')) {
+        mediaType = 'image/png';
+      } else if (imageUrl.toLowerCase().includes('.webp')) {
+        mediaType = 'image/webp';
+      } else if (imageUrl.toLowerCase().includes('.gif')) {
+        mediaType = 'image/gif';
+      }
+    }
+
+    return {
+      data: buffer.toString('base64'),
+      mimeType: mediaType
+    };
+  } catch (error) {
+    console.error(`Error fetching image ${imageUrl}:`, error);
+    throw new Error(`Failed to fetch image: ${imageUrl}`);
+  }
+}
+
+/**
+ * Downloads the first screenshots of an App Store page for a multimodal request
+ * Screenshots that fail to download are skipped
+ * @param {Array<string>} urls - Screenshot URLs
+ * @param {number} limit - Maximum number of screenshots to download
+ * @returns {Promise<Array<Object>>} Images with base64 data and mimeType
+ */
+async function fetchScreenshots(urls, limit = MAX_SCREENSHOTS) {
+  const images = [];
+  for (const url of (urls || []).slice(0, limit)) {
+    try {
+      images.push(await fetchImageAsBase64(url));
+    } catch (error) {
+      console.warn(`⚠️ Failed to process screenshot: ${error.message}`);
+    }
+  }
+  return images;
+}
+
+/**
+ * Creates the configured keyword provider
+ * @param {Object} config - Provider config, defaults to getKeywordProviderConfig()
+ * @returns {{ name: string, model: string, generateKeywords: Function, embed?: Function }}
+ */
+function createKeywordProvider(config = getKeywordProviderConfig()) {
+  switch (config.provider) {
+    case 'openai':
+      return createOpenAIProvider(config);
+    case 'mock':
+      return createMockProvider(config);
+    default:
+      return createGeminiProvider(config);
+  }
+}
+
+module.exports = {
+  PROVIDER_NAMES,
+  DEFAULT_MODELS,
+  DEFAULT_EMBEDDING_MODELS,
+  MAX_SCREENSHOTS,
+  getKeywordProviderConfig,
+  createKeywordProvider,
+  buildKeywordPrompt,
+  parseKeywordResponse,
+  fetchImageAsBase64,
+  fetchScreenshots
+};
@@ -0,0 +1,45 @@
+// Type declarations for scoring.js, used by the web dashboard
+
+export type ScoredRecommendation = 'excellent' | 'good' | 'consider' | 'challenging' | 'avoid';
+
+export interface ScoringWeights {
+  traffic: number;
+  ease: number;
+}
+
+export interface ScoringThresholds {
+  excellent: { minTraffic: number; maxDifficulty: number };
+  good: { minTraffic: number; maxDifficulty: number };
+  challenging: { minTraffic: number; minDifficulty: number };
+  avoid: { maxTraffic: number; minDifficulty: number };
+}
+
+export interface ScoringConfig {
+  weights: ScoringWeights;
+  thresholds: ScoringThresholds;
+}
+
+export interface ScoringOverrides {
+  weights?: Partial<ScoringWeights>;
+  thresholds?: { [K in keyof ScoringThresholds]?: Partial<ScoringThresholds[K]> };
+}
+
+export const DEFAULT_SCORING_CONFIG: ScoringConfig;
+
+export function resolveScoringConfig(overrides?: ScoringOverrides | null, base?: ScoringConfig): ScoringConfig;
+
+export function validateScoringConfig(config: ScoringConfig): string[];
+
+export function calculateOpportunityScore(
+  trafficScore: number | null,
+  difficultyScore: number | null,
+  config?: ScoringConfig
+): number | null;
+
+export function getRecommendation(trafficScore: number, difficultyScore: number, config?: ScoringConfig): ScoredRecommendation;
+
+export function scoreMetrics(
+  trafficScore: number | null,
+  difficultyScore: number | null,
+  config?: ScoringConfig
+): { opportunity: number | null; recommendation: ScoredRecommendation | 'analysis_failed' };
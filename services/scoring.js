@@ -0,0 +1,133 @@
+/**
+ * Keyword scoring shared by the CLI and the web dashboard
+ * Turns traffic and difficulty scores (0-100) into an opportunity score and a
+ * recommendation. Weights and thresholds are configurable, the defaults are
+ * calibrated for real App Store data:
+ * - Most niche keywords have traffic scores of 10-30
+ * - Traffic 40+ is already considered good volume
+ * - Traffic 60+ is high-volume competitive terms
+ */
+
+const DEFAULT_SCORING_CONFIG = {
+  // Opportunity = traffic * weights.traffic + (100 - difficulty) * weights.ease
+  // Traffic matters more, but low difficulty is a nice bonus
+  weights: {
+    traffic: 0.6,
+    ease: 0.4
+  },
+  thresholds: {
+    // EXCELLENT: Good traffic with low competition - prioritize these!
+    excellent: { minTraffic: 25, maxDifficulty: 35 },
+    // GOOD: Moderate traffic with manageable competition
+    good: { minTraffic: 15, maxDifficulty: 45 },
+    // CHALLENGING: High traffic but very competitive, worth it only if core to your app
+    challenging: { minTraffic: 40, minDifficulty: 60 },
+    // AVOID: Low traffic + high difficulty = waste of effort
+    avoid: { maxTraffic: 15, minDifficulty: 50 }
+  }
+};
+
+/**
+ * Applies partial overrides on top of a base config
+ * Overrides can set any subset of weights and threshold values
+ * @param {Object} overrides - Partial config, e.g. { thresholds: { excellent: { minTraffic: 30 } } }
+ * @param {Object} base - Config to start from (defaults to DEFAULT_SCORING_CONFIG)
+ * @returns {Object} Complete scoring config
+ */
+function resolveScoringConfig(overrides, base = DEFAULT_SCORING_CONFIG) {
+  const thresholds = {};
+  for (const name of Object.keys(base.thresholds)) {
+    thresholds[name] = {
+      ...base.thresholds[name],
+      ...(overrides && overrides.thresholds && overrides.thresholds[name])
+    };
+  }
+
+  return {
+    weights: { ...base.weights, ...(overrides && overrides.weights) },
+    thresholds
+  };
+}
+
+/**
+ * Checks a complete config for values that would produce nonsense scores
+ * @param {Object} config - Scoring config
+ * @returns {Array<string>} Problems found, empty when the config is valid
+ */
+function validateScoringConfig(config) {
+  const errors = [];
+  const isScore = value => typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 100;
+
+  const { traffic, ease } = config.weights;
+  if (typeof traffic !== 'number' || typeof ease !== 'number' || traffic < 0 || ease < 0) {
+    errors.push('weights.traffic and weights.ease must be non-negative numbers');
+  } else if (Math.abs(traffic + ease - 1) > 0.001) {
+    // Keeps opportunity on the same 0-100 scale as traffic and difficulty
+    errors.push('weights.traffic and weights.ease must add up to 1');
+  }
+
+  for (const [name, threshold] of Object.entries(config.thresholds)) {
+    for (const [key, value] of Object.entries(threshold)) {
+      if (!isScore(value)) {
+        errors.push(`thresholds.${name}.${key} must be a number between 0 and 100`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Calculates opportunity score: higher traffic + lower difficulty = better opportunity
+ * Score ranges from 0-100, with 100 being the best opportunity
+ * Returns null if either score is null (failed analysis)
+ */
+function calculateOpportunityScore(trafficScore, difficultyScore, config = DEFAULT_SCORING_CONFIG) {
+  if (trafficScore === null || difficultyScore === null) {
+    return null;
+  }
+
+  const { traffic, ease } = config.weights;
+  return Math.round((trafficScore * traffic) + ((100 - difficultyScore) * ease));
+}
+
+/**
+ * Provides keyword recommendation based on traffic and difficulty
+ * Rules are checked in order, the first match wins
+ * @returns {string} excellent | good | challenging | avoid | consider
+ */
+function getRecommendation(trafficScore, difficultyScore, config = DEFAULT_SCORING_CONFIG) {
+  const { excellent, good, challenging, avoid } = config.thresholds;
+
+  if (trafficScore >= excellent.minTraffic && difficultyScore <= excellent.maxDifficulty) return 'excellent';
+  if (trafficScore >= good.minTraffic && difficultyScore <= good.maxDifficulty) return 'good';
+  if (trafficScore >= challenging.minTraffic && difficultyScore >= challenging.minDifficulty) return 'challenging';
+  if (trafficScore <= avoid.maxTraffic && difficultyScore >= avoid.minDifficulty) return 'avoid';
+
+  // CONSIDER: Everything else - evaluate case by case
+  return 'consider';
+}
+
+/**
+ * Scores a keyword's metrics, marking it as failed when either metric is missing
+ * @returns {{ opportunity: number|null, recommendation: string }}
+ */
+function scoreMetrics(trafficScore, difficultyScore, config = DEFAULT_SCORING_CONFIG) {
+  if (trafficScore === null || difficultyScore === null) {
+    return { opportunity: null, recommendation: 'analysis_failed' };
+  }
+
+  return {
+    opportunity: calculateOpportunityScore(trafficScore, difficultyScore, config),
+    recommendation: getRecommendation(trafficScore, difficultyScore, config)
+  };
+}
+
+module.exports = {
+  DEFAULT_SCORING_CONFIG,
+  resolveScoringConfig,
+  validateScoringConfig,
+  calculateOpportunityScore,
+  getRecommendation,
+  scoreMetrics
+};
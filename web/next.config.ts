@@ -1,7 +1,15 @@
+import path from "path";
 import type { NextConfig } from "next";
 
+// The scoring module in ../services is shared with the CLI, so the
+// project root has to include the parent directory
+const repoRoot = path.join(__dirname, "..");
+
 const nextConfig: NextConfig = {
-  /* config options here */
+  outputFileTracingRoot: repoRoot,
+  turbopack: {
+    root: repoRoot,
+  },
 };
 
 export default nextConfig;
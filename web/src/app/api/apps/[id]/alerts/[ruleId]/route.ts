@@ -0,0 +1,110 @@
+import { db } from '@/lib/db';
+import { alertRules } from '@/lib/db/schema';
+import { validateAlertRule } from '@/lib/alerts/rules';
+import { recordAudit } from '@/lib/auth/audit';
+import { requireRole } from '@/lib/auth/guard';
+import { and, eq } from 'drizzle-orm';
+import { NextRequest, NextResponse } from 'next/server';
+
+type RouteParams = { params: Promise<{ id: string; ruleId: string }> };
+
+async function parseIds(params: RouteParams['params']) {
+    const { id, ruleId } = await params;
+    return { appId: parseInt(id, 10), rowId: parseInt(ruleId, 10) };
+}
+
+// PATCH /api/apps/[id]/alerts/[ruleId] - Pause or resume a rule, or change its threshold
+// or webhook URL: { enabled?, threshold?, webhookUrl? }
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+    try {
+        const auth = await requireRole(request, 'editor');
+        if (auth.response) return auth.response;
+
+        const { appId, rowId } = await parseIds(params);
+
+        if (isNaN(appId) || isNaN(rowId)) {
+            return NextResponse.json({ error: 'Invalid ID' }, { status: 400 });
+        }
+
+        const [rule] = await db
+            .select()
+            .from(alertRules)
+            .where(and(eq(alertRules.id, rowId), eq(alertRules.appId, appId)))
+            .limit(1);
+
+        if (!rule) {
+            return NextResponse.json({ error: 'Alert rule not found' }, { status: 404 });
+        }
+
+        const body = await request.json();
+        const errors = validateAlertRule({
+            enabled: body.enabled,
+            threshold: body.threshold,
+            channel: body.webhookUrl !== undefined ? rule.channel : undefined,
+            webhookUrl: body.webhookUrl,
+        }, true);
+
+        if (errors.length > 0) {
+            return NextResponse.json({ error: 'Invalid alert rule', details: errors }, { status: 400 });
+        }
+
+        if (body.threshold !== undefined && rule.condition !== 'traffic_change') {
+            return NextResponse.json({ error: 'Only traffic_change rules have a threshold' }, { status: 400 });
+        }
+
+        if (body.webhookUrl !== undefined && rule.channel !== 'webhook') {
+            return NextResponse.json({ error: 'Only webhook rules have a webhook URL' }, { status: 400 });
+        }
+
+        const [updated] = await db
+            .update(alertRules)
+            .set({
+                enabled: body.enabled ?? rule.enabled,
+                threshold: body.threshold ?? rule.threshold,
+                webhookUrl: body.webhookUrl ?? rule.webhookUrl,
+                updatedAt: new Date().toISOString(),
+            })
+            .where(eq(alertRules.id, rowId))
+            .returning();
+
+        return NextResponse.json(updated);
+    } catch (error) {
+        console.error('Error updating alert rule:', error);
+        return NextResponse.json({ error: 'Failed to update alert rule' }, { status: 500 });
+    }
+}
+
+// DELETE /api/apps/[id]/alerts/[ruleId] - Remove a rule, the alerts it fired stay in the history
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+    try {
+        const auth = await requireRole(request, 'editor');
+        if (auth.response) return auth.response;
+
+        const { appId, rowId } = await parseIds(params);
+
+        if (isNaN(appId) || isNaN(rowId)) {
+            return NextResponse.json({ error: 'Invalid ID' }, { status: 400 });
+        }
+
+        const result = await db
+            .delete(alertRules)
+            .where(and(eq(alertRules.id, rowId), eq(alertRules.appId, appId)))
+            .returning();
+
+        if (result.length === 0) {
+            return NextResponse.json({ error: 'Alert rule not found' }, { status: 404 });
+        }
+
+        const rule = result[0];
+        await recordAudit(auth.user, 'alert_rule.delete', rule.keyword ? `${rule.condition} for "${rule.keyword}"` : rule.condition, {
+            appId,
+            ruleId: rule.id,
+            channel: rule.channel,
+        });
+
+        return NextResponse.json({ success: true, deleted: result[0] });
+    } catch (error) {
+        console.error('Error deleting alert rule:', error);
+        return NextResponse.json({ error: 'Failed to delete alert rule' }, { status: 500 });
+    }
+}
@@ -0,0 +1,86 @@
+import { db } from '@/lib/db';
+import { apps } from '@/lib/db/schema';
+import {
+    createAlertRule,
+    getAlertHistory,
+    getAlertRules,
+    validateAlertRule,
+    type AlertRuleInput,
+} from '@/lib/alerts/rules';
+import { requireRole } from '@/lib/auth/guard';
+import { hasRole } from '@/lib/auth/users';
+import { eq } from 'drizzle-orm';
+import { NextRequest, NextResponse } from 'next/server';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+async function findApp(params: RouteParams['params']) {
+    const { id } = await params;
+    const appId = parseInt(id, 10);
+    if (isNaN(appId)) return { appId, app: null };
+
+    const [app] = await db.select().from(apps).where(eq(apps.id, appId)).limit(1);
+    return { appId, app: app ?? null };
+}
+
+// GET /api/apps/[id]/alerts - The app's alert rules and the alerts they fired, newest first.
+// Webhook signing secrets are left out for viewers.
+export async function GET(request: NextRequest, { params }: RouteParams) {
+    try {
+        const auth = await requireRole(request, 'viewer');
+        if (auth.response) return auth.response;
+
+        const { appId, app } = await findApp(params);
+
+        if (isNaN(appId)) {
+            return NextResponse.json({ error: 'Invalid app ID' }, { status: 400 });
+        }
+
+        if (!app) {
+            return NextResponse.json({ error: 'App not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({
+            rules: await getAlertRules(appId, hasRole(auth.user, 'editor')),
+            history: await getAlertHistory(appId),
+        });
+    } catch (error) {
+        console.error('Error fetching alerts:', error);
+        return NextResponse.json({ error: 'Failed to fetch alerts' }, { status: 500 });
+    }
+}
+
+// POST /api/apps/[id]/alerts - Add an alert rule
+// { condition: 'recommendation_change' | 'traffic_change' | 'job_failed', keyword?, threshold?,
+//   channel: 'in_app' | 'webhook', webhookUrl? }
+// Without a keyword the rule watches all of the app's keywords.
+export async function POST(request: NextRequest, { params }: RouteParams) {
+    try {
+        const auth = await requireRole(request, 'editor');
+        if (auth.response) return auth.response;
+
+        const { appId, app } = await findApp(params);
+
+        if (isNaN(appId)) {
+            return NextResponse.json({ error: 'Invalid app ID' }, { status: 400 });
+        }
+
+        if (!app) {
+            return NextResponse.json({ error: 'App not found' }, { status: 404 });
+        }
+
+        const body = await request.json();
+        const errors = validateAlertRule(body);
+
+        if (errors.length > 0) {
+            return NextResponse.json({ error: 'Invalid alert rule', details: errors }, { status: 400 });
+        }
+
+        const rule = await createAlertRule(appId, body as AlertRuleInput);
+
+        return NextResponse.json(rule, { status: 201 });
+    } catch (error) {
+        console.error('Error creating alert rule:', error);
+        return NextResponse.json({ error: 'Failed to create alert rule' }, { status: 500 });
+    }
+}
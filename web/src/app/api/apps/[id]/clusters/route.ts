@@ -0,0 +1,38 @@
+import { db } from '@/lib/db';
+import { apps } from '@/lib/db/schema';
+import { getKeywordClusters } from '@/lib/analysis/clusters';
+import { requireRole } from '@/lib/auth/guard';
+import { eq } from 'drizzle-orm';
+import { NextRequest, NextResponse } from 'next/server';
+
+// GET /api/apps/[id]/clusters?country=gb - The app's keywords grouped into topic
+// clusters, most opportunity first: { method, clusters: [{ label, keywordIds, traffic, opportunity }] }
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const auth = await requireRole(request, 'viewer');
+        if (auth.response) return auth.response;
+
+        const { id } = await params;
+        const appId = parseInt(id, 10);
+
+        if (isNaN(appId)) {
+            return NextResponse.json({ error: 'Invalid app ID' }, { status: 400 });
+        }
+
+        const [app] = await db.select().from(apps).where(eq(apps.id, appId)).limit(1);
+
+        if (!app) {
+            return NextResponse.json({ error: 'App not found' }, { status: 404 });
+        }
+
+        const country = request.nextUrl.searchParams.get('country') || app.country;
+
+        return NextResponse.json(await getKeywordClusters(appId, country));
+    } catch (error) {
+        console.error('Error clustering keywords:', error);
+        return NextResponse.json({ error: 'Failed to cluster keywords' }, { status: 500 });
+    }
+}
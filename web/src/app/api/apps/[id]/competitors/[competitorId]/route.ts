@@ -0,0 +1,45 @@
+import { db } from '@/lib/db';
+import { competitors } from '@/lib/db/schema';
+import { recordAudit } from '@/lib/auth/audit';
+import { requireRole } from '@/lib/auth/guard';
+import { and, eq } from 'drizzle-orm';
+import { NextRequest, NextResponse } from 'next/server';
+
+// DELETE /api/apps/[id]/competitors/[competitorId] - Remove a competitor
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string; competitorId: string }> }
+) {
+    try {
+        const auth = await requireRole(request, 'editor');
+        if (auth.response) return auth.response;
+
+        const { id, competitorId } = await params;
+        const appId = parseInt(id, 10);
+        const rowId = parseInt(competitorId, 10);
+
+        if (isNaN(appId) || isNaN(rowId)) {
+            return NextResponse.json({ error: 'Invalid ID' }, { status: 400 });
+        }
+
+        const result = await db
+            .delete(competitors)
+            .where(and(eq(competitors.id, rowId), eq(competitors.appId, appId)))
+            .returning();
+
+        if (result.length === 0) {
+            return NextResponse.json({ error: 'Competitor not found' }, { status: 404 });
+        }
+
+        await recordAudit(auth.user, 'competitor.delete', result[0].title, {
+            appId,
+            competitorId: result[0].id,
+            appStoreId: result[0].appStoreId,
+        });
+
+        return NextResponse.json({ success: true, deleted: result[0] });
+    } catch (error) {
+        console.error('Error deleting competitor:', error);
+        return NextResponse.json({ error: 'Failed to delete competitor' }, { status: 500 });
+    }
+}
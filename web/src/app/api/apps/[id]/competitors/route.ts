@@ -0,0 +1,97 @@
+import { db } from '@/lib/db';
+import { apps } from '@/lib/db/schema';
+import { addCompetitor, discoverCompetitors, getCompetitors } from '@/lib/analysis/competitors';
+import { requireRole } from '@/lib/auth/guard';
+import { eq } from 'drizzle-orm';
+import { NextRequest, NextResponse } from 'next/server';
+
+function serializeCompetitor<T extends { genres: string }>(competitor: T) {
+    return { ...competitor, genres: JSON.parse(competitor.genres || '[]') };
+}
+
+// GET /api/apps/[id]/competitors - List the app's competitors
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const auth = await requireRole(request, 'viewer');
+        if (auth.response) return auth.response;
+
+        const { id } = await params;
+        const appId = parseInt(id, 10);
+
+        if (isNaN(appId)) {
+            return NextResponse.json({ error: 'Invalid app ID' }, { status: 400 });
+        }
+
+        const appCompetitors = await getCompetitors(appId);
+
+        return NextResponse.json(appCompetitors.map(serializeCompetitor));
+    } catch (error) {
+        console.error('Error fetching competitors:', error);
+        return NextResponse.json({ error: 'Failed to fetch competitors' }, { status: 500 });
+    }
+}
+
+// POST /api/apps/[id]/competitors - Add a competitor by App Store ID,
+// or { discover: true } to pull in the App Store's similar apps
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const auth = await requireRole(request, 'editor');
+        if (auth.response) return auth.response;
+
+        const { id } = await params;
+        const appId = parseInt(id, 10);
+
+        if (isNaN(appId)) {
+            return NextResponse.json({ error: 'Invalid app ID' }, { status: 400 });
+        }
+
+        const [app] = await db.select().from(apps).where(eq(apps.id, appId)).limit(1);
+
+        if (!app) {
+            return NextResponse.json({ error: 'App not found' }, { status: 404 });
+        }
+
+        const body = await request.json().catch(() => null);
+        if (!body || typeof body !== 'object') {
+            return NextResponse.json({ error: 'Expected a JSON body with appStoreId or discover' }, { status: 400 });
+        }
+
+        if (body.discover) {
+            const numericId = parseInt(app.appStoreId, 10);
+            if (isNaN(numericId)) {
+                return NextResponse.json({ error: 'App has no App Store ID to find similar apps for' }, { status: 422 });
+            }
+
+            const added = await discoverCompetitors(appId, numericId, app.country);
+            return NextResponse.json({ added: added.map(serializeCompetitor) }, { status: 201 });
+        }
+
+        const competitorStoreId = parseInt(body.appStoreId, 10);
+        if (isNaN(competitorStoreId)) {
+            return NextResponse.json({ error: 'appStoreId must be a number' }, { status: 400 });
+        }
+
+        if (String(competitorStoreId) === app.appStoreId) {
+            return NextResponse.json({ error: 'An app cannot be its own competitor' }, { status: 400 });
+        }
+
+        const competitor = await addCompetitor(appId, competitorStoreId, app.country);
+
+        if (!competitor) {
+            return NextResponse.json({ error: 'Competitor already added' }, { status: 409 });
+        }
+
+        return NextResponse.json(serializeCompetitor(competitor), { status: 201 });
+    } catch (error) {
+        console.error('Error adding competitor:', error);
+        return NextResponse.json({
+            error: error instanceof Error ? error.message : 'Failed to add competitor'
+        }, { status: 500 });
+    }
+}
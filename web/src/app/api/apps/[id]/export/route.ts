@@ -0,0 +1,58 @@
+import { db } from '@/lib/db';
+import { apps } from '@/lib/db/schema';
+import { getAppKeywords } from '@/lib/analysis/app-keywords';
+import { exportFileName, isExportFormat, keywordExportResponse } from '@/lib/export/keywords';
+import { applyKeywordView, keywordViewFromParams } from '@/lib/keyword-view';
+import { requireRole } from '@/lib/auth/guard';
+import { eq } from 'drizzle-orm';
+import { NextRequest, NextResponse } from 'next/server';
+
+// GET /api/apps/[id]/export?format=csv|xlsx|json&country=gb - Download an app's keywords
+// in one storefront. The table's search, filters and sort are passed as query
+// parameters (see keywordViewToParams) so the file matches what's on screen.
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const auth = await requireRole(request, 'viewer');
+        if (auth.response) return auth.response;
+
+        const { id } = await params;
+        const appId = parseInt(id, 10);
+        const searchParams = request.nextUrl.searchParams;
+        const format = searchParams.get('format') ?? 'csv';
+
+        if (isNaN(appId)) {
+            return NextResponse.json({ error: 'Invalid app ID' }, { status: 400 });
+        }
+
+        if (!isExportFormat(format)) {
+            return NextResponse.json({ error: `Unsupported format: ${format}` }, { status: 400 });
+        }
+
+        const [app] = await db.select().from(apps).where(eq(apps.id, appId)).limit(1);
+
+        if (!app) {
+            return NextResponse.json({ error: 'App not found' }, { status: 404 });
+        }
+
+        const country = searchParams.get('country') || app.country;
+        const view = keywordViewFromParams(searchParams);
+        const appKeywords = applyKeywordView(await getAppKeywords(appId, country), view);
+
+        return keywordExportResponse(format, appKeywords.map(keyword => ({ app, keyword })), {
+            includeApp: false,
+            fileName: exportFileName([app.title, country, 'keywords'], format),
+            sheetName: `${app.title} (${country.toUpperCase()})`,
+            metadata: {
+                app: { id: app.id, title: app.title, appStoreId: app.appStoreId },
+                country,
+                view,
+            },
+        });
+    } catch (error) {
+        console.error('Error exporting keywords:', error);
+        return NextResponse.json({ error: 'Failed to export keywords' }, { status: 500 });
+    }
+}
@@ -0,0 +1,101 @@
+import { db } from '@/lib/db';
+import { apps } from '@/lib/db/schema';
+import { getCompetitors } from '@/lib/analysis/competitors';
+import { getGapReport } from '@/lib/analysis/gaps';
+import { createAnalysisJob, findActiveJob, runAnalysisJob, serializeJob } from '@/lib/analysis/jobs';
+import { isSupportedCountry } from '@/lib/countries';
+import { requireRole } from '@/lib/auth/guard';
+import { eq } from 'drizzle-orm';
+import { NextRequest, NextResponse, after } from 'next/server';
+
+// GET /api/apps/[id]/gaps?country=gb - The latest keyword gap analysis against the
+// app's competitors: keywords they rank for and the app doesn't, best opportunity
+// first, and keywords only the app ranks for. Returns { report: null } before the
+// first analysis.
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const auth = await requireRole(request, 'viewer');
+        if (auth.response) return auth.response;
+
+        const { id } = await params;
+        const appId = parseInt(id, 10);
+
+        if (isNaN(appId)) {
+            return NextResponse.json({ error: 'Invalid app ID' }, { status: 400 });
+        }
+
+        const [app] = await db.select().from(apps).where(eq(apps.id, appId)).limit(1);
+
+        if (!app) {
+            return NextResponse.json({ error: 'App not found' }, { status: 404 });
+        }
+
+        const country = request.nextUrl.searchParams.get('country') || app.country;
+
+        return NextResponse.json({ report: await getGapReport(appId, country) });
+    } catch (error) {
+        console.error('Error fetching keyword gaps:', error);
+        return NextResponse.json({ error: 'Failed to fetch keyword gaps' }, { status: 500 });
+    }
+}
+
+// POST /api/apps/[id]/gaps - Queue a keyword gap analysis against the app's competitors
+// An optional { country } compares in another storefront instead of the app's own
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const auth = await requireRole(request, 'editor');
+        if (auth.response) return auth.response;
+
+        const { id } = await params;
+        const appId = parseInt(id, 10);
+
+        if (isNaN(appId)) {
+            return NextResponse.json({ error: 'Invalid app ID' }, { status: 400 });
+        }
+
+        const [app] = await db.select().from(apps).where(eq(apps.id, appId)).limit(1);
+
+        if (!app) {
+            return NextResponse.json({ error: 'App not found' }, { status: 404 });
+        }
+
+        if (isNaN(parseInt(app.appStoreId, 10))) {
+            return NextResponse.json({ error: 'App has no App Store ID to look for in search results' }, { status: 422 });
+        }
+
+        if ((await getCompetitors(appId)).length === 0) {
+            return NextResponse.json({ error: 'Add competitors before running a gap analysis' }, { status: 422 });
+        }
+
+        const body = await request.json().catch(() => ({}));
+        const country = body.country ?? app.country;
+
+        if (!isSupportedCountry(country)) {
+            return NextResponse.json({ error: `Unsupported country: ${country}` }, { status: 400 });
+        }
+
+        const activeJob = await findActiveJob(app.appStoreId);
+        if (activeJob) {
+            return NextResponse.json({
+                error: 'Analysis already in progress',
+                job: serializeJob(activeJob)
+            }, { status: 409 });
+        }
+
+        const job = await createAnalysisJob(app.appStoreId, 'gaps', app.id, country, { startedBy: auth.user.username });
+
+        // Generate and search after the response has been sent
+        after(() => runAnalysisJob(job.id));
+
+        return NextResponse.json({ jobId: job.id, job: serializeJob(job) }, { status: 202 });
+    } catch (error) {
+        console.error('Error starting gap analysis:', error);
+        return NextResponse.json({ error: 'Failed to start gap analysis' }, { status: 500 });
+    }
+}
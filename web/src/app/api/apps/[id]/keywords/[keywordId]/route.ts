@@ -0,0 +1,200 @@
+import { db } from '@/lib/db';
+import { apps, keywords, type NewKeyword } from '@/lib/db/schema';
+import { KEYWORD_STATUSES, normalizeTags, serializeKeyword } from '@/lib/analysis/app-keywords';
+import { createAnalysisJob, findActiveJob, runAnalysisJob, serializeJob } from '@/lib/analysis/jobs';
+import { normalizeKeyword } from '@/lib/analysis/keywords';
+import { recordAudit } from '@/lib/auth/audit';
+import { requireRole } from '@/lib/auth/guard';
+import { and, eq } from 'drizzle-orm';
+import { NextRequest, NextResponse, after } from 'next/server';
+
+type RouteParams = { params: Promise<{ id: string; keywordId: string }> };
+
+async function parseParams(params: RouteParams['params']) {
+    const { id, keywordId } = await params;
+    return { appId: parseInt(id, 10), rowId: parseInt(keywordId, 10) };
+}
+
+async function findKeyword(appId: number, rowId: number) {
+    const [row] = await db
+        .select()
+        .from(keywords)
+        .where(and(eq(keywords.id, rowId), eq(keywords.appId, appId)))
+        .limit(1);
+    return row ?? null;
+}
+
+// GET /api/apps/[id]/keywords/[keywordId] - Get a single keyword row
+export async function GET(request: NextRequest, { params }: RouteParams) {
+    try {
+        const auth = await requireRole(request, 'viewer');
+        if (auth.response) return auth.response;
+
+        const { appId, rowId } = await parseParams(params);
+
+        if (isNaN(appId) || isNaN(rowId)) {
+            return NextResponse.json({ error: 'Invalid ID' }, { status: 400 });
+        }
+
+        const row = await findKeyword(appId, rowId);
+
+        if (!row) {
+            return NextResponse.json({ error: 'Keyword not found' }, { status: 404 });
+        }
+
+        return NextResponse.json(serializeKeyword(row));
+    } catch (error) {
+        console.error('Error fetching keyword:', error);
+        return NextResponse.json({ error: 'Failed to fetch keyword' }, { status: 500 });
+    }
+}
+
+// PATCH /api/apps/[id]/keywords/[keywordId] - Update a keyword row
+// { notes, tags, status } edit the workflow fields, { keyword } renames and
+// re-scores the row, { rescore: true } re-scores it as is with fresh metrics
+// instead of cached ones. Re-scoring runs as a keyword job and answers 202.
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+    try {
+        const auth = await requireRole(request, 'editor');
+        if (auth.response) return auth.response;
+
+        const { appId, rowId } = await parseParams(params);
+
+        if (isNaN(appId) || isNaN(rowId)) {
+            return NextResponse.json({ error: 'Invalid ID' }, { status: 400 });
+        }
+
+        const row = await findKeyword(appId, rowId);
+
+        if (!row) {
+            return NextResponse.json({ error: 'Keyword not found' }, { status: 404 });
+        }
+
+        const body = await request.json();
+        const changes: Partial<NewKeyword> = {};
+
+        if (body.notes !== undefined) {
+            if (body.notes !== null && typeof body.notes !== 'string') {
+                return NextResponse.json({ error: 'notes must be a string' }, { status: 400 });
+            }
+            changes.notes = body.notes?.trim() || null;
+        }
+
+        if (body.tags !== undefined) {
+            if (!Array.isArray(body.tags) || body.tags.some((tag: unknown) => typeof tag !== 'string')) {
+                return NextResponse.json({ error: 'tags must be an array of strings' }, { status: 400 });
+            }
+            changes.tags = JSON.stringify(normalizeTags(body.tags));
+        }
+
+        if (body.status !== undefined) {
+            if (!KEYWORD_STATUSES.includes(body.status)) {
+                return NextResponse.json({
+                    error: `status must be one of: ${KEYWORD_STATUSES.join(', ')}`
+                }, { status: 400 });
+            }
+            changes.status = body.status;
+        }
+
+        let keyword = row.keyword;
+
+        if (body.keyword !== undefined) {
+            if (typeof body.keyword !== 'string' || !body.keyword.trim()) {
+                return NextResponse.json({ error: 'keyword must be a non-empty string' }, { status: 400 });
+            }
+
+            keyword = normalizeKeyword(body.keyword);
+
+            // Renaming onto another row of the same app and storefront would create a duplicate
+            if (keyword !== normalizeKeyword(row.keyword)) {
+                const siblings = await db
+                    .select()
+                    .from(keywords)
+                    .where(and(eq(keywords.appId, appId), eq(keywords.country, row.country)));
+                if (siblings.some(k => k.id !== row.id && normalizeKeyword(k.keyword) === keyword)) {
+                    return NextResponse.json({ error: 'Keyword already exists for this app' }, { status: 409 });
+                }
+            }
+        }
+
+        // A rename may reuse cached metrics for the new keyword
+        const rescore = keyword !== row.keyword || Boolean(body.rescore);
+        let job = null;
+        if (rescore) {
+            const [app] = await db.select().from(apps).where(eq(apps.id, appId)).limit(1);
+            const activeJob = await findActiveJob(app.appStoreId);
+            if (activeJob) {
+                return NextResponse.json({
+                    error: 'Analysis already in progress',
+                    job: serializeJob(activeJob)
+                }, { status: 409 });
+            }
+
+            job = await createAnalysisJob(app.appStoreId, 'keyword', appId, row.country, {
+                forceRefresh: Boolean(body.rescore),
+                keywordEdit: { keywordId: row.id, keyword },
+                startedBy: auth.user.username,
+            });
+        }
+
+        let updated = row;
+        if (Object.keys(changes).length > 0) {
+            [updated] = await db
+                .update(keywords)
+                .set(changes)
+                .where(eq(keywords.id, row.id))
+                .returning();
+        }
+
+        if (!job) {
+            return NextResponse.json(serializeKeyword(updated));
+        }
+
+        // Scoring waits on the App Store rate limit, so it runs after the response
+        const jobId = job.id;
+        after(() => runAnalysisJob(jobId));
+
+        return NextResponse.json({
+            jobId,
+            job: serializeJob(job),
+            keyword: serializeKeyword(updated),
+        }, { status: 202 });
+    } catch (error) {
+        console.error('Error updating keyword:', error);
+        return NextResponse.json({ error: 'Failed to update keyword' }, { status: 500 });
+    }
+}
+
+// DELETE /api/apps/[id]/keywords/[keywordId] - Remove a keyword row
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+    try {
+        const auth = await requireRole(request, 'editor');
+        if (auth.response) return auth.response;
+
+        const { appId, rowId } = await parseParams(params);
+
+        if (isNaN(appId) || isNaN(rowId)) {
+            return NextResponse.json({ error: 'Invalid ID' }, { status: 400 });
+        }
+
+        const result = await db
+            .delete(keywords)
+            .where(and(eq(keywords.id, rowId), eq(keywords.appId, appId)))
+            .returning();
+
+        if (result.length === 0) {
+            return NextResponse.json({ error: 'Keyword not found' }, { status: 404 });
+        }
+
+        await recordAudit(auth.user, 'keyword.delete', result[0].keyword, {
+            appId,
+            keywordId: result[0].id,
+            country: result[0].country,
+        });
+
+        return NextResponse.json({ success: true, deleted: result[0] });
+    } catch (error) {
+        console.error('Error deleting keyword:', error);
+        return NextResponse.json({ error: 'Failed to delete keyword' }, { status: 500 });
+    }
+}
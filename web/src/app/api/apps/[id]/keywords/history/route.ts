@@ -0,0 +1,46 @@
+import { db } from '@/lib/db';
+import { apps } from '@/lib/db/schema';
+import { getKeywordHistory } from '@/lib/analysis/history';
+import { getRankHistory } from '@/lib/analysis/ranks';
+import { requireRole } from '@/lib/auth/guard';
+import { eq } from 'drizzle-orm';
+import { NextRequest, NextResponse } from 'next/server';
+
+// GET /api/apps/[id]/keywords/history?keyword=...&country=... - Metric and rank history of one keyword
+// The country defaults to the app's own storefront
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const auth = await requireRole(request, 'viewer');
+        if (auth.response) return auth.response;
+
+        const { id } = await params;
+        const appId = parseInt(id, 10);
+        const keyword = request.nextUrl.searchParams.get('keyword');
+
+        if (isNaN(appId)) {
+            return NextResponse.json({ error: 'Invalid app ID' }, { status: 400 });
+        }
+
+        if (!keyword || !keyword.trim()) {
+            return NextResponse.json({ error: 'keyword is required' }, { status: 400 });
+        }
+
+        const [app] = await db.select().from(apps).where(eq(apps.id, appId)).limit(1);
+
+        if (!app) {
+            return NextResponse.json({ error: 'App not found' }, { status: 404 });
+        }
+
+        const country = request.nextUrl.searchParams.get('country') || app.country;
+        const history = await getKeywordHistory(appId, keyword, country);
+        const ranks = await getRankHistory(appId, keyword, country);
+
+        return NextResponse.json({ appId, keyword: keyword.trim(), country, history, ranks });
+    } catch (error) {
+        console.error('Error fetching keyword history:', error);
+        return NextResponse.json({ error: 'Failed to fetch keyword history' }, { status: 500 });
+    }
+}
@@ -0,0 +1,72 @@
+import { db } from '@/lib/db';
+import { apps, keywords } from '@/lib/db/schema';
+import { createAnalysisJob, findActiveJob, runAnalysisJob, serializeJob } from '@/lib/analysis/jobs';
+import { isSupportedCountry } from '@/lib/countries';
+import { requireRole } from '@/lib/auth/guard';
+import { and, eq } from 'drizzle-orm';
+import { NextRequest, NextResponse, after } from 'next/server';
+
+// POST /api/apps/[id]/keywords/retry - Queue a re-score of the app's failed keywords
+// An optional { country } retries another storefront instead of the app's own. The
+// finished job's result says how many keywords recovered.
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const auth = await requireRole(request, 'editor');
+        if (auth.response) return auth.response;
+
+        const { id } = await params;
+        const appId = parseInt(id, 10);
+
+        if (isNaN(appId)) {
+            return NextResponse.json({ error: 'Invalid app ID' }, { status: 400 });
+        }
+
+        const [app] = await db.select().from(apps).where(eq(apps.id, appId)).limit(1);
+
+        if (!app) {
+            return NextResponse.json({ error: 'App not found' }, { status: 404 });
+        }
+
+        const body = await request.json().catch(() => ({}));
+        const country = body.country ?? app.country;
+
+        if (!isSupportedCountry(country)) {
+            return NextResponse.json({ error: `Unsupported country: ${country}` }, { status: 400 });
+        }
+
+        const [failed] = await db
+            .select({ id: keywords.id })
+            .from(keywords)
+            .where(and(
+                eq(keywords.appId, app.id),
+                eq(keywords.country, country),
+                eq(keywords.analysisSucceeded, false)
+            ))
+            .limit(1);
+
+        if (!failed) {
+            return NextResponse.json({ error: 'App has no failed keywords to retry' }, { status: 422 });
+        }
+
+        const activeJob = await findActiveJob(app.appStoreId);
+        if (activeJob) {
+            return NextResponse.json({
+                error: 'Analysis already in progress',
+                job: serializeJob(activeJob)
+            }, { status: 409 });
+        }
+
+        const job = await createAnalysisJob(app.appStoreId, 'retry', app.id, country, { startedBy: auth.user.username });
+
+        // Re-score after the response has been sent
+        after(() => runAnalysisJob(job.id));
+
+        return NextResponse.json({ jobId: job.id, job: serializeJob(job) }, { status: 202 });
+    } catch (error) {
+        console.error('Error starting retry of failed keywords:', error);
+        return NextResponse.json({ error: 'Failed to retry failed keywords' }, { status: 500 });
+    }
+}
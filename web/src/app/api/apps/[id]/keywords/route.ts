@@ -0,0 +1,94 @@
+import { db } from '@/lib/db';
+import { apps } from '@/lib/db/schema';
+import { MAX_KEYWORDS_PER_REQUEST, partitionNewKeywords } from '@/lib/analysis/app-keywords';
+import { createAnalysisJob, findActiveJob, runAnalysisJob, serializeJob } from '@/lib/analysis/jobs';
+import { isSupportedCountry } from '@/lib/countries';
+import { requireRole } from '@/lib/auth/guard';
+import { eq } from 'drizzle-orm';
+import { NextRequest, NextResponse, after } from 'next/server';
+
+// POST /api/apps/[id]/keywords - Add keywords by hand, scored like analyzed ones
+// Accepts { keyword: string } or { keywords: string[] }, plus an optional country
+// that defaults to the app's own storefront. New keywords are scored in a job that
+// is returned right away, duplicates of tracked keywords are skipped.
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const auth = await requireRole(request, 'editor');
+        if (auth.response) return auth.response;
+
+        const { id } = await params;
+        const appId = parseInt(id, 10);
+
+        if (isNaN(appId)) {
+            return NextResponse.json({ error: 'Invalid app ID' }, { status: 400 });
+        }
+
+        const [app] = await db.select().from(apps).where(eq(apps.id, appId)).limit(1);
+
+        if (!app) {
+            return NextResponse.json({ error: 'App not found' }, { status: 404 });
+        }
+
+        const body = await request.json();
+        const keywordList: unknown[] = Array.isArray(body.keywords)
+            ? body.keywords
+            : body.keyword !== undefined ? [body.keyword] : [];
+        const submitted = keywordList
+            .filter((k): k is string => typeof k === 'string')
+            .filter(k => k.trim().length > 0);
+
+        if (submitted.length === 0) {
+            return NextResponse.json({ error: 'At least one keyword is required' }, { status: 400 });
+        }
+
+        const country = body.country ?? app.country;
+        if (!isSupportedCountry(country)) {
+            return NextResponse.json({ error: `Unsupported country: ${country}` }, { status: 400 });
+        }
+
+        if (submitted.length > MAX_KEYWORDS_PER_REQUEST) {
+            return NextResponse.json({
+                error: `At most ${MAX_KEYWORDS_PER_REQUEST} keywords can be added at once`
+            }, { status: 400 });
+        }
+
+        const { toAdd, duplicates } = await partitionNewKeywords(
+            appId,
+            submitted.map(keyword => ({ keyword, source: 'manual' as const })),
+            country
+        );
+
+        if (toAdd.length === 0) {
+            return NextResponse.json({ job: null, queued: [], duplicates });
+        }
+
+        const activeJob = await findActiveJob(app.appStoreId);
+        if (activeJob) {
+            return NextResponse.json({
+                error: 'Analysis already in progress',
+                job: serializeJob(activeJob)
+            }, { status: 409 });
+        }
+
+        const job = await createAnalysisJob(app.appStoreId, 'keywords', app.id, country, {
+            candidates: toAdd,
+            startedBy: auth.user.username,
+        });
+
+        // Scoring takes a while with the request budget, so it runs after the response
+        after(() => runAnalysisJob(job.id));
+
+        return NextResponse.json({
+            jobId: job.id,
+            job: serializeJob(job),
+            queued: toAdd.map(candidate => candidate.keyword),
+            duplicates,
+        }, { status: 202 });
+    } catch (error) {
+        console.error('Error adding keywords:', error);
+        return NextResponse.json({ error: 'Failed to add keywords' }, { status: 500 });
+    }
+}
@@ -0,0 +1,61 @@
+import { db } from '@/lib/db';
+import { apps } from '@/lib/db/schema';
+import { createAnalysisJob, findActiveJob, runAnalysisJob, serializeJob } from '@/lib/analysis/jobs';
+import { isSupportedCountry } from '@/lib/countries';
+import { requireRole } from '@/lib/auth/guard';
+import { eq } from 'drizzle-orm';
+import { NextRequest, NextResponse, after } from 'next/server';
+
+// POST /api/apps/[id]/ranks - Queue a search-rank check of the app's keywords
+// An optional { country } checks another storefront instead of the app's own
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const auth = await requireRole(request, 'editor');
+        if (auth.response) return auth.response;
+
+        const { id } = await params;
+        const appId = parseInt(id, 10);
+
+        if (isNaN(appId)) {
+            return NextResponse.json({ error: 'Invalid app ID' }, { status: 400 });
+        }
+
+        const [app] = await db.select().from(apps).where(eq(apps.id, appId)).limit(1);
+
+        if (!app) {
+            return NextResponse.json({ error: 'App not found' }, { status: 404 });
+        }
+
+        if (isNaN(parseInt(app.appStoreId, 10))) {
+            return NextResponse.json({ error: 'App has no App Store ID to look for in search results' }, { status: 422 });
+        }
+
+        const body = await request.json().catch(() => ({}));
+        const country = body.country ?? app.country;
+
+        if (!isSupportedCountry(country)) {
+            return NextResponse.json({ error: `Unsupported country: ${country}` }, { status: 400 });
+        }
+
+        const activeJob = await findActiveJob(app.appStoreId);
+        if (activeJob) {
+            return NextResponse.json({
+                error: 'Analysis already in progress',
+                job: serializeJob(activeJob)
+            }, { status: 409 });
+        }
+
+        const job = await createAnalysisJob(app.appStoreId, 'ranks', app.id, country, { startedBy: auth.user.username });
+
+        // Run the searches after the response has been sent
+        after(() => runAnalysisJob(job.id));
+
+        return NextResponse.json({ jobId: job.id, job: serializeJob(job) }, { status: 202 });
+    } catch (error) {
+        console.error('Error starting rank check:', error);
+        return NextResponse.json({ error: 'Failed to start rank check' }, { status: 500 });
+    }
+}
@@ -1,14 +1,25 @@
 import { db } from '@/lib/db';
 import { apps, keywords } from '@/lib/db/schema';
-import { eq, sql } from 'drizzle-orm';
+import { getKeywordTrends } from '@/lib/analysis/history';
+import { normalizeKeyword } from '@/lib/analysis/keywords';
+import { getAppKeywords } from '@/lib/analysis/app-keywords';
+import { getScoringConfigForApp, recomputeAppScores } from '@/lib/analysis/scoring';
+import { getWorkspace } from '@/lib/workspaces';
+import { recordAudit } from '@/lib/auth/audit';
+import { requireRole } from '@/lib/auth/guard';
+import { count, eq } from 'drizzle-orm';
 import { NextRequest, NextResponse } from 'next/server';
 
-// GET /api/apps/[id] - Get single app with all keywords
+// GET /api/apps/[id]?country=gb - Get single app with its keywords in one storefront
+// Defaults to the storefront the app was first analyzed in
 export async function GET(
     request: NextRequest,
     { params }: { params: Promise<{ id: string }> }
 ) {
     try {
+        const auth = await requireRole(request, 'viewer');
+        if (auth.response) return auth.response;
+
         const { id } = await params;
         const appId = parseInt(id, 10);
 
@@ -23,12 +34,17 @@ export async function GET(
             return NextResponse.json({ error: 'App not found' }, { status: 404 });
         }
 
-        // Get all keywords for this app
-        const appKeywords = await db
-            .select()
+        const country = request.nextUrl.searchParams.get('country') || app.country;
+
+        // Storefronts the app has keywords in, for the country switcher
+        const countries = await db
+            .select({ country: keywords.country, keywordCount: count(keywords.id) })
             .from(keywords)
             .where(eq(keywords.appId, appId))
-            .orderBy(sql`${keywords.opportunity} DESC NULLS LAST`);
+            .groupBy(keywords.country);
+
+        // Get all keywords for this app in the storefront, with their latest search rank
+        const appKeywords = await getAppKeywords(appId, country);
 
         // Calculate summary stats
         const summary = {
@@ -42,10 +58,19 @@ export async function GET(
             avoid: appKeywords.filter(k => k.recommendation === 'avoid').length,
         };
 
+        // Attach recent metric history for trend sparklines
+        const trends = await getKeywordTrends(appId, appKeywords.map(k => k.keyword), country);
+
         return NextResponse.json({
             ...app,
             genres: JSON.parse(app.genres || '[]'),
-            keywords: appKeywords,
+            screenshots: JSON.parse(app.screenshots || '[]'),
+            selectedCountry: country,
+            countries,
+            keywords: appKeywords.map(k => ({
+                ...k,
+                history: trends.get(normalizeKeyword(k.keyword)) ?? [],
+            })),
             summary,
         });
     } catch (error) {
@@ -54,12 +79,66 @@ export async function GET(
     }
 }
 
+// PATCH /api/apps/[id] - Move the app to another workspace: { workspaceId }
+// Its keywords are re-scored with the new workspace's scoring settings.
+export async function PATCH(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const auth = await requireRole(request, 'editor');
+        if (auth.response) return auth.response;
+
+        const { id } = await params;
+        const appId = parseInt(id, 10);
+
+        if (isNaN(appId)) {
+            return NextResponse.json({ error: 'Invalid app ID' }, { status: 400 });
+        }
+
+        const [app] = await db.select().from(apps).where(eq(apps.id, appId)).limit(1);
+
+        if (!app) {
+            return NextResponse.json({ error: 'App not found' }, { status: 404 });
+        }
+
+        const body = await request.json();
+
+        if (!Number.isInteger(body.workspaceId)) {
+            return NextResponse.json({ error: 'workspaceId is required' }, { status: 400 });
+        }
+
+        const workspace = await getWorkspace(body.workspaceId);
+        if (!workspace) {
+            return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+        }
+
+        const [updated] = await db
+            .update(apps)
+            .set({ workspaceId: workspace.id })
+            .where(eq(apps.id, appId))
+            .returning();
+
+        const recomputed = workspace.id !== app.workspaceId
+            ? await recomputeAppScores(appId, await getScoringConfigForApp(updated))
+            : { updated: 0, recommendationChanges: [] };
+
+        return NextResponse.json({ app: updated, recomputed });
+    } catch (error) {
+        console.error('Error moving app:', error);
+        return NextResponse.json({ error: 'Failed to move app' }, { status: 500 });
+    }
+}
+
 // DELETE /api/apps/[id] - Delete app and all its keywords
 export async function DELETE(
     request: NextRequest,
     { params }: { params: Promise<{ id: string }> }
 ) {
     try {
+        const auth = await requireRole(request, 'editor');
+        if (auth.response) return auth.response;
+
         const { id } = await params;
         const appId = parseInt(id, 10);
 
@@ -74,6 +153,8 @@ export async function DELETE(
             return NextResponse.json({ error: 'App not found' }, { status: 404 });
         }
 
+        await recordAudit(auth.user, 'app.delete', result[0].title, { appId: result[0].id, appStoreId: result[0].appStoreId });
+
         return NextResponse.json({ success: true, deleted: result[0] });
     } catch (error) {
         console.error('Error deleting app:', error);
@@ -0,0 +1,142 @@
+import { db } from '@/lib/db';
+import { apps, appSchedules } from '@/lib/db/schema';
+import {
+    SCHEDULE_CADENCES,
+    getAppSchedule,
+    getScheduleRuns,
+    resolveScheduleCron,
+    saveAppSchedule,
+    type ScheduleCadence,
+} from '@/lib/analysis/scheduler';
+import { isSupportedCountry } from '@/lib/countries';
+import { recordAudit } from '@/lib/auth/audit';
+import { requireRole } from '@/lib/auth/guard';
+import { eq } from 'drizzle-orm';
+import { NextRequest, NextResponse } from 'next/server';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+async function findApp(params: RouteParams['params']) {
+    const { id } = await params;
+    const appId = parseInt(id, 10);
+    if (isNaN(appId)) return { appId, app: null };
+
+    const [app] = await db.select().from(apps).where(eq(apps.id, appId)).limit(1);
+    return { appId, app: app ?? null };
+}
+
+// GET /api/apps/[id]/schedule - The app's re-score schedule, null when it has none,
+// with its most recent runs
+export async function GET(request: NextRequest, { params }: RouteParams) {
+    try {
+        const auth = await requireRole(request, 'viewer');
+        if (auth.response) return auth.response;
+
+        const { appId, app } = await findApp(params);
+
+        if (isNaN(appId)) {
+            return NextResponse.json({ error: 'Invalid app ID' }, { status: 400 });
+        }
+
+        if (!app) {
+            return NextResponse.json({ error: 'App not found' }, { status: 404 });
+        }
+
+        const schedule = await getAppSchedule(appId);
+
+        return NextResponse.json({
+            schedule,
+            runs: schedule ? await getScheduleRuns(schedule.id) : [],
+        });
+    } catch (error) {
+        console.error('Error fetching schedule:', error);
+        return NextResponse.json({ error: 'Failed to fetch schedule' }, { status: 500 });
+    }
+}
+
+// PUT /api/apps/[id]/schedule - Set how often the app's keywords are re-scored
+// { cadence: 'daily' | 'weekly' | 'cron', cron?: '0 6 * * 1-5', country?, enabled? }
+// The storefront defaults to the app's own.
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+    try {
+        const auth = await requireRole(request, 'editor');
+        if (auth.response) return auth.response;
+
+        const { appId, app } = await findApp(params);
+
+        if (isNaN(appId)) {
+            return NextResponse.json({ error: 'Invalid app ID' }, { status: 400 });
+        }
+
+        if (!app) {
+            return NextResponse.json({ error: 'App not found' }, { status: 404 });
+        }
+
+        const body = await request.json();
+        const existing = await getAppSchedule(appId);
+        const country = body.country ?? existing?.country ?? app.country;
+
+        if (!SCHEDULE_CADENCES.includes(body.cadence)) {
+            return NextResponse.json({
+                error: `cadence must be one of: ${SCHEDULE_CADENCES.join(', ')}`
+            }, { status: 400 });
+        }
+
+        if (!isSupportedCountry(country)) {
+            return NextResponse.json({ error: `Unsupported country: ${country}` }, { status: 400 });
+        }
+
+        if (body.enabled !== undefined && typeof body.enabled !== 'boolean') {
+            return NextResponse.json({ error: 'enabled must be a boolean' }, { status: 400 });
+        }
+
+        try {
+            resolveScheduleCron(body.cadence, body.cron);
+        } catch (error) {
+            return NextResponse.json({ error: error instanceof Error ? error.message : 'Invalid cron expression' }, { status: 400 });
+        }
+
+        const schedule = await saveAppSchedule(appId, {
+            cadence: body.cadence as ScheduleCadence,
+            cron: body.cron,
+            country,
+            enabled: body.enabled,
+        });
+
+        return NextResponse.json({ schedule, runs: await getScheduleRuns(schedule.id) });
+    } catch (error) {
+        console.error('Error updating schedule:', error);
+        return NextResponse.json({ error: 'Failed to update schedule' }, { status: 500 });
+    }
+}
+
+// DELETE /api/apps/[id]/schedule - Stop re-scoring the app automatically, along with its run history
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+    try {
+        const auth = await requireRole(request, 'editor');
+        if (auth.response) return auth.response;
+
+        const { appId, app } = await findApp(params);
+
+        if (isNaN(appId)) {
+            return NextResponse.json({ error: 'Invalid app ID' }, { status: 400 });
+        }
+
+        if (!app) {
+            return NextResponse.json({ error: 'App not found' }, { status: 404 });
+        }
+
+        const result = await db.delete(appSchedules).where(eq(appSchedules.appId, appId)).returning();
+
+        if (result.length === 0) {
+            return NextResponse.json({ error: 'App has no schedule' }, { status: 404 });
+        }
+
+        await recordAudit(auth.user, 'schedule.delete', app.title, { appId, cadence: result[0].cadence });
+
+        return NextResponse.json({ success: true, deleted: result[0] });
+    } catch (error) {
+        console.error('Error deleting schedule:', error);
+        return NextResponse.json({ error: 'Failed to delete schedule' }, { status: 500 });
+    }
+}
@@ -0,0 +1,130 @@
+import { db } from '@/lib/db';
+import { apps, type App } from '@/lib/db/schema';
+import {
+    diffScoringConfig,
+    getAppBaseScoringConfig,
+    getScoringConfigForApp,
+    parseScoringOverrides,
+    recomputeAppScores,
+} from '@/lib/analysis/scoring';
+import { resolveScoringConfig, validateScoringConfig } from '@services/scoring';
+import { requireRole } from '@/lib/auth/guard';
+import { eq } from 'drizzle-orm';
+import { NextRequest, NextResponse } from 'next/server';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+async function findApp(params: RouteParams['params']) {
+    const { id } = await params;
+    const appId = parseInt(id, 10);
+    if (isNaN(appId)) return { appId, app: null };
+
+    const [app] = await db.select().from(apps).where(eq(apps.id, appId)).limit(1);
+    return { appId, app: app ?? null };
+}
+
+// The defaults are the app's workspace scoring, which its overrides apply on top of
+async function describeScoring(app: App) {
+    return {
+        config: await getScoringConfigForApp(app),
+        overrides: parseScoringOverrides(app.scoringConfig),
+        defaults: await getAppBaseScoringConfig(app),
+    };
+}
+
+// GET /api/apps/[id]/scoring - Effective scoring config, the app's overrides and its workspace's scoring
+export async function GET(request: NextRequest, { params }: RouteParams) {
+    try {
+        const auth = await requireRole(request, 'viewer');
+        if (auth.response) return auth.response;
+
+        const { appId, app } = await findApp(params);
+
+        if (isNaN(appId)) {
+            return NextResponse.json({ error: 'Invalid app ID' }, { status: 400 });
+        }
+
+        if (!app) {
+            return NextResponse.json({ error: 'App not found' }, { status: 404 });
+        }
+
+        return NextResponse.json(await describeScoring(app));
+    } catch (error) {
+        console.error('Error fetching scoring config:', error);
+        return NextResponse.json({ error: 'Failed to fetch scoring config' }, { status: 500 });
+    }
+}
+
+// PUT /api/apps/[id]/scoring - Set the app's weights and thresholds, then recompute
+// its stored scores. A partial config is applied on top of the defaults, and
+// values equal to the defaults aren't stored as overrides.
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+    try {
+        const auth = await requireRole(request, 'editor');
+        if (auth.response) return auth.response;
+
+        const { appId, app } = await findApp(params);
+
+        if (isNaN(appId)) {
+            return NextResponse.json({ error: 'Invalid app ID' }, { status: 400 });
+        }
+
+        if (!app) {
+            return NextResponse.json({ error: 'App not found' }, { status: 404 });
+        }
+
+        const body = await request.json();
+        const base = await getAppBaseScoringConfig(app);
+        const config = resolveScoringConfig(body, base);
+        const errors = validateScoringConfig(config);
+
+        if (errors.length > 0) {
+            return NextResponse.json({ error: 'Invalid scoring config', details: errors }, { status: 400 });
+        }
+
+        const overrides = diffScoringConfig(config, base);
+        const [updatedApp] = await db
+            .update(apps)
+            .set({ scoringConfig: overrides ? JSON.stringify(overrides) : null })
+            .where(eq(apps.id, appId))
+            .returning();
+
+        const recomputed = await recomputeAppScores(appId, config);
+
+        return NextResponse.json({ ...(await describeScoring(updatedApp)), recomputed });
+    } catch (error) {
+        console.error('Error updating scoring config:', error);
+        return NextResponse.json({ error: 'Failed to update scoring config' }, { status: 500 });
+    }
+}
+
+// DELETE /api/apps/[id]/scoring - Go back to the workspace scoring and recompute
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+    try {
+        const auth = await requireRole(request, 'editor');
+        if (auth.response) return auth.response;
+
+        const { appId, app } = await findApp(params);
+
+        if (isNaN(appId)) {
+            return NextResponse.json({ error: 'Invalid app ID' }, { status: 400 });
+        }
+
+        if (!app) {
+            return NextResponse.json({ error: 'App not found' }, { status: 404 });
+        }
+
+        const [updatedApp] = await db
+            .update(apps)
+            .set({ scoringConfig: null })
+            .where(eq(apps.id, appId))
+            .returning();
+
+        const recomputed = await recomputeAppScores(appId, await getAppBaseScoringConfig(updatedApp));
+
+        return NextResponse.json({ ...(await describeScoring(updatedApp)), recomputed });
+    } catch (error) {
+        console.error('Error resetting scoring config:', error);
+        return NextResponse.json({ error: 'Failed to reset scoring config' }, { status: 500 });
+    }
+}
@@ -1,11 +1,28 @@
 import { db } from '@/lib/db';
 import { apps, keywords } from '@/lib/db/schema';
+import { recordKeywordSnapshots } from '@/lib/analysis/history';
+import { getInProgressCliRuns } from '@/lib/analysis/cli-import';
+import { getScheduleSummaries } from '@/lib/analysis/scheduler';
+import { isSupportedCountry } from '@/lib/countries';
+import { resolveWorkspace } from '@/lib/workspaces';
+import { requireRole } from '@/lib/auth/guard';
 import { eq, sql, count } from 'drizzle-orm';
 import { NextRequest, NextResponse } from 'next/server';
 
-// GET /api/apps - List all apps with stats
-export async function GET() {
+// GET /api/apps?workspace=2 - List the apps in a workspace with stats, or every app
+// when no workspace is given
+export async function GET(request: NextRequest) {
     try {
+        const auth = await requireRole(request, 'viewer');
+        if (auth.response) return auth.response;
+
+        const workspaceParam = request.nextUrl.searchParams.get('workspace');
+        const workspace = workspaceParam ? await resolveWorkspace(workspaceParam) : null;
+
+        if (workspaceParam && !workspace) {
+            return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+        }
+
         const appsWithStats = await db
             .select({
                 id: apps.id,
@@ -15,6 +32,8 @@ export async function GET() {
                 genres: apps.genres,
                 screenshotCount: apps.screenshotCount,
                 analyzedAt: apps.analyzedAt,
+                country: apps.country,
+                workspaceId: apps.workspaceId,
                 totalKeywords: count(keywords.id),
                 excellentCount: sql<number>`SUM(CASE WHEN ${keywords.recommendation} = 'excellent' THEN 1 ELSE 0 END)`,
                 goodCount: sql<number>`SUM(CASE WHEN ${keywords.recommendation} = 'good' THEN 1 ELSE 0 END)`,
@@ -25,19 +44,30 @@ export async function GET() {
             })
             .from(apps)
             .leftJoin(keywords, eq(apps.id, keywords.appId))
+            .where(workspace ? eq(apps.workspaceId, workspace.id) : undefined)
             .groupBy(apps.id)
             .orderBy(sql`${apps.analyzedAt} DESC`);
 
-        const result = appsWithStats.map(app => ({
-            ...app,
-            genres: JSON.parse(app.genres || '[]'),
-            excellentCount: app.excellentCount || 0,
-            goodCount: app.goodCount || 0,
-            considerCount: app.considerCount || 0,
-            challengingCount: app.challengingCount || 0,
-            avoidCount: app.avoidCount || 0,
-            failedCount: app.failedCount || 0,
-        }));
+        const cliRuns = await getInProgressCliRuns();
+        const schedules = await getScheduleSummaries();
+
+        const result = appsWithStats.map(app => {
+            const cliRun = cliRuns.get(app.id);
+
+            return {
+                ...app,
+                genres: JSON.parse(app.genres || '[]'),
+                excellentCount: app.excellentCount || 0,
+                goodCount: app.goodCount || 0,
+                considerCount: app.considerCount || 0,
+                challengingCount: app.challengingCount || 0,
+                avoidCount: app.avoidCount || 0,
+                failedCount: app.failedCount || 0,
+                // Set while the imported CLI run hasn't written its final results yet
+                cliRun: cliRun ? { processed: cliRun.processed, total: cliRun.total } : null,
+                schedule: schedules.get(app.id) ?? null,
+            };
+        });
 
         return NextResponse.json(result);
     } catch (error) {
@@ -47,19 +77,46 @@ export async function GET() {
 }
 
 // POST /api/apps - Add a new app (just stores data, analysis is separate)
+// An optional workspaceId picks the workspace, whose storefront is the default country
 export async function POST(request: NextRequest) {
     try {
+        const auth = await requireRole(request, 'editor');
+        if (auth.response) return auth.response;
+
         const body = await request.json();
-        const { appStoreId, title, description, genres, screenshotCount, keywords: keywordResults } = body;
+        const {
+            appStoreId,
+            title,
+            description,
+            genres,
+            screenshotCount,
+            screenshots = [],
+            keywords: keywordResults
+        } = body;
 
         if (!appStoreId || !title) {
             return NextResponse.json({ error: 'appStoreId and title are required' }, { status: 400 });
         }
 
+        const workspace = await resolveWorkspace(body.workspaceId);
+        if (!workspace) {
+            return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+        }
+
+        const country = body.country ?? workspace.country;
+
+        if (!isSupportedCountry(country)) {
+            return NextResponse.json({ error: `Unsupported country: ${country}` }, { status: 400 });
+        }
+
         // Check if app already exists
         const existing = await db.select().from(apps).where(eq(apps.appStoreId, appStoreId)).limit(1);
         if (existing.length > 0) {
-            return NextResponse.json({ error: 'App already exists', app: existing[0] }, { status: 409 });
+            return NextResponse.json({
+                error: 'App already exists - refresh it instead',
+                app: existing[0],
+                refreshUrl: `/api/apps/${existing[0].id}/refresh`
+            }, { status: 409 });
         }
 
         // Insert new app
@@ -68,8 +125,11 @@ export async function POST(request: NextRequest) {
             title,
             description: description || '',
             genres: JSON.stringify(genres || []),
-            screenshotCount: screenshotCount || 0,
+            screenshotCount: screenshotCount || screenshots.length,
+            screenshots: JSON.stringify(screenshots),
             analyzedAt: new Date().toISOString(),
+            country,
+            workspaceId: workspace.id,
         }).returning();
 
         // Insert keywords if provided
@@ -77,15 +137,22 @@ export async function POST(request: NextRequest) {
             const keywordInserts = keywordResults.map((kw: any) => ({
                 appId: newApp.id,
                 keyword: kw.keyword,
+                country,
                 traffic: kw.traffic,
                 difficulty: kw.difficulty,
                 opportunity: kw.opportunity,
                 recommendation: kw.recommendation,
                 analysisSucceeded: kw.analysisSucceeded ?? true,
                 analyzedAt: kw.analyzedAt || new Date().toISOString(),
+                source: kw.source || 'unknown',
+                sourceSeed: kw.sourceSeed ?? null,
+                sourceAppStoreId: kw.sourceAppStoreId ?? null,
+                sourceAppTitle: kw.sourceAppTitle ?? null,
+                fromScreenshots: kw.fromScreenshots ?? false,
             }));
 
             await db.insert(keywords).values(keywordInserts);
+            await recordKeywordSnapshots(keywordInserts);
         }
 
         return NextResponse.json(newApp, { status: 201 });
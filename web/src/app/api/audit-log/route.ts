@@ -0,0 +1,16 @@
+import { getAuditLog } from '@/lib/auth/audit';
+import { requireRole } from '@/lib/auth/guard';
+import { NextRequest, NextResponse } from 'next/server';
+
+// GET /api/audit-log - Latest deletions and imports with who made them, admins only
+export async function GET(request: NextRequest) {
+    try {
+        const auth = await requireRole(request, 'admin');
+        if (auth.response) return auth.response;
+
+        return NextResponse.json(await getAuditLog());
+    } catch (error) {
+        console.error('Error fetching audit log:', error);
+        return NextResponse.json({ error: 'Failed to fetch audit log' }, { status: 500 });
+    }
+}
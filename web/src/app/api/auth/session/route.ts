@@ -0,0 +1,57 @@
+import { authenticateUser, isSetupRequired, serializeUser } from '@/lib/auth/users';
+import { createSession, deleteSession } from '@/lib/auth/credentials';
+import { SESSION_COOKIE } from '@/lib/auth/constants';
+import { getRequestUser, setSessionCookie } from '@/lib/auth/guard';
+import { NextRequest, NextResponse } from 'next/server';
+
+// GET /api/auth/session - Who is signed in, null when nobody is. setupRequired is
+// true until the first account has been created.
+export async function GET(request: NextRequest) {
+    try {
+        return NextResponse.json({
+            user: await getRequestUser(request),
+            setupRequired: await isSetupRequired(),
+        });
+    } catch (error) {
+        console.error('Error fetching session:', error);
+        return NextResponse.json({ error: 'Failed to fetch session' }, { status: 500 });
+    }
+}
+
+// POST /api/auth/session - Sign in: { username, password }. Sets the session cookie.
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json();
+
+        if (typeof body.username !== 'string' || typeof body.password !== 'string') {
+            return NextResponse.json({ error: 'username and password are required' }, { status: 400 });
+        }
+
+        const user = await authenticateUser(body.username, body.password);
+        if (!user) {
+            return NextResponse.json({ error: 'Wrong username or password' }, { status: 401 });
+        }
+
+        const response = NextResponse.json({ user: serializeUser(user) });
+        setSessionCookie(request, response, await createSession(user.id));
+        return response;
+    } catch (error) {
+        console.error('Error signing in:', error);
+        return NextResponse.json({ error: 'Failed to sign in' }, { status: 500 });
+    }
+}
+
+// DELETE /api/auth/session - Sign out of this browser
+export async function DELETE(request: NextRequest) {
+    try {
+        const token = request.cookies.get(SESSION_COOKIE)?.value;
+        if (token) await deleteSession(token);
+
+        const response = NextResponse.json({ success: true });
+        response.cookies.delete(SESSION_COOKIE);
+        return response;
+    } catch (error) {
+        console.error('Error signing out:', error);
+        return NextResponse.json({ error: 'Failed to sign out' }, { status: 500 });
+    }
+}
@@ -0,0 +1,35 @@
+import { createUser, isSetupRequired, serializeUser, validatePassword, validateUsername } from '@/lib/auth/users';
+import { createSession } from '@/lib/auth/credentials';
+import { setSessionCookie } from '@/lib/auth/guard';
+import { NextRequest, NextResponse } from 'next/server';
+
+// POST /api/auth/setup - Create the first account, an admin, and sign it in:
+// { username, password }. Only works while no accounts exist.
+export async function POST(request: NextRequest) {
+    try {
+        if (!(await isSetupRequired())) {
+            return NextResponse.json({ error: 'Setup is already complete - sign in instead' }, { status: 409 });
+        }
+
+        const body = await request.json();
+
+        const username = validateUsername(body.username);
+        if ('error' in username) {
+            return NextResponse.json({ error: username.error }, { status: 400 });
+        }
+
+        const passwordError = validatePassword(body.password);
+        if (passwordError) {
+            return NextResponse.json({ error: passwordError }, { status: 400 });
+        }
+
+        const user = await createUser(username.username, body.password, 'admin');
+
+        const response = NextResponse.json({ user: serializeUser(user) }, { status: 201 });
+        setSessionCookie(request, response, await createSession(user.id));
+        return response;
+    } catch (error) {
+        console.error('Error creating first account:', error);
+        return NextResponse.json({ error: 'Failed to create account' }, { status: 500 });
+    }
+}
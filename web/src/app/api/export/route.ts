@@ -0,0 +1,79 @@
+import { db } from '@/lib/db';
+import { apps, keywords } from '@/lib/db/schema';
+import { getAppKeywords } from '@/lib/analysis/app-keywords';
+import { exportFileName, isExportFormat, keywordExportResponse, type ExportRow } from '@/lib/export/keywords';
+import { applyKeywordView, keywordViewFromParams } from '@/lib/keyword-view';
+import { resolveWorkspace } from '@/lib/workspaces';
+import { requireRole } from '@/lib/auth/guard';
+import { asc, eq } from 'drizzle-orm';
+import { NextRequest, NextResponse } from 'next/server';
+
+// GET /api/export?format=csv|xlsx|json - Download every app's keywords in one file,
+// with app title and App Store ID columns. Rows are grouped by app and storefront;
+// an optional ?country= limits the export to one storefront and ?workspace= to one
+// workspace's apps, and the same filter and sort parameters as the per-app export
+// apply within each group.
+export async function GET(request: NextRequest) {
+    try {
+        const auth = await requireRole(request, 'viewer');
+        if (auth.response) return auth.response;
+
+        const searchParams = request.nextUrl.searchParams;
+        const format = searchParams.get('format') ?? 'csv';
+        const country = searchParams.get('country');
+        const workspaceParam = searchParams.get('workspace');
+
+        if (!isExportFormat(format)) {
+            return NextResponse.json({ error: `Unsupported format: ${format}` }, { status: 400 });
+        }
+
+        const workspace = workspaceParam ? await resolveWorkspace(workspaceParam) : null;
+        if (workspaceParam && !workspace) {
+            return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+        }
+
+        const view = keywordViewFromParams(searchParams);
+        const allApps = await db
+            .select()
+            .from(apps)
+            .where(workspace ? eq(apps.workspaceId, workspace.id) : undefined)
+            .orderBy(asc(apps.title));
+
+        // Storefronts each app has keywords in
+        const storefronts = await db
+            .selectDistinct({ appId: keywords.appId, country: keywords.country })
+            .from(keywords)
+            .orderBy(asc(keywords.country));
+
+        const rows: ExportRow[] = [];
+
+        for (const app of allApps) {
+            const appCountries = storefronts
+                .filter(storefront => storefront.appId === app.id)
+                .map(storefront => storefront.country)
+                .filter(code => !country || code === country);
+
+            for (const code of appCountries) {
+                const appKeywords = applyKeywordView(await getAppKeywords(app.id, code), view);
+                rows.push(...appKeywords.map(keyword => ({ app, keyword })));
+            }
+        }
+
+        const date = new Date().toISOString().slice(0, 10);
+
+        return keywordExportResponse(format, rows, {
+            includeApp: true,
+            fileName: exportFileName(['portfolio', country ?? '', 'keywords', date], format),
+            sheetName: 'Portfolio keywords',
+            metadata: {
+                workspace: workspace?.name ?? 'all',
+                apps: allApps.length,
+                country: country ?? 'all',
+                view,
+            },
+        });
+    } catch (error) {
+        console.error('Error exporting portfolio:', error);
+        return NextResponse.json({ error: 'Failed to export portfolio' }, { status: 500 });
+    }
+}
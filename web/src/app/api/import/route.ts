@@ -1,19 +1,25 @@
-import { db } from '@/lib/db';
-import { apps, keywords } from '@/lib/db/schema';
-import { NextResponse } from 'next/server';
+import { importResultsFolder, type ImportReport } from '@/lib/analysis/cli-import';
+import { recordAudit } from '@/lib/auth/audit';
+import { requireRole } from '@/lib/auth/guard';
+import { NextRequest, NextResponse } from 'next/server';
 import fs from 'fs';
 import path from 'path';
 
-// POST /api/import - Import existing JSON results from results/ directory
-export async function POST() {
+// POST /api/import - Import CLI results from the results/ directory. Safe to run
+// repeatedly: apps already in the dashboard get new and newer keyword results
+// merged in, and unchanged folders are skipped.
+export async function POST(request: NextRequest) {
     try {
+        const auth = await requireRole(request, 'editor');
+        if (auth.response) return auth.response;
+
         const resultsDir = path.join(process.cwd(), '..', 'results');
 
         if (!fs.existsSync(resultsDir)) {
             return NextResponse.json({ error: 'Results directory not found' }, { status: 404 });
         }
 
-        const imported: string[] = [];
+        const imported: ImportReport[] = [];
         const skipped: string[] = [];
         const errors: string[] = [];
 
@@ -23,67 +29,24 @@ export async function POST() {
             .map(dirent => dirent.name);
 
         for (const folder of appFolders) {
-            const folderPath = path.join(resultsDir, folder);
-            const files = fs.readdirSync(folderPath);
-
-            // Find the final JSON file
-            const finalFile = files.find(f => f.endsWith('_progressive_final.json'));
-
-            if (!finalFile) {
-                skipped.push(folder);
-                continue;
-            }
-
             try {
-                const filePath = path.join(folderPath, finalFile);
-                const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
-
-                if (!data.appData || !data.results) {
-                    errors.push(`${folder}: Invalid data structure`);
-                    continue;
-                }
-
-                // Check if app already exists by title (since we don't have appStoreId in JSON)
-                const existingApps = await db.select().from(apps).limit(1000);
-                const exists = existingApps.some(a => a.title === data.appData.title);
+                const outcome = await importResultsFolder(resultsDir, folder);
 
-                if (exists) {
-                    skipped.push(`${folder} (already exists)`);
-                    continue;
+                if ('skipped' in outcome) {
+                    skipped.push(outcome.skipped);
+                } else {
+                    imported.push(outcome.report);
                 }
-
-                // Insert app
-                const [newApp] = await db.insert(apps).values({
-                    appStoreId: `imported-${Date.now()}-${Math.random().toString(36).slice(2)}`,
-                    title: data.appData.title,
-                    description: data.appData.description || '',
-                    genres: JSON.stringify(data.appData.genres || []),
-                    screenshotCount: data.appData.screenshots?.length || 0,
-                    analyzedAt: data.completedAt || new Date().toISOString(),
-                }).returning();
-
-                // Insert keywords
-                if (data.results.length > 0) {
-                    const keywordInserts = data.results.map((kw: any) => ({
-                        appId: newApp.id,
-                        keyword: kw.keyword,
-                        traffic: kw.traffic,
-                        difficulty: kw.difficulty,
-                        opportunity: kw.opportunity,
-                        recommendation: kw.recommendation,
-                        analysisSucceeded: kw.analysisSucceeded ?? true,
-                        analyzedAt: kw.analyzedAt || new Date().toISOString(),
-                    }));
-
-                    await db.insert(keywords).values(keywordInserts);
-                }
-
-                imported.push(`${folder} (${data.results.length} keywords)`);
             } catch (err) {
                 errors.push(`${folder}: ${err instanceof Error ? err.message : 'Unknown error'}`);
             }
         }
 
+        await recordAudit(auth.user, 'data.import', 'results/', {
+            imported: imported.map(report => report.folder),
+            errors: errors.length,
+        });
+
         return NextResponse.json({
             success: true,
             imported,
@@ -92,6 +55,10 @@ export async function POST() {
             summary: {
                 totalFolders: appFolders.length,
                 imported: imported.length,
+                createdApps: imported.filter(report => report.createdApp).length,
+                inProgress: imported.filter(report => report.status === 'in_progress').length,
+                addedKeywords: imported.reduce((sum, report) => sum + report.added.length, 0),
+                updatedKeywords: imported.reduce((sum, report) => sum + report.updated.length, 0),
                 skipped: skipped.length,
                 errors: errors.length,
             }
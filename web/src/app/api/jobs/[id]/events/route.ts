@@ -0,0 +1,100 @@
+import { getAnalysisJob, isJobFinished, serializeJob } from '@/lib/analysis/jobs';
+import { requireRole } from '@/lib/auth/guard';
+import { NextRequest, NextResponse } from 'next/server';
+
+const POLL_INTERVAL_MS = 500;
+
+// GET /api/jobs/[id]/events - Server-sent events stream of job progress
+// Sends progress on every change, done once the job has finished, and failed
+// when the job can no longer be read
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const auth = await requireRole(request, 'viewer');
+    if (auth.response) return auth.response;
+
+    const { id } = await params;
+    const jobId = parseInt(id, 10);
+
+    if (isNaN(jobId)) {
+        return NextResponse.json({ error: 'Invalid job ID' }, { status: 400 });
+    }
+
+    const initialJob = await getAnalysisJob(jobId);
+    if (!initialJob) {
+        return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    const encoder = new TextEncoder();
+    let timer: ReturnType<typeof setInterval> | undefined;
+    // Set once the stream is closed by us or cancelled by the client, nothing is
+    // sent after that
+    let closed = false;
+
+    const stream = new ReadableStream({
+        start(controller) {
+            let lastPayload = '';
+
+            const close = () => {
+                if (closed) return;
+                closed = true;
+                clearInterval(timer);
+                try {
+                    controller.close();
+                } catch {
+                    // Already closed by a client disconnect
+                }
+            };
+
+            const send = (event: string, payload: string) => {
+                if (closed) return;
+                controller.enqueue(encoder.encode(`event: ${event}\ndata: ${payload}\n\n`));
+            };
+
+            // The job row is the source of truth, so push every change we see on it
+            const poll = async () => {
+                if (closed) return;
+                try {
+                    const job = await getAnalysisJob(jobId);
+                    if (closed) return;
+                    if (!job) {
+                        send('failed', JSON.stringify({ error: 'Job not found' }));
+                        close();
+                        return;
+                    }
+
+                    const payload = JSON.stringify(serializeJob(job));
+                    if (payload !== lastPayload) {
+                        lastPayload = payload;
+                        send('progress', payload);
+                    }
+
+                    if (isJobFinished(job)) {
+                        send('done', payload);
+                        close();
+                    }
+                } catch (error) {
+                    console.error('Error streaming job progress:', error);
+                    close();
+                }
+            };
+
+            request.signal.addEventListener('abort', close);
+            timer = setInterval(poll, POLL_INTERVAL_MS);
+            poll();
+        },
+        cancel() {
+            closed = true;
+            clearInterval(timer);
+        },
+    });
+
+    return new Response(stream, {
+        headers: {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache, no-transform',
+            'Connection': 'keep-alive',
+        },
+    });
+}
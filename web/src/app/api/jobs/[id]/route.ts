@@ -0,0 +1,32 @@
+import { getAnalysisJob, serializeJob } from '@/lib/analysis/jobs';
+import { requireRole } from '@/lib/auth/guard';
+import { NextRequest, NextResponse } from 'next/server';
+
+// GET /api/jobs/[id] - Get the current status of an analysis job
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const auth = await requireRole(request, 'viewer');
+        if (auth.response) return auth.response;
+
+        const { id } = await params;
+        const jobId = parseInt(id, 10);
+
+        if (isNaN(jobId)) {
+            return NextResponse.json({ error: 'Invalid job ID' }, { status: 400 });
+        }
+
+        const job = await getAnalysisJob(jobId);
+
+        if (!job) {
+            return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+        }
+
+        return NextResponse.json(serializeJob(job));
+    } catch (error) {
+        console.error('Error fetching job:', error);
+        return NextResponse.json({ error: 'Failed to fetch job' }, { status: 500 });
+    }
+}
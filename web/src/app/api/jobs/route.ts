@@ -0,0 +1,28 @@
+import { db } from '@/lib/db';
+import { analysisJobs } from '@/lib/db/schema';
+import { ACTIVE_JOB_STATUSES, serializeJob } from '@/lib/analysis/jobs';
+import { requireRole } from '@/lib/auth/guard';
+import { inArray, sql } from 'drizzle-orm';
+import { NextRequest, NextResponse } from 'next/server';
+
+// GET /api/jobs - List analysis jobs (?active=true for queued/running only)
+export async function GET(request: NextRequest) {
+    try {
+        const auth = await requireRole(request, 'viewer');
+        if (auth.response) return auth.response;
+
+        const activeOnly = request.nextUrl.searchParams.get('active') === 'true';
+
+        const jobs = await db
+            .select()
+            .from(analysisJobs)
+            .where(activeOnly ? inArray(analysisJobs.status, ACTIVE_JOB_STATUSES) : undefined)
+            .orderBy(sql`${analysisJobs.createdAt} DESC`)
+            .limit(50);
+
+        return NextResponse.json(jobs.map(serializeJob));
+    } catch (error) {
+        console.error('Error fetching jobs:', error);
+        return NextResponse.json({ error: 'Failed to fetch jobs' }, { status: 500 });
+    }
+}
@@ -0,0 +1,68 @@
+import { db } from '@/lib/db';
+import { alertEvents, apps } from '@/lib/db/schema';
+import { serializeAlertEvent } from '@/lib/alerts/rules';
+import { requireRole } from '@/lib/auth/guard';
+import { and, count, desc, eq, inArray, isNull } from 'drizzle-orm';
+import { NextRequest, NextResponse } from 'next/server';
+
+// Notifications shown in the dashboard's list
+const NOTIFICATION_LIMIT = 30;
+
+// GET /api/notifications - Latest in-app alerts across all apps, with the number still unread
+export async function GET(request: NextRequest) {
+    try {
+        const auth = await requireRole(request, 'viewer');
+        if (auth.response) return auth.response;
+
+        const rows = await db
+            .select({ event: alertEvents, appTitle: apps.title })
+            .from(alertEvents)
+            .innerJoin(apps, eq(alertEvents.appId, apps.id))
+            .where(eq(alertEvents.channel, 'in_app'))
+            .orderBy(desc(alertEvents.firedAt), desc(alertEvents.id))
+            .limit(NOTIFICATION_LIMIT);
+
+        const [{ unread }] = await db
+            .select({ unread: count() })
+            .from(alertEvents)
+            .where(and(eq(alertEvents.channel, 'in_app'), isNull(alertEvents.readAt)));
+
+        return NextResponse.json({
+            notifications: rows.map(row => ({ ...serializeAlertEvent(row.event), appTitle: row.appTitle })),
+            unread,
+        });
+    } catch (error) {
+        console.error('Error fetching notifications:', error);
+        return NextResponse.json({ error: 'Failed to fetch notifications' }, { status: 500 });
+    }
+}
+
+// PATCH /api/notifications - Mark notifications as read: { ids: [1, 2] }, or all without ids
+export async function PATCH(request: NextRequest) {
+    try {
+        const auth = await requireRole(request, 'viewer');
+        if (auth.response) return auth.response;
+
+        const body = await request.json().catch(() => ({}));
+        const ids = body.ids;
+
+        if (ids !== undefined && (!Array.isArray(ids) || !ids.every(Number.isInteger))) {
+            return NextResponse.json({ error: 'ids must be an array of notification IDs' }, { status: 400 });
+        }
+
+        const updated = await db
+            .update(alertEvents)
+            .set({ readAt: new Date().toISOString() })
+            .where(and(
+                eq(alertEvents.channel, 'in_app'),
+                isNull(alertEvents.readAt),
+                ids ? inArray(alertEvents.id, ids) : undefined
+            ))
+            .returning({ id: alertEvents.id });
+
+        return NextResponse.json({ updated: updated.length });
+    } catch (error) {
+        console.error('Error marking notifications read:', error);
+        return NextResponse.json({ error: 'Failed to mark notifications read' }, { status: 500 });
+    }
+}
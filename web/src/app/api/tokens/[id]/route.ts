@@ -0,0 +1,38 @@
+import { db } from '@/lib/db';
+import { apiTokens } from '@/lib/db/schema';
+import { serializeApiToken } from '@/lib/auth/credentials';
+import { requireRole } from '@/lib/auth/guard';
+import { and, eq } from 'drizzle-orm';
+import { NextRequest, NextResponse } from 'next/server';
+
+// DELETE /api/tokens/[id] - Revoke one of the signed-in user's API tokens
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const auth = await requireRole(request, 'viewer');
+        if (auth.response) return auth.response;
+
+        const { id } = await params;
+        const tokenId = parseInt(id, 10);
+
+        if (isNaN(tokenId)) {
+            return NextResponse.json({ error: 'Invalid token ID' }, { status: 400 });
+        }
+
+        const result = await db
+            .delete(apiTokens)
+            .where(and(eq(apiTokens.id, tokenId), eq(apiTokens.userId, auth.user.id)))
+            .returning();
+
+        if (result.length === 0) {
+            return NextResponse.json({ error: 'API token not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true, deleted: serializeApiToken(result[0]) });
+    } catch (error) {
+        console.error('Error revoking API token:', error);
+        return NextResponse.json({ error: 'Failed to revoke API token' }, { status: 500 });
+    }
+}
@@ -0,0 +1,40 @@
+import { createApiToken, getUserApiTokens, MAX_TOKEN_NAME_LENGTH } from '@/lib/auth/credentials';
+import { requireRole } from '@/lib/auth/guard';
+import { NextRequest, NextResponse } from 'next/server';
+
+// GET /api/tokens - The signed-in user's API tokens, without the secret part
+export async function GET(request: NextRequest) {
+    try {
+        const auth = await requireRole(request, 'viewer');
+        if (auth.response) return auth.response;
+
+        return NextResponse.json(await getUserApiTokens(auth.user.id));
+    } catch (error) {
+        console.error('Error fetching API tokens:', error);
+        return NextResponse.json({ error: 'Failed to fetch API tokens' }, { status: 500 });
+    }
+}
+
+// POST /api/tokens - Create an API token: { name }. It acts with the user's role,
+// and the response is the only time the token itself is returned.
+export async function POST(request: NextRequest) {
+    try {
+        const auth = await requireRole(request, 'viewer');
+        if (auth.response) return auth.response;
+
+        const body = await request.json();
+        const name = typeof body.name === 'string' ? body.name.trim() : '';
+
+        if (!name) {
+            return NextResponse.json({ error: 'name is required' }, { status: 400 });
+        }
+        if (name.length > MAX_TOKEN_NAME_LENGTH) {
+            return NextResponse.json({ error: `name must be at most ${MAX_TOKEN_NAME_LENGTH} characters` }, { status: 400 });
+        }
+
+        return NextResponse.json(await createApiToken(auth.user.id, name), { status: 201 });
+    } catch (error) {
+        console.error('Error creating API token:', error);
+        return NextResponse.json({ error: 'Failed to create API token' }, { status: 500 });
+    }
+}
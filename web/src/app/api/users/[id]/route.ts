@@ -0,0 +1,105 @@
+import { db } from '@/lib/db';
+import { users } from '@/lib/db/schema';
+import { countAdmins, getUser, hashPassword, isUserRole, serializeUser, validatePassword } from '@/lib/auth/users';
+import { deleteUserCredentials } from '@/lib/auth/credentials';
+import { recordAudit } from '@/lib/auth/audit';
+import { requireRole } from '@/lib/auth/guard';
+import { eq } from 'drizzle-orm';
+import { NextRequest, NextResponse } from 'next/server';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+async function findUser(params: RouteParams['params']) {
+    const { id } = await params;
+    const userId = parseInt(id, 10);
+    const user = isNaN(userId) ? null : await getUser(userId);
+    return { userId, user };
+}
+
+// PATCH /api/users/[id] - Change an account's role or reset its password: { role?, password? }
+// A new password signs the user out everywhere and revokes their API tokens.
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+    try {
+        const auth = await requireRole(request, 'admin');
+        if (auth.response) return auth.response;
+
+        const { userId, user } = await findUser(params);
+
+        if (isNaN(userId)) {
+            return NextResponse.json({ error: 'Invalid user ID' }, { status: 400 });
+        }
+
+        if (!user) {
+            return NextResponse.json({ error: 'User not found' }, { status: 404 });
+        }
+
+        const body = await request.json();
+        const updates: Partial<typeof users.$inferInsert> = {};
+
+        if (body.role !== undefined) {
+            if (!isUserRole(body.role)) {
+                return NextResponse.json({ error: 'role must be viewer, editor or admin' }, { status: 400 });
+            }
+            if (user.role === 'admin' && body.role !== 'admin' && await countAdmins() <= 1) {
+                return NextResponse.json({ error: 'The last admin cannot be demoted' }, { status: 409 });
+            }
+            updates.role = body.role;
+        }
+
+        if (body.password !== undefined) {
+            const passwordError = validatePassword(body.password);
+            if (passwordError) {
+                return NextResponse.json({ error: passwordError }, { status: 400 });
+            }
+            updates.passwordHash = await hashPassword(body.password);
+        }
+
+        if (Object.keys(updates).length === 0) {
+            return NextResponse.json({ error: 'Nothing to update - send role or password' }, { status: 400 });
+        }
+
+        const [updated] = await db
+            .update(users)
+            .set({ ...updates, updatedAt: new Date().toISOString() })
+            .where(eq(users.id, userId))
+            .returning();
+
+        if (updates.passwordHash) await deleteUserCredentials(userId);
+
+        return NextResponse.json(serializeUser(updated));
+    } catch (error) {
+        console.error('Error updating user:', error);
+        return NextResponse.json({ error: 'Failed to update user' }, { status: 500 });
+    }
+}
+
+// DELETE /api/users/[id] - Delete an account with its sessions and API tokens.
+// Admins can't delete themselves, so there is always an admin left.
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+    try {
+        const auth = await requireRole(request, 'admin');
+        if (auth.response) return auth.response;
+
+        const { userId, user } = await findUser(params);
+
+        if (isNaN(userId)) {
+            return NextResponse.json({ error: 'Invalid user ID' }, { status: 400 });
+        }
+
+        if (!user) {
+            return NextResponse.json({ error: 'User not found' }, { status: 404 });
+        }
+
+        if (user.id === auth.user.id) {
+            return NextResponse.json({ error: 'You cannot delete your own account' }, { status: 409 });
+        }
+
+        await db.delete(users).where(eq(users.id, userId));
+        await recordAudit(auth.user, 'user.delete', user.username, { userId, role: user.role });
+
+        return NextResponse.json({ success: true, deleted: serializeUser(user) });
+    } catch (error) {
+        console.error('Error deleting user:', error);
+        return NextResponse.json({ error: 'Failed to delete user' }, { status: 500 });
+    }
+}
@@ -0,0 +1,57 @@
+import {
+    createUser,
+    getUserByUsername,
+    isUserRole,
+    listUsers,
+    serializeUser,
+    validatePassword,
+    validateUsername,
+} from '@/lib/auth/users';
+import { requireRole } from '@/lib/auth/guard';
+import { NextRequest, NextResponse } from 'next/server';
+
+// GET /api/users - Every account, admins only
+export async function GET(request: NextRequest) {
+    try {
+        const auth = await requireRole(request, 'admin');
+        if (auth.response) return auth.response;
+
+        return NextResponse.json(await listUsers());
+    } catch (error) {
+        console.error('Error fetching users:', error);
+        return NextResponse.json({ error: 'Failed to fetch users' }, { status: 500 });
+    }
+}
+
+// POST /api/users - Create an account: { username, password, role }
+export async function POST(request: NextRequest) {
+    try {
+        const auth = await requireRole(request, 'admin');
+        if (auth.response) return auth.response;
+
+        const body = await request.json();
+        const errors: string[] = [];
+
+        const username = validateUsername(body.username);
+        if ('error' in username) errors.push(username.error);
+
+        const passwordError = validatePassword(body.password);
+        if (passwordError) errors.push(passwordError);
+
+        if (!isUserRole(body.role)) errors.push('role must be viewer, editor or admin');
+
+        if (errors.length > 0 || 'error' in username) {
+            return NextResponse.json({ error: 'Invalid user', details: errors }, { status: 400 });
+        }
+
+        if (await getUserByUsername(username.username)) {
+            return NextResponse.json({ error: `User "${username.username}" already exists` }, { status: 409 });
+        }
+
+        const user = await createUser(username.username, body.password, body.role);
+        return NextResponse.json(serializeUser(user), { status: 201 });
+    } catch (error) {
+        console.error('Error creating user:', error);
+        return NextResponse.json({ error: 'Failed to create user' }, { status: 500 });
+    }
+}
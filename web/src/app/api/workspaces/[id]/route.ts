@@ -0,0 +1,118 @@
+import { db } from '@/lib/db';
+import { apps, workspaces } from '@/lib/db/schema';
+import { isSupportedCountry } from '@/lib/countries';
+import { getWorkspace, validateWorkspaceName } from '@/lib/workspaces';
+import { recordAudit } from '@/lib/auth/audit';
+import { requireRole } from '@/lib/auth/guard';
+import { and, count, eq, ne } from 'drizzle-orm';
+import { NextRequest, NextResponse } from 'next/server';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+async function findWorkspace(params: RouteParams['params']) {
+    const { id } = await params;
+    const workspaceId = parseInt(id, 10);
+    if (isNaN(workspaceId)) return { workspaceId, workspace: null };
+
+    return { workspaceId, workspace: await getWorkspace(workspaceId) };
+}
+
+// PATCH /api/workspaces/[id] - Rename a workspace or change its default storefront: { name?, country? }
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+    try {
+        const auth = await requireRole(request, 'editor');
+        if (auth.response) return auth.response;
+
+        const { workspaceId, workspace } = await findWorkspace(params);
+
+        if (isNaN(workspaceId)) {
+            return NextResponse.json({ error: 'Invalid workspace ID' }, { status: 400 });
+        }
+
+        if (!workspace) {
+            return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+        }
+
+        const body = await request.json();
+        let name = workspace.name;
+
+        if (body.name !== undefined) {
+            const validated = validateWorkspaceName(body.name);
+            if ('error' in validated) {
+                return NextResponse.json({ error: validated.error }, { status: 400 });
+            }
+            name = validated.name;
+        }
+
+        if (body.country !== undefined && !isSupportedCountry(body.country)) {
+            return NextResponse.json({ error: `Unsupported country: ${body.country}` }, { status: 400 });
+        }
+
+        const [duplicate] = await db
+            .select()
+            .from(workspaces)
+            .where(and(eq(workspaces.name, name), ne(workspaces.id, workspaceId)))
+            .limit(1);
+        if (duplicate) {
+            return NextResponse.json({ error: 'A workspace with this name already exists' }, { status: 409 });
+        }
+
+        const [updated] = await db
+            .update(workspaces)
+            .set({
+                name,
+                country: body.country ?? workspace.country,
+                updatedAt: new Date().toISOString(),
+            })
+            .where(eq(workspaces.id, workspaceId))
+            .returning();
+
+        return NextResponse.json(updated);
+    } catch (error) {
+        console.error('Error updating workspace:', error);
+        return NextResponse.json({ error: 'Failed to update workspace' }, { status: 500 });
+    }
+}
+
+// DELETE /api/workspaces/[id] - Delete an empty workspace. Its apps have to be moved
+// or deleted first, and the last workspace can't be deleted.
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+    try {
+        const auth = await requireRole(request, 'editor');
+        if (auth.response) return auth.response;
+
+        const { workspaceId, workspace } = await findWorkspace(params);
+
+        if (isNaN(workspaceId)) {
+            return NextResponse.json({ error: 'Invalid workspace ID' }, { status: 400 });
+        }
+
+        if (!workspace) {
+            return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+        }
+
+        const [{ appCount }] = await db
+            .select({ appCount: count() })
+            .from(apps)
+            .where(eq(apps.workspaceId, workspaceId));
+        if (appCount > 0) {
+            return NextResponse.json({
+                error: `Workspace still has ${appCount} apps - move or delete them first`
+            }, { status: 409 });
+        }
+
+        const [{ workspaceCount }] = await db.select({ workspaceCount: count() }).from(workspaces);
+        if (workspaceCount <= 1) {
+            return NextResponse.json({ error: 'The last workspace cannot be deleted' }, { status: 409 });
+        }
+
+        const result = await db.delete(workspaces).where(eq(workspaces.id, workspaceId)).returning();
+
+        await recordAudit(auth.user, 'workspace.delete', workspace.name, { workspaceId });
+
+        return NextResponse.json({ success: true, deleted: result[0] });
+    } catch (error) {
+        console.error('Error deleting workspace:', error);
+        return NextResponse.json({ error: 'Failed to delete workspace' }, { status: 500 });
+    }
+}
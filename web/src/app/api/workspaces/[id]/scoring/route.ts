@@ -0,0 +1,128 @@
+import { db } from '@/lib/db';
+import { workspaces, type Workspace } from '@/lib/db/schema';
+import {
+    diffScoringConfig,
+    getBaseScoringConfig,
+    getScoringConfigForWorkspace,
+    parseScoringOverrides,
+    recomputeWorkspaceScores,
+} from '@/lib/analysis/scoring';
+import { getWorkspace } from '@/lib/workspaces';
+import { resolveScoringConfig, validateScoringConfig } from '@services/scoring';
+import { requireRole } from '@/lib/auth/guard';
+import { eq } from 'drizzle-orm';
+import { NextRequest, NextResponse } from 'next/server';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+async function findWorkspace(params: RouteParams['params']) {
+    const { id } = await params;
+    const workspaceId = parseInt(id, 10);
+    if (isNaN(workspaceId)) return { workspaceId, workspace: null };
+
+    return { workspaceId, workspace: await getWorkspace(workspaceId) };
+}
+
+function describeScoring(workspace: Workspace) {
+    return {
+        config: getScoringConfigForWorkspace(workspace),
+        overrides: parseScoringOverrides(workspace.scoringConfig),
+        defaults: getBaseScoringConfig(),
+    };
+}
+
+// GET /api/workspaces/[id]/scoring - Effective scoring config, the workspace's overrides and the defaults
+export async function GET(request: NextRequest, { params }: RouteParams) {
+    try {
+        const auth = await requireRole(request, 'viewer');
+        if (auth.response) return auth.response;
+
+        const { workspaceId, workspace } = await findWorkspace(params);
+
+        if (isNaN(workspaceId)) {
+            return NextResponse.json({ error: 'Invalid workspace ID' }, { status: 400 });
+        }
+
+        if (!workspace) {
+            return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+        }
+
+        return NextResponse.json(describeScoring(workspace));
+    } catch (error) {
+        console.error('Error fetching workspace scoring config:', error);
+        return NextResponse.json({ error: 'Failed to fetch scoring config' }, { status: 500 });
+    }
+}
+
+// PUT /api/workspaces/[id]/scoring - Set the scoring every app in the workspace starts
+// from, then recompute their stored scores. Apps keep their own overrides on top.
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+    try {
+        const auth = await requireRole(request, 'editor');
+        if (auth.response) return auth.response;
+
+        const { workspaceId, workspace } = await findWorkspace(params);
+
+        if (isNaN(workspaceId)) {
+            return NextResponse.json({ error: 'Invalid workspace ID' }, { status: 400 });
+        }
+
+        if (!workspace) {
+            return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+        }
+
+        const body = await request.json();
+        const base = getBaseScoringConfig();
+        const config = resolveScoringConfig(body, base);
+        const errors = validateScoringConfig(config);
+
+        if (errors.length > 0) {
+            return NextResponse.json({ error: 'Invalid scoring config', details: errors }, { status: 400 });
+        }
+
+        const overrides = diffScoringConfig(config, base);
+        const [updated] = await db
+            .update(workspaces)
+            .set({ scoringConfig: overrides ? JSON.stringify(overrides) : null, updatedAt: new Date().toISOString() })
+            .where(eq(workspaces.id, workspaceId))
+            .returning();
+
+        const recomputed = await recomputeWorkspaceScores(workspaceId);
+
+        return NextResponse.json({ ...describeScoring(updated), recomputed });
+    } catch (error) {
+        console.error('Error updating workspace scoring config:', error);
+        return NextResponse.json({ error: 'Failed to update scoring config' }, { status: 500 });
+    }
+}
+
+// DELETE /api/workspaces/[id]/scoring - Go back to the default scoring and recompute
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+    try {
+        const auth = await requireRole(request, 'editor');
+        if (auth.response) return auth.response;
+
+        const { workspaceId, workspace } = await findWorkspace(params);
+
+        if (isNaN(workspaceId)) {
+            return NextResponse.json({ error: 'Invalid workspace ID' }, { status: 400 });
+        }
+
+        if (!workspace) {
+            return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+        }
+
+        const [updated] = await db
+            .update(workspaces)
+            .set({ scoringConfig: null, updatedAt: new Date().toISOString() })
+            .where(eq(workspaces.id, workspaceId))
+            .returning();
+
+        const recomputed = await recomputeWorkspaceScores(workspaceId);
+
+        return NextResponse.json({ ...describeScoring(updated), recomputed });
+    } catch (error) {
+        console.error('Error resetting workspace scoring config:', error);
+        return NextResponse.json({ error: 'Failed to reset scoring config' }, { status: 500 });
+    }
+}
@@ -0,0 +1,59 @@
+import { db } from '@/lib/db';
+import { workspaces } from '@/lib/db/schema';
+import { DEFAULT_COUNTRY, isSupportedCountry } from '@/lib/countries';
+import { getWorkspaceSummaries, validateWorkspaceName } from '@/lib/workspaces';
+import { requireRole } from '@/lib/auth/guard';
+import { eq } from 'drizzle-orm';
+import { NextRequest, NextResponse } from 'next/server';
+
+// GET /api/workspaces - Every workspace with its app and keyword counts
+export async function GET(request: NextRequest) {
+    try {
+        const auth = await requireRole(request, 'viewer');
+        if (auth.response) return auth.response;
+
+        return NextResponse.json(await getWorkspaceSummaries());
+    } catch (error) {
+        console.error('Error fetching workspaces:', error);
+        return NextResponse.json({ error: 'Failed to fetch workspaces' }, { status: 500 });
+    }
+}
+
+// POST /api/workspaces - Create a workspace: { name, country? }
+// The country is the storefront new apps in the workspace are analyzed in.
+export async function POST(request: NextRequest) {
+    try {
+        const auth = await requireRole(request, 'editor');
+        if (auth.response) return auth.response;
+
+        const body = await request.json();
+        const country = body.country ?? DEFAULT_COUNTRY;
+        const validated = validateWorkspaceName(body.name);
+
+        if ('error' in validated) {
+            return NextResponse.json({ error: validated.error }, { status: 400 });
+        }
+
+        if (!isSupportedCountry(country)) {
+            return NextResponse.json({ error: `Unsupported country: ${country}` }, { status: 400 });
+        }
+
+        const [existing] = await db.select().from(workspaces).where(eq(workspaces.name, validated.name)).limit(1);
+        if (existing) {
+            return NextResponse.json({ error: 'A workspace with this name already exists' }, { status: 409 });
+        }
+
+        const now = new Date().toISOString();
+        const [workspace] = await db.insert(workspaces).values({
+            name: validated.name,
+            country,
+            createdAt: now,
+            updatedAt: now,
+        }).returning();
+
+        return NextResponse.json(workspace, { status: 201 });
+    } catch (error) {
+        console.error('Error creating workspace:', error);
+        return NextResponse.json({ error: 'Failed to create workspace' }, { status: 500 });
+    }
+}
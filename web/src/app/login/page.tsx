@@ -0,0 +1,126 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Loader2, AlertCircle } from 'lucide-react';
+import type { AuthSession } from '@/types';
+
+async function fetchSession(): Promise<AuthSession> {
+  const response = await fetch('/api/auth/session');
+  if (!response.ok) throw new Error('Failed to fetch session');
+  return response.json();
+}
+
+export default function LoginPage() {
+  const router = useRouter();
+  const [setupRequired, setSetupRequired] = useState(false);
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Already signed in, or the very first visit where the admin account gets created
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchSession()
+      .then((session) => {
+        if (cancelled) return;
+        if (session.user) router.replace('/');
+        setSetupRequired(session.setupRequired);
+      })
+      .catch((err) => console.error('Error fetching session:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [router]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(setupRequired ? '/api/auth/setup' : '/api/auth/session', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to sign in');
+
+      router.replace('/');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign in');
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle>{setupRequired ? 'Create the admin account' : 'Sign in'}</CardTitle>
+          <CardDescription>
+            {setupRequired
+              ? 'No accounts exist yet. This first account can add everyone else.'
+              : 'ASO Analytics - App Store Keyword Research'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <label htmlFor="login-username" className="text-sm font-medium">
+                Username
+              </label>
+              <Input
+                id="login-username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                disabled={loading}
+                autoComplete="username"
+                autoFocus
+              />
+            </div>
+            <div className="space-y-2">
+              <label htmlFor="login-password" className="text-sm font-medium">
+                Password
+              </label>
+              <Input
+                id="login-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                disabled={loading}
+                autoComplete={setupRequired ? 'new-password' : 'current-password'}
+              />
+            </div>
+
+            {error && (
+              <div className="flex items-center gap-2 text-sm text-destructive">
+                <AlertCircle className="h-4 w-4" />
+                {error}
+              </div>
+            )}
+
+            <Button type="submit" className="w-full" disabled={loading || !username || !password}>
+              {loading ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Signing in...
+                </>
+              ) : setupRequired ? (
+                'Create account'
+              ) : (
+                'Sign in'
+              )}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
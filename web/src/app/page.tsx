@@ -1,37 +1,96 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useRouter } from 'next/navigation';
 import { AppsSidebar } from '@/components/apps-sidebar';
 import { KeywordsMainTable } from '@/components/keywords-main-table';
+import { KeywordGaps } from '@/components/keyword-gaps';
 import { AddAppDialog } from '@/components/add-app-dialog';
 import { toast } from 'sonner';
-import type { AppWithStats, KeywordAnalysis } from '@/types';
+import type {
+  AddKeywordsResult,
+  AnalysisJob,
+  AppWithStats,
+  AuthSession,
+  GapAnalysisResult,
+  KeywordAnalysis,
+  KeywordEditResult,
+  RankCheckResult,
+  RefreshResult,
+  RescoreResult,
+  RetryResult,
+  StorefrontSummary,
+  User,
+  Workspace,
+} from '@/types';
+
+// Remembers the workspace that was open last
+const WORKSPACE_STORAGE_KEY = 'aso-analytics:workspace';
+
+async function fetchSession(): Promise<AuthSession> {
+  const response = await fetch('/api/auth/session');
+  if (!response.ok) throw new Error('Failed to fetch session');
+  return response.json();
+}
+
+async function fetchWorkspaces(): Promise<Workspace[]> {
+  const response = await fetch('/api/workspaces');
+  if (!response.ok) throw new Error('Failed to fetch workspaces');
+  return response.json();
+}
+
+// The stored workspace if it still exists, otherwise the first one
+function restoreWorkspaceId(workspaces: Workspace[]) {
+  const stored = Number(localStorage.getItem(WORKSPACE_STORAGE_KEY));
+  return workspaces.find((w) => w.id === stored)?.id ?? workspaces[0]?.id ?? null;
+}
 
 interface AppDetailData {
   id: number;
   title: string;
   description: string;
   genres: string[];
+  screenshots: string[];
+  country: string;
+  selectedCountry: string;
+  countries: StorefrontSummary[];
   keywords: KeywordAnalysis[];
 }
 
 export default function Dashboard() {
+  const router = useRouter();
+  const [user, setUser] = useState<User | null>(null);
   const [apps, setApps] = useState<AppWithStats[]>([]);
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [workspaceId, setWorkspaceId] = useState<number | null>(null);
   const [loading, setLoading] = useState(true);
   const [selectedApp, setSelectedApp] = useState<AppWithStats | null>(null);
+  // Kept in step with selectedApp by the setters below. fetchApps only changes with
+  // the workspace, so it reads the selection from here.
+  const selectedAppRef = useRef<AppWithStats | null>(null);
   const [appDetail, setAppDetail] = useState<AppDetailData | null>(null);
   const [loadingDetail, setLoadingDetail] = useState(false);
+  const [activeJobs, setActiveJobs] = useState<AnalysisJob[]>([]);
+  const [view, setView] = useState<'keywords' | 'gaps'>('keywords');
+  // Bumped when a gap analysis finishes so the Gaps view reloads its report
+  const [gapsVersion, setGapsVersion] = useState(0);
 
+  // Apps of the active workspace. App counts change with them, so the workspace
+  // list is reloaded alongside.
   const fetchApps = useCallback(async () => {
+    if (workspaceId === null) return;
     setLoading(true);
     try {
-      const response = await fetch('/api/apps');
+      const response = await fetch(`/api/apps?workspace=${workspaceId}`);
       if (!response.ok) throw new Error('Failed to fetch apps');
       const data = await response.json();
       setApps(data);
+      fetchWorkspaces()
+        .then(setWorkspaces)
+        .catch((error) => console.error('Error fetching workspaces:', error));
 
       // Auto-select first app if none selected
-      if (data.length > 0 && !selectedApp) {
+      if (data.length > 0 && !selectedAppRef.current) {
         handleSelectApp(data[0]);
       }
     } catch (error) {
@@ -40,18 +99,87 @@ export default function Dashboard() {
     } finally {
       setLoading(false);
     }
+  }, [workspaceId]);
+
+  const fetchActiveJobs = useCallback(async () => {
+    try {
+      const response = await fetch('/api/jobs?active=true');
+      if (!response.ok) throw new Error('Failed to fetch jobs');
+      setActiveJobs(await response.json());
+    } catch (error) {
+      console.error('Error fetching jobs:', error);
+    }
   }, []);
 
+  // A stale or expired session cookie gets past the proxy, so the session is
+  // checked before anything else loads
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchSession()
+      .then((session) => {
+        if (cancelled) return;
+        if (!session.user) {
+          router.replace('/login');
+          return;
+        }
+        setUser(session.user);
+        return fetchWorkspaces().then((list) => {
+          if (cancelled) return;
+          setWorkspaces(list);
+          setWorkspaceId((current) => current ?? restoreWorkspaceId(list));
+        });
+      })
+      .catch((error) => {
+        console.error('Error fetching workspaces:', error);
+        toast.error('Failed to load workspaces');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [router]);
+
   useEffect(() => {
     fetchApps();
-  }, [fetchApps]);
+    fetchActiveJobs();
+  }, [fetchApps, fetchActiveJobs]);
+
+  // Switching workspaces starts over with nothing selected, so the first app of
+  // the new workspace gets picked once its apps load
+  const handleSelectWorkspace = (id: number) => {
+    if (id === workspaceId) return;
+    localStorage.setItem(WORKSPACE_STORAGE_KEY, String(id));
+    selectedAppRef.current = null;
+    setSelectedApp(null);
+    setAppDetail(null);
+    setView('keywords');
+    setApps([]);
+    setWorkspaceId(id);
+  };
 
-  const handleSelectApp = async (app: AppWithStats) => {
+  const handleWorkspacesChanged = async (selectId?: number) => {
+    try {
+      const list = await fetchWorkspaces();
+      setWorkspaces(list);
+      if (selectId !== undefined) handleSelectWorkspace(selectId);
+    } catch (error) {
+      console.error('Error fetching workspaces:', error);
+      toast.error('Failed to load workspaces');
+    }
+  };
+
+  const appDetailUrl = (appId: number, country?: string) =>
+    country ? `/api/apps/${appId}?country=${country}` : `/api/apps/${appId}`;
+
+  // Without a country the app opens in the storefront it was first analyzed in
+  const handleSelectApp = async (app: AppWithStats, country?: string) => {
+    selectedAppRef.current = app;
     setSelectedApp(app);
     setLoadingDetail(true);
 
     try {
-      const response = await fetch(`/api/apps/${app.id}`);
+      const response = await fetch(appDetailUrl(app.id, country));
       if (!response.ok) throw new Error('Failed to fetch app details');
       const data = await response.json();
       setAppDetail(data);
@@ -63,34 +191,150 @@ export default function Dashboard() {
     }
   };
 
+  // Reload the selected app's keywords without the loading state
+  const reloadAppDetail = async () => {
+    if (!selectedApp) return;
+    try {
+      const response = await fetch(appDetailUrl(selectedApp.id, appDetail?.selectedCountry));
+      if (!response.ok) throw new Error('Failed to fetch app details');
+      setAppDetail(await response.json());
+    } catch (error) {
+      console.error('Error fetching app details:', error);
+      toast.error('Failed to reload keywords');
+    }
+  };
+
   const handleAppAdded = () => {
     fetchApps();
   };
 
+  const handleJobStarted = (job: AnalysisJob) => {
+    setActiveJobs((prev) => prev.some((j) => j.id === job.id) ? prev : [job, ...prev]);
+  };
+
+  const handleJobFinished = (job: AnalysisJob) => {
+    setActiveJobs((prev) => prev.filter((j) => j.id !== job.id));
+    if (job.status === 'failed') {
+      toast.error(`Analysis failed for ${job.appTitle || `app ${job.appStoreId}`}: ${job.error}`);
+    } else if (job.kind === 'refresh' && job.result) {
+      const { addedKeywords, rescored, recommendationChanges } = job.result as RefreshResult;
+      toast.success(
+        `Refreshed "${job.appTitle}": ${rescored} re-scored, ${addedKeywords.length} new, ` +
+        `${recommendationChanges.length} recommendation changes`
+      );
+    } else if (job.kind === 'ranks' && job.result) {
+      const { checked, ranked, improved, declined, failed } = job.result as RankCheckResult;
+      toast.success(
+        `Checked ranks for "${job.appTitle}": ranking for ${ranked} of ${checked}, ` +
+        `${improved} up, ${declined} down` + (failed.length > 0 ? `, ${failed.length} searches failed` : '')
+      );
+    } else if (job.kind === 'gaps' && job.result) {
+      const { missing, exclusive, failed } = job.result as GapAnalysisResult;
+      toast.success(
+        `Compared "${job.appTitle}" with its competitors: ${missing} missing keywords, ${exclusive} only yours` +
+        (failed.length > 0 ? `, ${failed.length} searches failed` : '')
+      );
+    } else if (job.kind === 'retry' && job.result) {
+      const { retried, recovered, noData, failed } = job.result as RetryResult;
+      toast.success(
+        `Retried ${retried} failed keywords for "${job.appTitle}": ${recovered} recovered` +
+        (noData > 0 ? `, ${noData} without data` : '') +
+        (failed.length > 0 ? `, ${failed.length} lookups still failing` : '')
+      );
+    } else if (job.kind === 'keywords' && job.result) {
+      const { added, duplicates, failed } = job.result as AddKeywordsResult;
+      toast.success(
+        `Added ${added.length} keywords to "${job.appTitle}"` +
+        (duplicates.length > 0 ? `, ${duplicates.length} already tracked` : '') +
+        (failed > 0 ? `, ${failed} could not be scored` : '')
+      );
+    } else if (job.kind === 'rescore' && job.result) {
+      const { rescored, recommendationChanges, failed } = job.result as RescoreResult;
+      toast.success(
+        `Scheduled re-score of "${job.appTitle}": ${rescored} keywords, ` +
+        `${recommendationChanges.length} recommendation changes` +
+        (failed.length > 0 ? `, ${failed.length} failed` : '')
+      );
+    } else if (job.kind === 'keyword' && job.result) {
+      const { keyword, recommendationChange, failed } = job.result as KeywordEditResult;
+      if (failed) {
+        toast.error(`Could not reach the App Store to rescore "${keyword}", try again later`);
+      } else {
+        toast.success(
+          `Re-scored "${keyword}"` +
+          (recommendationChange
+            ? `: ${recommendationChange.previousRecommendation} → ${recommendationChange.recommendation}`
+            : '')
+        );
+      }
+    }
+    fetchApps();
+
+    // Reload keywords if the refreshed app is on screen
+    if (selectedApp && job.appId === selectedApp.id) {
+      handleSelectApp(selectedApp, appDetail?.selectedCountry);
+      if (job.kind === 'gaps' || job.kind === 'keywords') setGapsVersion((version) => version + 1);
+    }
+  };
+
   return (
     <div className="h-screen flex flex-col bg-background">
       {/* Main Layout */}
       <div className="flex-1 flex overflow-hidden">
         {/* Left Sidebar - Apps List */}
         <AppsSidebar
+          user={user}
           apps={apps}
+          workspaces={workspaces}
+          activeWorkspace={workspaces.find((w) => w.id === workspaceId) ?? null}
+          onSelectWorkspace={handleSelectWorkspace}
+          onWorkspacesChanged={handleWorkspacesChanged}
+          activeJobs={activeJobs}
           selectedAppId={selectedApp?.id ?? null}
-          onSelectApp={handleSelectApp}
+          onSelectApp={(app) => handleSelectApp(app)}
           onRefresh={fetchApps}
+          onJobStarted={handleJobStarted}
+          onJobFinished={handleJobFinished}
           loading={loading}
         />
 
-        {/* Main Content - Keywords Table */}
-        <KeywordsMainTable
-          keywords={appDetail?.keywords ?? []}
-          appTitle={selectedApp?.title}
-          loading={loadingDetail}
-        />
+        {/* Main Content - Keywords Table or competitor gaps */}
+        {view === 'gaps' && selectedApp ? (
+          <KeywordGaps
+            // Remount per app and storefront so the report loads from scratch
+            key={`${selectedApp.id}-${appDetail?.selectedCountry}`}
+            appId={selectedApp.id}
+            appTitle={selectedApp.title}
+            country={appDetail?.selectedCountry}
+            refreshKey={gapsVersion}
+            onShowKeywords={() => setView('keywords')}
+            onJobStarted={handleJobStarted}
+          />
+        ) : (
+          <KeywordsMainTable
+            keywords={appDetail?.keywords ?? []}
+            appId={selectedApp?.id}
+            appTitle={selectedApp?.title}
+            screenshots={appDetail?.screenshots ?? []}
+            country={appDetail?.selectedCountry}
+            countries={appDetail?.countries ?? []}
+            onSelectCountry={(country) => selectedApp && handleSelectApp(selectedApp, country)}
+            loading={loadingDetail}
+            onJobStarted={handleJobStarted}
+            onKeywordsChanged={reloadAppDetail}
+            onShowGaps={selectedApp ? () => setView('gaps') : undefined}
+          />
+        )}
       </div>
 
       {/* Hidden Add App Dialog - Triggered from sidebar */}
       <div className="hidden">
-        <AddAppDialog onAppAdded={handleAppAdded} />
+        <AddAppDialog
+          onAppAdded={handleAppAdded}
+          onJobStarted={handleJobStarted}
+          workspaceId={workspaceId ?? undefined}
+          defaultCountry={workspaces.find((w) => w.id === workspaceId)?.country}
+        />
       </div>
     </div>
   );
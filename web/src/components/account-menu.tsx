@@ -0,0 +1,224 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+    DialogTrigger,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { UsersDialog } from '@/components/users-dialog';
+import { AlertCircle, Copy, KeyRound, Loader2, LogOut, Plus, Trash2, UserRound, Users } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+import type { ApiToken, User } from '@/types';
+
+interface AccountMenuProps {
+    user: User;
+}
+
+export function AccountMenu({ user }: AccountMenuProps) {
+    const router = useRouter();
+    const [open, setOpen] = useState(false);
+    const [tokens, setTokens] = useState<ApiToken[]>([]);
+    const [tokenName, setTokenName] = useState('');
+    // Only available right after creation, it can't be fetched again
+    const [newToken, setNewToken] = useState<string | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const fetchTokens = async () => {
+        setError(null);
+        try {
+            const response = await fetch('/api/tokens');
+            if (!response.ok) throw new Error('Failed to fetch API tokens');
+            setTokens(await response.json());
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to fetch API tokens');
+        }
+    };
+
+    const handleOpenChange = (isOpen: boolean) => {
+        setOpen(isOpen);
+        if (isOpen) {
+            setNewToken(null);
+            setTokenName('');
+            fetchTokens();
+        }
+    };
+
+    const handleCreateToken = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setLoading(true);
+        setError(null);
+        try {
+            const response = await fetch('/api/tokens', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ name: tokenName }),
+            });
+            const result = await response.json();
+            if (!response.ok) throw new Error(result.error || 'Failed to create API token');
+
+            setTokens((prev) => [result.apiToken, ...prev]);
+            setNewToken(result.token);
+            setTokenName('');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to create API token');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleRevoke = async (token: ApiToken) => {
+        try {
+            const response = await fetch(`/api/tokens/${token.id}`, { method: 'DELETE' });
+            if (!response.ok) {
+                const result = await response.json();
+                throw new Error(result.error || 'Failed to revoke API token');
+            }
+
+            setTokens((prev) => prev.filter((t) => t.id !== token.id));
+            toast.success(`Revoked "${token.name}"`);
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Failed to revoke API token');
+        }
+    };
+
+    const handleCopy = async () => {
+        if (!newToken) return;
+        try {
+            await navigator.clipboard.writeText(newToken);
+            toast.success('Token copied');
+        } catch {
+            toast.error('Copy failed - select the token and copy it by hand');
+        }
+    };
+
+    const handleSignOut = async () => {
+        try {
+            const response = await fetch('/api/auth/session', { method: 'DELETE' });
+            if (!response.ok) throw new Error('Failed to sign out');
+            router.replace('/login');
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Failed to sign out');
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+            <DialogTrigger asChild>
+                <Button variant="ghost" size="icon-sm" title={`Signed in as ${user.username}`} className="h-7 w-7 text-muted-foreground">
+                    <UserRound className="h-4 w-4" />
+                </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-lg">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        {user.username}
+                        <Badge variant="secondary">{user.role}</Badge>
+                    </DialogTitle>
+                    <DialogDescription>
+                        {user.role === 'viewer'
+                            ? 'You can browse and export. Ask an admin for the editor role to run analyses or change data.'
+                            : 'Personal API tokens let scripts call the API as you, with your role.'}
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-2">
+                    <p className="text-sm font-medium">API tokens</p>
+                    {tokens.length === 0 ? (
+                        <p className="text-xs text-muted-foreground">No API tokens yet</p>
+                    ) : (
+                        <ul className="space-y-1">
+                            {tokens.map((token) => (
+                                <li key={token.id} className="flex items-center gap-2 rounded-md border p-2 text-sm">
+                                    <KeyRound className="h-3.5 w-3.5 text-muted-foreground flex-shrink-0" />
+                                    <div className="flex-1 min-w-0">
+                                        <p className="truncate">{token.name}</p>
+                                        <p className="text-xs text-muted-foreground">
+                                            <span className="font-mono">{token.prefix}…</span>
+                                            {' · '}
+                                            {token.lastUsedAt
+                                                ? `used ${formatDistanceToNow(new Date(token.lastUsedAt), { addSuffix: true })}`
+                                                : 'never used'}
+                                        </p>
+                                    </div>
+                                    <Button
+                                        variant="ghost"
+                                        size="icon-sm"
+                                        title="Revoke token"
+                                        onClick={() => handleRevoke(token)}
+                                        className="h-7 w-7 text-muted-foreground"
+                                    >
+                                        <Trash2 className="h-3.5 w-3.5" />
+                                    </Button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+
+                {newToken && (
+                    <div className="space-y-1 rounded-md border border-amber-500/40 bg-amber-500/10 p-2">
+                        <p className="text-xs text-amber-600 dark:text-amber-400">
+                            Copy the token now, it won&apos;t be shown again. Send it as &quot;Authorization: Bearer &lt;token&gt;&quot;.
+                        </p>
+                        <div className="flex items-center gap-2">
+                            <code className="flex-1 min-w-0 truncate text-xs">{newToken}</code>
+                            <Button variant="ghost" size="icon-sm" title="Copy token" onClick={handleCopy} className="h-7 w-7">
+                                <Copy className="h-3.5 w-3.5" />
+                            </Button>
+                        </div>
+                    </div>
+                )}
+
+                <form onSubmit={handleCreateToken} className="flex items-center gap-2">
+                    <Input
+                        placeholder="Token name, e.g. nightly export"
+                        value={tokenName}
+                        onChange={(e) => setTokenName(e.target.value)}
+                        disabled={loading}
+                        autoComplete="off"
+                    />
+                    <Button type="submit" size="sm" className="gap-2" disabled={loading || !tokenName.trim()}>
+                        {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+                        Create
+                    </Button>
+                </form>
+
+                {error && (
+                    <div className="flex items-center gap-2 text-sm text-destructive">
+                        <AlertCircle className="h-4 w-4" />
+                        {error}
+                    </div>
+                )}
+
+                <DialogFooter>
+                    {user.role === 'admin' && (
+                        <UsersDialog
+                            currentUser={user}
+                            trigger={
+                                <Button type="button" variant="outline" className="mr-auto gap-2">
+                                    <Users className="h-4 w-4" />
+                                    Users
+                                </Button>
+                            }
+                        />
+                    )}
+                    <Button type="button" variant="ghost" onClick={handleSignOut} className="gap-2">
+                        <LogOut className="h-4 w-4" />
+                        Sign out
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
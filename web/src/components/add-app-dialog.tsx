@@ -12,20 +12,58 @@ import {
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Plus, Loader2, AlertCircle, CheckCircle2 } from 'lucide-react';
+import { JobProgress } from '@/components/job-progress';
+import { useAnalysisJob } from '@/hooks/use-analysis-job';
+import { COUNTRIES, DEFAULT_COUNTRY } from '@/lib/countries';
+import { Plus, Loader2, AlertCircle } from 'lucide-react';
 import { toast } from 'sonner';
+import type { AnalysisJob } from '@/types';
 
 interface AddAppDialogProps {
     onAppAdded: () => void;
+    onJobStarted?: (job: AnalysisJob) => void;
     trigger?: React.ReactNode;
+    // The workspace the app is added to, and its default storefront
+    workspaceId?: number;
+    defaultCountry?: string;
 }
 
-export function AddAppDialog({ onAppAdded, trigger }: AddAppDialogProps) {
+export function AddAppDialog({
+    onAppAdded,
+    onJobStarted,
+    trigger,
+    workspaceId,
+    defaultCountry = DEFAULT_COUNTRY,
+}: AddAppDialogProps) {
     const [open, setOpen] = useState(false);
     const [appStoreId, setAppStoreId] = useState('');
+    const [country, setCountry] = useState<string>(defaultCountry);
+    const [forceRefresh, setForceRefresh] = useState(false);
     const [loading, setLoading] = useState(false);
     const [status, setStatus] = useState<string>('');
     const [error, setError] = useState<string | null>(null);
+    const [jobId, setJobId] = useState<number | null>(null);
+
+    const job = useAnalysisJob(jobId, (finishedJob) => {
+        setLoading(false);
+        setJobId(null);
+
+        if (finishedJob.status === 'failed') {
+            setError(finishedJob.error || 'Analysis failed');
+            return;
+        }
+
+        toast.success(`Analyzed "${finishedJob.appTitle}" - ${finishedJob.total} keywords found!`);
+        setOpen(false);
+        setAppStoreId('');
+        onAppAdded();
+    });
+
+    // Start from the workspace's storefront each time, unless an analysis is still running
+    const handleOpenChange = (isOpen: boolean) => {
+        setOpen(isOpen);
+        if (isOpen && !loading) setCountry(defaultCountry);
+    };
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
@@ -44,13 +82,13 @@ export function AddAppDialog({ onAppAdded, trigger }: AddAppDialogProps) {
         }
 
         setLoading(true);
-        setStatus('Fetching app from App Store...');
+        setStatus('Starting analysis...');
 
         try {
             const response = await fetch('/api/analyze', {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ appStoreId: appStoreId.trim() }),
+                body: JSON.stringify({ appStoreId: appStoreId.trim(), country, forceRefresh, workspaceId }),
             });
 
             const result = await response.json();
@@ -59,21 +97,19 @@ export function AddAppDialog({ onAppAdded, trigger }: AddAppDialogProps) {
                 throw new Error(result.error || 'Analysis failed');
             }
 
+            // Progress is streamed from the job from here on
             setStatus('');
-            toast.success(`Analyzed "${result.app.title}" - ${result.keywordsAnalyzed} keywords found!`);
-            setOpen(false);
-            setAppStoreId('');
-            onAppAdded();
+            setJobId(result.jobId);
+            onJobStarted?.(result.job);
         } catch (err) {
             setError(err instanceof Error ? err.message : 'Analysis failed');
             setStatus('');
-        } finally {
             setLoading(false);
         }
     };
 
     return (
-        <Dialog open={open} onOpenChange={setOpen}>
+        <Dialog open={open} onOpenChange={handleOpenChange}>
             <DialogTrigger asChild>
                 {trigger || (
                     <Button size="sm" className="gap-2">
@@ -109,6 +145,44 @@ export function AddAppDialog({ onAppAdded, trigger }: AddAppDialogProps) {
                         </p>
                     </div>
 
+                    <div className="space-y-2">
+                        <label htmlFor="country" className="text-sm font-medium">
+                            Storefront
+                        </label>
+                        <select
+                            id="country"
+                            value={country}
+                            onChange={(e) => setCountry(e.target.value)}
+                            disabled={loading}
+                            className="h-9 w-full rounded-md border border-input bg-transparent px-3 text-sm shadow-xs outline-none focus-visible:border-ring disabled:opacity-50 dark:bg-input/30"
+                        >
+                            {COUNTRIES.map((c) => (
+                                <option key={c.code} value={c.code}>
+                                    {c.flag} {c.name}
+                                </option>
+                            ))}
+                        </select>
+                        <p className="text-xs text-muted-foreground">
+                            More storefronts can be added later from the keyword table
+                        </p>
+                    </div>
+
+                    <label className="flex items-start gap-2 text-sm">
+                        <input
+                            type="checkbox"
+                            checked={forceRefresh}
+                            onChange={(e) => setForceRefresh(e.target.checked)}
+                            disabled={loading}
+                            className="mt-0.5"
+                        />
+                        <span>
+                            Fetch fresh keyword metrics
+                            <span className="block text-xs text-muted-foreground">
+                                Otherwise metrics recently fetched for other apps are reused
+                            </span>
+                        </span>
+                    </label>
+
                     {status && (
                         <div className="flex items-center gap-2 text-sm text-blue-500">
                             <Loader2 className="h-4 w-4 animate-spin" />
@@ -116,6 +190,10 @@ export function AddAppDialog({ onAppAdded, trigger }: AddAppDialogProps) {
                         </div>
                     )}
 
+                    {jobId !== null && job && (
+                        <JobProgress job={job} />
+                    )}
+
                     {error && (
                         <div className="flex items-center gap-2 text-sm text-destructive">
                             <AlertCircle className="h-4 w-4" />
@@ -128,9 +206,9 @@ export function AddAppDialog({ onAppAdded, trigger }: AddAppDialogProps) {
                             type="button"
                             variant="outline"
                             onClick={() => setOpen(false)}
-                            disabled={loading}
+                            disabled={loading && jobId === null}
                         >
-                            Cancel
+                            {jobId !== null ? 'Run in Background' : 'Cancel'}
                         </Button>
                         <Button type="submit" disabled={loading}>
                             {loading ? (
@@ -0,0 +1,139 @@
+'use client';
+
+import { useState } from 'react';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+    DialogTrigger,
+    DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Plus, Loader2, AlertCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import type { AnalysisJob } from '@/types';
+
+interface AddKeywordsDialogProps {
+    appId: number;
+    country?: string;
+    onJobStarted?: (job: AnalysisJob) => void;
+}
+
+export function AddKeywordsDialog({ appId, country, onJobStarted }: AddKeywordsDialogProps) {
+    const [open, setOpen] = useState(false);
+    const [text, setText] = useState('');
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // One keyword per line, blank lines ignored
+    const keywordList = text
+        .split('\n')
+        .map((line) => line.trim())
+        .filter((line) => line.length > 0);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError(null);
+
+        if (keywordList.length === 0) {
+            setError('Enter at least one keyword');
+            return;
+        }
+
+        setLoading(true);
+
+        try {
+            const response = await fetch(`/api/apps/${appId}/keywords`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ keywords: keywordList, country }),
+            });
+
+            const result = await response.json();
+
+            if (!response.ok) {
+                throw new Error(result.error || 'Failed to add keywords');
+            }
+
+            // New keywords are scored in a job, the table reloads once it has finished
+            if (result.job) {
+                const skipped = result.duplicates.length > 0
+                    ? ` (${result.duplicates.length} already tracked)`
+                    : '';
+                toast.info(`Adding ${result.queued.length} keywords${skipped}...`);
+                onJobStarted?.(result.job);
+            } else {
+                toast.info('All of these keywords are already tracked');
+            }
+            setOpen(false);
+            setText('');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to add keywords');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={setOpen}>
+            <DialogTrigger asChild>
+                <Button size="sm" className="gap-2 bg-blue-500 hover:bg-blue-600">
+                    <Plus className="h-4 w-4" />
+                    Add Keywords
+                </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-md">
+                <DialogHeader>
+                    <DialogTitle>Add Keywords</DialogTitle>
+                    <DialogDescription>
+                        Paste one keyword per line. Each one is scored for popularity and difficulty.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <textarea
+                        value={text}
+                        onChange={(e) => setText(e.target.value)}
+                        placeholder={'meeting notes\nvoice recorder\nai transcription'}
+                        disabled={loading}
+                        rows={8}
+                        className="w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-xs outline-none placeholder:text-muted-foreground focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] disabled:opacity-50 dark:bg-input/30"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                        {keywordList.length} keyword{keywordList.length === 1 ? '' : 's'} - duplicates of tracked keywords are skipped
+                    </p>
+
+                    {error && (
+                        <div className="flex items-center gap-2 text-sm text-destructive">
+                            <AlertCircle className="h-4 w-4" />
+                            {error}
+                        </div>
+                    )}
+
+                    <DialogFooter>
+                        <Button
+                            type="button"
+                            variant="outline"
+                            onClick={() => setOpen(false)}
+                            disabled={loading}
+                        >
+                            Cancel
+                        </Button>
+                        <Button type="submit" disabled={loading}>
+                            {loading ? (
+                                <>
+                                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                                    Adding...
+                                </>
+                            ) : (
+                                'Add Keywords'
+                            )}
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
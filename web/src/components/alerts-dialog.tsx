@@ -0,0 +1,324 @@
+'use client';
+
+import { useState } from 'react';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+    DialogTrigger,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { BellRing, Loader2, AlertCircle, Plus, Trash2, Webhook } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import type { AlertChannel, AlertCondition, AlertEvent, AlertRule } from '@/types';
+
+const conditionLabels: Record<AlertCondition, string> = {
+    recommendation_change: 'Recommendation changes',
+    traffic_change: 'Traffic moves',
+    job_failed: 'Analysis job fails',
+};
+
+const channelLabels: Record<AlertChannel, string> = {
+    in_app: 'In-app notification',
+    webhook: 'Signed webhook',
+};
+
+const deliveryStyles: Record<AlertEvent['deliveryStatus'], string> = {
+    delivered: 'bg-green-500/10 text-green-600 dark:text-green-400',
+    pending: 'bg-amber-500/10 text-amber-600 dark:text-amber-400',
+    failed: 'bg-destructive/10 text-destructive',
+};
+
+const selectClassName = 'h-9 w-full rounded-md border border-input bg-transparent px-3 text-sm shadow-xs outline-none focus-visible:border-ring disabled:opacity-50 dark:bg-input/30';
+
+function describeRule(rule: AlertRule) {
+    const target = rule.condition === 'job_failed' ? 'this app' : rule.keyword ? `"${rule.keyword}"` : 'all keywords';
+    const threshold = rule.condition === 'traffic_change' ? ` by more than ${rule.threshold}` : '';
+    return `${conditionLabels[rule.condition]}${threshold} · ${target}`;
+}
+
+interface AlertsDialogProps {
+    appId: number;
+    // Offered as suggestions when a rule targets one keyword
+    keywords: string[];
+}
+
+export function AlertsDialog({ appId, keywords }: AlertsDialogProps) {
+    const [open, setOpen] = useState(false);
+    const [rules, setRules] = useState<AlertRule[]>([]);
+    const [history, setHistory] = useState<AlertEvent[]>([]);
+    const [condition, setCondition] = useState<AlertCondition>('recommendation_change');
+    const [keyword, setKeyword] = useState('');
+    const [threshold, setThreshold] = useState(10);
+    const [channel, setChannel] = useState<AlertChannel>('in_app');
+    const [webhookUrl, setWebhookUrl] = useState('');
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const fetchAlerts = async () => {
+        setError(null);
+        try {
+            const response = await fetch(`/api/apps/${appId}/alerts`);
+            if (!response.ok) throw new Error('Failed to fetch alerts');
+            const result = await response.json();
+            setRules(result.rules);
+            setHistory(result.history);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to fetch alerts');
+        }
+    };
+
+    const handleOpenChange = (isOpen: boolean) => {
+        setOpen(isOpen);
+        if (isOpen) fetchAlerts();
+    };
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setLoading(true);
+        setError(null);
+        try {
+            const response = await fetch(`/api/apps/${appId}/alerts`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    condition,
+                    keyword: condition !== 'job_failed' && keyword.trim() ? keyword.trim() : null,
+                    threshold: condition === 'traffic_change' ? threshold : undefined,
+                    channel,
+                    webhookUrl: channel === 'webhook' ? webhookUrl.trim() : undefined,
+                }),
+            });
+            const result = await response.json();
+            if (!response.ok) {
+                throw new Error(result.details?.join(', ') || result.error || 'Failed to add alert rule');
+            }
+
+            setRules((prev) => [...prev, result]);
+            setKeyword('');
+            toast.success('Alert rule added');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to add alert rule');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleToggle = async (rule: AlertRule) => {
+        try {
+            const response = await fetch(`/api/apps/${appId}/alerts/${rule.id}`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ enabled: !rule.enabled }),
+            });
+            const result = await response.json();
+            if (!response.ok) throw new Error(result.error || 'Failed to update alert rule');
+
+            setRules((prev) => prev.map((r) => (r.id === rule.id ? result : r)));
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Failed to update alert rule');
+        }
+    };
+
+    const handleDelete = async (rule: AlertRule) => {
+        try {
+            const response = await fetch(`/api/apps/${appId}/alerts/${rule.id}`, { method: 'DELETE' });
+            if (!response.ok) {
+                const result = await response.json();
+                throw new Error(result.error || 'Failed to delete alert rule');
+            }
+
+            setRules((prev) => prev.filter((r) => r.id !== rule.id));
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Failed to delete alert rule');
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+            <DialogTrigger asChild>
+                <Button variant="outline" size="sm" className="gap-2">
+                    <BellRing className="h-4 w-4" />
+                    Alerts
+                </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-2xl max-h-[85vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Alerts</DialogTitle>
+                    <DialogDescription>
+                        Get notified when keywords change on a re-analysis or an analysis job fails.
+                        Webhooks are signed and retried until the receiver accepts them.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-2">
+                    <p className="text-sm font-medium">Rules</p>
+                    {rules.length === 0 ? (
+                        <p className="text-xs text-muted-foreground">No alert rules yet</p>
+                    ) : (
+                        <ul className="space-y-1">
+                            {rules.map((rule) => (
+                                <li key={rule.id} className="flex items-start gap-2 rounded-md border p-2 text-sm">
+                                    <input
+                                        type="checkbox"
+                                        checked={rule.enabled}
+                                        onChange={() => handleToggle(rule)}
+                                        title={rule.enabled ? 'Pause rule' : 'Resume rule'}
+                                        className="mt-1"
+                                    />
+                                    <div className={cn('flex-1 min-w-0', !rule.enabled && 'text-muted-foreground')}>
+                                        <p>{describeRule(rule)}</p>
+                                        <p className="text-xs text-muted-foreground">{channelLabels[rule.channel]}</p>
+                                        {rule.channel === 'webhook' && (
+                                            <p
+                                                className="text-xs text-muted-foreground font-mono truncate"
+                                                title={rule.webhookSecret ? `Signing secret: ${rule.webhookSecret}` : undefined}
+                                            >
+                                                {rule.webhookUrl}
+                                                {rule.webhookSecret && ` · secret ${rule.webhookSecret}`}
+                                            </p>
+                                        )}
+                                    </div>
+                                    <Button
+                                        variant="ghost"
+                                        size="icon-sm"
+                                        title="Delete rule"
+                                        onClick={() => handleDelete(rule)}
+                                        className="h-7 w-7 text-muted-foreground"
+                                    >
+                                        <Trash2 className="h-3.5 w-3.5" />
+                                    </Button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+
+                <form onSubmit={handleAdd} className="space-y-3 rounded-md border p-3">
+                    <p className="text-sm font-medium">New rule</p>
+                    <div className="grid grid-cols-2 gap-2">
+                        <label className="space-y-1 text-xs text-muted-foreground">
+                            When
+                            <select
+                                value={condition}
+                                onChange={(e) => setCondition(e.target.value as AlertCondition)}
+                                disabled={loading}
+                                className={selectClassName}
+                            >
+                                {Object.entries(conditionLabels).map(([value, label]) => (
+                                    <option key={value} value={value}>{label}</option>
+                                ))}
+                            </select>
+                        </label>
+                        {condition === 'job_failed' ? (
+                            <div />
+                        ) : (
+                            <label className="space-y-1 text-xs text-muted-foreground">
+                                For keyword
+                                <Input
+                                    placeholder="All keywords"
+                                    value={keyword}
+                                    onChange={(e) => setKeyword(e.target.value)}
+                                    disabled={loading}
+                                    list={`alert-keywords-${appId}`}
+                                    autoComplete="off"
+                                />
+                                <datalist id={`alert-keywords-${appId}`}>
+                                    {keywords.map((k) => <option key={k} value={k} />)}
+                                </datalist>
+                            </label>
+                        )}
+                        {condition === 'traffic_change' && (
+                            <label className="space-y-1 text-xs text-muted-foreground">
+                                By more than (traffic points)
+                                <Input
+                                    type="number"
+                                    min={1}
+                                    max={100}
+                                    value={threshold}
+                                    onChange={(e) => setThreshold(Number(e.target.value))}
+                                    disabled={loading}
+                                />
+                            </label>
+                        )}
+                        <label className="space-y-1 text-xs text-muted-foreground">
+                            Send to
+                            <select
+                                value={channel}
+                                onChange={(e) => setChannel(e.target.value as AlertChannel)}
+                                disabled={loading}
+                                className={selectClassName}
+                            >
+                                {Object.entries(channelLabels).map(([value, label]) => (
+                                    <option key={value} value={value}>{label}</option>
+                                ))}
+                            </select>
+                        </label>
+                        {channel === 'webhook' && (
+                            <label className="col-span-2 space-y-1 text-xs text-muted-foreground">
+                                Webhook URL
+                                <Input
+                                    type="url"
+                                    placeholder="https://example.com/hooks/aso"
+                                    value={webhookUrl}
+                                    onChange={(e) => setWebhookUrl(e.target.value)}
+                                    disabled={loading}
+                                />
+                            </label>
+                        )}
+                    </div>
+
+                    {error && (
+                        <div className="flex items-center gap-2 text-sm text-destructive">
+                            <AlertCircle className="h-4 w-4" />
+                            {error}
+                        </div>
+                    )}
+
+                    <div className="flex justify-end">
+                        <Button type="submit" size="sm" className="gap-2" disabled={loading}>
+                            {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+                            Add rule
+                        </Button>
+                    </div>
+                </form>
+
+                <div className="space-y-2">
+                    <p className="text-sm font-medium">History</p>
+                    {history.length === 0 ? (
+                        <p className="text-xs text-muted-foreground">No alerts have fired yet</p>
+                    ) : (
+                        <ul className="space-y-1">
+                            {history.map((event) => (
+                                <li key={event.id} className="flex items-start gap-2 text-xs">
+                                    {event.channel === 'webhook' ? (
+                                        <Webhook className="h-3.5 w-3.5 mt-0.5 text-muted-foreground flex-shrink-0" />
+                                    ) : (
+                                        <BellRing className="h-3.5 w-3.5 mt-0.5 text-muted-foreground flex-shrink-0" />
+                                    )}
+                                    <span className="flex-1 min-w-0">
+                                        {event.message}
+                                        <span className="block text-muted-foreground">
+                                            {formatDistanceToNow(new Date(event.firedAt), { addSuffix: true })}
+                                            {event.channel === 'webhook' && event.attempts > 0 && ` · ${event.attempts} attempts`}
+                                            {event.lastError && event.deliveryStatus !== 'delivered' && ` · ${event.lastError}`}
+                                        </span>
+                                    </span>
+                                    <Badge variant="outline" className={cn('border-0', deliveryStyles[event.deliveryStatus])}>
+                                        {event.deliveryStatus}
+                                    </Badge>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+}
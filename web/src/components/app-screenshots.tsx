@@ -0,0 +1,60 @@
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+import { Button } from '@/components/ui/button';
+import { ChevronDown, ChevronUp, Images } from 'lucide-react';
+
+interface AppScreenshotsProps {
+    screenshots: string[];
+    screenshotKeywordCount: number;
+}
+
+// Thumbnail strip of the app's App Store screenshots, which keyword generation reads
+export function AppScreenshots({ screenshots, screenshotKeywordCount }: AppScreenshotsProps) {
+    const [expanded, setExpanded] = useState(true);
+
+    if (screenshots.length === 0) return null;
+
+    return (
+        <div className="border-b bg-card/50 px-4 py-2">
+            <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setExpanded(!expanded)}
+                className="-ml-3 gap-2 text-muted-foreground"
+            >
+                <Images className="h-4 w-4" />
+                Screenshots ({screenshots.length})
+                {screenshotKeywordCount > 0 && (
+                    <span className="text-xs opacity-70">· {screenshotKeywordCount} keywords from screenshots</span>
+                )}
+                {expanded ? <ChevronUp className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+            </Button>
+
+            {expanded && (
+                <div className="flex gap-2 overflow-x-auto pb-1 pt-1">
+                    {screenshots.map((url, index) => (
+                        <a
+                            key={url}
+                            href={url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="shrink-0 rounded-md border overflow-hidden hover:ring-2 hover:ring-primary"
+                        >
+                            {/* App Store screenshots are served by Apple's CDN at the right size already */}
+                            <Image
+                                src={url}
+                                alt={`Screenshot ${index + 1}`}
+                                width={64}
+                                height={128}
+                                unoptimized
+                                className="h-32 w-auto object-cover"
+                            />
+                        </a>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -5,18 +5,74 @@ import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Skeleton } from '@/components/ui/skeleton';
 import { AddAppDialog } from '@/components/add-app-dialog';
-import { Apple, Smartphone } from 'lucide-react';
-import type { AppWithStats } from '@/types';
+import { ActiveJobItem } from '@/components/job-progress';
+import { ExportSelect } from '@/components/export-select';
+import { ScheduleDialog } from '@/components/schedule-dialog';
+import { NotificationsMenu } from '@/components/notifications-menu';
+import { WorkspaceSwitcher } from '@/components/workspace-switcher';
+import { AccountMenu } from '@/components/account-menu';
+import { Apple, Smartphone, RefreshCw, Loader2, Clock, AlertCircle } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+import type { AnalysisJob, AppWithStats, User, Workspace } from '@/types';
 
 interface AppsSidebarProps {
+    // The signed-in user, null while the session loads
+    user: User | null;
+    // The active workspace's apps
     apps: AppWithStats[];
+    workspaces: Workspace[];
+    activeWorkspace: Workspace | null;
+    onSelectWorkspace: (workspaceId: number) => void;
+    onWorkspacesChanged: (selectId?: number) => void;
+    activeJobs: AnalysisJob[];
     selectedAppId: number | null;
     onSelectApp: (app: AppWithStats) => void;
     onRefresh: () => void;
+    onJobStarted: (job: AnalysisJob) => void;
+    onJobFinished: (job: AnalysisJob) => void;
     loading?: boolean;
 }
 
-export function AppsSidebar({ apps, selectedAppId, onSelectApp, onRefresh, loading }: AppsSidebarProps) {
+export function AppsSidebar({
+    user,
+    apps,
+    workspaces,
+    activeWorkspace,
+    onSelectWorkspace,
+    onWorkspacesChanged,
+    activeJobs,
+    selectedAppId,
+    onSelectApp,
+    onRefresh,
+    onJobStarted,
+    onJobFinished,
+    loading,
+}: AppsSidebarProps) {
+    // Viewers can't start analyses, so they aren't offered to add apps
+    const canEdit = user?.role === 'editor' || user?.role === 'admin';
+
+    // Shift-click fetches fresh metrics for every keyword instead of reusing cached ones
+    const handleRefreshApp = async (app: AppWithStats, forceRefresh: boolean) => {
+        try {
+            const response = await fetch(`/api/apps/${app.id}/refresh`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ forceRefresh }),
+            });
+            const result = await response.json();
+
+            if (!response.ok) {
+                throw new Error(result.error || 'Failed to start refresh');
+            }
+
+            toast.info(`Re-analyzing "${app.title}"${forceRefresh ? ' with fresh metrics' : ''}...`);
+            onJobStarted(result.job);
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Failed to start refresh');
+        }
+    };
+
     if (loading) {
         return (
             <div className="w-64 border-r bg-card flex flex-col">
@@ -34,63 +90,182 @@ export function AppsSidebar({ apps, selectedAppId, onSelectApp, onRefresh, loadi
 
     return (
         <div className="w-64 border-r bg-card flex flex-col">
+            <WorkspaceSwitcher
+                workspaces={workspaces}
+                activeWorkspace={activeWorkspace}
+                apps={apps}
+                onSelectWorkspace={onSelectWorkspace}
+                onWorkspacesChanged={onWorkspacesChanged}
+                onAppsChanged={onRefresh}
+            />
             <div className="p-3 border-b flex items-center justify-between">
                 <span className="text-sm font-medium text-muted-foreground">Apps</span>
+                <div className="flex items-center gap-1">
+                    {apps.length > 0 && (
+                        <ExportSelect
+                            label="Export all"
+                            getUrl={(format) => `/api/export?format=${format}` +
+                                (activeWorkspace ? `&workspace=${activeWorkspace.id}` : '')}
+                        />
+                    )}
+                    {/* Finished jobs are what fire alerts, so reload when one ends */}
+                    <NotificationsMenu refreshKey={activeJobs.length} />
+                    {user && <AccountMenu user={user} />}
+                </div>
             </div>
 
             <ScrollArea className="flex-1">
                 <div className="p-2 space-y-1">
-                    {apps.length === 0 ? (
+                    {activeJobs.map((job) => (
+                        <ActiveJobItem key={job.id} job={job} onFinished={onJobFinished} />
+                    ))}
+                    {apps.length === 0 && activeJobs.length === 0 ? (
                         <div className="p-4 text-center">
-                            <p className="text-sm text-muted-foreground mb-3">No apps yet</p>
-                            <AddAppDialog
-                                onAppAdded={onRefresh}
-                                trigger={
-                                    <Button size="sm" variant="outline">
-                                        Add Your First App
-                                    </Button>
-                                }
-                            />
+                            <p className="text-sm text-muted-foreground mb-3">No apps in this workspace yet</p>
+                            {canEdit && (
+                                <AddAppDialog
+                                    onAppAdded={onRefresh}
+                                    onJobStarted={onJobStarted}
+                                    workspaceId={activeWorkspace?.id}
+                                    defaultCountry={activeWorkspace?.country}
+                                    trigger={
+                                        <Button size="sm" variant="outline">
+                                            Add Your First App
+                                        </Button>
+                                    }
+                                />
+                            )}
                         </div>
                     ) : (
                         apps.map((app) => (
-                            <button
+                            <AppListItem
                                 key={app.id}
-                                onClick={() => onSelectApp(app)}
-                                className={cn(
-                                    'w-full p-3 rounded-lg text-left transition-colors',
-                                    'hover:bg-accent',
-                                    selectedAppId === app.id && 'bg-accent border border-primary/20'
-                                )}
-                            >
-                                <div className="flex items-start gap-3">
-                                    <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-blue-500 to-purple-500 flex items-center justify-center flex-shrink-0">
-                                        <Apple className="h-5 w-5 text-white" />
-                                    </div>
-                                    <div className="flex-1 min-w-0">
-                                        <p className="font-medium text-sm truncate">{app.title}</p>
-                                        <div className="flex items-center gap-1 mt-1">
-                                            <Smartphone className="h-3 w-3 text-muted-foreground" />
-                                            <span className="text-xs text-muted-foreground">iPhone</span>
-                                        </div>
-                                    </div>
-                                </div>
-                            </button>
+                                app={app}
+                                selected={selectedAppId === app.id}
+                                refreshing={activeJobs.some((job) => job.appId === app.id)}
+                                onSelect={() => onSelectApp(app)}
+                                onRefresh={(forceRefresh) => handleRefreshApp(app, forceRefresh)}
+                                onScheduleChanged={onRefresh}
+                            />
                         ))
                     )}
                 </div>
             </ScrollArea>
 
-            <div className="p-2 border-t">
-                <AddAppDialog
-                    onAppAdded={onRefresh}
-                    trigger={
-                        <Button variant="ghost" size="sm" className="w-full justify-start gap-2 text-muted-foreground">
-                            + Add App
-                        </Button>
-                    }
-                />
-            </div>
+            {canEdit && (
+                <div className="p-2 border-t">
+                    <AddAppDialog
+                        onAppAdded={onRefresh}
+                        onJobStarted={onJobStarted}
+                        workspaceId={activeWorkspace?.id}
+                        defaultCountry={activeWorkspace?.country}
+                        trigger={
+                            <Button variant="ghost" size="sm" className="w-full justify-start gap-2 text-muted-foreground">
+                                + Add App
+                            </Button>
+                        }
+                    />
+                </div>
+            )}
+        </div>
+    );
+}
+
+interface AppListItemProps {
+    app: AppWithStats;
+    selected: boolean;
+    refreshing: boolean;
+    onSelect: () => void;
+    onRefresh: (forceRefresh: boolean) => void;
+    onScheduleChanged: () => void;
+}
+
+function AppListItem({ app, selected, refreshing, onSelect, onRefresh, onScheduleChanged }: AppListItemProps) {
+    const { schedule } = app;
+    const cadenceLabel = schedule?.cadence === 'cron' ? schedule.cron : schedule?.cadence;
+
+    return (
+        <div className="relative group">
+            <button
+                onClick={onSelect}
+                className={cn(
+                    'w-full p-3 rounded-lg text-left transition-colors',
+                    'hover:bg-accent',
+                    selected && 'bg-accent border border-primary/20'
+                )}
+            >
+                <div className="flex items-start gap-3">
+                    <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-blue-500 to-purple-500 flex items-center justify-center flex-shrink-0">
+                        <Apple className="h-5 w-5 text-white" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                        <p className="font-medium text-sm truncate pr-12">{app.title}</p>
+                        <div className="flex items-center gap-1 mt-1">
+                            <Smartphone className="h-3 w-3 text-muted-foreground" />
+                            <span className="text-xs text-muted-foreground">iPhone</span>
+                            {app.cliRun && (
+                                <span
+                                    title="Imported from an unfinished CLI run"
+                                    className="ml-auto text-[10px] px-1.5 py-0.5 rounded bg-amber-500/10 text-amber-600 dark:text-amber-400"
+                                >
+                                    CLI run {app.cliRun.processed}/{app.cliRun.total}
+                                </span>
+                            )}
+                        </div>
+                        {schedule && (
+                            <div
+                                className="flex items-center gap-1 mt-1 text-[11px] text-muted-foreground"
+                                title={schedule.lastRun?.status === 'failed' ? `Last run failed: ${schedule.lastRun.error}` : undefined}
+                            >
+                                {schedule.lastRun?.status === 'failed' ? (
+                                    <AlertCircle className="h-3 w-3 text-destructive" />
+                                ) : (
+                                    <Clock className="h-3 w-3" />
+                                )}
+                                <span className="truncate">
+                                    {cadenceLabel} · {schedule.enabled
+                                        ? `next ${formatDistanceToNow(new Date(schedule.nextRunAt), { addSuffix: true })}`
+                                        : 'paused'}
+                                </span>
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </button>
+            <ScheduleDialog
+                app={app}
+                onScheduleChanged={onScheduleChanged}
+                trigger={
+                    <Button
+                        variant="ghost"
+                        size="icon-sm"
+                        title="Re-scoring schedule"
+                        className={cn(
+                            'absolute top-2 right-9 h-7 w-7 text-muted-foreground',
+                            !schedule && 'opacity-0 group-hover:opacity-100'
+                        )}
+                    >
+                        <Clock className="h-3.5 w-3.5" />
+                    </Button>
+                }
+            />
+            <Button
+                variant="ghost"
+                size="icon-sm"
+                title="Re-analyze app (Shift-click to fetch fresh metrics)"
+                onClick={(e) => onRefresh(e.shiftKey)}
+                disabled={refreshing}
+                className={cn(
+                    'absolute top-2 right-2 h-7 w-7 text-muted-foreground',
+                    !refreshing && 'opacity-0 group-hover:opacity-100'
+                )}
+            >
+                {refreshing ? (
+                    <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                ) : (
+                    <RefreshCw className="h-3.5 w-3.5" />
+                )}
+            </Button>
         </div>
     );
 }
@@ -0,0 +1,203 @@
+'use client';
+
+import { useState } from 'react';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+    DialogTrigger,
+    DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Users, Trash2, Loader2, Plus, Search, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import type { AnalysisJob, Competitor } from '@/types';
+
+interface CompetitorsDialogProps {
+    appId: number;
+    country?: string;
+    onJobStarted?: (job: AnalysisJob) => void;
+}
+
+export function CompetitorsDialog({ appId, country, onJobStarted }: CompetitorsDialogProps) {
+    const [open, setOpen] = useState(false);
+    const [competitors, setCompetitors] = useState<Competitor[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [busy, setBusy] = useState(false);
+    const [newStoreId, setNewStoreId] = useState('');
+
+    const fetchCompetitors = async () => {
+        setLoading(true);
+        try {
+            const response = await fetch(`/api/apps/${appId}/competitors`);
+            if (!response.ok) throw new Error('Failed to fetch competitors');
+            setCompetitors(await response.json());
+        } catch (error) {
+            console.error('Error fetching competitors:', error);
+            toast.error('Failed to load competitors');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleOpenChange = (isOpen: boolean) => {
+        setOpen(isOpen);
+        if (isOpen) fetchCompetitors();
+    };
+
+    const postCompetitors = async (body: object) => {
+        setBusy(true);
+        try {
+            const response = await fetch(`/api/apps/${appId}/competitors`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(body),
+            });
+            const result = await response.json();
+            if (!response.ok) throw new Error(result.error || 'Failed to add competitor');
+            return result;
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!/^\d+$/.test(newStoreId.trim())) {
+            toast.error('App Store ID must be a number');
+            return;
+        }
+
+        try {
+            const competitor = await postCompetitors({ appStoreId: newStoreId.trim() });
+            setCompetitors((prev) => [...prev, competitor]);
+            setNewStoreId('');
+            toast.success(`Added "${competitor.title}"`);
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Failed to add competitor');
+        }
+    };
+
+    const handleDiscover = async () => {
+        try {
+            const { added } = await postCompetitors({ discover: true });
+            setCompetitors((prev) => [...prev, ...added]);
+            toast.success(added.length > 0 ? `Found ${added.length} similar apps` : 'No new similar apps found');
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Failed to find similar apps');
+        }
+    };
+
+    const handleRemove = async (competitor: Competitor) => {
+        try {
+            const response = await fetch(`/api/apps/${appId}/competitors/${competitor.id}`, { method: 'DELETE' });
+            if (!response.ok) throw new Error('Failed to remove competitor');
+            setCompetitors((prev) => prev.filter((c) => c.id !== competitor.id));
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Failed to remove competitor');
+        }
+    };
+
+    const handleRerun = async () => {
+        try {
+            const response = await fetch(`/api/apps/${appId}/refresh`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ country }),
+            });
+            const result = await response.json();
+            if (!response.ok) throw new Error(result.error || 'Failed to start analysis');
+
+            toast.info('Re-running analysis with the current competitors...');
+            onJobStarted?.(result.job);
+            setOpen(false);
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Failed to start analysis');
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+            <DialogTrigger asChild>
+                <Button variant="outline" size="sm" className="gap-2">
+                    <Users className="h-4 w-4" />
+                    Competitors
+                </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-lg">
+                <DialogHeader>
+                    <DialogTitle>Competitors</DialogTitle>
+                    <DialogDescription>
+                        Keywords are also generated from these apps. Re-run the analysis after making changes.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <ScrollArea className="max-h-72">
+                    {loading ? (
+                        <div className="flex items-center justify-center py-6 text-sm text-muted-foreground">
+                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                            Loading competitors...
+                        </div>
+                    ) : competitors.length === 0 ? (
+                        <p className="py-6 text-center text-sm text-muted-foreground">No competitors yet</p>
+                    ) : (
+                        <div className="space-y-1 pr-3">
+                            {competitors.map((competitor) => (
+                                <div
+                                    key={competitor.id}
+                                    className="flex items-center gap-3 rounded-md px-2 py-1.5 hover:bg-muted/50"
+                                >
+                                    <div className="flex-1 min-w-0">
+                                        <p className="text-sm font-medium truncate">{competitor.title}</p>
+                                        <p className="text-xs text-muted-foreground font-mono">{competitor.appStoreId}</p>
+                                    </div>
+                                    {competitor.source === 'manual' && (
+                                        <Badge variant="outline">Manual</Badge>
+                                    )}
+                                    <Button
+                                        variant="ghost"
+                                        size="icon-sm"
+                                        title="Remove competitor"
+                                        onClick={() => handleRemove(competitor)}
+                                    >
+                                        <Trash2 className="h-4 w-4 text-muted-foreground" />
+                                    </Button>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </ScrollArea>
+
+                <form onSubmit={handleAdd} className="flex gap-2">
+                    <Input
+                        placeholder="App Store ID, e.g. 310633997"
+                        value={newStoreId}
+                        onChange={(e) => setNewStoreId(e.target.value)}
+                        disabled={busy}
+                        autoComplete="off"
+                    />
+                    <Button type="submit" variant="outline" disabled={busy} className="gap-2">
+                        <Plus className="h-4 w-4" />
+                        Add
+                    </Button>
+                </form>
+
+                <DialogFooter>
+                    <Button variant="outline" onClick={handleDiscover} disabled={busy} className="gap-2">
+                        {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+                        Find Similar Apps
+                    </Button>
+                    <Button onClick={handleRerun} disabled={busy} className="gap-2">
+                        <RefreshCw className="h-4 w-4" />
+                        Re-run Analysis
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,42 @@
+'use client';
+
+import type { ExportFormat } from '@/lib/export/keywords';
+
+const formats: { value: ExportFormat; label: string }[] = [
+    { value: 'csv', label: 'CSV' },
+    { value: 'xlsx', label: 'Excel (.xlsx)' },
+    { value: 'json', label: 'JSON' },
+];
+
+interface ExportSelectProps {
+    label?: string;
+    // Download URL for the chosen format
+    getUrl: (format: ExportFormat) => string;
+}
+
+// Downloads an export in the picked format; the server sends it as an attachment
+export function ExportSelect({ label = 'Export', getUrl }: ExportSelectProps) {
+    const handleChange = (format: ExportFormat) => {
+        const link = document.createElement('a');
+        link.href = getUrl(format);
+        link.click();
+    };
+
+    return (
+        <select
+            value=""
+            onChange={(e) => e.target.value && handleChange(e.target.value as ExportFormat)}
+            title={label}
+            className="h-8 rounded-md border border-input bg-background px-2 text-sm font-medium shadow-xs outline-none focus-visible:border-ring dark:bg-input/30"
+        >
+            <option value="" disabled>
+                {label}
+            </option>
+            {formats.map((format) => (
+                <option key={format.value} value={format.value}>
+                    {format.label}
+                </option>
+            ))}
+        </select>
+    );
+}
@@ -0,0 +1,67 @@
+'use client';
+
+import { cn } from '@/lib/utils';
+import { Loader2, AlertCircle, CheckCircle2 } from 'lucide-react';
+import { useAnalysisJob } from '@/hooks/use-analysis-job';
+import type { AnalysisJob } from '@/types';
+
+interface JobProgressProps {
+    job: AnalysisJob;
+    className?: string;
+}
+
+export function JobProgress({ job, className }: JobProgressProps) {
+    const percentage = job.total > 0 ? Math.round((job.processed / job.total) * 100) : 0;
+
+    return (
+        <div className={cn('space-y-1.5', className)}>
+            <div className="flex items-center gap-2 text-xs">
+                {job.status === 'failed' ? (
+                    <AlertCircle className="h-3 w-3 text-destructive flex-shrink-0" />
+                ) : job.status === 'completed' ? (
+                    <CheckCircle2 className="h-3 w-3 text-green-500 flex-shrink-0" />
+                ) : (
+                    <Loader2 className="h-3 w-3 animate-spin text-blue-500 flex-shrink-0" />
+                )}
+                <span className={cn('truncate', job.status === 'failed' ? 'text-destructive' : 'text-muted-foreground')}>
+                    {job.status === 'failed' ? job.error || 'Analysis failed' : job.currentStep}
+                </span>
+                {job.total > 0 && job.status !== 'failed' && (
+                    <span className="ml-auto text-muted-foreground tabular-nums">
+                        {job.processed}/{job.total}
+                    </span>
+                )}
+            </div>
+            {job.total > 0 && (
+                <div className="h-1.5 bg-muted rounded-full overflow-hidden">
+                    <div
+                        className="h-full rounded-full bg-blue-500 transition-all"
+                        style={{ width: `${percentage}%` }}
+                    />
+                </div>
+            )}
+        </div>
+    );
+}
+
+interface ActiveJobItemProps {
+    job: AnalysisJob;
+    onFinished: (job: AnalysisJob) => void;
+}
+
+// Sidebar entry for an app that is still being analyzed
+export function ActiveJobItem({ job: initialJob, onFinished }: ActiveJobItemProps) {
+    const job = useAnalysisJob(initialJob.id, onFinished) ?? initialJob;
+
+    return (
+        <div className="w-full p-3 rounded-lg border border-dashed">
+            <p className="font-medium text-sm truncate mb-2">
+                {job.appTitle || `App ${job.appStoreId}`}
+                {job.startedBy && (
+                    <span className="ml-1 text-xs font-normal text-muted-foreground">· {job.startedBy}</span>
+                )}
+            </p>
+            <JobProgress job={job} />
+        </div>
+    );
+}
@@ -0,0 +1,201 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import {
+    Bar,
+    BarChart,
+    CartesianGrid,
+    Cell,
+    ReferenceArea,
+    ResponsiveContainer,
+    Scatter,
+    ScatterChart,
+    Tooltip,
+    XAxis,
+    YAxis,
+    ZAxis,
+} from 'recharts';
+import { badgeConfig } from './recommendation-badge';
+import type { KeywordAnalysis, RecommendationType } from '@/types';
+import type { ScoringConfig } from '@services/scoring';
+
+interface KeywordChartsProps {
+    appId: number;
+    keywords: KeywordAnalysis[];
+    selectedId: number | null;
+    onSelect: (keyword: KeywordAnalysis) => void;
+}
+
+const recommendationOrder: RecommendationType[] = ['excellent', 'good', 'consider', 'challenging', 'avoid', 'analysis_failed'];
+
+async function fetchScoringConfig(appId: number): Promise<ScoringConfig> {
+    const response = await fetch(`/api/apps/${appId}/scoring`);
+    if (!response.ok) throw new Error('Failed to fetch scoring settings');
+    return (await response.json()).config;
+}
+
+/**
+ * Recommendation bands as chart areas, lowest priority first so the bands that
+ * win in getRecommendation are drawn on top. Whatever none of them covers is
+ * Consider, which is the plot's background.
+ */
+function recommendationBands({ thresholds }: ScoringConfig) {
+    return [
+        { recommendation: 'avoid' as const, x1: thresholds.avoid.minDifficulty, x2: 100, y1: 0, y2: thresholds.avoid.maxTraffic },
+        { recommendation: 'challenging' as const, x1: thresholds.challenging.minDifficulty, x2: 100, y1: thresholds.challenging.minTraffic, y2: 100 },
+        { recommendation: 'good' as const, x1: 0, x2: thresholds.good.maxDifficulty, y1: thresholds.good.minTraffic, y2: 100 },
+        { recommendation: 'excellent' as const, x1: 0, x2: thresholds.excellent.maxDifficulty, y1: thresholds.excellent.minTraffic, y2: 100 },
+    ];
+}
+
+interface PointTooltipProps {
+    active?: boolean;
+    payload?: { payload: KeywordAnalysis }[];
+}
+
+function PointTooltip({ active, payload }: PointTooltipProps) {
+    if (!active || !payload?.length) return null;
+    const keyword = payload[0].payload;
+
+    return (
+        <div className="rounded-md border bg-popover px-3 py-2 text-xs shadow-md">
+            <p className="font-medium text-sm">{keyword.keyword}</p>
+            <p className="text-muted-foreground">
+                Popularity {keyword.traffic} · Difficulty {keyword.difficulty} · Opportunity {keyword.opportunity}
+            </p>
+            <p style={{ color: badgeConfig[keyword.recommendation].color }}>
+                {badgeConfig[keyword.recommendation].label}
+            </p>
+        </div>
+    );
+}
+
+// Traffic against difficulty with the recommendation bands behind the points, next
+// to how the keywords are spread over the recommendations
+export function KeywordCharts({ appId, keywords, selectedId, onSelect }: KeywordChartsProps) {
+    const [config, setConfig] = useState<ScoringConfig | null>(null);
+
+    // Refetched with the keywords so the bands follow scoring changes
+    useEffect(() => {
+        let cancelled = false;
+
+        fetchScoringConfig(appId)
+            .then((result) => !cancelled && setConfig(result))
+            .catch((error) => console.error('Error fetching scoring settings:', error));
+
+        return () => {
+            cancelled = true;
+        };
+    }, [appId, keywords]);
+
+    // Keywords without both metrics have no place on the plot
+    const points = useMemo(
+        () => keywords.filter(k => k.traffic !== null && k.difficulty !== null),
+        [keywords]
+    );
+
+    const distribution = useMemo(
+        () => recommendationOrder
+            .map((recommendation) => ({
+                recommendation,
+                label: badgeConfig[recommendation].label,
+                count: keywords.filter(k => k.recommendation === recommendation).length,
+            }))
+            .filter((entry) => entry.count > 0 || entry.recommendation !== 'analysis_failed'),
+        [keywords]
+    );
+
+    return (
+        <div className="grid grid-cols-[2fr_1fr] gap-4 border-b bg-card/50 px-4 py-3">
+            <div>
+                <p className="text-sm font-medium mb-1">
+                    Opportunity matrix
+                    <span className="ml-2 text-xs font-normal text-muted-foreground">
+                        {points.length} keywords · click a point to find it in the table
+                    </span>
+                </p>
+                <ResponsiveContainer width="100%" height={280}>
+                    <ScatterChart margin={{ top: 8, right: 16, bottom: 16, left: 0 }}>
+                        <ReferenceArea
+                            x1={0}
+                            x2={100}
+                            y1={0}
+                            y2={100}
+                            fill={badgeConfig.consider.color}
+                            fillOpacity={0.06}
+                            stroke="none"
+                        />
+                        {config && recommendationBands(config).map((band) => (
+                            <ReferenceArea
+                                key={band.recommendation}
+                                x1={band.x1}
+                                x2={band.x2}
+                                y1={band.y1}
+                                y2={band.y2}
+                                fill={badgeConfig[band.recommendation].color}
+                                fillOpacity={0.12}
+                                stroke="none"
+                                label={{
+                                    value: badgeConfig[band.recommendation].label,
+                                    position: 'insideTopLeft',
+                                    fontSize: 10,
+                                    fill: badgeConfig[band.recommendation].color,
+                                }}
+                            />
+                        ))}
+                        <CartesianGrid strokeDasharray="3 3" strokeOpacity={0.4} />
+                        <XAxis
+                            type="number"
+                            dataKey="difficulty"
+                            name="Difficulty"
+                            domain={[0, 100]}
+                            tick={{ fontSize: 11 }}
+                            label={{ value: 'Difficulty', position: 'insideBottom', offset: -8, fontSize: 11 }}
+                        />
+                        <YAxis
+                            type="number"
+                            dataKey="traffic"
+                            name="Popularity"
+                            domain={[0, 100]}
+                            tick={{ fontSize: 11 }}
+                            label={{ value: 'Popularity', angle: -90, position: 'insideLeft', offset: 16, fontSize: 11 }}
+                        />
+                        <ZAxis range={[40, 40]} />
+                        <Tooltip content={<PointTooltip />} cursor={{ strokeDasharray: '3 3' }} />
+                        <Scatter
+                            data={points}
+                            cursor="pointer"
+                            onClick={(point) => point.payload && onSelect(point.payload as KeywordAnalysis)}
+                        >
+                            {points.map((keyword) => (
+                                <Cell
+                                    key={keyword.id}
+                                    fill={badgeConfig[keyword.recommendation].color}
+                                    stroke={keyword.id === selectedId ? '#0f172a' : 'none'}
+                                    strokeWidth={keyword.id === selectedId ? 3 : 0}
+                                />
+                            ))}
+                        </Scatter>
+                    </ScatterChart>
+                </ResponsiveContainer>
+            </div>
+
+            <div>
+                <p className="text-sm font-medium mb-1">Recommendations</p>
+                <ResponsiveContainer width="100%" height={280}>
+                    <BarChart data={distribution} layout="vertical" margin={{ top: 8, right: 24, bottom: 16, left: 8 }}>
+                        <CartesianGrid strokeDasharray="3 3" strokeOpacity={0.4} horizontal={false} />
+                        <XAxis type="number" allowDecimals={false} tick={{ fontSize: 11 }} />
+                        <YAxis type="category" dataKey="label" width={80} tick={{ fontSize: 11 }} />
+                        <Tooltip cursor={{ fillOpacity: 0.1 }} formatter={(value) => [value, 'Keywords']} />
+                        <Bar dataKey="count" radius={[0, 4, 4, 0]} label={{ position: 'right', fontSize: 11 }}>
+                            {distribution.map((entry) => (
+                                <Cell key={entry.recommendation} fill={badgeConfig[entry.recommendation].color} />
+                            ))}
+                        </Bar>
+                    </BarChart>
+                </ResponsiveContainer>
+            </div>
+        </div>
+    );
+}
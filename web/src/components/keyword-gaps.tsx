@@ -0,0 +1,293 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ScoreBar, OpportunityScore } from './score-bar';
+import { RecommendationBadge } from './recommendation-badge';
+import { Check, Loader2, Plus, Split } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatDistanceToNow } from 'date-fns';
+import type { AnalysisJob, GapCompetitor, GapKeyword, KeywordGapReport } from '@/types';
+
+interface KeywordGapsProps {
+    appId: number;
+    appTitle?: string;
+    country?: string;
+    // Changes when a gap analysis for the app finishes, to reload the report
+    refreshKey?: number;
+    onShowKeywords: () => void;
+    onJobStarted?: (job: AnalysisJob) => void;
+}
+
+type GapSection = 'missing' | 'exclusive';
+
+async function fetchGapReport(appId: number, country?: string): Promise<KeywordGapReport | null> {
+    const query = country ? `?country=${country}` : '';
+    const response = await fetch(`/api/apps/${appId}/gaps${query}`);
+    if (!response.ok) throw new Error('Failed to fetch keyword gaps');
+    return (await response.json()).report;
+}
+
+function CompetitorRanks({ competitors }: { competitors: GapCompetitor[] }) {
+    return (
+        <div className="flex flex-wrap gap-1">
+            {competitors.map((competitor) => (
+                <Badge
+                    key={competitor.appStoreId}
+                    variant="outline"
+                    className="text-[10px] px-1.5 font-normal"
+                    title={competitor.relevant ? 'Generated from this competitor\'s metadata' : undefined}
+                >
+                    {competitor.title}
+                    <span className="ml-1 font-semibold tabular-nums">
+                        {competitor.rank !== null ? `#${competitor.rank}` : 'relevant'}
+                    </span>
+                </Badge>
+            ))}
+        </div>
+    );
+}
+
+// Keywords competitors rank for and the app doesn't, and keywords only the app ranks for
+export function KeywordGaps({
+    appId,
+    appTitle,
+    country,
+    refreshKey,
+    onShowKeywords,
+    onJobStarted,
+}: KeywordGapsProps) {
+    const [report, setReport] = useState<KeywordGapReport | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [starting, setStarting] = useState(false);
+    const [section, setSection] = useState<GapSection>('missing');
+    const [adding, setAdding] = useState<Set<string>>(new Set());
+
+    useEffect(() => {
+        let cancelled = false;
+
+        fetchGapReport(appId, country)
+            .then((result) => !cancelled && setReport(result))
+            .catch((error) => {
+                console.error('Error fetching keyword gaps:', error);
+                toast.error('Failed to load keyword gaps');
+            })
+            .finally(() => !cancelled && setLoading(false));
+
+        return () => {
+            cancelled = true;
+        };
+    }, [appId, country, refreshKey]);
+
+    const handleAnalyze = async () => {
+        setStarting(true);
+        try {
+            const response = await fetch(`/api/apps/${appId}/gaps`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ country }),
+            });
+            const result = await response.json();
+            if (!response.ok) throw new Error(result.error || 'Failed to start gap analysis');
+
+            toast.info('Comparing keywords with competitors...');
+            onJobStarted?.(result.job);
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Failed to start gap analysis');
+        } finally {
+            setStarting(false);
+        }
+    };
+
+    const handleTrack = async (gap: GapKeyword) => {
+        setAdding((prev) => new Set(prev).add(gap.keyword));
+        try {
+            const response = await fetch(`/api/apps/${appId}/gaps/keywords`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ keyword: gap.keyword, country }),
+            });
+            const result = await response.json();
+            if (!response.ok) throw new Error(result.error || 'Failed to add keyword');
+
+            if (result.job) {
+                toast.info(`Scoring "${gap.keyword}"...`);
+                onJobStarted?.(result.job);
+            } else {
+                toast.info(`"${gap.keyword}" is already tracked`);
+            }
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Failed to add keyword');
+        } finally {
+            setAdding((prev) => {
+                const next = new Set(prev);
+                next.delete(gap.keyword);
+                return next;
+            });
+        }
+    };
+
+    const rows = report ? report[section] : [];
+
+    return (
+        <div className="flex-1 flex flex-col overflow-hidden">
+            {/* Header Bar */}
+            <div className="border-b bg-card px-4 py-3">
+                <div className="flex items-center justify-between gap-4">
+                    <div className="flex items-center gap-2">
+                        <Button variant="ghost" size="sm" onClick={onShowKeywords}>
+                            Keywords
+                        </Button>
+                        <Button variant="outline" size="sm" className="gap-2">
+                            <Split className="h-4 w-4" />
+                            Gaps
+                        </Button>
+                    </div>
+
+                    <div className="flex items-center gap-3">
+                        {report && (
+                            <span className="text-xs text-muted-foreground">
+                                Compared with {report.competitors.length} competitors{' '}
+                                {formatDistanceToNow(new Date(report.checkedAt), { addSuffix: true })}
+                            </span>
+                        )}
+                        <Button variant="outline" size="sm" className="gap-2" onClick={handleAnalyze} disabled={starting}>
+                            {starting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Split className="h-4 w-4" />}
+                            {report ? 'Re-run gap analysis' : 'Run gap analysis'}
+                        </Button>
+                    </div>
+                </div>
+            </div>
+
+            {loading ? (
+                <div className="p-4 space-y-2">
+                    {Array.from({ length: 8 }).map((_, i) => (
+                        <Skeleton key={i} className="h-12 w-full" />
+                    ))}
+                </div>
+            ) : !report ? (
+                <div className="flex-1 flex items-center justify-center">
+                    <div className="text-center space-y-2">
+                        <p className="text-muted-foreground">No gap analysis yet</p>
+                        <p className="text-sm text-muted-foreground">
+                            Add competitors, then run a gap analysis to find keywords they rank for and you don&apos;t
+                        </p>
+                    </div>
+                </div>
+            ) : (
+                <>
+                    {/* Section Tabs */}
+                    <div className="border-b bg-card/50 px-4 py-2">
+                        <div className="flex items-center gap-2">
+                            <Button
+                                variant={section === 'missing' ? 'default' : 'ghost'}
+                                size="sm"
+                                onClick={() => setSection('missing')}
+                                className="gap-1"
+                            >
+                                Missing
+                                <span className="text-xs opacity-70">({report.missing.length})</span>
+                            </Button>
+                            <Button
+                                variant={section === 'exclusive' ? 'default' : 'ghost'}
+                                size="sm"
+                                onClick={() => setSection('exclusive')}
+                                className="gap-1"
+                            >
+                                Only {appTitle ?? 'you'}
+                                <span className="text-xs opacity-70">({report.exclusive.length})</span>
+                            </Button>
+                            <span className="ml-auto text-xs text-muted-foreground">
+                                {report.shared} keywords shared with competitors
+                            </span>
+                        </div>
+                    </div>
+
+                    <ScrollArea className="flex-1">
+                        <Table>
+                            <TableHeader className="sticky top-0 bg-card z-10">
+                                <TableRow>
+                                    <TableHead className="w-[240px]">Keyword</TableHead>
+                                    <TableHead>{section === 'missing' ? 'Competitors' : 'Position'}</TableHead>
+                                    <TableHead className="w-[200px]">Popularity</TableHead>
+                                    <TableHead className="w-[200px]">Difficulty</TableHead>
+                                    <TableHead className="w-[100px]">Opportunity</TableHead>
+                                    <TableHead className="w-[140px]">Recommendation</TableHead>
+                                    <TableHead className="w-[110px]" />
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {rows.length === 0 ? (
+                                    <TableRow>
+                                        <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                                            {section === 'missing'
+                                                ? 'No keywords where competitors rank and you don\'t'
+                                                : `No keywords only you rank for in the top ${report.depth}`}
+                                        </TableCell>
+                                    </TableRow>
+                                ) : (
+                                    rows.map((gap) => (
+                                        <TableRow key={gap.keyword} className="hover:bg-muted/50">
+                                            <TableCell className="font-medium">{gap.keyword}</TableCell>
+                                            <TableCell>
+                                                {section === 'missing' ? (
+                                                    <CompetitorRanks competitors={gap.competitors} />
+                                                ) : (
+                                                    <span className="text-sm font-semibold tabular-nums">#{gap.appRank}</span>
+                                                )}
+                                            </TableCell>
+                                            <TableCell>
+                                                <ScoreBar value={gap.traffic} type="popularity" />
+                                            </TableCell>
+                                            <TableCell>
+                                                <ScoreBar value={gap.difficulty} type="difficulty" />
+                                            </TableCell>
+                                            <TableCell>
+                                                <OpportunityScore value={gap.opportunity} />
+                                            </TableCell>
+                                            <TableCell>
+                                                {gap.recommendation && <RecommendationBadge recommendation={gap.recommendation} />}
+                                            </TableCell>
+                                            <TableCell className="text-right">
+                                                {gap.tracked ? (
+                                                    <span className="inline-flex items-center gap-1 text-xs text-muted-foreground">
+                                                        <Check className="h-3 w-3" />
+                                                        Tracked
+                                                    </span>
+                                                ) : (
+                                                    <Button
+                                                        variant="outline"
+                                                        size="sm"
+                                                        className="gap-1"
+                                                        onClick={() => handleTrack(gap)}
+                                                        disabled={adding.has(gap.keyword)}
+                                                    >
+                                                        {adding.has(gap.keyword)
+                                                            ? <Loader2 className="h-3 w-3 animate-spin" />
+                                                            : <Plus className="h-3 w-3" />}
+                                                        Track
+                                                    </Button>
+                                                )}
+                                            </TableCell>
+                                        </TableRow>
+                                    ))
+                                )}
+                            </TableBody>
+                        </Table>
+                    </ScrollArea>
+                </>
+            )}
+        </div>
+    );
+}
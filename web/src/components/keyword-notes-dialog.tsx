@@ -0,0 +1,131 @@
+'use client';
+
+import { useState } from 'react';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+    DialogTrigger,
+    DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { StickyNote, Loader2, AlertCircle } from 'lucide-react';
+import type { KeywordAnalysis } from '@/types';
+
+interface KeywordNotesDialogProps {
+    keyword: KeywordAnalysis;
+    onSave: (changes: { notes: string | null; tags: string[] }) => Promise<void>;
+}
+
+export function KeywordNotesDialog({ keyword, onSave }: KeywordNotesDialogProps) {
+    const [open, setOpen] = useState(false);
+    const [notes, setNotes] = useState('');
+    const [tags, setTags] = useState('');
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const hasNotes = Boolean(keyword.notes) || keyword.tags.length > 0;
+
+    const handleOpenChange = (next: boolean) => {
+        // Start from the saved values every time the dialog opens
+        if (next) {
+            setNotes(keyword.notes ?? '');
+            setTags(keyword.tags.join(', '));
+            setError(null);
+        }
+        setOpen(next);
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError(null);
+        setLoading(true);
+
+        try {
+            await onSave({
+                notes: notes.trim() || null,
+                tags: tags.split(',').map((tag) => tag.trim()).filter((tag) => tag.length > 0),
+            });
+            setOpen(false);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save notes');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+            <DialogTrigger asChild>
+                <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    title={keyword.notes || 'Add notes and tags'}
+                >
+                    <StickyNote
+                        className={`h-4 w-4 ${hasNotes ? 'fill-yellow-400 text-yellow-500' : 'text-muted-foreground'}`}
+                    />
+                </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-md">
+                <DialogHeader>
+                    <DialogTitle>Notes for &quot;{keyword.keyword}&quot;</DialogTitle>
+                    <DialogDescription>
+                        Keep free-text notes and tags such as brand, feature or v2 launch.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <textarea
+                        value={notes}
+                        onChange={(e) => setNotes(e.target.value)}
+                        placeholder="Why this keyword matters, where it is used..."
+                        disabled={loading}
+                        rows={5}
+                        className="w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-xs outline-none placeholder:text-muted-foreground focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] disabled:opacity-50 dark:bg-input/30"
+                    />
+                    <div className="space-y-1">
+                        <Input
+                            value={tags}
+                            onChange={(e) => setTags(e.target.value)}
+                            placeholder="brand, feature, v2 launch"
+                            disabled={loading}
+                        />
+                        <p className="text-xs text-muted-foreground">Separate tags with commas</p>
+                    </div>
+
+                    {error && (
+                        <div className="flex items-center gap-2 text-sm text-destructive">
+                            <AlertCircle className="h-4 w-4" />
+                            {error}
+                        </div>
+                    )}
+
+                    <DialogFooter>
+                        <Button
+                            type="button"
+                            variant="outline"
+                            onClick={() => setOpen(false)}
+                            disabled={loading}
+                        >
+                            Cancel
+                        </Button>
+                        <Button type="submit" disabled={loading}>
+                            {loading ? (
+                                <>
+                                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                                    Saving...
+                                </>
+                            ) : (
+                                'Save'
+                            )}
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
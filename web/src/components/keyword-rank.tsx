@@ -0,0 +1,86 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ArrowDown, ArrowUp, Loader2, Trophy } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatDistanceToNow } from 'date-fns';
+import { cn } from '@/lib/utils';
+import type { AnalysisJob, KeywordRankSummary } from '@/types';
+
+interface KeywordRankProps {
+    rank?: KeywordRankSummary | null;
+}
+
+// Current App Store search position with the change since the previous check
+export function KeywordRank({ rank }: KeywordRankProps) {
+    if (!rank) {
+        return <span className="text-sm text-muted-foreground" title="Rank not checked yet">—</span>;
+    }
+
+    const { change } = rank;
+    const checked = `Checked ${formatDistanceToNow(new Date(rank.checkedAt), { addSuffix: true })}`;
+
+    return (
+        <div className="flex items-center gap-1.5" title={checked}>
+            {rank.rank !== null ? (
+                <span className="text-sm font-semibold tabular-nums">#{rank.rank}</span>
+            ) : (
+                <Badge variant="outline" className="border-gray-400 text-gray-500 text-[10px] px-1.5">
+                    Not in top {rank.depth}
+                </Badge>
+            )}
+            {change !== null && change !== 0 && (
+                <span
+                    className={cn(
+                        'flex items-center text-xs tabular-nums',
+                        change > 0 ? 'text-green-600' : 'text-red-500'
+                    )}
+                >
+                    {change > 0 ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />}
+                    {/* Entering or leaving the results has no meaningful distance */}
+                    {rank.rank !== null && rank.previousRank !== null ? Math.abs(change) : 'new'}
+                </span>
+            )}
+        </div>
+    );
+}
+
+interface CheckRanksButtonProps {
+    appId: number;
+    country?: string;
+    onJobStarted?: (job: AnalysisJob) => void;
+}
+
+// Queues a search-rank check of every keyword in the storefront
+export function CheckRanksButton({ appId, country, onJobStarted }: CheckRanksButtonProps) {
+    const [starting, setStarting] = useState(false);
+
+    const handleClick = async () => {
+        setStarting(true);
+        try {
+            const response = await fetch(`/api/apps/${appId}/ranks`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ country }),
+            });
+            const result = await response.json();
+            if (!response.ok) throw new Error(result.error || 'Failed to start rank check');
+
+            toast.info('Checking search ranks...');
+            onJobStarted?.(result.job);
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Failed to start rank check');
+        } finally {
+            setStarting(false);
+        }
+    };
+
+    return (
+        <Button variant="outline" size="sm" className="gap-2" onClick={handleClick} disabled={starting}>
+            {starting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trophy className="h-4 w-4" />}
+            Check ranks
+        </Button>
+    );
+}
@@ -0,0 +1,74 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { Image as ImageIcon } from 'lucide-react';
+import type { KeywordAnalysis, KeywordSource } from '@/types';
+
+export const sourceConfig: Record<KeywordSource, { label: string; className: string }> = {
+    autocomplete: {
+        label: 'Autocomplete',
+        className: 'border-blue-500/50 text-blue-500',
+    },
+    ai: {
+        label: 'AI',
+        className: 'border-purple-500/50 text-purple-500',
+    },
+    competitor: {
+        label: 'Competitor',
+        className: 'border-orange-500/50 text-orange-500',
+    },
+    manual: {
+        label: 'Manual',
+        className: 'border-green-500/50 text-green-500',
+    },
+    unknown: {
+        label: 'Unknown',
+        className: 'border-gray-400 text-gray-500',
+    },
+};
+
+// Explains the origin in more detail on hover
+function describeSource(keyword: KeywordAnalysis) {
+    switch (keyword.source) {
+        case 'autocomplete':
+            return keyword.sourceSeed
+                ? `App Store autocomplete for "${keyword.sourceSeed}"`
+                : 'App Store autocomplete';
+        case 'competitor':
+            return keyword.sourceAppTitle
+                ? `Generated from competitor ${keyword.sourceAppTitle}`
+                : 'Generated from a competitor';
+        case 'ai':
+            return 'Generated by AI from the app listing';
+        case 'manual':
+            return 'Added by hand';
+        default:
+            return 'Origin unknown';
+    }
+}
+
+interface KeywordSourceBadgeProps {
+    keyword: KeywordAnalysis;
+}
+
+export function KeywordSourceBadge({ keyword }: KeywordSourceBadgeProps) {
+    const config = sourceConfig[keyword.source] || sourceConfig.unknown;
+
+    return (
+        <>
+            <Badge variant="outline" className={config.className} title={describeSource(keyword)}>
+                {config.label}
+            </Badge>
+            {keyword.fromScreenshots && (
+                <Badge
+                    variant="outline"
+                    className="border-pink-500/50 text-pink-500 gap-1"
+                    title="The model took this keyword from the App Store screenshots"
+                >
+                    <ImageIcon className="h-3 w-3" />
+                    Screenshot
+                </Badge>
+            )}
+        </>
+    );
+}
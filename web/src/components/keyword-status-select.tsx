@@ -0,0 +1,48 @@
+'use client';
+
+import type { KeywordStatus } from '@/types';
+
+export const statusConfig: Record<KeywordStatus, { label: string; className: string }> = {
+    candidate: {
+        label: 'Candidate',
+        className: 'text-muted-foreground',
+    },
+    tracking: {
+        label: 'Tracking',
+        className: 'text-blue-500',
+    },
+    in_metadata: {
+        label: 'In metadata',
+        className: 'text-green-500',
+    },
+    rejected: {
+        label: 'Rejected',
+        className: 'text-red-500 line-through',
+    },
+};
+
+interface KeywordStatusSelectProps {
+    status: KeywordStatus;
+    disabled?: boolean;
+    onChange: (status: KeywordStatus) => void;
+}
+
+export function KeywordStatusSelect({ status, disabled, onChange }: KeywordStatusSelectProps) {
+    const config = statusConfig[status] || statusConfig.candidate;
+
+    return (
+        <select
+            value={status}
+            disabled={disabled}
+            onChange={(e) => onChange(e.target.value as KeywordStatus)}
+            onClick={(e) => e.stopPropagation()}
+            className={`h-8 rounded-md border border-input bg-transparent px-2 text-xs outline-none focus-visible:border-ring disabled:opacity-50 dark:bg-input/30 ${config.className}`}
+        >
+            {(Object.keys(statusConfig) as KeywordStatus[]).map((value) => (
+                <option key={value} value={value} className="text-foreground no-underline">
+                    {statusConfig[value].label}
+                </option>
+            ))}
+        </select>
+    );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useMemo } from 'react';
+import { Fragment, useEffect, useMemo, useState } from 'react';
 import {
     Table,
     TableBody,
@@ -15,80 +15,365 @@ import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { ScoreBar, OpportunityScore } from './score-bar';
 import { RecommendationBadge } from './recommendation-badge';
+import { TrendSparkline } from './trend-sparkline';
+import { CompetitorsDialog } from './competitors-dialog';
+import { KeywordSourceBadge, sourceConfig } from './keyword-source-badge';
+import { AddKeywordsDialog } from './add-keywords-dialog';
+import { KeywordNotesDialog } from './keyword-notes-dialog';
+import { KeywordStatusSelect, statusConfig } from './keyword-status-select';
+import { StorefrontSelect } from './storefront-select';
+import { ScoringDialog } from './scoring-dialog';
+import { AlertsDialog } from './alerts-dialog';
+import { MetadataBuilderDialog } from './metadata-builder-dialog';
+import { AppScreenshots } from './app-screenshots';
+import { KeywordRank, CheckRanksButton } from './keyword-rank';
+import { RetryFailedButton } from './retry-failed-button';
+import { ExportSelect } from './export-select';
+import { KeywordCharts } from './keyword-charts';
+import { cn } from '@/lib/utils';
+import {
+    applyKeywordView,
+    groupKeywordsByCluster,
+    keywordViewToParams,
+    type KeywordView,
+    type SortDirection,
+    type SortField,
+} from '@/lib/keyword-view';
 import {
     ArrowUpDown,
     Search,
-    Plus,
     Sparkles,
     StickyNote,
-    ChevronDown
+    ChevronDown,
+    Pencil,
+    Trash2,
+    RefreshCw,
+    Split,
+    ChartScatter,
+    Layers,
+    Image as ImageIcon
 } from 'lucide-react';
+import { toast } from 'sonner';
 import { formatDistanceToNow } from 'date-fns';
-import type { KeywordAnalysis } from '@/types';
+import type {
+    AnalysisJob,
+    KeywordAnalysis,
+    KeywordClusterReport,
+    KeywordSource,
+    KeywordStatus,
+    StorefrontSummary,
+} from '@/types';
 
 interface KeywordsMainTableProps {
     keywords: KeywordAnalysis[];
+    appId?: number;
     appTitle?: string;
+    screenshots?: string[];
+    country?: string;
+    countries?: StorefrontSummary[];
+    onSelectCountry?: (country: string) => void;
     loading?: boolean;
+    onJobStarted?: (job: AnalysisJob) => void;
+    onKeywordsChanged?: () => void;
+    onShowGaps?: () => void;
 }
 
-type SortField = 'keyword' | 'traffic' | 'difficulty' | 'opportunity' | 'analyzedAt';
-type SortDirection = 'asc' | 'desc';
+async function fetchKeywordClusters(appId: number, country?: string): Promise<KeywordClusterReport> {
+    const query = country ? `?country=${country}` : '';
+    const response = await fetch(`/api/apps/${appId}/clusters${query}`);
+    if (!response.ok) throw new Error('Failed to group keywords');
+    return response.json();
+}
 
-export function KeywordsMainTable({ keywords, appTitle, loading }: KeywordsMainTableProps) {
+export function KeywordsMainTable({
+    keywords,
+    appId,
+    appTitle,
+    screenshots = [],
+    country,
+    countries = [],
+    onSelectCountry,
+    loading,
+    onJobStarted,
+    onKeywordsChanged,
+    onShowGaps,
+}: KeywordsMainTableProps) {
     const [search, setSearch] = useState('');
     const [sortField, setSortField] = useState<SortField>('opportunity');
     const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
     const [filterRecommendation, setFilterRecommendation] = useState<string>('all');
+    const [filterSource, setFilterSource] = useState<string>('all');
+    const [filterScreenshots, setFilterScreenshots] = useState(false);
+    const [filterStatus, setFilterStatus] = useState<string>('all');
+    const [filterTag, setFilterTag] = useState<string>('all');
+    const [editingId, setEditingId] = useState<number | null>(null);
+    const [editValue, setEditValue] = useState('');
+    const [busyId, setBusyId] = useState<number | null>(null);
+    const [showCharts, setShowCharts] = useState(false);
+    // Row picked in the opportunity matrix, or clicked in the table
+    const [highlightedId, setHighlightedId] = useState<number | null>(null);
+    // Rows grouped by topic cluster, to plan one metadata theme per group
+    const [grouped, setGrouped] = useState(false);
+    const [clusters, setClusters] = useState<KeywordClusterReport | null>(null);
 
-    const filteredAndSorted = useMemo(() => {
-        let result = [...keywords];
+    const failedCount = useMemo(() => keywords.filter((k) => !k.analysisSucceeded).length, [keywords]);
 
-        if (search) {
-            result = result.filter((k) =>
-                k.keyword.toLowerCase().includes(search.toLowerCase())
-            );
-        }
+    const allTags = useMemo(
+        () => Array.from(new Set(keywords.flatMap((k) => k.tags))).sort(),
+        [keywords]
+    );
 
-        if (filterRecommendation !== 'all') {
-            result = result.filter((k) => k.recommendation === filterRecommendation);
-        }
+    const view: KeywordView = useMemo(() => ({
+        search,
+        recommendation: filterRecommendation,
+        source: filterSource,
+        status: filterStatus,
+        tag: filterTag,
+        screenshots: filterScreenshots,
+        sortField,
+        sortDirection,
+    }), [
+        search,
+        sortField,
+        sortDirection,
+        filterRecommendation,
+        filterSource,
+        filterScreenshots,
+        filterStatus,
+        filterTag,
+    ]);
 
-        result.sort((a, b) => {
-            let aVal: string | number | null = a[sortField];
-            let bVal: string | number | null = b[sortField];
+    const filteredAndSorted = useMemo(() => applyKeywordView(keywords, view), [keywords, view]);
 
-            if (aVal === null) aVal = sortDirection === 'asc' ? Infinity : -Infinity;
-            if (bVal === null) bVal = sortDirection === 'asc' ? Infinity : -Infinity;
+    // Reclustered with the keywords so added, renamed and deleted ones move between groups
+    useEffect(() => {
+        if (!grouped || appId === undefined) return;
+        let cancelled = false;
 
-            if (typeof aVal === 'string' && typeof bVal === 'string') {
-                return sortDirection === 'asc'
-                    ? aVal.localeCompare(bVal)
-                    : bVal.localeCompare(aVal);
-            }
+        fetchKeywordClusters(appId, country)
+            .then((result) => !cancelled && setClusters(result))
+            .catch((error) => {
+                console.error('Error grouping keywords:', error);
+                toast.error('Failed to group keywords');
+            });
 
-            return sortDirection === 'asc'
-                ? (aVal as number) - (bVal as number)
-                : (bVal as number) - (aVal as number);
-        });
+        return () => {
+            cancelled = true;
+        };
+    }, [grouped, appId, country, keywords]);
 
-        return result;
-    }, [keywords, search, sortField, sortDirection, filterRecommendation]);
+    const groups = useMemo(
+        () => (grouped && clusters ? groupKeywordsByCluster(filteredAndSorted, clusters.clusters) : null),
+        [grouped, clusters, filteredAndSorted]
+    );
 
     const handleSort = (field: SortField) => {
         if (sortField === field) {
             setSortDirection((prev) => (prev === 'asc' ? 'desc' : 'asc'));
         } else {
             setSortField(field);
-            setSortDirection('desc');
+            // Best positions are the lowest numbers
+            setSortDirection(field === 'rank' ? 'asc' : 'desc');
         }
     };
 
+    const patchKeyword = async (keyword: KeywordAnalysis, body: object) => {
+        const response = await fetch(`/api/apps/${keyword.appId}/keywords/${keyword.id}`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+        });
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.error || 'Failed to update keyword');
+        // Renames and re-scores come back as a job that reloads the keywords once it finishes
+        if (result.job) onJobStarted?.(result.job);
+        onKeywordsChanged?.();
+    };
+
+    const updateKeyword = async (keyword: KeywordAnalysis, body: object) => {
+        setBusyId(keyword.id);
+        try {
+            await patchKeyword(keyword, body);
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Failed to update keyword');
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleRename = async (keyword: KeywordAnalysis) => {
+        setEditingId(null);
+        if (editValue.trim() && editValue.trim() !== keyword.keyword) {
+            await updateKeyword(keyword, { keyword: editValue });
+        }
+    };
+
+    const handleSelectPoint = (keyword: KeywordAnalysis) => {
+        setHighlightedId(keyword.id);
+        document.getElementById(`keyword-row-${keyword.id}`)?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    };
+
+    const handleDelete = async (keyword: KeywordAnalysis) => {
+        setBusyId(keyword.id);
+        try {
+            const response = await fetch(`/api/apps/${keyword.appId}/keywords/${keyword.id}`, { method: 'DELETE' });
+            if (!response.ok) throw new Error('Failed to delete keyword');
+            toast.success(`Removed "${keyword.keyword}"`);
+            onKeywordsChanged?.();
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Failed to delete keyword');
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const storefrontSelect = appId !== undefined && country !== undefined && (
+        <StorefrontSelect
+            appId={appId}
+            countries={countries}
+            selectedCountry={country}
+            onSelectCountry={(value) => onSelectCountry?.(value)}
+            onJobStarted={onJobStarted}
+        />
+    );
+
+    const screenshotKeywordCount = keywords.filter(k => k.fromScreenshots).length;
+
     // Count suggestions (excellent + good)
     const suggestionsCount = keywords.filter(
         k => k.recommendation === 'excellent' || k.recommendation === 'good'
     ).length;
 
+    const renderRow = (keyword: KeywordAnalysis) => (
+            <TableRow
+                key={keyword.id}
+                id={`keyword-row-${keyword.id}`}
+                onClick={() => setHighlightedId(keyword.id)}
+                className={cn(
+                    'hover:bg-muted/50 cursor-pointer',
+                    highlightedId === keyword.id && 'bg-primary/10 hover:bg-primary/15'
+                )}
+            >
+                <TableCell className="font-medium">
+                    {editingId === keyword.id ? (
+                        <Input
+                            autoFocus
+                            value={editValue}
+                            onChange={(e) => setEditValue(e.target.value)}
+                            onBlur={() => handleRename(keyword)}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter') handleRename(keyword);
+                                if (e.key === 'Escape') setEditingId(null);
+                            }}
+                            className="h-8"
+                        />
+                    ) : (
+                        <div className="space-y-1">
+                            <div className="flex items-center gap-2">
+                                <span>{keyword.keyword}</span>
+                                <KeywordSourceBadge keyword={keyword} />
+                            </div>
+                            {keyword.tags.length > 0 && (
+                                <div className="flex flex-wrap gap-1">
+                                    {keyword.tags.map((tag) => (
+                                        <Badge
+                                            key={tag}
+                                            variant="secondary"
+                                            className="text-[10px] px-1.5 py-0 cursor-pointer"
+                                            onClick={() => setFilterTag(tag)}
+                                        >
+                                            {tag}
+                                        </Badge>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    )}
+                </TableCell>
+                <TableCell className="text-center">
+                    <KeywordNotesDialog
+                        keyword={keyword}
+                        onSave={(changes) => patchKeyword(keyword, changes)}
+                    />
+                </TableCell>
+                <TableCell className="text-sm text-muted-foreground">
+                    {formatDistanceToNow(new Date(keyword.analyzedAt), { addSuffix: false })}
+                </TableCell>
+                <TableCell>
+                    <div className="flex items-center gap-2">
+                        <div className="flex-1">
+                            <ScoreBar value={keyword.traffic} type="popularity" />
+                        </div>
+                        <TrendSparkline
+                            values={(keyword.history ?? []).map(h => h.traffic)}
+                            type="popularity"
+                        />
+                    </div>
+                </TableCell>
+                <TableCell>
+                    <div className="flex items-center gap-2">
+                        <div className="flex-1">
+                            <ScoreBar value={keyword.difficulty} type="difficulty" />
+                        </div>
+                        <TrendSparkline
+                            values={(keyword.history ?? []).map(h => h.difficulty)}
+                            type="difficulty"
+                        />
+                    </div>
+                </TableCell>
+                <TableCell>
+                    <OpportunityScore value={keyword.opportunity} />
+                </TableCell>
+                <TableCell>
+                    <KeywordRank rank={keyword.rank} />
+                </TableCell>
+                <TableCell>
+                    <RecommendationBadge recommendation={keyword.recommendation} />
+                </TableCell>
+                <TableCell>
+                    <KeywordStatusSelect
+                        status={keyword.status}
+                        disabled={busyId === keyword.id}
+                        onChange={(status) => updateKeyword(keyword, { status })}
+                    />
+                </TableCell>
+                <TableCell>
+                    <div className="flex items-center justify-end gap-1">
+                        <Button
+                            variant="ghost"
+                            size="icon-sm"
+                            title="Edit keyword"
+                            disabled={busyId === keyword.id}
+                            onClick={() => {
+                                setEditingId(keyword.id);
+                                setEditValue(keyword.keyword);
+                            }}
+                        >
+                            <Pencil className="h-3.5 w-3.5 text-muted-foreground" />
+                        </Button>
+                        <Button
+                            variant="ghost"
+                            size="icon-sm"
+                            title="Re-score keyword"
+                            disabled={busyId === keyword.id}
+                            onClick={() => updateKeyword(keyword, { rescore: true })}
+                        >
+                            <RefreshCw className={`h-3.5 w-3.5 text-muted-foreground ${busyId === keyword.id ? 'animate-spin' : ''}`} />
+                        </Button>
+                        <Button
+                            variant="ghost"
+                            size="icon-sm"
+                            title="Delete keyword"
+                            disabled={busyId === keyword.id}
+                            onClick={() => handleDelete(keyword)}
+                        >
+                            <Trash2 className="h-3.5 w-3.5 text-muted-foreground" />
+                        </Button>
+                    </div>
+                </TableCell>
+            </TableRow>
+    );
+
     if (loading) {
         return (
             <div className="flex-1 flex items-center justify-center">
@@ -102,9 +387,20 @@ export function KeywordsMainTable({ keywords, appTitle, loading }: KeywordsMainT
             <div className="flex-1 flex items-center justify-center">
                 <div className="text-center">
                     <p className="text-muted-foreground mb-2">No keywords yet</p>
-                    <p className="text-sm text-muted-foreground">
-                        Select an app from the sidebar to view its keywords
-                    </p>
+                    {appId !== undefined ? (
+                        <div className="flex items-center justify-center gap-2">
+                            {storefrontSelect}
+                            <AddKeywordsDialog
+                                appId={appId}
+                                country={country}
+                                onJobStarted={onJobStarted}
+                            />
+                        </div>
+                    ) : (
+                        <p className="text-sm text-muted-foreground">
+                            Select an app from the sidebar to view its keywords
+                        </p>
+                    )}
                 </div>
             </div>
         );
@@ -121,18 +417,83 @@ export function KeywordsMainTable({ keywords, appTitle, loading }: KeywordsMainT
                                 Keywords
                                 <ChevronDown className="h-4 w-4" />
                             </Button>
-                            <Button variant="outline" size="sm" className="gap-2">
-                                🇺🇸 US
-                                <ChevronDown className="h-4 w-4" />
-                            </Button>
+                            {onShowGaps && (
+                                <Button variant="ghost" size="sm" className="gap-2" onClick={onShowGaps}>
+                                    <Split className="h-4 w-4" />
+                                    Gaps
+                                </Button>
+                            )}
+                            {storefrontSelect}
+                            {appId !== undefined && (
+                                <CompetitorsDialog appId={appId} country={country} onJobStarted={onJobStarted} />
+                            )}
+                            {appId !== undefined && (
+                                <ScoringDialog
+                                    scoringUrl={`/api/apps/${appId}/scoring`}
+                                    onScoringChanged={() => onKeywordsChanged?.()}
+                                />
+                            )}
+                            {appId !== undefined && (
+                                <AlertsDialog appId={appId} keywords={keywords.map((k) => k.keyword)} />
+                            )}
+                            {appId !== undefined && (
+                                <MetadataBuilderDialog appTitle={appTitle ?? ''} keywords={keywords} />
+                            )}
+                            {appId !== undefined && (
+                                <CheckRanksButton appId={appId} country={country} onJobStarted={onJobStarted} />
+                            )}
+                            {appId !== undefined && failedCount > 0 && (
+                                <RetryFailedButton
+                                    appId={appId}
+                                    country={country}
+                                    failedCount={failedCount}
+                                    onJobStarted={onJobStarted}
+                                />
+                            )}
+                            {appId !== undefined && (
+                                <Button
+                                    variant={showCharts ? 'secondary' : 'outline'}
+                                    size="sm"
+                                    className="gap-2"
+                                    onClick={() => setShowCharts(!showCharts)}
+                                >
+                                    <ChartScatter className="h-4 w-4" />
+                                    Charts
+                                </Button>
+                            )}
+                            {appId !== undefined && (
+                                <Button
+                                    variant={grouped ? 'secondary' : 'outline'}
+                                    size="sm"
+                                    className="gap-2"
+                                    onClick={() => setGrouped(!grouped)}
+                                    title="Group keywords into topics"
+                                >
+                                    <Layers className="h-4 w-4" />
+                                    Topics
+                                </Button>
+                            )}
                         </div>
                     </div>
 
                     <div className="flex items-center gap-3">
-                        <Button size="sm" className="gap-2 bg-blue-500 hover:bg-blue-600">
-                            <Plus className="h-4 w-4" />
-                            Add Keywords
-                        </Button>
+                        {appId !== undefined && (
+                            <ExportSelect
+                                getUrl={(format) => {
+                                    const params = keywordViewToParams(view);
+                                    params.set('format', format);
+                                    if (country) params.set('country', country);
+                                    return `/api/apps/${appId}/export?${params}`;
+                                }}
+                            />
+                        )}
+                        {appId !== undefined && (
+                            <AddKeywordsDialog
+                                appId={appId}
+                                country={country}
+                                onJobStarted={onJobStarted}
+                            />
+                        )}
                         {suggestionsCount > 0 && (
                             <Badge className="bg-green-500 hover:bg-green-600 gap-1">
                                 <Sparkles className="h-3 w-3" />
@@ -152,6 +513,17 @@ export function KeywordsMainTable({ keywords, appTitle, loading }: KeywordsMainT
                 </div>
             </div>
 
+            <AppScreenshots screenshots={screenshots} screenshotKeywordCount={screenshotKeywordCount} />
+
+            {showCharts && appId !== undefined && (
+                <KeywordCharts
+                    appId={appId}
+                    keywords={filteredAndSorted}
+                    selectedId={highlightedId}
+                    onSelect={handleSelectPoint}
+                />
+            )}
+
             {/* Filter Tabs */}
             <div className="border-b bg-card/50 px-4 py-2">
                 <div className="flex gap-2">
@@ -174,12 +546,92 @@ export function KeywordsMainTable({ keywords, appTitle, loading }: KeywordsMainT
                             <span className="text-xs opacity-70">({filter.count})</span>
                         </Button>
                     ))}
+
+                    {/* Source Filter */}
+                    <div className="ml-auto flex items-center gap-1">
+                        <span className="text-xs text-muted-foreground mr-1">Source</span>
+                        {(['all', 'autocomplete', 'ai', 'competitor', 'manual', 'unknown'] as const)
+                            .map((value) => ({
+                                value,
+                                label: value === 'all' ? 'All' : sourceConfig[value as KeywordSource].label,
+                                count: value === 'all'
+                                    ? keywords.length
+                                    : keywords.filter(k => k.source === value).length,
+                            }))
+                            .filter((filter) => filter.value === 'all' || filter.count > 0)
+                            .map((filter) => (
+                                <Button
+                                    key={filter.value}
+                                    variant={filterSource === filter.value ? 'secondary' : 'ghost'}
+                                    size="sm"
+                                    onClick={() => setFilterSource(filter.value)}
+                                    className="gap-1"
+                                >
+                                    {filter.label}
+                                    <span className="text-xs opacity-70">({filter.count})</span>
+                                </Button>
+                            ))}
+                        {screenshotKeywordCount > 0 && (
+                            <Button
+                                variant={filterScreenshots ? 'secondary' : 'ghost'}
+                                size="sm"
+                                onClick={() => setFilterScreenshots(!filterScreenshots)}
+                                className="gap-1"
+                                title="Keywords the model took from the screenshots"
+                            >
+                                <ImageIcon className="h-3 w-3" />
+                                Screenshots
+                                <span className="text-xs opacity-70">({screenshotKeywordCount})</span>
+                            </Button>
+                        )}
+                    </div>
+                </div>
+                <div className="flex items-center gap-2 mt-2">
+                    <span className="text-xs text-muted-foreground mr-1">Status</span>
+                    {(['all', ...Object.keys(statusConfig)] as ('all' | KeywordStatus)[]).map((value) => (
+                        <Button
+                            key={value}
+                            variant={filterStatus === value ? 'secondary' : 'ghost'}
+                            size="sm"
+                            onClick={() => setFilterStatus(value)}
+                            className="gap-1"
+                        >
+                            {value === 'all' ? 'All' : statusConfig[value].label}
+                            <span className="text-xs opacity-70">
+                                ({value === 'all' ? keywords.length : keywords.filter(k => k.status === value).length})
+                            </span>
+                        </Button>
+                    ))}
+
+                    {allTags.length > 0 && (
+                        <div className="ml-auto flex items-center gap-2">
+                            <span className="text-xs text-muted-foreground">Tag</span>
+                            <select
+                                value={filterTag}
+                                onChange={(e) => setFilterTag(e.target.value)}
+                                className="h-8 rounded-md border border-input bg-transparent px-2 text-sm outline-none focus-visible:border-ring dark:bg-input/30"
+                            >
+                                <option value="all">All tags</option>
+                                {allTags.map((tag) => (
+                                    <option key={tag} value={tag}>
+                                        {tag} ({keywords.filter(k => k.tags.includes(tag)).length})
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                    )}
                 </div>
             </div>
 
             {/* Results count */}
             <div className="px-4 py-2 text-sm text-muted-foreground border-b">
                 Showing {filteredAndSorted.length} of {keywords.length} keywords
+                {groups && (
+                    <span className="ml-1">
+                        in {groups.filter(g => g.label !== null).length} topics
+                        {clusters?.method === 'embeddings' && ' (grouped with embeddings)'}
+                    </span>
+                )}
                 {appTitle && <span className="ml-2">for <strong>{appTitle}</strong></span>}
             </div>
 
@@ -213,7 +665,7 @@ export function KeywordsMainTable({ keywords, appTitle, loading }: KeywordsMainT
                                     <ArrowUpDown className="h-3 w-3" />
                                 </Button>
                             </TableHead>
-                            <TableHead className="w-[160px]">
+                            <TableHead className="w-[220px]">
                                 <Button
                                     variant="ghost"
                                     size="sm"
@@ -224,7 +676,7 @@ export function KeywordsMainTable({ keywords, appTitle, loading }: KeywordsMainT
                                     <ArrowUpDown className="h-3 w-3" />
                                 </Button>
                             </TableHead>
-                            <TableHead className="w-[160px]">
+                            <TableHead className="w-[220px]">
                                 <Button
                                     variant="ghost"
                                     size="sm"
@@ -241,55 +693,54 @@ export function KeywordsMainTable({ keywords, appTitle, loading }: KeywordsMainT
                                     size="sm"
                                     onClick={() => handleSort('opportunity')}
                                     className="gap-1"
+                                >
+                                    Opportunity
+                                    <ArrowUpDown className="h-3 w-3" />
+                                </Button>
+                            </TableHead>
+                            <TableHead className="w-[120px]">
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => handleSort('rank')}
+                                    className="gap-1"
                                 >
                                     Position
                                     <ArrowUpDown className="h-3 w-3" />
                                 </Button>
                             </TableHead>
                             <TableHead>Recommendation</TableHead>
+                            <TableHead className="w-[130px]">Status</TableHead>
+                            <TableHead className="w-[100px]" />
                         </TableRow>
                     </TableHeader>
                     <TableBody>
                         {filteredAndSorted.length === 0 ? (
                             <TableRow>
-                                <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                                <TableCell colSpan={10} className="text-center py-8 text-muted-foreground">
                                     No keywords match your search
                                 </TableCell>
                             </TableRow>
                         ) : (
-                            filteredAndSorted.map((keyword, index) => (
-                                <TableRow
-                                    key={keyword.id}
-                                    className="hover:bg-muted/50 cursor-pointer"
-                                >
-                                    <TableCell className="font-medium">
-                                        {keyword.keyword}
-                                    </TableCell>
-                                    <TableCell className="text-center">
-                                        {keyword.recommendation === 'excellent' && (
-                                            <div className="w-3 h-3 rounded-full bg-green-500 mx-auto" />
-                                        )}
-                                        {keyword.recommendation === 'good' && (
-                                            <div className="w-3 h-3 rounded-full bg-yellow-500 mx-auto" />
-                                        )}
-                                    </TableCell>
-                                    <TableCell className="text-sm text-muted-foreground">
-                                        {formatDistanceToNow(new Date(keyword.analyzedAt), { addSuffix: false })}
-                                    </TableCell>
-                                    <TableCell>
-                                        <ScoreBar value={keyword.traffic} type="popularity" />
-                                    </TableCell>
-                                    <TableCell>
-                                        <ScoreBar value={keyword.difficulty} type="difficulty" />
-                                    </TableCell>
-                                    <TableCell>
-                                        <OpportunityScore value={keyword.opportunity} />
-                                    </TableCell>
-                                    <TableCell>
-                                        <RecommendationBadge recommendation={keyword.recommendation} />
-                                    </TableCell>
-                                </TableRow>
-                            ))
+                            groups ? groups.map((group) => (
+                                <Fragment key={group.label ?? 'other'}>
+                                    <TableRow className="bg-muted/40 hover:bg-muted/40">
+                                        <TableCell colSpan={10} className="py-2">
+                                            <div className="flex items-center gap-3 text-sm">
+                                                <Layers className="h-4 w-4 text-muted-foreground" />
+                                                <span className="font-semibold">{group.label ?? 'Other keywords'}</span>
+                                                <span className="text-xs text-muted-foreground">
+                                                    {group.keywords.length} keywords
+                                                </span>
+                                                <span className="ml-auto text-xs text-muted-foreground tabular-nums">
+                                                    Popularity {group.traffic} · Opportunity {group.opportunity}
+                                                </span>
+                                            </div>
+                                        </TableCell>
+                                    </TableRow>
+                                    {group.keywords.map(renderRow)}
+                                </Fragment>
+                            )) : filteredAndSorted.map(renderRow)
                         )}
                     </TableBody>
                 </Table>
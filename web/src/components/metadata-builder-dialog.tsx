@@ -0,0 +1,205 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+    DialogTrigger,
+    DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import {
+    analyzeMetadata,
+    buildMetadataProposal,
+    METADATA_LIMITS,
+    type AppMetadata,
+    type MetadataField,
+} from '@/lib/metadata-builder';
+import { AlertCircle, Copy, RotateCcw, Type } from 'lucide-react';
+import { toast } from 'sonner';
+import type { KeywordAnalysis } from '@/types';
+
+const fields: { name: MetadataField; label: string; hint: string }[] = [
+    { name: 'title', label: 'Title', hint: 'App name, usually the brand plus a keyword' },
+    { name: 'subtitle', label: 'Subtitle', hint: 'Shown under the name in search results' },
+    { name: 'keywordField', label: 'Keyword field', hint: 'Comma-separated, hidden from users' },
+];
+
+interface MetadataBuilderDialogProps {
+    appTitle: string;
+    keywords: KeywordAnalysis[];
+}
+
+// Keywords worth spending metadata characters on
+function targetKeywords(keywords: KeywordAnalysis[]) {
+    return keywords.filter(k =>
+        (k.recommendation === 'excellent' || k.recommendation === 'good') && k.status !== 'rejected'
+    );
+}
+
+function CharacterCounter({ length, limit }: { length: number; limit: number }) {
+    return (
+        <span
+            className={cn(
+                'text-xs tabular-nums',
+                length > limit ? 'text-destructive font-medium' : length > limit * 0.9 ? 'text-amber-600' : 'text-muted-foreground'
+            )}
+        >
+            {length}/{limit}
+        </span>
+    );
+}
+
+// Proposes a title, subtitle and keyword field from the app's excellent and good
+// keywords, and shows what the edited metadata covers as you type
+export function MetadataBuilderDialog({ appTitle, keywords }: MetadataBuilderDialogProps) {
+    const [open, setOpen] = useState(false);
+    const [metadata, setMetadata] = useState<AppMetadata>({ title: '', subtitle: '', keywordField: '' });
+
+    const targets = useMemo(() => targetKeywords(keywords), [keywords]);
+    const analysis = useMemo(() => analyzeMetadata(metadata, targets), [metadata, targets]);
+    const coveredKeywords = new Set(analysis.covered.map(k => k.keyword));
+
+    const propose = () => setMetadata(buildMetadataProposal(appTitle, targets));
+
+    const handleOpenChange = (isOpen: boolean) => {
+        setOpen(isOpen);
+        if (isOpen) propose();
+    };
+
+    const setField = (name: MetadataField, value: string) => {
+        setMetadata((prev) => ({ ...prev, [name]: value }));
+    };
+
+    const copyField = async (name: MetadataField, label: string) => {
+        try {
+            await navigator.clipboard.writeText(metadata[name]);
+            toast.success(`${label} copied`);
+        } catch {
+            toast.error('Could not copy to the clipboard');
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+            <DialogTrigger asChild>
+                <Button variant="outline" size="sm" className="gap-2">
+                    <Type className="h-4 w-4" />
+                    Metadata
+                </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-2xl">
+                <DialogHeader>
+                    <DialogTitle>Metadata builder</DialogTitle>
+                    <DialogDescription>
+                        Fits your excellent and good keywords into the App Store title, subtitle and keyword
+                        field. Apple combines the words of all three, so no word needs to appear twice.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {targets.length === 0 ? (
+                    <div className="py-8 text-center text-sm text-muted-foreground">
+                        No excellent or good keywords to build metadata from yet
+                    </div>
+                ) : (
+                    <div className="space-y-4">
+                        {fields.map((field) => (
+                            <div key={field.name} className="space-y-1">
+                                <div className="flex items-center justify-between">
+                                    <label className="text-sm font-medium" htmlFor={`metadata-${field.name}`}>
+                                        {field.label}
+                                        <span className="ml-2 text-xs font-normal text-muted-foreground">{field.hint}</span>
+                                    </label>
+                                    <div className="flex items-center gap-1">
+                                        <CharacterCounter length={analysis.lengths[field.name]} limit={METADATA_LIMITS[field.name]} />
+                                        <Button
+                                            variant="ghost"
+                                            size="icon-sm"
+                                            title={`Copy ${field.label.toLowerCase()}`}
+                                            onClick={() => copyField(field.name, field.label)}
+                                            className="h-7 w-7"
+                                        >
+                                            <Copy className="h-3.5 w-3.5" />
+                                        </Button>
+                                    </div>
+                                </div>
+                                {field.name === 'keywordField' ? (
+                                    <textarea
+                                        id={`metadata-${field.name}`}
+                                        value={metadata.keywordField}
+                                        onChange={(e) => setField(field.name, e.target.value)}
+                                        rows={3}
+                                        className="w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm font-mono shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] dark:bg-input/30"
+                                    />
+                                ) : (
+                                    <Input
+                                        id={`metadata-${field.name}`}
+                                        value={metadata[field.name]}
+                                        onChange={(e) => setField(field.name, e.target.value)}
+                                    />
+                                )}
+                            </div>
+                        ))}
+
+                        {(analysis.overLimit.length > 0 || analysis.repeatedWords.length > 0) && (
+                            <div className="space-y-1 text-sm text-destructive">
+                                {analysis.overLimit.length > 0 && (
+                                    <div className="flex items-center gap-2">
+                                        <AlertCircle className="h-4 w-4" />
+                                        Over the limit: {analysis.overLimit
+                                            .map(name => fields.find(f => f.name === name)!.label.toLowerCase())
+                                            .join(', ')}
+                                    </div>
+                                )}
+                                {analysis.repeatedWords.length > 0 && (
+                                    <div className="flex items-center gap-2">
+                                        <AlertCircle className="h-4 w-4" />
+                                        Repeated words, remove them from the keyword field: {analysis.repeatedWords.join(', ')}
+                                    </div>
+                                )}
+                            </div>
+                        )}
+
+                        <div className="space-y-2">
+                            <p className="text-sm">
+                                Covers <strong>{analysis.covered.length}</strong> of {targets.length} keywords,{' '}
+                                <strong>{analysis.coveredOpportunity}</strong> of {analysis.totalOpportunity} opportunity points
+                            </p>
+                            <div className="max-h-32 overflow-y-auto">
+                                <div className="flex flex-wrap gap-1">
+                                    {targets.map((keyword) => (
+                                        <Badge
+                                            key={keyword.id}
+                                            variant={coveredKeywords.has(keyword.keyword) ? 'secondary' : 'outline'}
+                                            className={cn(
+                                                'font-normal',
+                                                !coveredKeywords.has(keyword.keyword) && 'text-muted-foreground'
+                                            )}
+                                        >
+                                            {keyword.keyword}
+                                            <span className="ml-1 opacity-70 tabular-nums">{keyword.opportunity ?? '-'}</span>
+                                        </Badge>
+                                    ))}
+                                </div>
+                            </div>
+                        </div>
+                    </div>
+                )}
+
+                <DialogFooter>
+                    <Button variant="outline" onClick={propose} disabled={targets.length === 0} className="gap-2">
+                        <RotateCcw className="h-4 w-4" />
+                        Reset to proposal
+                    </Button>
+                    <Button onClick={() => setOpen(false)}>Done</Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
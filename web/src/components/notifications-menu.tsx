@@ -0,0 +1,150 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+    DialogTrigger,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Bell, CheckCheck } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import type { AppNotification } from '@/types';
+
+// New alerts can fire from scheduled runs at any time, so the list is polled
+const POLL_INTERVAL_MS = 60 * 1000;
+
+interface NotificationList {
+    notifications: AppNotification[];
+    unread: number;
+}
+
+async function fetchNotifications(): Promise<NotificationList> {
+    const response = await fetch('/api/notifications');
+    if (!response.ok) throw new Error('Failed to fetch notifications');
+    return response.json();
+}
+
+interface NotificationsMenuProps {
+    // Changing this reloads the list, e.g. when a job finishes
+    refreshKey?: number;
+}
+
+export function NotificationsMenu({ refreshKey }: NotificationsMenuProps) {
+    const [open, setOpen] = useState(false);
+    const [list, setList] = useState<NotificationList>({ notifications: [], unread: 0 });
+
+    useEffect(() => {
+        let cancelled = false;
+
+        const load = () => fetchNotifications()
+            .then((result) => !cancelled && setList(result))
+            .catch((error) => console.error('Error fetching notifications:', error));
+
+        load();
+        const timer = setInterval(load, POLL_INTERVAL_MS);
+
+        return () => {
+            cancelled = true;
+            clearInterval(timer);
+        };
+    }, [refreshKey, open]);
+
+    // Without ids every notification is marked read
+    const markRead = async (ids?: number[]) => {
+        try {
+            const response = await fetch('/api/notifications', {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ ids }),
+            });
+            if (!response.ok) throw new Error('Failed to mark notifications read');
+
+            const readAt = new Date().toISOString();
+            setList((prev) => ({
+                notifications: prev.notifications.map((n) =>
+                    !ids || ids.includes(n.id) ? { ...n, readAt: n.readAt ?? readAt } : n
+                ),
+                unread: ids ? Math.max(0, prev.unread - ids.length) : 0,
+            }));
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Failed to mark notifications read');
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={setOpen}>
+            <DialogTrigger asChild>
+                <Button variant="ghost" size="icon-sm" title="Notifications" className="relative h-7 w-7 text-muted-foreground">
+                    <Bell className="h-4 w-4" />
+                    {list.unread > 0 && (
+                        <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-destructive text-[10px] leading-4 text-white">
+                            {list.unread > 99 ? '99+' : list.unread}
+                        </span>
+                    )}
+                </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-lg">
+                <DialogHeader>
+                    <DialogTitle>Notifications</DialogTitle>
+                    <DialogDescription>
+                        In-app alerts from your alert rules. Add rules from the Alerts button above an app&apos;s keywords.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {list.notifications.length === 0 ? (
+                    <div className="py-8 text-center text-sm text-muted-foreground">No notifications yet</div>
+                ) : (
+                    <>
+                        <div className="flex justify-end">
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                className="gap-2"
+                                onClick={() => markRead()}
+                                disabled={list.unread === 0}
+                            >
+                                <CheckCheck className="h-4 w-4" />
+                                Mark all read
+                            </Button>
+                        </div>
+                        <ScrollArea className="max-h-96">
+                            <ul className="space-y-1 pr-3">
+                                {list.notifications.map((notification) => (
+                                    <li key={notification.id}>
+                                        <button
+                                            onClick={() => !notification.readAt && markRead([notification.id])}
+                                            className={cn(
+                                                'w-full flex items-start gap-2 rounded-md p-2 text-left text-sm hover:bg-accent',
+                                                notification.readAt && 'text-muted-foreground'
+                                            )}
+                                        >
+                                            <span
+                                                className={cn(
+                                                    'mt-1.5 h-2 w-2 rounded-full flex-shrink-0',
+                                                    notification.readAt ? 'bg-transparent' : 'bg-blue-500'
+                                                )}
+                                            />
+                                            <span className="flex-1 min-w-0">
+                                                {notification.message}
+                                                <span className="block text-xs text-muted-foreground">
+                                                    {notification.appTitle} · {formatDistanceToNow(new Date(notification.firedAt), { addSuffix: true })}
+                                                </span>
+                                            </span>
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        </ScrollArea>
+                    </>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
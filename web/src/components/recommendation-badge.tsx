@@ -7,36 +7,43 @@ interface RecommendationBadgeProps {
     recommendation: RecommendationType;
 }
 
-const badgeConfig: Record<RecommendationType, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline'; className: string }> = {
+// color is the badge's Tailwind 500 shade as hex, for charts
+export const badgeConfig: Record<RecommendationType, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline'; className: string; color: string }> = {
     excellent: {
         label: 'Excellent',
         variant: 'default',
         className: 'bg-emerald-500 hover:bg-emerald-600 text-white',
+        color: '#10b981',
     },
     good: {
         label: 'Good',
         variant: 'default',
         className: 'bg-green-500 hover:bg-green-600 text-white',
+        color: '#22c55e',
     },
     consider: {
         label: 'Consider',
         variant: 'secondary',
         className: 'bg-yellow-500 hover:bg-yellow-600 text-white',
+        color: '#eab308',
     },
     challenging: {
         label: 'Challenging',
         variant: 'secondary',
         className: 'bg-orange-500 hover:bg-orange-600 text-white',
+        color: '#f97316',
     },
     avoid: {
         label: 'Avoid',
         variant: 'destructive',
         className: 'bg-red-500 hover:bg-red-600 text-white',
+        color: '#ef4444',
     },
     analysis_failed: {
         label: 'Failed',
         variant: 'outline',
         className: 'border-gray-400 text-gray-500',
+        color: '#9ca3af',
     },
 };
 
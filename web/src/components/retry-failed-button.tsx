@@ -0,0 +1,46 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Loader2, RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
+import type { AnalysisJob } from '@/types';
+
+interface RetryFailedButtonProps {
+    appId: number;
+    country?: string;
+    failedCount: number;
+    onJobStarted?: (job: AnalysisJob) => void;
+}
+
+// Queues a re-score of the keywords whose analysis failed in the storefront
+export function RetryFailedButton({ appId, country, failedCount, onJobStarted }: RetryFailedButtonProps) {
+    const [starting, setStarting] = useState(false);
+
+    const handleClick = async () => {
+        setStarting(true);
+        try {
+            const response = await fetch(`/api/apps/${appId}/keywords/retry`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ country }),
+            });
+            const result = await response.json();
+            if (!response.ok) throw new Error(result.error || 'Failed to retry failed keywords');
+
+            toast.info(`Retrying ${failedCount} failed keywords...`);
+            onJobStarted?.(result.job);
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Failed to retry failed keywords');
+        } finally {
+            setStarting(false);
+        }
+    };
+
+    return (
+        <Button variant="outline" size="sm" className="gap-2" onClick={handleClick} disabled={starting}>
+            {starting ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />}
+            Retry failed ({failedCount})
+        </Button>
+    );
+}
@@ -0,0 +1,297 @@
+'use client';
+
+import { useState } from 'react';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+    DialogTrigger,
+    DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, AlertCircle, CheckCircle2, XCircle } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+import { COUNTRIES } from '@/lib/countries';
+import { cn } from '@/lib/utils';
+import type { AppSchedule, AppWithStats, ScheduleCadence, ScheduleRun } from '@/types';
+
+type CadenceOption = ScheduleCadence | 'off';
+
+const cadenceOptions: { value: CadenceOption; label: string }[] = [
+    { value: 'off', label: 'Off' },
+    { value: 'daily', label: 'Daily at 06:00' },
+    { value: 'weekly', label: 'Weekly, Mondays at 06:00' },
+    { value: 'cron', label: 'Custom cron expression' },
+];
+
+const selectClassName = 'h-9 w-full rounded-md border border-input bg-transparent px-3 text-sm shadow-xs outline-none focus-visible:border-ring disabled:opacity-50 dark:bg-input/30';
+
+interface ScheduleDialogProps {
+    app: AppWithStats;
+    trigger: React.ReactNode;
+    onScheduleChanged: () => void;
+}
+
+export function ScheduleDialog({ app, trigger, onScheduleChanged }: ScheduleDialogProps) {
+    const [open, setOpen] = useState(false);
+    const [schedule, setSchedule] = useState<AppSchedule | null>(null);
+    const [runs, setRuns] = useState<ScheduleRun[]>([]);
+    const [cadence, setCadence] = useState<CadenceOption>('off');
+    const [cron, setCron] = useState('');
+    const [country, setCountry] = useState(app.country);
+    const [enabled, setEnabled] = useState(true);
+    const [fetched, setFetched] = useState(false);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const applySchedule = (next: AppSchedule | null, nextRuns: ScheduleRun[]) => {
+        setSchedule(next);
+        setRuns(nextRuns);
+        setCadence(next?.cadence ?? 'off');
+        setCron(next?.cadence === 'cron' ? next.cron : '');
+        setCountry(next?.country ?? app.country);
+        setEnabled(next?.enabled ?? true);
+    };
+
+    const fetchSchedule = async () => {
+        setError(null);
+        setFetched(false);
+        try {
+            const response = await fetch(`/api/apps/${app.id}/schedule`);
+            if (!response.ok) throw new Error('Failed to fetch schedule');
+            const result = await response.json();
+            applySchedule(result.schedule, result.runs);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to fetch schedule');
+        } finally {
+            setFetched(true);
+        }
+    };
+
+    const handleOpenChange = (isOpen: boolean) => {
+        setOpen(isOpen);
+        if (isOpen) fetchSchedule();
+    };
+
+    // Turning the schedule off removes it, along with its run history
+    const handleSave = async () => {
+        if (cadence === 'off' && !schedule) {
+            setOpen(false);
+            return;
+        }
+
+        setLoading(true);
+        setError(null);
+        try {
+            const response = await fetch(`/api/apps/${app.id}/schedule`, {
+                method: cadence === 'off' ? 'DELETE' : 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: cadence === 'off' ? undefined : JSON.stringify({
+                    cadence,
+                    cron: cadence === 'cron' ? cron : undefined,
+                    country,
+                    enabled,
+                }),
+            });
+            const result = await response.json();
+            if (!response.ok) {
+                throw new Error(result.error || 'Failed to save schedule');
+            }
+
+            if (cadence === 'off') {
+                toast.success(`Stopped re-scoring "${app.title}" automatically`);
+            } else {
+                const nextRun = new Date(result.schedule.nextRunAt);
+                toast.success(
+                    enabled
+                        ? `"${app.title}" will be re-scored next ${format(nextRun, 'EEE d MMM, HH:mm')}`
+                        : `Schedule for "${app.title}" saved and paused`
+                );
+            }
+            setOpen(false);
+            onScheduleChanged();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save schedule');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+            <DialogTrigger asChild>{trigger}</DialogTrigger>
+            <DialogContent className="sm:max-w-md">
+                <DialogHeader>
+                    <DialogTitle>Re-scoring schedule</DialogTitle>
+                    <DialogDescription>
+                        Periodically re-score the keywords &quot;{app.title}&quot; tracks and record their history.
+                        Times are in the server&apos;s time zone.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {!fetched ? (
+                    <div className="py-8 text-center text-sm text-muted-foreground">Loading...</div>
+                ) : (
+                    <div className="space-y-4">
+                        <div className="space-y-2">
+                            <label htmlFor="cadence" className="text-sm font-medium">
+                                Cadence
+                            </label>
+                            <select
+                                id="cadence"
+                                value={cadence}
+                                onChange={(e) => setCadence(e.target.value as CadenceOption)}
+                                disabled={loading}
+                                className={selectClassName}
+                            >
+                                {cadenceOptions.map((option) => (
+                                    <option key={option.value} value={option.value}>
+                                        {option.label}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+
+                        {cadence === 'cron' && (
+                            <div className="space-y-2">
+                                <label htmlFor="cron" className="text-sm font-medium">
+                                    Cron expression
+                                </label>
+                                <Input
+                                    id="cron"
+                                    placeholder="e.g., 30 6 * * 1-5"
+                                    value={cron}
+                                    onChange={(e) => setCron(e.target.value)}
+                                    disabled={loading}
+                                    autoComplete="off"
+                                    className="font-mono"
+                                />
+                                <p className="text-xs text-muted-foreground">
+                                    minute hour day-of-month month day-of-week
+                                </p>
+                            </div>
+                        )}
+
+                        {cadence !== 'off' && (
+                            <>
+                                <div className="space-y-2">
+                                    <label htmlFor="schedule-country" className="text-sm font-medium">
+                                        Storefront
+                                    </label>
+                                    <select
+                                        id="schedule-country"
+                                        value={country}
+                                        onChange={(e) => setCountry(e.target.value)}
+                                        disabled={loading}
+                                        className={selectClassName}
+                                    >
+                                        {COUNTRIES.map((c) => (
+                                            <option key={c.code} value={c.code}>
+                                                {c.flag} {c.name}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+
+                                <label className="flex items-start gap-2 text-sm">
+                                    <input
+                                        type="checkbox"
+                                        checked={!enabled}
+                                        onChange={(e) => setEnabled(!e.target.checked)}
+                                        disabled={loading}
+                                        className="mt-0.5"
+                                    />
+                                    <span>
+                                        Paused
+                                        <span className="block text-xs text-muted-foreground">
+                                            Keeps the schedule and its history without running it
+                                        </span>
+                                    </span>
+                                </label>
+                            </>
+                        )}
+
+                        {schedule && (
+                            <div className="space-y-2">
+                                <p className="text-sm font-medium flex items-center gap-2">
+                                    Recent runs
+                                    {schedule.enabled && (
+                                        <Badge variant="secondary">
+                                            Next {formatDistanceToNow(new Date(schedule.nextRunAt), { addSuffix: true })}
+                                        </Badge>
+                                    )}
+                                </p>
+                                {runs.length === 0 ? (
+                                    <p className="text-xs text-muted-foreground">No runs yet</p>
+                                ) : (
+                                    <ul className="space-y-1 max-h-40 overflow-y-auto">
+                                        {runs.map((run) => (
+                                            <ScheduleRunItem key={run.id} run={run} />
+                                        ))}
+                                    </ul>
+                                )}
+                            </div>
+                        )}
+
+                        {error && (
+                            <div className="flex items-center gap-2 text-sm text-destructive">
+                                <AlertCircle className="h-4 w-4" />
+                                {error}
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                <DialogFooter>
+                    <Button type="button" variant="outline" onClick={() => setOpen(false)} disabled={loading}>
+                        Cancel
+                    </Button>
+                    <Button type="button" onClick={handleSave} disabled={loading || !fetched}>
+                        {loading ? (
+                            <>
+                                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                                Saving...
+                            </>
+                        ) : (
+                            'Save'
+                        )}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
+
+function ScheduleRunItem({ run }: { run: ScheduleRun }) {
+    const summary = run.status === 'running'
+        ? 'Running...'
+        : run.status === 'failed'
+            ? run.error ?? 'Failed'
+            : run.result
+                ? `${run.result.rescored} re-scored, ${run.result.recommendationChanges.length} changes` +
+                  (run.result.failed.length > 0 ? `, ${run.result.failed.length} failed` : '')
+                : 'Completed';
+
+    return (
+        <li className="flex items-center gap-2 text-xs">
+            {run.status === 'running' ? (
+                <Loader2 className="h-3.5 w-3.5 animate-spin text-blue-500 flex-shrink-0" />
+            ) : run.status === 'failed' ? (
+                <XCircle className="h-3.5 w-3.5 text-destructive flex-shrink-0" />
+            ) : (
+                <CheckCircle2 className="h-3.5 w-3.5 text-green-500 flex-shrink-0" />
+            )}
+            <span className="text-muted-foreground w-28 flex-shrink-0">
+                {format(new Date(run.startedAt), 'd MMM, HH:mm')}
+            </span>
+            <span className={cn('truncate', run.status === 'failed' && 'text-destructive')} title={summary}>
+                {summary}
+            </span>
+        </li>
+    );
+}
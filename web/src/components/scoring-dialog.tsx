@@ -0,0 +1,235 @@
+'use client';
+
+import { useState } from 'react';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+    DialogTrigger,
+    DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { SlidersHorizontal, Loader2, AlertCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import type { ScoringConfig } from '@services/scoring';
+
+type ThresholdName = keyof ScoringConfig['thresholds'];
+
+// Labels for every threshold field, in the order the rules are checked
+const thresholdFields: { name: ThresholdName; label: string; fields: { key: string; label: string }[] }[] = [
+    {
+        name: 'excellent',
+        label: 'Excellent',
+        fields: [{ key: 'minTraffic', label: 'Traffic ≥' }, { key: 'maxDifficulty', label: 'Difficulty ≤' }],
+    },
+    {
+        name: 'good',
+        label: 'Good',
+        fields: [{ key: 'minTraffic', label: 'Traffic ≥' }, { key: 'maxDifficulty', label: 'Difficulty ≤' }],
+    },
+    {
+        name: 'challenging',
+        label: 'Challenging',
+        fields: [{ key: 'minTraffic', label: 'Traffic ≥' }, { key: 'minDifficulty', label: 'Difficulty ≥' }],
+    },
+    {
+        name: 'avoid',
+        label: 'Avoid',
+        fields: [{ key: 'maxTraffic', label: 'Traffic ≤' }, { key: 'minDifficulty', label: 'Difficulty ≥' }],
+    },
+];
+
+interface ScoringDialogProps {
+    // An app's or a workspace's scoring endpoint
+    scoringUrl: string;
+    description?: string;
+    trigger?: React.ReactNode;
+    onScoringChanged: () => void;
+}
+
+export function ScoringDialog({
+    scoringUrl,
+    description = "Tune the recommendation cut-offs and opportunity weights for this app's category.",
+    trigger,
+    onScoringChanged,
+}: ScoringDialogProps) {
+    const [open, setOpen] = useState(false);
+    const [config, setConfig] = useState<ScoringConfig | null>(null);
+    const [customized, setCustomized] = useState(false);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const fetchScoring = async () => {
+        setError(null);
+        try {
+            const response = await fetch(scoringUrl);
+            if (!response.ok) throw new Error('Failed to fetch scoring settings');
+            const result = await response.json();
+            setConfig(result.config);
+            setCustomized(result.overrides !== null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to fetch scoring settings');
+        }
+    };
+
+    const handleOpenChange = (isOpen: boolean) => {
+        setOpen(isOpen);
+        if (isOpen) fetchScoring();
+    };
+
+    const setThreshold = (name: ThresholdName, key: string, value: number) => {
+        setConfig((prev) => prev && {
+            ...prev,
+            thresholds: { ...prev.thresholds, [name]: { ...prev.thresholds[name], [key]: value } },
+        });
+    };
+
+    // The ease weight always makes up the rest so opportunity stays on a 0-100 scale
+    const setTrafficWeight = (traffic: number) => {
+        const rounded = Math.round(traffic * 100) / 100;
+        setConfig((prev) => prev && {
+            ...prev,
+            weights: { traffic: rounded, ease: Math.round((1 - rounded) * 100) / 100 },
+        });
+    };
+
+    const submit = async (method: 'PUT' | 'DELETE') => {
+        setLoading(true);
+        setError(null);
+        try {
+            const response = await fetch(scoringUrl, {
+                method,
+                headers: { 'Content-Type': 'application/json' },
+                body: method === 'PUT' ? JSON.stringify(config) : undefined,
+            });
+            const result = await response.json();
+            if (!response.ok) {
+                throw new Error(result.details?.join(', ') || result.error || 'Failed to save scoring settings');
+            }
+
+            const { updated, recommendationChanges } = result.recomputed;
+            toast.success(
+                `Scoring saved - ${updated} keywords re-scored, ${recommendationChanges.length} recommendation changes`
+            );
+            setOpen(false);
+            onScoringChanged();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save scoring settings');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+            <DialogTrigger asChild>
+                {trigger || (
+                    <Button variant="outline" size="sm" className="gap-2">
+                        <SlidersHorizontal className="h-4 w-4" />
+                        Scoring
+                    </Button>
+                )}
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-lg">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        Scoring settings
+                        {customized && <Badge variant="secondary">Customized</Badge>}
+                    </DialogTitle>
+                    <DialogDescription>
+                        {description} Stored keywords are re-scored when you save.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {!config ? (
+                    <div className="py-8 text-center text-sm text-muted-foreground">
+                        {error ?? 'Loading...'}
+                    </div>
+                ) : (
+                    <div className="space-y-4">
+                        <div className="space-y-2">
+                            <p className="text-sm font-medium">Opportunity weights</p>
+                            <div className="flex items-center gap-3">
+                                <input
+                                    type="range"
+                                    min={0}
+                                    max={1}
+                                    step={0.05}
+                                    value={config.weights.traffic}
+                                    onChange={(e) => setTrafficWeight(Number(e.target.value))}
+                                    disabled={loading}
+                                    className="flex-1"
+                                />
+                                <span className="text-xs text-muted-foreground w-40 text-right">
+                                    Traffic {config.weights.traffic} · Ease {config.weights.ease}
+                                </span>
+                            </div>
+                        </div>
+
+                        <div className="space-y-2">
+                            <p className="text-sm font-medium">Recommendation thresholds</p>
+                            <p className="text-xs text-muted-foreground">
+                                Checked top to bottom, the first match wins. Everything else is Consider.
+                            </p>
+                            {thresholdFields.map((threshold) => (
+                                <div key={threshold.name} className="grid grid-cols-[100px_1fr_1fr] items-center gap-2">
+                                    <span className="text-sm">{threshold.label}</span>
+                                    {threshold.fields.map((field) => (
+                                        <label key={field.key} className="flex items-center gap-2 text-xs text-muted-foreground">
+                                            {field.label}
+                                            <Input
+                                                type="number"
+                                                min={0}
+                                                max={100}
+                                                value={(config.thresholds[threshold.name] as Record<string, number>)[field.key]}
+                                                onChange={(e) => setThreshold(threshold.name, field.key, Number(e.target.value))}
+                                                disabled={loading}
+                                                className="h-8"
+                                            />
+                                        </label>
+                                    ))}
+                                </div>
+                            ))}
+                        </div>
+
+                        {error && (
+                            <div className="flex items-center gap-2 text-sm text-destructive">
+                                <AlertCircle className="h-4 w-4" />
+                                {error}
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                <DialogFooter>
+                    <Button
+                        type="button"
+                        variant="ghost"
+                        onClick={() => submit('DELETE')}
+                        disabled={loading || !customized}
+                        className="mr-auto"
+                    >
+                        Reset to defaults
+                    </Button>
+                    <Button type="button" variant="outline" onClick={() => setOpen(false)} disabled={loading}>
+                        Cancel
+                    </Button>
+                    <Button type="button" onClick={() => submit('PUT')} disabled={loading || !config}>
+                        {loading ? (
+                            <>
+                                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                                Re-scoring...
+                            </>
+                        ) : (
+                            'Save'
+                        )}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,90 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { COUNTRIES, getCountry } from '@/lib/countries';
+import type { AnalysisJob, StorefrontSummary } from '@/types';
+
+interface StorefrontSelectProps {
+    appId: number;
+    countries: StorefrontSummary[];
+    selectedCountry: string;
+    onSelectCountry: (country: string) => void;
+    onJobStarted?: (job: AnalysisJob) => void;
+}
+
+export function StorefrontSelect({
+    appId,
+    countries,
+    selectedCountry,
+    onSelectCountry,
+    onJobStarted,
+}: StorefrontSelectProps) {
+    const [starting, setStarting] = useState(false);
+
+    const analyzed = new Map(countries.map((c) => [c.country, c.keywordCount]));
+    // The selected storefront stays listed while its first analysis is running
+    if (!analyzed.has(selectedCountry)) analyzed.set(selectedCountry, 0);
+
+    const notAnalyzed = COUNTRIES.filter((c) => !analyzed.has(c.code));
+
+    // Picking a storefront without keywords queues an analysis for it
+    const analyzeStorefront = async (country: string) => {
+        setStarting(true);
+        try {
+            const response = await fetch(`/api/apps/${appId}/refresh`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ country }),
+            });
+            const result = await response.json();
+            if (!response.ok) throw new Error(result.error || 'Failed to start analysis');
+
+            toast.info(`Analyzing the ${getCountry(country).name} storefront...`);
+            onJobStarted?.(result.job);
+            onSelectCountry(country);
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Failed to start analysis');
+        } finally {
+            setStarting(false);
+        }
+    };
+
+    const handleChange = (country: string) => {
+        if (analyzed.has(country)) {
+            onSelectCountry(country);
+        } else {
+            analyzeStorefront(country);
+        }
+    };
+
+    return (
+        <select
+            value={selectedCountry}
+            disabled={starting}
+            onChange={(e) => handleChange(e.target.value)}
+            title="App Store storefront"
+            className="h-8 rounded-md border border-input bg-background px-2 text-sm font-medium shadow-xs outline-none focus-visible:border-ring disabled:opacity-50 dark:bg-input/30"
+        >
+            <optgroup label="Analyzed storefronts">
+                {Array.from(analyzed.entries()).map(([code, keywordCount]) => {
+                    const country = getCountry(code);
+                    return (
+                        <option key={code} value={code}>
+                            {country.flag} {code.toUpperCase()} ({keywordCount})
+                        </option>
+                    );
+                })}
+            </optgroup>
+            {notAnalyzed.length > 0 && (
+                <optgroup label="Analyze another storefront">
+                    {notAnalyzed.map((country) => (
+                        <option key={country.code} value={country.code}>
+                            {country.flag} {country.code.toUpperCase()} - {country.name}
+                        </option>
+                    ))}
+                </optgroup>
+            )}
+        </select>
+    );
+}
@@ -0,0 +1,63 @@
+'use client';
+
+import { cn } from '@/lib/utils';
+
+interface TrendSparklineProps {
+    values: (number | null)[];
+    type: 'popularity' | 'difficulty';
+    width?: number;
+    height?: number;
+}
+
+export function TrendSparkline({ values, type, width = 48, height = 16 }: TrendSparklineProps) {
+    const points = values.filter((v): v is number => v !== null);
+
+    // A trend needs at least two runs
+    if (points.length < 2) {
+        return <span className="w-12" />;
+    }
+
+    const min = Math.min(...points);
+    const max = Math.max(...points);
+    const range = max - min || 1;
+    const step = width / (points.length - 1);
+
+    const path = points
+        .map((value, i) => {
+            const x = i * step;
+            const y = height - 1 - ((value - min) / range) * (height - 2);
+            return `${x.toFixed(1)},${y.toFixed(1)}`;
+        })
+        .join(' ');
+
+    const change = points[points.length - 1] - points[points.length - 2];
+
+    // Rising popularity is good, rising difficulty is bad
+    const improving = type === 'popularity' ? change > 0 : change < 0;
+    const color = change === 0
+        ? 'text-muted-foreground'
+        : improving ? 'text-green-500' : 'text-red-500';
+
+    return (
+        <div
+            className={cn('flex items-center gap-1', color)}
+            title={`Last ${points.length} runs: ${points.join(' → ')}`}
+        >
+            <svg width={width} height={height} className="overflow-visible">
+                <polyline
+                    points={path}
+                    fill="none"
+                    stroke="currentColor"
+                    strokeWidth={1.5}
+                    strokeLinejoin="round"
+                    strokeLinecap="round"
+                />
+            </svg>
+            {change !== 0 && (
+                <span className="text-xs tabular-nums">
+                    {change > 0 ? `+${change}` : change}
+                </span>
+            )}
+        </div>
+    );
+}
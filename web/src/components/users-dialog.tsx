@@ -0,0 +1,298 @@
+'use client';
+
+import { useState } from 'react';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+    DialogTrigger,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { AlertCircle, History, KeyRound, Loader2, Plus, Trash2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+import type { AuditLogEntry, User, UserRole } from '@/types';
+
+const roleLabels: Record<UserRole, string> = {
+    viewer: 'Viewer - browse and export',
+    editor: 'Editor - analyze, import and delete',
+    admin: 'Admin - also manages users',
+};
+
+const actionLabels: Record<string, string> = {
+    'app.delete': 'deleted app',
+    'keyword.delete': 'deleted keyword',
+    'competitor.delete': 'removed competitor',
+    'workspace.delete': 'deleted workspace',
+    'alert_rule.delete': 'deleted alert rule',
+    'schedule.delete': 'turned off the schedule of',
+    'user.delete': 'deleted user',
+    'data.import': 'imported CLI results from',
+};
+
+const selectClassName = 'h-9 w-full rounded-md border border-input bg-transparent px-3 text-sm shadow-xs outline-none focus-visible:border-ring disabled:opacity-50 dark:bg-input/30';
+
+interface UsersDialogProps {
+    currentUser: User;
+    trigger: React.ReactNode;
+}
+
+export function UsersDialog({ currentUser, trigger }: UsersDialogProps) {
+    const [open, setOpen] = useState(false);
+    const [users, setUsers] = useState<User[]>([]);
+    const [auditLog, setAuditLog] = useState<AuditLogEntry[]>([]);
+    const [username, setUsername] = useState('');
+    const [password, setPassword] = useState('');
+    const [role, setRole] = useState<UserRole>('viewer');
+    // The user whose password is being reset, and the new password
+    const [resetting, setResetting] = useState<{ userId: number; password: string } | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const fetchUsers = async () => {
+        setError(null);
+        try {
+            const [usersResponse, auditResponse] = await Promise.all([fetch('/api/users'), fetch('/api/audit-log')]);
+            if (!usersResponse.ok || !auditResponse.ok) throw new Error('Failed to fetch users');
+            setUsers(await usersResponse.json());
+            setAuditLog(await auditResponse.json());
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to fetch users');
+        }
+    };
+
+    const handleOpenChange = (isOpen: boolean) => {
+        setOpen(isOpen);
+        if (isOpen) {
+            setResetting(null);
+            fetchUsers();
+        }
+    };
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setLoading(true);
+        setError(null);
+        try {
+            const response = await fetch('/api/users', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ username, password, role }),
+            });
+            const result = await response.json();
+            if (!response.ok) {
+                throw new Error(result.details?.join(', ') || result.error || 'Failed to add user');
+            }
+
+            setUsers((prev) => [...prev, result].sort((a, b) => a.username.localeCompare(b.username)));
+            setUsername('');
+            setPassword('');
+            toast.success(`Added ${result.username}`);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to add user');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const updateUser = async (user: User, changes: { role?: UserRole; password?: string }) => {
+        const response = await fetch(`/api/users/${user.id}`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(changes),
+        });
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.error || 'Failed to update user');
+
+        setUsers((prev) => prev.map((u) => (u.id === user.id ? result : u)));
+    };
+
+    const handleRoleChange = async (user: User, newRole: UserRole) => {
+        try {
+            await updateUser(user, { role: newRole });
+            toast.success(`${user.username} is now ${newRole === 'admin' ? 'an' : 'a'} ${newRole}`);
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Failed to update user');
+        }
+    };
+
+    const handleResetPassword = async (e: React.FormEvent, user: User) => {
+        e.preventDefault();
+        if (!resetting) return;
+        try {
+            await updateUser(user, { password: resetting.password });
+            setResetting(null);
+            toast.success(`Reset the password of ${user.username}, who has been signed out and lost their API tokens`);
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Failed to update user');
+        }
+    };
+
+    const handleDelete = async (user: User) => {
+        try {
+            const response = await fetch(`/api/users/${user.id}`, { method: 'DELETE' });
+            const result = await response.json();
+            if (!response.ok) throw new Error(result.error || 'Failed to delete user');
+
+            setUsers((prev) => prev.filter((u) => u.id !== user.id));
+            toast.success(`Deleted ${user.username}`);
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Failed to delete user');
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+            <DialogTrigger asChild>{trigger}</DialogTrigger>
+            <DialogContent className="sm:max-w-2xl max-h-[85vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Users</DialogTitle>
+                    <DialogDescription>
+                        Viewers can browse and export, editors can also run analyses, import data and delete
+                        things, and admins manage the accounts.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <ul className="space-y-1">
+                    {users.map((user) => (
+                        <li key={user.id} className="rounded-md border p-2 text-sm space-y-2">
+                            <div className="flex items-center gap-2">
+                                <div className="flex-1 min-w-0">
+                                    <p className="truncate">
+                                        {user.username}
+                                        {user.id === currentUser.id && <span className="text-muted-foreground"> (you)</span>}
+                                    </p>
+                                    <p className="text-xs text-muted-foreground">
+                                        {user.lastLoginAt
+                                            ? `Signed in ${formatDistanceToNow(new Date(user.lastLoginAt), { addSuffix: true })}`
+                                            : 'Never signed in'}
+                                    </p>
+                                </div>
+                                <select
+                                    value={user.role}
+                                    onChange={(e) => handleRoleChange(user, e.target.value as UserRole)}
+                                    title="Role"
+                                    className="h-8 w-28 rounded-md border border-input bg-transparent px-2 text-xs shadow-xs outline-none focus-visible:border-ring dark:bg-input/30"
+                                >
+                                    {Object.keys(roleLabels).map((value) => (
+                                        <option key={value} value={value}>{value}</option>
+                                    ))}
+                                </select>
+                                <Button
+                                    variant="ghost"
+                                    size="icon-sm"
+                                    title="Reset password"
+                                    onClick={() => setResetting(resetting?.userId === user.id ? null : { userId: user.id, password: '' })}
+                                    className="h-7 w-7 text-muted-foreground"
+                                >
+                                    <KeyRound className="h-3.5 w-3.5" />
+                                </Button>
+                                <Button
+                                    variant="ghost"
+                                    size="icon-sm"
+                                    title={user.id === currentUser.id ? 'You cannot delete your own account' : 'Delete user'}
+                                    onClick={() => handleDelete(user)}
+                                    disabled={user.id === currentUser.id}
+                                    className="h-7 w-7 text-muted-foreground"
+                                >
+                                    <Trash2 className="h-3.5 w-3.5" />
+                                </Button>
+                            </div>
+                            {resetting?.userId === user.id && (
+                                <form onSubmit={(e) => handleResetPassword(e, user)} className="flex items-center gap-2">
+                                    <Input
+                                        type="password"
+                                        placeholder="New password"
+                                        value={resetting.password}
+                                        onChange={(e) => setResetting({ userId: user.id, password: e.target.value })}
+                                        autoComplete="new-password"
+                                    />
+                                    <Button type="submit" size="sm" disabled={!resetting.password}>
+                                        Reset
+                                    </Button>
+                                </form>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+
+                <form onSubmit={handleAdd} className="space-y-3 rounded-md border p-3">
+                    <p className="text-sm font-medium">New user</p>
+                    <div className="grid grid-cols-2 gap-2">
+                        <label className="space-y-1 text-xs text-muted-foreground">
+                            Username
+                            <Input
+                                value={username}
+                                onChange={(e) => setUsername(e.target.value)}
+                                disabled={loading}
+                                autoComplete="off"
+                            />
+                        </label>
+                        <label className="space-y-1 text-xs text-muted-foreground">
+                            Password
+                            <Input
+                                type="password"
+                                value={password}
+                                onChange={(e) => setPassword(e.target.value)}
+                                disabled={loading}
+                                autoComplete="new-password"
+                            />
+                        </label>
+                        <label className="col-span-2 space-y-1 text-xs text-muted-foreground">
+                            Role
+                            <select
+                                value={role}
+                                onChange={(e) => setRole(e.target.value as UserRole)}
+                                disabled={loading}
+                                className={selectClassName}
+                            >
+                                {Object.entries(roleLabels).map(([value, label]) => (
+                                    <option key={value} value={value}>{label}</option>
+                                ))}
+                            </select>
+                        </label>
+                    </div>
+
+                    {error && (
+                        <div className="flex items-center gap-2 text-sm text-destructive">
+                            <AlertCircle className="h-4 w-4" />
+                            {error}
+                        </div>
+                    )}
+
+                    <div className="flex justify-end">
+                        <Button type="submit" size="sm" className="gap-2" disabled={loading || !username || !password}>
+                            {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+                            Add user
+                        </Button>
+                    </div>
+                </form>
+
+                <div className="space-y-2">
+                    <p className="text-sm font-medium">Recent activity</p>
+                    {auditLog.length === 0 ? (
+                        <p className="text-xs text-muted-foreground">Nothing has been deleted or imported yet</p>
+                    ) : (
+                        <ul className="space-y-1">
+                            {auditLog.map((entry) => (
+                                <li key={entry.id} className="flex items-start gap-2 text-xs">
+                                    <History className="h-3.5 w-3.5 mt-0.5 text-muted-foreground flex-shrink-0" />
+                                    <span className="flex-1 min-w-0">
+                                        <span className="font-medium">{entry.username}</span>{' '}
+                                        {actionLabels[entry.action] ?? entry.action} {entry.target}
+                                        <span className="block text-muted-foreground">
+                                            {formatDistanceToNow(new Date(entry.createdAt), { addSuffix: true })}
+                                        </span>
+                                    </span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+}
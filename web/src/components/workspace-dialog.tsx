@@ -0,0 +1,268 @@
+'use client';
+
+import { useState } from 'react';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+    DialogTrigger,
+    DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { ScoringDialog } from '@/components/scoring-dialog';
+import { Loader2, AlertCircle, SlidersHorizontal, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { COUNTRIES, DEFAULT_COUNTRY } from '@/lib/countries';
+import type { AppWithStats, Workspace } from '@/types';
+
+const selectClassName = 'h-9 w-full rounded-md border border-input bg-transparent px-3 text-sm shadow-xs outline-none focus-visible:border-ring disabled:opacity-50 dark:bg-input/30';
+
+interface WorkspaceDialogProps {
+    // Edits this workspace, creates a new one when it's left out
+    workspace?: Workspace;
+    // The workspace's apps, which can be moved to another workspace
+    apps?: AppWithStats[];
+    workspaces: Workspace[];
+    trigger: React.ReactNode;
+    onSaved: (workspace: Workspace) => void;
+    onDeleted?: () => void;
+    // Called when apps were moved or re-scored
+    onAppsChanged?: () => void;
+}
+
+export function WorkspaceDialog({
+    workspace,
+    apps = [],
+    workspaces,
+    trigger,
+    onSaved,
+    onDeleted,
+    onAppsChanged,
+}: WorkspaceDialogProps) {
+    const [open, setOpen] = useState(false);
+    const [name, setName] = useState('');
+    const [country, setCountry] = useState<string>(DEFAULT_COUNTRY);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleOpenChange = (isOpen: boolean) => {
+        setOpen(isOpen);
+        if (isOpen) {
+            setName(workspace?.name ?? '');
+            setCountry(workspace?.country ?? DEFAULT_COUNTRY);
+            setError(null);
+        }
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setLoading(true);
+        setError(null);
+        try {
+            const response = await fetch(workspace ? `/api/workspaces/${workspace.id}` : '/api/workspaces', {
+                method: workspace ? 'PATCH' : 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ name, country }),
+            });
+            const result = await response.json();
+            if (!response.ok) throw new Error(result.error || 'Failed to save workspace');
+
+            toast.success(workspace ? `Saved "${result.name}"` : `Created workspace "${result.name}"`);
+            setOpen(false);
+            onSaved(result);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save workspace');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleDelete = async () => {
+        if (!workspace) return;
+
+        setLoading(true);
+        setError(null);
+        try {
+            const response = await fetch(`/api/workspaces/${workspace.id}`, { method: 'DELETE' });
+            const result = await response.json();
+            if (!response.ok) throw new Error(result.error || 'Failed to delete workspace');
+
+            toast.success(`Deleted workspace "${workspace.name}"`);
+            setOpen(false);
+            onDeleted?.();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to delete workspace');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    // Moving re-scores the app with the target workspace's scoring
+    const handleMoveApp = async (app: AppWithStats, targetId: number) => {
+        const target = workspaces.find((w) => w.id === targetId);
+        try {
+            const response = await fetch(`/api/apps/${app.id}`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ workspaceId: targetId }),
+            });
+            const result = await response.json();
+            if (!response.ok) throw new Error(result.error || 'Failed to move app');
+
+            toast.success(
+                `Moved "${app.title}" to ${target?.name ?? 'another workspace'} - ` +
+                `${result.recomputed.recommendationChanges.length} recommendation changes`
+            );
+            onAppsChanged?.();
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Failed to move app');
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+            <DialogTrigger asChild>{trigger}</DialogTrigger>
+            <DialogContent className="sm:max-w-md">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        {workspace ? 'Workspace settings' : 'New workspace'}
+                        {workspace?.customScoring && <Badge variant="secondary">Custom scoring</Badge>}
+                    </DialogTitle>
+                    <DialogDescription>
+                        Group apps, e.g. your own apps or one set of competitors. Each workspace has its own
+                        scoring settings and default storefront.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <form id="workspace-form" onSubmit={handleSubmit} className="space-y-4">
+                    <div className="space-y-2">
+                        <label htmlFor="workspace-name" className="text-sm font-medium">
+                            Name
+                        </label>
+                        <Input
+                            id="workspace-name"
+                            placeholder="e.g., Meeting-note competitors"
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            disabled={loading}
+                            autoComplete="off"
+                        />
+                    </div>
+
+                    <div className="space-y-2">
+                        <label htmlFor="workspace-country" className="text-sm font-medium">
+                            Default storefront
+                        </label>
+                        <select
+                            id="workspace-country"
+                            value={country}
+                            onChange={(e) => setCountry(e.target.value)}
+                            disabled={loading}
+                            className={selectClassName}
+                        >
+                            {COUNTRIES.map((c) => (
+                                <option key={c.code} value={c.code}>
+                                    {c.flag} {c.name}
+                                </option>
+                            ))}
+                        </select>
+                        <p className="text-xs text-muted-foreground">
+                            New apps in this workspace are analyzed in this storefront
+                        </p>
+                    </div>
+                </form>
+
+                {workspace && (
+                    <>
+                        <div className="flex items-center justify-between gap-2">
+                            <div>
+                                <p className="text-sm font-medium">Scoring</p>
+                                <p className="text-xs text-muted-foreground">
+                                    Apps start from these settings and can still override them
+                                </p>
+                            </div>
+                            <ScoringDialog
+                                scoringUrl={`/api/workspaces/${workspace.id}/scoring`}
+                                description="Set the recommendation cut-offs and opportunity weights every app in this workspace starts from."
+                                trigger={
+                                    <Button type="button" variant="outline" size="sm" className="gap-2">
+                                        <SlidersHorizontal className="h-4 w-4" />
+                                        Scoring
+                                    </Button>
+                                }
+                                onScoringChanged={() => onAppsChanged?.()}
+                            />
+                        </div>
+
+                        {apps.length > 0 && workspaces.length > 1 && (
+                            <div className="space-y-2">
+                                <p className="text-sm font-medium">Apps</p>
+                                <ul className="space-y-1 max-h-48 overflow-y-auto">
+                                    {apps.map((app) => (
+                                        <li key={app.id} className="flex items-center gap-2 text-sm">
+                                            <span className="flex-1 truncate">{app.title}</span>
+                                            <select
+                                                value={workspace.id}
+                                                onChange={(e) => handleMoveApp(app, Number(e.target.value))}
+                                                title="Move to workspace"
+                                                className="h-8 w-40 rounded-md border border-input bg-transparent px-2 text-xs shadow-xs outline-none focus-visible:border-ring dark:bg-input/30"
+                                            >
+                                                {workspaces.map((w) => (
+                                                    <option key={w.id} value={w.id}>
+                                                        {w.name}
+                                                    </option>
+                                                ))}
+                                            </select>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        )}
+                    </>
+                )}
+
+                {error && (
+                    <div className="flex items-center gap-2 text-sm text-destructive">
+                        <AlertCircle className="h-4 w-4" />
+                        {error}
+                    </div>
+                )}
+
+                <DialogFooter>
+                    {workspace && (
+                        <Button
+                            type="button"
+                            variant="ghost"
+                            onClick={handleDelete}
+                            disabled={loading || workspace.appCount > 0 || workspaces.length <= 1}
+                            title={workspace.appCount > 0 ? 'Move or delete its apps first' : undefined}
+                            className="mr-auto gap-2 text-destructive"
+                        >
+                            <Trash2 className="h-4 w-4" />
+                            Delete
+                        </Button>
+                    )}
+                    <Button type="button" variant="outline" onClick={() => setOpen(false)} disabled={loading}>
+                        Cancel
+                    </Button>
+                    <Button type="submit" form="workspace-form" disabled={loading}>
+                        {loading ? (
+                            <>
+                                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                                Saving...
+                            </>
+                        ) : workspace ? (
+                            'Save'
+                        ) : (
+                            'Create'
+                        )}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,67 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { WorkspaceDialog } from '@/components/workspace-dialog';
+import { Plus, Settings2 } from 'lucide-react';
+import type { AppWithStats, Workspace } from '@/types';
+
+interface WorkspaceSwitcherProps {
+    workspaces: Workspace[];
+    activeWorkspace: Workspace | null;
+    // The active workspace's apps
+    apps: AppWithStats[];
+    onSelectWorkspace: (workspaceId: number) => void;
+    // Reload the workspace list, switching to the given workspace if any
+    onWorkspacesChanged: (selectId?: number) => void;
+    onAppsChanged: () => void;
+}
+
+export function WorkspaceSwitcher({
+    workspaces,
+    activeWorkspace,
+    apps,
+    onSelectWorkspace,
+    onWorkspacesChanged,
+    onAppsChanged,
+}: WorkspaceSwitcherProps) {
+    return (
+        <div className="p-2 border-b flex items-center gap-1">
+            <select
+                value={activeWorkspace?.id ?? ''}
+                onChange={(e) => onSelectWorkspace(Number(e.target.value))}
+                title="Switch workspace"
+                className="h-8 flex-1 min-w-0 rounded-md border border-input bg-transparent px-2 text-sm font-medium shadow-xs outline-none focus-visible:border-ring dark:bg-input/30"
+            >
+                {workspaces.map((workspace) => (
+                    <option key={workspace.id} value={workspace.id}>
+                        {workspace.name} ({workspace.appCount})
+                    </option>
+                ))}
+            </select>
+            <WorkspaceDialog
+                workspaces={workspaces}
+                onSaved={(workspace) => onWorkspacesChanged(workspace.id)}
+                trigger={
+                    <Button variant="ghost" size="icon-sm" title="New workspace" className="h-8 w-8 text-muted-foreground">
+                        <Plus className="h-4 w-4" />
+                    </Button>
+                }
+            />
+            {activeWorkspace && (
+                <WorkspaceDialog
+                    workspace={activeWorkspace}
+                    apps={apps}
+                    workspaces={workspaces}
+                    onSaved={() => onWorkspacesChanged()}
+                    onDeleted={() => onWorkspacesChanged(workspaces.find((w) => w.id !== activeWorkspace.id)?.id)}
+                    onAppsChanged={onAppsChanged}
+                    trigger={
+                        <Button variant="ghost" size="icon-sm" title="Workspace settings" className="h-8 w-8 text-muted-foreground">
+                            <Settings2 className="h-4 w-4" />
+                        </Button>
+                    }
+                />
+            )}
+        </div>
+    );
+}
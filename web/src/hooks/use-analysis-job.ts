@@ -0,0 +1,53 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { AnalysisJob } from '@/types';
+
+/**
+ * Subscribes to the progress stream of an analysis job.
+ * `onFinished` is called once with the final job when it completes or fails.
+ */
+export function useAnalysisJob(jobId: number | null, onFinished?: (job: AnalysisJob) => void) {
+    const [job, setJob] = useState<AnalysisJob | null>(null);
+    const onFinishedRef = useRef(onFinished);
+
+    useEffect(() => {
+        onFinishedRef.current = onFinished;
+    });
+
+    useEffect(() => {
+        if (jobId === null) return;
+
+        const source = new EventSource(`/api/jobs/${jobId}/events`);
+
+        source.addEventListener('progress', (event) => {
+            setJob(JSON.parse((event as MessageEvent).data));
+        });
+
+        source.addEventListener('done', (event) => {
+            const finishedJob: AnalysisJob = JSON.parse((event as MessageEvent).data);
+            setJob(finishedJob);
+            source.close();
+            onFinishedRef.current?.(finishedJob);
+        });
+
+        // The job can no longer be read, e.g. it was removed while running
+        source.addEventListener('failed', (event) => {
+            const { error } = JSON.parse((event as MessageEvent).data);
+            console.error(`Stopped following job ${jobId}:`, error);
+            source.close();
+        });
+
+        // Connection errors, not job failures, which arrive as a done event
+        source.addEventListener('error', () => {
+            // EventSource reconnects on its own unless the stream was closed for good
+            if (source.readyState === EventSource.CLOSED) {
+                source.close();
+            }
+        });
+
+        return () => source.close();
+    }, [jobId]);
+
+    return job;
+}
@@ -0,0 +1,8 @@
+// Runs once when the Next.js server starts
+export async function register() {
+    // The scheduler needs Node APIs and the database, and has nothing to do while building
+    if (process.env.NEXT_RUNTIME !== 'nodejs' || process.env.NEXT_PHASE === 'phase-production-build') return;
+
+    const { startScheduler } = await import('@/lib/analysis/scheduler');
+    startScheduler();
+}
@@ -0,0 +1,256 @@
+import { db } from '@/lib/db';
+import {
+    alertEvents,
+    alertRules,
+    apps,
+    type AlertEvent,
+    type AlertRule,
+    type AnalysisJob,
+    type NewAlertEvent,
+} from '@/lib/db/schema';
+import { and, desc, eq, inArray } from 'drizzle-orm';
+import { normalizeKeyword } from '@/lib/analysis/keywords';
+import { createWebhookSecret, deliverPendingWebhooks } from './webhooks';
+
+export const ALERT_CONDITIONS = ['recommendation_change', 'traffic_change', 'job_failed'];
+export const ALERT_CHANNELS = ['in_app', 'webhook'];
+
+export type AlertCondition = 'recommendation_change' | 'traffic_change' | 'job_failed';
+export type AlertChannel = 'in_app' | 'webhook';
+
+// Traffic points a traffic_change rule has to exceed when it doesn't set its own
+export const DEFAULT_TRAFFIC_THRESHOLD = 10;
+
+// Alert history returned with an app's rules
+const RECENT_EVENT_LIMIT = 50;
+
+export interface AlertRuleInput {
+    keyword?: string | null;
+    condition: AlertCondition;
+    threshold?: number | null;
+    channel: AlertChannel;
+    webhookUrl?: string | null;
+    enabled?: boolean;
+}
+
+// A keyword's metrics before and after a new snapshot was recorded
+export interface KeywordMetricChange {
+    appId: number;
+    keyword: string;
+    country: string;
+    previous: { traffic: number | null; recommendation: string | null };
+    current: { traffic: number | null; recommendation: string | null };
+}
+
+function isWebhookUrl(value: unknown) {
+    if (typeof value !== 'string') return false;
+    try {
+        const url = new URL(value);
+        return url.protocol === 'http:' || url.protocol === 'https:';
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Checks a rule from a request body, returning a list of problems (empty when valid).
+ * With `partial`, only the fields present are checked, for updates.
+ */
+export function validateAlertRule(body: Record<string, unknown>, partial = false) {
+    const errors: string[] = [];
+    const has = (field: string) => !partial || body[field] !== undefined;
+
+    if (has('condition') && !ALERT_CONDITIONS.includes(body.condition as string)) {
+        errors.push(`condition must be one of: ${ALERT_CONDITIONS.join(', ')}`);
+    }
+    if (has('channel') && !ALERT_CHANNELS.includes(body.channel as string)) {
+        errors.push(`channel must be one of: ${ALERT_CHANNELS.join(', ')}`);
+    }
+    if (body.keyword !== undefined && body.keyword !== null &&
+        (typeof body.keyword !== 'string' || !body.keyword.trim())) {
+        errors.push('keyword must be a non-empty string, or null to watch every keyword');
+    }
+    if (body.keyword && body.condition === 'job_failed') {
+        errors.push('job_failed rules watch the whole app and cannot target a keyword');
+    }
+    if (body.threshold !== undefined && body.threshold !== null &&
+        (!Number.isInteger(body.threshold) || (body.threshold as number) < 1 || (body.threshold as number) > 100)) {
+        errors.push('threshold must be a whole number of traffic points between 1 and 100');
+    }
+    if (body.channel === 'webhook' && !isWebhookUrl(body.webhookUrl)) {
+        errors.push('webhook rules need an http(s) webhookUrl');
+    }
+    if (body.enabled !== undefined && typeof body.enabled !== 'boolean') {
+        errors.push('enabled must be a boolean');
+    }
+
+    return errors;
+}
+
+// Parse the stored JSON details for API responses
+export function serializeAlertEvent(event: AlertEvent) {
+    return { ...event, details: JSON.parse(event.details) };
+}
+
+// The signing secret lets anyone forge webhook payloads, so it's only included
+// for users who can edit the rule
+export async function getAlertRules(appId: number, includeSecrets: boolean) {
+    const rules = await db.select().from(alertRules).where(eq(alertRules.appId, appId)).orderBy(alertRules.id);
+    return includeSecrets ? rules : rules.map(rule => ({ ...rule, webhookSecret: null }));
+}
+
+// An app's most recent alerts across all channels, newest first
+export async function getAlertHistory(appId: number, limit = RECENT_EVENT_LIMIT) {
+    const events = await db
+        .select()
+        .from(alertEvents)
+        .where(eq(alertEvents.appId, appId))
+        .orderBy(desc(alertEvents.firedAt), desc(alertEvents.id))
+        .limit(limit);
+    return events.map(serializeAlertEvent);
+}
+
+// Webhook rules get a signing secret of their own when they're created
+export async function createAlertRule(appId: number, input: AlertRuleInput) {
+    const now = new Date().toISOString();
+    const [rule] = await db.insert(alertRules).values({
+        appId,
+        keyword: input.keyword ? normalizeKeyword(input.keyword) : null,
+        condition: input.condition,
+        threshold: input.condition === 'traffic_change' ? input.threshold ?? DEFAULT_TRAFFIC_THRESHOLD : null,
+        channel: input.channel,
+        webhookUrl: input.channel === 'webhook' ? input.webhookUrl : null,
+        webhookSecret: input.channel === 'webhook' ? createWebhookSecret() : null,
+        enabled: input.enabled ?? true,
+        createdAt: now,
+        updatedAt: now,
+    }).returning();
+    return rule;
+}
+
+function formatTraffic(value: number) {
+    return Math.round(value * 10) / 10;
+}
+
+// The alert a keyword rule fires for a change, or null when the change doesn't meet it
+function matchKeywordRule(rule: AlertRule, change: KeywordMetricChange, appTitle: string) {
+    const { previous, current } = change;
+    const where = `"${change.keyword}" in ${appTitle} (${change.country.toUpperCase()})`;
+
+    if (rule.condition === 'recommendation_change') {
+        if (!previous.recommendation || !current.recommendation || previous.recommendation === current.recommendation) {
+            return null;
+        }
+        return {
+            message: `${where} went from ${previous.recommendation} to ${current.recommendation}`,
+            details: { from: previous.recommendation, to: current.recommendation, traffic: current.traffic },
+        };
+    }
+
+    if (rule.condition === 'traffic_change') {
+        if (previous.traffic === null || current.traffic === null) return null;
+
+        const delta = current.traffic - previous.traffic;
+        if (Math.abs(delta) <= (rule.threshold ?? DEFAULT_TRAFFIC_THRESHOLD)) return null;
+
+        const sign = delta > 0 ? '+' : '';
+        return {
+            message: `Traffic for ${where} moved from ${formatTraffic(previous.traffic)} to ` +
+                `${formatTraffic(current.traffic)} (${sign}${formatTraffic(delta)})`,
+            details: { from: previous.traffic, to: current.traffic, delta, threshold: rule.threshold },
+        };
+    }
+
+    return null;
+}
+
+/**
+ * Stores fired alerts and starts their webhook deliveries. In-app alerts are
+ * delivered by being stored, webhooks are sent in the background and retried.
+ */
+async function fireAlerts(fired: { rule: AlertRule; event: Omit<NewAlertEvent, 'ruleId' | 'appId' | 'channel' | 'firedAt' | 'deliveryStatus'> }[]) {
+    if (fired.length === 0) return [];
+
+    const now = new Date().toISOString();
+    const events = await db.insert(alertEvents).values(fired.map(({ rule, event }) => ({
+        ...event,
+        ruleId: rule.id,
+        appId: rule.appId,
+        channel: rule.channel,
+        firedAt: now,
+        deliveryStatus: rule.channel === 'webhook' ? 'pending' : 'delivered',
+        nextAttemptAt: rule.channel === 'webhook' ? now : null,
+        deliveredAt: rule.channel === 'webhook' ? null : now,
+    }))).returning();
+
+    console.log(`Fired ${events.length} alerts`);
+
+    if (events.some(event => event.channel === 'webhook')) {
+        deliverPendingWebhooks().catch(error => console.error('Error delivering webhooks:', error));
+    }
+    return events;
+}
+
+// Enabled rules of the given conditions for a set of apps, with the apps' titles
+async function getActiveRules(appIds: number[], conditions: AlertCondition[]) {
+    const rules = await db
+        .select()
+        .from(alertRules)
+        .where(and(
+            inArray(alertRules.appId, appIds),
+            inArray(alertRules.condition, conditions),
+            eq(alertRules.enabled, true)
+        ));
+    if (rules.length === 0) return { rules, titles: new Map<number, string>() };
+
+    const titles = await db
+        .select({ id: apps.id, title: apps.title })
+        .from(apps)
+        .where(inArray(apps.id, Array.from(new Set(rules.map(rule => rule.appId)))));
+    return { rules, titles: new Map(titles.map(app => [app.id, app.title])) };
+}
+
+// Checks recorded metric changes against recommendation and traffic rules
+export async function fireKeywordAlerts(changes: KeywordMetricChange[]) {
+    if (changes.length === 0) return [];
+
+    const appIds = Array.from(new Set(changes.map(change => change.appId)));
+    const { rules, titles } = await getActiveRules(appIds, ['recommendation_change', 'traffic_change']);
+
+    const fired = changes.flatMap(change => rules
+        .filter(rule => rule.appId === change.appId && (rule.keyword === null || rule.keyword === change.keyword))
+        .flatMap(rule => {
+            const match = matchKeywordRule(rule, change, titles.get(rule.appId) ?? `App ${rule.appId}`);
+            return match ? [{
+                rule,
+                event: {
+                    keyword: change.keyword,
+                    country: change.country,
+                    condition: rule.condition,
+                    message: match.message,
+                    details: JSON.stringify(match.details),
+                },
+            }] : [];
+        }));
+
+    return fireAlerts(fired);
+}
+
+// Fires job_failed rules for the app a failed job belonged to
+export async function fireJobFailedAlerts(job: AnalysisJob, error: string) {
+    if (job.appId === null) return [];
+
+    const { rules, titles } = await getActiveRules([job.appId], ['job_failed']);
+
+    return fireAlerts(rules.map(rule => ({
+        rule,
+        event: {
+            keyword: null,
+            country: job.country,
+            condition: rule.condition,
+            message: `The ${job.kind} job for ${titles.get(rule.appId) ?? `App ${rule.appId}`} ` +
+                `(${job.country.toUpperCase()}) failed: ${error}`,
+            details: JSON.stringify({ jobId: job.id, kind: job.kind, error }),
+        },
+    })));
+}
@@ -0,0 +1,196 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac } from 'crypto';
+import { eq } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { alertEvents, alertRules, apps, type AlertEvent } from '@/lib/db/schema';
+import {
+    WEBHOOK_MAX_ATTEMPTS,
+    buildWebhookPayload,
+    createWebhookSecret,
+    deliverPendingWebhooks,
+    signWebhookPayload,
+} from './webhooks';
+
+describe('signWebhookPayload', () => {
+    it('signs "<timestamp>.<body>" with HMAC-SHA256', () => {
+        const expected = createHmac('sha256', 'secret').update('1700000000.{"id":1}').digest('hex');
+        assert.equal(signWebhookPayload('secret', '1700000000', '{"id":1}'), expected);
+    });
+
+    it('changes with the secret, the timestamp and the body', () => {
+        const signature = signWebhookPayload('secret', '1700000000', 'body');
+        assert.notEqual(signWebhookPayload('other', '1700000000', 'body'), signature);
+        assert.notEqual(signWebhookPayload('secret', '1700000001', 'body'), signature);
+        assert.notEqual(signWebhookPayload('secret', '1700000000', 'body '), signature);
+    });
+});
+
+describe('createWebhookSecret', () => {
+    it('creates a fresh 48-character hex secret each time', () => {
+        const secret = createWebhookSecret();
+        assert.match(secret, /^[0-9a-f]{48}$/);
+        assert.notEqual(createWebhookSecret(), secret);
+    });
+});
+
+describe('buildWebhookPayload', () => {
+    it('sends the alert with its details parsed and without delivery state', () => {
+        const event: AlertEvent = {
+            id: 3,
+            ruleId: 1,
+            appId: 2,
+            keyword: 'meeting notes',
+            country: 'us',
+            condition: 'traffic_change',
+            message: 'Traffic of "meeting notes" rose by 12',
+            details: '{"previous":30,"current":42}',
+            channel: 'webhook',
+            firedAt: '2025-03-10T06:00:00.000Z',
+            deliveryStatus: 'pending',
+            attempts: 2,
+            nextAttemptAt: null,
+            lastError: 'HTTP 500',
+            deliveredAt: null,
+            readAt: null,
+        };
+
+        assert.deepEqual(buildWebhookPayload(event), {
+            id: 3,
+            condition: 'traffic_change',
+            message: 'Traffic of "meeting notes" rose by 12',
+            appId: 2,
+            keyword: 'meeting notes',
+            country: 'us',
+            details: { previous: 30, current: 42 },
+            firedAt: '2025-03-10T06:00:00.000Z',
+        });
+    });
+});
+
+// Runs against the in-memory database the test script sets up with DATABASE_PATH
+describe('deliverPendingWebhooks', () => {
+    const secret = 'secret';
+    let ruleId: number;
+    let appId: number;
+
+    const addEvent = async (values: Partial<typeof alertEvents.$inferInsert> = {}) => {
+        const [event] = await db.insert(alertEvents).values({
+            ruleId,
+            appId,
+            keyword: 'meeting notes',
+            country: 'us',
+            condition: 'traffic_change',
+            message: 'Traffic of "meeting notes" rose by 12',
+            details: '{}',
+            channel: 'webhook',
+            firedAt: new Date().toISOString(),
+            deliveryStatus: 'pending',
+            nextAttemptAt: new Date().toISOString(),
+            ...values,
+        }).returning();
+        return event;
+    };
+
+    const getEvent = async (id: number) =>
+        (await db.select().from(alertEvents).where(eq(alertEvents.id, id)))[0];
+
+    const respondWith = (status: number) =>
+        mock.method(globalThis, 'fetch', async () => new Response(null, { status }));
+
+    beforeEach(async () => {
+        const now = new Date().toISOString();
+        const [app] = await db.insert(apps).values({
+            appStoreId: String(Math.floor(Math.random() * 1e9)),
+            title: 'Cue',
+            description: '',
+            genres: '[]',
+            analyzedAt: now,
+        }).returning();
+        const [rule] = await db.insert(alertRules).values({
+            appId: app.id,
+            condition: 'traffic_change',
+            threshold: 10,
+            channel: 'webhook',
+            webhookUrl: 'https://example.com/hook',
+            webhookSecret: secret,
+            createdAt: now,
+            updatedAt: now,
+        }).returning();
+        appId = app.id;
+        ruleId = rule.id;
+    });
+
+    afterEach(() => {
+        mock.restoreAll();
+    });
+
+    it('posts due alerts signed with the rule\'s secret', async () => {
+        const fetchMock = respondWith(204);
+        const event = await addEvent();
+
+        await deliverPendingWebhooks();
+
+        assert.equal(fetchMock.mock.callCount(), 1);
+        const [url, init] = fetchMock.mock.calls[0].arguments as [string, RequestInit];
+        const headers = init.headers as Record<string, string>;
+        assert.equal(url, 'https://example.com/hook');
+        assert.equal(
+            headers['X-ASO-Signature'],
+            `sha256=${signWebhookPayload(secret, headers['X-ASO-Timestamp'], init.body as string)}`
+        );
+
+        const delivered = await getEvent(event.id);
+        assert.equal(delivered.deliveryStatus, 'delivered');
+        assert.equal(delivered.attempts, 1);
+        assert.equal(delivered.nextAttemptAt, null);
+    });
+
+    it('plans a retry with backoff when the receiver fails', async () => {
+        respondWith(500);
+        const event = await addEvent();
+        const started = Date.now();
+
+        await deliverPendingWebhooks();
+
+        const pending = await getEvent(event.id);
+        assert.equal(pending.deliveryStatus, 'pending');
+        assert.equal(pending.attempts, 1);
+        assert.equal(pending.lastError, 'Webhook responded with HTTP 500');
+        // The first retry waits between half a minute and a minute
+        const wait = new Date(pending.nextAttemptAt!).getTime() - started;
+        assert.ok(wait >= 30 * 1000 && wait <= 61 * 1000, `retry in ${wait} ms`);
+    });
+
+    it('leaves alerts alone until their retry is due', async () => {
+        const fetchMock = respondWith(204);
+        const event = await addEvent({ attempts: 1, nextAttemptAt: new Date(Date.now() + 60 * 1000).toISOString() });
+
+        await deliverPendingWebhooks();
+
+        assert.equal(fetchMock.mock.callCount(), 0);
+        assert.equal((await getEvent(event.id)).deliveryStatus, 'pending');
+    });
+
+    it('gives up after the last attempt', async () => {
+        respondWith(503);
+        const event = await addEvent({ attempts: WEBHOOK_MAX_ATTEMPTS - 1 });
+
+        await deliverPendingWebhooks();
+
+        const failed = await getEvent(event.id);
+        assert.equal(failed.deliveryStatus, 'failed');
+        assert.equal(failed.attempts, WEBHOOK_MAX_ATTEMPTS);
+        assert.equal(failed.nextAttemptAt, null);
+    });
+
+    it('fails alerts whose rule was removed without sending them', async () => {
+        const fetchMock = respondWith(204);
+        const event = await addEvent({ ruleId: null });
+
+        await deliverPendingWebhooks();
+
+        assert.equal(fetchMock.mock.callCount(), 0);
+        assert.equal((await getEvent(event.id)).lastError, 'The alert rule or its webhook was removed');
+    });
+});
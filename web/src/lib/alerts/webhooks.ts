@@ -0,0 +1,139 @@
+import { createHmac, randomBytes } from 'crypto';
+import { db } from '@/lib/db';
+import { alertEvents, alertRules, type AlertEvent } from '@/lib/db/schema';
+import { and, eq, lte } from 'drizzle-orm';
+import { backoffDelay } from '@services/keyword-pool';
+
+// Attempts made before a webhook delivery is given up as failed
+export const WEBHOOK_MAX_ATTEMPTS = 6;
+
+const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+
+// Retries back off from a minute up to an hour, so a receiver can be down for a
+// few hours without alerts getting lost
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+export function createWebhookSecret() {
+    return randomBytes(24).toString('hex');
+}
+
+/**
+ * HMAC-SHA256 over "<timestamp>.<body>", sent as X-ASO-Signature: sha256=<hex>.
+ * Receivers recompute it with the rule's secret and the X-ASO-Timestamp header,
+ * and can reject old timestamps to guard against replays.
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string) {
+    return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+// The JSON body posted for an alert
+export function buildWebhookPayload(event: AlertEvent) {
+    return {
+        id: event.id,
+        condition: event.condition,
+        message: event.message,
+        appId: event.appId,
+        keyword: event.keyword,
+        country: event.country,
+        details: JSON.parse(event.details),
+        firedAt: event.firedAt,
+    };
+}
+
+async function sendWebhook(url: string, secret: string, event: AlertEvent) {
+    const body = JSON.stringify(buildWebhookPayload(event));
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+
+    const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': 'aso-analytics-webhooks',
+            'X-ASO-Event': event.condition,
+            'X-ASO-Timestamp': timestamp,
+            'X-ASO-Signature': `sha256=${signWebhookPayload(secret, timestamp, body)}`,
+        },
+        body,
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+        throw new Error(`Webhook responded with HTTP ${response.status}`);
+    }
+}
+
+// One delivery attempt, planning the next one when it fails and attempts are left
+async function deliverEvent(event: AlertEvent) {
+    const [rule] = event.ruleId !== null
+        ? await db.select().from(alertRules).where(eq(alertRules.id, event.ruleId)).limit(1)
+        : [];
+    const now = new Date();
+
+    if (!rule?.webhookUrl || !rule.webhookSecret) {
+        await db.update(alertEvents).set({
+            deliveryStatus: 'failed',
+            nextAttemptAt: null,
+            lastError: 'The alert rule or its webhook was removed',
+        }).where(eq(alertEvents.id, event.id));
+        return;
+    }
+
+    const attempts = event.attempts + 1;
+    try {
+        await sendWebhook(rule.webhookUrl, rule.webhookSecret, event);
+        await db.update(alertEvents).set({
+            deliveryStatus: 'delivered',
+            attempts,
+            nextAttemptAt: null,
+            lastError: null,
+            deliveredAt: now.toISOString(),
+        }).where(eq(alertEvents.id, event.id));
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Webhook delivery failed';
+        const givenUp = attempts >= WEBHOOK_MAX_ATTEMPTS;
+        const wait = backoffDelay(attempts, RETRY_BASE_DELAY_MS, RETRY_MAX_DELAY_MS);
+
+        await db.update(alertEvents).set({
+            deliveryStatus: givenUp ? 'failed' : 'pending',
+            attempts,
+            nextAttemptAt: givenUp ? null : new Date(now.getTime() + wait).toISOString(),
+            lastError: message,
+        }).where(eq(alertEvents.id, event.id));
+
+        console.warn(`Webhook for alert ${event.id} failed (attempt ${attempts}/${WEBHOOK_MAX_ATTEMPTS}): ${message}`);
+    }
+}
+
+let delivering = false;
+
+/**
+ * Sends every webhook that is due. Called right after alerts fire, and on each
+ * scheduler tick for retries, so deliveries survive a restart. Alerts that fire
+ * while a batch is being sent are picked up before it returns.
+ */
+export async function deliverPendingWebhooks() {
+    if (delivering) return;
+    delivering = true;
+
+    try {
+        for (;;) {
+            const due = await db
+                .select()
+                .from(alertEvents)
+                .where(and(
+                    eq(alertEvents.deliveryStatus, 'pending'),
+                    lte(alertEvents.nextAttemptAt, new Date().toISOString())
+                ))
+                .orderBy(alertEvents.id);
+
+            if (due.length === 0) break;
+
+            for (const event of due) {
+                await deliverEvent(event);
+            }
+        }
+    } finally {
+        delivering = false;
+    }
+}
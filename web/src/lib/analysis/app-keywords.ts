@@ -0,0 +1,56 @@
+import { db } from '@/lib/db';
+import { keywords, type Keyword } from '@/lib/db/schema';
+import { and, eq, sql } from 'drizzle-orm';
+import { DEFAULT_COUNTRY } from '@/lib/countries';
+import { getLatestRanks } from './ranks';
+import { mergeKeywordCandidates, normalizeKeyword, type KeywordCandidate } from './keywords';
+
+// Upper bound for keywords added with a single request, they are scored in a job
+export const MAX_KEYWORDS_PER_REQUEST = 50;
+
+export const KEYWORD_STATUSES = ['candidate', 'tracking', 'in_metadata', 'rejected'];
+
+// Parse the stored JSON tags for API responses
+export function serializeKeyword(row: Keyword) {
+    return { ...row, tags: JSON.parse(row.tags || '[]') as string[] };
+}
+
+// An app's keywords in one storefront, best opportunity first, with their latest
+// search rank check attached
+export async function getAppKeywords(appId: number, country: string = DEFAULT_COUNTRY) {
+    const rows = await db
+        .select()
+        .from(keywords)
+        .where(and(eq(keywords.appId, appId), eq(keywords.country, country)))
+        .orderBy(sql`${keywords.opportunity} DESC NULLS LAST`);
+
+    const ranks = await getLatestRanks(appId, rows.map(row => row.keyword), country);
+
+    return rows.map(row => ({
+        ...serializeKeyword(row),
+        rank: ranks.get(normalizeKeyword(row.keyword)) ?? null,
+    }));
+}
+
+// Trim, lowercase and dedupe tags, dropping empty ones
+export function normalizeTags(tags: string[]) {
+    return Array.from(new Set(tags.map(tag => tag.trim().toLowerCase()).filter(tag => tag.length > 0)));
+}
+
+/**
+ * Splits keyword candidates into the ones an app doesn't track yet in a storefront,
+ * merged and normalized, and the keywords it already tracks there.
+ */
+export async function partitionNewKeywords(appId: number, candidates: KeywordCandidate[], country: string = DEFAULT_COUNTRY) {
+    const existingRows = await db
+        .select({ keyword: keywords.keyword })
+        .from(keywords)
+        .where(and(eq(keywords.appId, appId), eq(keywords.country, country)));
+    const existing = new Set(existingRows.map(row => normalizeKeyword(row.keyword)));
+
+    const merged = mergeKeywordCandidates(candidates);
+    return {
+        toAdd: merged.filter(candidate => !existing.has(candidate.keyword)),
+        duplicates: merged.filter(candidate => existing.has(candidate.keyword)).map(c => c.keyword),
+    };
+}
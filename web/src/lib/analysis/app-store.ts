@@ -0,0 +1,57 @@
+import { DEFAULT_COUNTRY } from '@/lib/countries';
+
+export interface StoreAppData {
+    title: string;
+    description: string;
+    genres: string[];
+    screenshots: string[];
+}
+
+// Fetch app metadata from an App Store storefront
+export async function getAppData(appId: number, country: string = DEFAULT_COUNTRY): Promise<StoreAppData> {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const store = require('app-store-scraper');
+    const appData = await store.app({ id: appId, country });
+    return {
+        title: appData.title,
+        description: appData.description,
+        genres: appData.genres || [],
+        screenshots: appData.screenshots || []
+    };
+}
+
+// Fetch the App Store's "similar apps" for an app
+export async function getSimilarApps(appId: number, country: string = DEFAULT_COUNTRY): Promise<{ id: number; title: string }[]> {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const store = require('app-store-scraper');
+    const similarApps = await store.similar({ id: appId, country });
+    return similarApps.map((app: { id: number; title: string }) => ({ id: app.id, title: app.title }));
+}
+
+// IDs of the apps an App Store search returns, in result order
+export async function searchAppIds(term: string, country: string = DEFAULT_COUNTRY, num = 100): Promise<number[]> {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const store = require('app-store-scraper');
+    const results = await store.search({ term, country, num, idsOnly: true });
+    return results.map((id: number | string) => Number(id));
+}
+
+// Look an app up by its exact title, used when all we know about an app is its name.
+// Returns null when no search result has that title.
+export async function findAppStoreIdByTitle(title: string, country: string = DEFAULT_COUNTRY): Promise<string | null> {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const store = require('app-store-scraper');
+    const results: { id: number; title: string }[] = await store.search({ term: title, country, num: 10 });
+    const match = results.find(app => app.title.trim().toLowerCase() === title.trim().toLowerCase());
+    return match ? String(match.id) : null;
+}
+
+// App Store autocomplete suggestions - proven user searches, not AI guesses
+export async function getSearchSuggestions(term: string, country: string = DEFAULT_COUNTRY): Promise<string[]> {
+    if (!term.trim()) return [];
+
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const store = require('app-store-scraper');
+    const suggestions = await store.suggest({ term: term.trim(), country });
+    return suggestions.map((s: { term?: string } | string) => (typeof s === 'string' ? s : s.term ?? ''));
+}
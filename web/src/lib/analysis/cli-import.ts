@@ -0,0 +1,282 @@
+import { db } from '@/lib/db';
+import { apps, cliImports, keywords, type App, type NewKeyword } from '@/lib/db/schema';
+import { and, eq } from 'drizzle-orm';
+import { DEFAULT_COUNTRY, isSupportedCountry } from '@/lib/countries';
+import { getDefaultWorkspace } from '@/lib/workspaces';
+import fs from 'fs';
+import path from 'path';
+import { findAppStoreIdByTitle } from './app-store';
+import { recordKeywordSnapshots } from './history';
+import { normalizeKeyword } from './keywords';
+
+export type CliRunStatus = 'in_progress' | 'completed';
+
+// One keyword as written by analyzeAllKeywords in main.js
+interface CliKeywordResult {
+    keyword: string;
+    traffic: number | null;
+    difficulty: number | null;
+    opportunity: number | null;
+    recommendation: string;
+    analysisSucceeded?: boolean;
+    failureReason?: string | null;
+    analyzedAt?: string;
+    source?: string;
+    sourceSeed?: string | null;
+    sourceAppStoreId?: string | number | null;
+    sourceAppTitle?: string | null;
+    fromScreenshots?: boolean;
+}
+
+// Shape of both _progressive.json (unfinished run) and _progressive_final.json.
+// Older CLI versions wrote neither the app ID nor the country.
+interface CliResultsFile {
+    appData: {
+        id?: number | string;
+        title: string;
+        description?: string;
+        genres?: string[];
+        screenshots?: string[];
+    };
+    country?: string;
+    completedAt?: string;
+    lastUpdated?: string;
+    totalKeywords?: number;
+    results: CliKeywordResult[];
+}
+
+export interface ImportReport {
+    folder: string;
+    file: string;
+    status: CliRunStatus;
+    appId: number;
+    appTitle: string;
+    appStoreId: string | null; // null when the real store ID couldn't be found
+    createdApp: boolean;
+    storeIdRecovered: boolean;
+    processed: number;
+    total: number;
+    added: string[];
+    updated: string[];
+    unchanged: number;
+}
+
+export type ImportOutcome = { report: ImportReport } | { skipped: string };
+
+// Apps imported without a known store ID get a placeholder that can't be refreshed
+function hasStoreId(appStoreId: string | null | undefined): appStoreId is string {
+    return !!appStoreId && !isNaN(parseInt(appStoreId, 10));
+}
+
+// Prefer the finished run, fall back to the progress file of an unfinished one
+function findResultsFile(folderPath: string): { file: string; status: CliRunStatus } | null {
+    const files = fs.readdirSync(folderPath);
+    const finalFile = files.find(f => f.endsWith('_progressive_final.json'));
+    if (finalFile) return { file: finalFile, status: 'completed' };
+
+    const progressFile = files.find(f => f.endsWith('_progressive.json'));
+    if (progressFile) return { file: progressFile, status: 'in_progress' };
+
+    return null;
+}
+
+/**
+ * Finds the app a results file belongs to. The store ID comes from the file when
+ * the CLI wrote one, otherwise from an App Store search for the exact title. Apps
+ * are matched by store ID; a title match only counts for apps an earlier import
+ * created with a placeholder ID, since different apps can share a title.
+ */
+async function resolveApp(data: CliResultsFile, country: string) {
+    const title = data.appData.title;
+    let appStoreId = hasStoreId(String(data.appData.id ?? '')) ? String(data.appData.id) : null;
+
+    const byTitle = await db.select().from(apps).where(eq(apps.title, title));
+    let app: App | null = byTitle.find(a => !hasStoreId(a.appStoreId)) ?? null;
+
+    if (appStoreId) {
+        const [byStoreId] = await db.select().from(apps).where(eq(apps.appStoreId, appStoreId)).limit(1);
+        app = byStoreId ?? app;
+    } else {
+        try {
+            appStoreId = await findAppStoreIdByTitle(title, country);
+        } catch (error) {
+            console.warn(`Failed to look up the App Store ID of "${title}":`, error);
+        }
+
+        if (appStoreId) {
+            const [byStoreId] = await db.select().from(apps).where(eq(apps.appStoreId, appStoreId)).limit(1);
+            app = byStoreId ?? app;
+        }
+    }
+
+    return { app, appStoreId };
+}
+
+/**
+ * Imports one CLI results folder. New keywords are added, keywords the file has
+ * newer metrics for are updated, and everything else is left alone, so importing
+ * the same file again changes nothing. Notes, tags and status set in the dashboard
+ * are kept. Unfinished runs import what they have so far and are recorded as in
+ * progress until their final file shows up.
+ */
+export async function importResultsFolder(resultsDir: string, folder: string): Promise<ImportOutcome> {
+    const folderPath = path.join(resultsDir, folder);
+    const found = findResultsFile(folderPath);
+
+    if (!found) {
+        return { skipped: `${folder} (no results file)` };
+    }
+
+    const data: CliResultsFile = JSON.parse(fs.readFileSync(path.join(folderPath, found.file), 'utf-8'));
+
+    if (!data.appData?.title || !Array.isArray(data.results)) {
+        throw new Error('Invalid data structure');
+    }
+
+    // Results from CLI runs before storefronts were selectable are US numbers
+    const country = isSupportedCountry(data.country) ? data.country : DEFAULT_COUNTRY;
+    const fileUpdatedAt = data.completedAt || data.lastUpdated || new Date().toISOString();
+
+    const [previousImport] = await db.select().from(cliImports).where(eq(cliImports.folder, folder)).limit(1);
+    const { app: existingApp, appStoreId } = await resolveApp(data, country);
+
+    if (
+        existingApp &&
+        previousImport?.appId === existingApp.id &&
+        previousImport.file === found.file &&
+        previousImport.fileUpdatedAt === fileUpdatedAt
+    ) {
+        return { skipped: `${folder} (unchanged since last import)` };
+    }
+
+    const metadata = {
+        title: data.appData.title,
+        description: data.appData.description || '',
+        genres: JSON.stringify(data.appData.genres || []),
+        screenshotCount: data.appData.screenshots?.length || 0,
+        screenshots: JSON.stringify(data.appData.screenshots || []),
+    };
+
+    let app: App;
+    let storeIdRecovered = false;
+
+    if (!existingApp) {
+        [app] = await db.insert(apps).values({
+            ...metadata,
+            appStoreId: appStoreId ?? `imported-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+            analyzedAt: fileUpdatedAt,
+            country,
+            workspaceId: (await getDefaultWorkspace()).id,
+        }).returning();
+    } else {
+        const changes: Partial<App> = {};
+
+        // Replace the placeholder of an earlier import with the real ID
+        if (appStoreId && !hasStoreId(existingApp.appStoreId)) {
+            changes.appStoreId = appStoreId;
+            storeIdRecovered = true;
+        }
+
+        // Newer metadata from the app's own storefront replaces the stored copy
+        if (country === existingApp.country && fileUpdatedAt > existingApp.analyzedAt) {
+            Object.assign(changes, metadata, { analyzedAt: fileUpdatedAt });
+        }
+
+        [app] = Object.keys(changes).length > 0
+            ? await db.update(apps).set(changes).where(eq(apps.id, existingApp.id)).returning()
+            : [existingApp];
+    }
+
+    // Merge the keywords into the app's keywords in this storefront
+    const existingRows = await db
+        .select()
+        .from(keywords)
+        .where(and(eq(keywords.appId, app.id), eq(keywords.country, country)));
+    const existingByKeyword = new Map(existingRows.map(row => [normalizeKeyword(row.keyword), row]));
+
+    const seen = new Set<string>();
+    const newRows: NewKeyword[] = [];
+    const updatedRows: NewKeyword[] = [];
+    let unchanged = 0;
+
+    for (const result of data.results) {
+        const normalized = normalizeKeyword(result.keyword || '');
+        if (normalized.length === 0 || seen.has(normalized)) continue;
+        seen.add(normalized);
+
+        const metrics = {
+            traffic: result.traffic ?? null,
+            difficulty: result.difficulty ?? null,
+            opportunity: result.opportunity ?? null,
+            recommendation: result.recommendation,
+            analysisSucceeded: result.analysisSucceeded ?? true,
+            failureReason: result.failureReason ?? null,
+            analyzedAt: result.analyzedAt || fileUpdatedAt,
+        };
+        const existing = existingByKeyword.get(normalized);
+
+        if (!existing) {
+            newRows.push({
+                appId: app.id,
+                keyword: result.keyword.trim(),
+                country,
+                ...metrics,
+                // Results written before the CLI tracked provenance have no source
+                source: result.source || 'unknown',
+                sourceSeed: result.sourceSeed ?? null,
+                sourceAppStoreId: result.sourceAppStoreId ? String(result.sourceAppStoreId) : null,
+                sourceAppTitle: result.sourceAppTitle ?? null,
+                fromScreenshots: result.fromScreenshots ?? false,
+            });
+        } else if (metrics.analyzedAt > existing.analyzedAt) {
+            await db.update(keywords).set(metrics).where(eq(keywords.id, existing.id));
+            updatedRows.push({ appId: app.id, keyword: existing.keyword, country, ...metrics });
+        } else {
+            unchanged++;
+        }
+    }
+
+    if (newRows.length > 0) {
+        await db.insert(keywords).values(newRows);
+    }
+    await recordKeywordSnapshots([...newRows, ...updatedRows]);
+
+    const importRecord = {
+        appId: app.id,
+        file: found.file,
+        country,
+        status: found.status,
+        processed: data.results.length,
+        total: data.totalKeywords ?? data.results.length,
+        fileUpdatedAt,
+        importedAt: new Date().toISOString(),
+    };
+    await db
+        .insert(cliImports)
+        .values({ folder, ...importRecord })
+        .onConflictDoUpdate({ target: cliImports.folder, set: importRecord });
+
+    return {
+        report: {
+            folder,
+            file: found.file,
+            status: found.status,
+            appId: app.id,
+            appTitle: app.title,
+            appStoreId: hasStoreId(app.appStoreId) ? app.appStoreId : null,
+            createdApp: !existingApp,
+            storeIdRecovered,
+            processed: importRecord.processed,
+            total: importRecord.total,
+            added: newRows.map(row => row.keyword),
+            updated: updatedRows.map(row => row.keyword),
+            unchanged,
+        },
+    };
+}
+
+// Unfinished CLI runs per app, for the apps list
+export async function getInProgressCliRuns() {
+    const rows = await db.select().from(cliImports).where(eq(cliImports.status, 'in_progress'));
+    return new Map(rows.map(row => [row.appId, row]));
+}
@@ -0,0 +1,30 @@
+import { createKeywordProvider } from '@services/keyword-providers';
+import { buildKeywordClusters, getClusteringMethod } from '@services/keyword-clusters';
+import { getAppKeywords } from './app-keywords';
+
+/**
+ * Groups an app's keywords in a storefront into topic clusters (see
+ * services/keyword-clusters.js). Clusters reference keywords by ID so the table
+ * can group the rows it already shows. Embeddings are only requested from the
+ * keyword provider when KEYWORD_CLUSTERING=embeddings.
+ */
+export async function getKeywordClusters(appId: number, country: string) {
+    const rows = await getAppKeywords(appId, country);
+    const method = getClusteringMethod();
+    const provider = method === 'embeddings' ? createKeywordProvider() : undefined;
+
+    const result = await buildKeywordClusters(
+        rows.map(row => ({ id: row.id, keyword: row.keyword, traffic: row.traffic, opportunity: row.opportunity })),
+        { method, provider }
+    );
+
+    return {
+        method: result.method,
+        clusters: result.clusters.map(cluster => ({
+            label: cluster.label,
+            keywordIds: cluster.keywords.map(k => k.id),
+            traffic: cluster.traffic,
+            opportunity: cluster.opportunity,
+        })),
+    };
+}
@@ -0,0 +1,87 @@
+import { db } from '@/lib/db';
+import { competitors, type Competitor } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { DEFAULT_COUNTRY } from '@/lib/countries';
+import { getAppData, getSimilarApps, type StoreAppData } from './app-store';
+
+// Same cap as the CLI pipeline in main.js
+export const MAX_COMPETITORS = 7;
+
+export async function getCompetitors(appId: number) {
+    return db.select().from(competitors).where(eq(competitors.appId, appId));
+}
+
+async function saveCompetitor(appId: number, appStoreId: string, appData: StoreAppData, source: 'similar' | 'manual') {
+    const [competitor] = await db.insert(competitors).values({
+        appId,
+        appStoreId,
+        title: appData.title,
+        description: appData.description,
+        genres: JSON.stringify(appData.genres),
+        source,
+        addedAt: new Date().toISOString(),
+    }).onConflictDoNothing().returning();
+    return competitor ?? null;
+}
+
+/**
+ * Fetches the App Store's similar apps in a storefront and stores the top ones as
+ * competitors. Apps that are already linked are left untouched.
+ */
+export async function discoverCompetitors(appId: number, appStoreId: number, country: string = DEFAULT_COUNTRY) {
+    const similarApps = (await getSimilarApps(appStoreId, country)).slice(0, MAX_COMPETITORS);
+    const existing = new Set((await getCompetitors(appId)).map(c => c.appStoreId));
+    const added: Competitor[] = [];
+
+    for (const similarApp of similarApps) {
+        if (existing.has(String(similarApp.id))) continue;
+
+        try {
+            const appData = await getAppData(similarApp.id, country);
+            const competitor = await saveCompetitor(appId, String(similarApp.id), appData, 'similar');
+            if (competitor) added.push(competitor);
+        } catch (error) {
+            console.warn(`Failed to scrape data for similar app ${similarApp.id}:`, error);
+        }
+    }
+
+    return added;
+}
+
+// Link an app from the App Store as a competitor by hand
+export async function addCompetitor(appId: number, appStoreId: number, country: string = DEFAULT_COUNTRY) {
+    const appData = await getAppData(appStoreId, country);
+    return saveCompetitor(appId, String(appStoreId), appData, 'manual');
+}
+
+/**
+ * Re-scrapes a stored competitor so keyword generation works from its current
+ * metadata. Falls back to the stored copy when the App Store can't be reached.
+ * The stored copy is only updated from the app's own storefront, so analyzing
+ * another storefront doesn't overwrite it with localized metadata.
+ */
+export async function loadCompetitorData(
+    competitor: Competitor,
+    country: string = DEFAULT_COUNTRY,
+    updateStoredCopy = true
+): Promise<StoreAppData> {
+    try {
+        const appData = await getAppData(parseInt(competitor.appStoreId, 10), country);
+        if (updateStoredCopy) {
+            await db.update(competitors).set({
+                title: appData.title,
+                description: appData.description,
+                genres: JSON.stringify(appData.genres),
+            }).where(eq(competitors.id, competitor.id));
+        }
+        return appData;
+    } catch (error) {
+        console.warn(`Using stored data for competitor ${competitor.appStoreId}:`, error);
+        return {
+            title: competitor.title,
+            description: competitor.description,
+            genres: JSON.parse(competitor.genres || '[]'),
+            screenshots: [],
+        };
+    }
+}
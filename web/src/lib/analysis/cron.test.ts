@@ -0,0 +1,81 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { nextCronRun, parseCron } from './cron';
+
+// Dates are local, like the schedules
+const at = (year: number, month: number, day: number, hour = 0, minute = 0) =>
+    new Date(year, month - 1, day, hour, minute);
+
+describe('parseCron', () => {
+    it('expands ranges, steps and lists', () => {
+        const schedule = parseCron('0,30 */6 1-3 1-12/5 1-5');
+
+        assert.deepEqual([...schedule.minute.values], [0, 30]);
+        assert.deepEqual([...schedule.hour.values], [0, 6, 12, 18]);
+        assert.deepEqual([...schedule.dayOfMonth.values], [1, 2, 3]);
+        assert.deepEqual([...schedule.month.values], [1, 6, 11]);
+        assert.deepEqual([...schedule.dayOfWeek.values], [1, 2, 3, 4, 5]);
+    });
+
+    it('runs a single value with a step to the end of the range', () => {
+        assert.deepEqual([...parseCron('50/5 * * * *').minute.values], [50, 55]);
+    });
+
+    it('treats 7 as Sunday', () => {
+        assert.ok(parseCron('0 6 * * 7').dayOfWeek.values.has(0));
+    });
+
+    it('needs five fields', () => {
+        assert.throws(() => parseCron('0 6 * *'), /needs 5 fields/);
+        assert.throws(() => parseCron('0 6 * * * *'), /needs 5 fields/);
+    });
+
+    it('says which field is wrong', () => {
+        assert.throws(() => parseCron('60 6 * * *'), /minute "60" must be within 0-59/);
+        assert.throws(() => parseCron('0 6 0 * *'), /day of month "0" must be within 1-31/);
+        assert.throws(() => parseCron('0 6 * * mon'), /Invalid cron day of week "mon"/);
+        assert.throws(() => parseCron('0 9-5 * * *'), /hour "9-5"/);
+        assert.throws(() => parseCron('*/0 * * * *'), /minute/);
+    });
+});
+
+describe('nextCronRun', () => {
+    it('finds the next daily run', () => {
+        assert.deepEqual(nextCronRun('0 6 * * *', at(2025, 3, 10, 5, 59)), at(2025, 3, 10, 6, 0));
+        assert.deepEqual(nextCronRun('0 6 * * *', at(2025, 3, 10, 6, 0)), at(2025, 3, 11, 6, 0));
+    });
+
+    it('starts strictly after the given time, to the minute', () => {
+        const after = new Date(at(2025, 3, 10, 6, 0).getTime() + 30 * 1000);
+        assert.deepEqual(nextCronRun('* * * * *', after), at(2025, 3, 10, 6, 1));
+    });
+
+    it('finds the next weekly run on a Monday', () => {
+        // 13 March 2025 was a Thursday
+        assert.deepEqual(nextCronRun('0 6 * * 1', at(2025, 3, 13, 12)), at(2025, 3, 17, 6, 0));
+    });
+
+    it('skips weekends for weekday schedules', () => {
+        // 14 March 2025 was a Friday
+        assert.deepEqual(nextCronRun('30 6 * * 1-5', at(2025, 3, 14, 7)), at(2025, 3, 17, 6, 30));
+    });
+
+    it('runs on either day field when both are restricted', () => {
+        // The 15th or any Monday, whichever comes first
+        assert.deepEqual(nextCronRun('0 0 15 * 1', at(2025, 3, 11)), at(2025, 3, 15, 0, 0));
+        assert.deepEqual(nextCronRun('0 0 15 * 1', at(2025, 3, 15, 1)), at(2025, 3, 17, 0, 0));
+    });
+
+    it('rolls over months and years', () => {
+        assert.deepEqual(nextCronRun('0 0 1 1 *', at(2025, 6, 1)), at(2026, 1, 1, 0, 0));
+        assert.deepEqual(nextCronRun('0 0 29 2 *', at(2025, 1, 1)), at(2028, 2, 29, 0, 0));
+    });
+
+    it('accepts a parsed schedule', () => {
+        assert.deepEqual(nextCronRun(parseCron('15 * * * *'), at(2025, 3, 10, 8, 20)), at(2025, 3, 10, 9, 15));
+    });
+
+    it('throws for dates that never come', () => {
+        assert.throws(() => nextCronRun('0 0 31 2 *', at(2025, 1, 1)), /never matches/);
+    });
+});
@@ -0,0 +1,115 @@
+// Five-field cron expressions (minute hour day-of-month month day-of-week) for
+// schedules, evaluated in the server's local time. Fields take *, numbers, ranges,
+// steps and lists, e.g. "30 6 * * 1-5" or "0 */12 * * *". Day of week 0 and 7
+// are both Sunday.
+
+interface CronField {
+    values: Set<number>;
+    // The field was *, which matters for how day of month and day of week combine
+    any: boolean;
+}
+
+export interface CronSchedule {
+    minute: CronField;
+    hour: CronField;
+    dayOfMonth: CronField;
+    month: CronField;
+    dayOfWeek: CronField;
+}
+
+const FIELD_RANGES: [string, number, number][] = [
+    ['minute', 0, 59],
+    ['hour', 0, 23],
+    ['day of month', 1, 31],
+    ['month', 1, 12],
+    ['day of week', 0, 7],
+];
+
+// Runs are looked for this far ahead before an expression counts as never matching
+const SEARCH_LIMIT_DAYS = 366 * 5;
+
+function parseField(field: string, name: string, min: number, max: number): CronField {
+    const values = new Set<number>();
+
+    for (const part of field.split(',')) {
+        const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+        if (!match) {
+            throw new Error(`Invalid cron ${name} "${part}"`);
+        }
+
+        const [, range, start, end, step] = match;
+        const from = range === '*' ? min : Number(start);
+        // A single value with a step runs from that value to the end of the range
+        const to = range === '*' || (end === undefined && step !== undefined) ? max : Number(end ?? start);
+        const increment = step === undefined ? 1 : Number(step);
+
+        if (from < min || to > max || from > to || increment < 1) {
+            throw new Error(`Cron ${name} "${part}" must be within ${min}-${max}`);
+        }
+        for (let value = from; value <= to; value += increment) values.add(value);
+    }
+
+    return { values, any: field === '*' };
+}
+
+/**
+ * Parses a cron expression, throwing an error that says which field is wrong
+ */
+export function parseCron(expression: string): CronSchedule {
+    const fields = expression.trim().split(/\s+/);
+    if (fields.length !== 5) {
+        throw new Error('A cron expression needs 5 fields: minute hour day-of-month month day-of-week');
+    }
+
+    const [minute, hour, dayOfMonth, month, dayOfWeek] = fields.map((field, i) => {
+        const [name, min, max] = FIELD_RANGES[i];
+        return parseField(field, name, min, max);
+    });
+
+    // Sunday can be written as 7
+    if (dayOfWeek.values.has(7)) dayOfWeek.values.add(0);
+
+    return { minute, hour, dayOfMonth, month, dayOfWeek };
+}
+
+// As in cron, when both day fields are restricted a day matching either one runs
+function matchesDay(schedule: CronSchedule, date: Date) {
+    const byMonth = schedule.dayOfMonth.values.has(date.getDate());
+    const byWeek = schedule.dayOfWeek.values.has(date.getDay());
+
+    if (schedule.dayOfMonth.any) return byWeek;
+    if (schedule.dayOfWeek.any) return byMonth;
+    return byMonth || byWeek;
+}
+
+/**
+ * The first time strictly after `after` the expression matches, to the minute.
+ * Whole days and hours that can't match are skipped, so this stays fast.
+ */
+export function nextCronRun(expression: string | CronSchedule, after: Date): Date {
+    const schedule = typeof expression === 'string' ? parseCron(expression) : expression;
+    const date = new Date(after);
+    date.setSeconds(0, 0);
+    date.setMinutes(date.getMinutes() + 1);
+
+    const limit = after.getTime() + SEARCH_LIMIT_DAYS * 24 * 60 * 60 * 1000;
+
+    while (date.getTime() <= limit) {
+        if (!schedule.month.values.has(date.getMonth() + 1) || !matchesDay(schedule, date)) {
+            date.setDate(date.getDate() + 1);
+            date.setHours(0, 0, 0, 0);
+            continue;
+        }
+        if (!schedule.hour.values.has(date.getHours())) {
+            date.setHours(date.getHours() + 1, 0, 0, 0);
+            continue;
+        }
+        if (!schedule.minute.values.has(date.getMinutes())) {
+            date.setMinutes(date.getMinutes() + 1, 0, 0);
+            continue;
+        }
+        return date;
+    }
+
+    throw new Error('The cron expression never matches a date');
+}
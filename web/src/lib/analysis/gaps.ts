@@ -0,0 +1,161 @@
+import { db } from '@/lib/db';
+import { keywordGaps, keywords, type KeywordGap, type NewKeywordGap } from '@/lib/db/schema';
+import { and, eq } from 'drizzle-orm';
+import { DEFAULT_COUNTRY } from '@/lib/countries';
+import { getCompetitors } from './competitors';
+import { normalizeKeyword, type KeywordCandidate } from './keywords';
+
+/**
+ * missing: competitors rank for the keyword or it was generated from their
+ * metadata, and the app isn't in the results. exclusive: the app ranks and none
+ * of its competitors do. shared: the app and at least one competitor rank.
+ */
+export type GapKind = 'missing' | 'exclusive' | 'shared';
+
+export interface GapAnalysisResult {
+    checked: number;
+    missing: number;
+    exclusive: number;
+    shared: number;
+    failed: string[];
+}
+
+export interface GapCompetitor {
+    appStoreId: string;
+    title: string;
+    rank: number | null;
+    relevant: boolean; // the keyword was generated from this competitor's metadata
+}
+
+// Keywords nobody ranks for and that no competitor suggested aren't gaps
+export function classifyGap(appRank: number | null, competitorRanks: Record<string, number | null>, relevantTo: string[]): GapKind | null {
+    const anyCompetitorRanks = Object.values(competitorRanks).some(rank => rank !== null);
+
+    if (appRank === null) {
+        return anyCompetitorRanks || relevantTo.length > 0 ? 'missing' : null;
+    }
+    return anyCompetitorRanks ? 'shared' : 'exclusive';
+}
+
+// Replaces the app's previous gap analysis in a storefront
+export async function saveKeywordGaps(appId: number, country: string, rows: NewKeywordGap[]) {
+    await db.delete(keywordGaps).where(and(eq(keywordGaps.appId, appId), eq(keywordGaps.country, country)));
+    if (rows.length > 0) {
+        await db.insert(keywordGaps).values(rows);
+    }
+}
+
+async function getStoredGaps(appId: number, country: string) {
+    return db
+        .select()
+        .from(keywordGaps)
+        .where(and(eq(keywordGaps.appId, appId), eq(keywordGaps.country, country)));
+}
+
+// Position of the best-ranking competitor, Infinity when none of them ranks
+function bestRank(competitors: GapCompetitor[]) {
+    return Math.min(...competitors.map(c => c.rank ?? Infinity));
+}
+
+/**
+ * The latest gap analysis of an app in a storefront, or null when none was run.
+ * Metrics and the tracked flag come from the app's keywords where it tracks the
+ * keyword, so they stay current as keywords are added and re-scored. Competitors
+ * removed since the analysis are left out.
+ */
+export async function getGapReport(appId: number, country: string = DEFAULT_COUNTRY) {
+    const rows = await getStoredGaps(appId, country);
+    if (rows.length === 0) return null;
+
+    const trackedRows = await db
+        .select()
+        .from(keywords)
+        .where(and(eq(keywords.appId, appId), eq(keywords.country, country)));
+    const tracked = new Map(trackedRows.map(row => [normalizeKeyword(row.keyword), row]));
+
+    const appCompetitors = await getCompetitors(appId);
+    const titles = new Map(appCompetitors.map(c => [c.appStoreId, c.title]));
+
+    const toGapKeyword = (row: KeywordGap) => {
+        const ranks: Record<string, number | null> = JSON.parse(row.competitorRanks);
+        const relevantTo: string[] = JSON.parse(row.relevantTo);
+        const trackedRow = tracked.get(row.keyword);
+        const metrics = trackedRow ?? row;
+
+        const competitors: GapCompetitor[] = Object.entries(ranks)
+            .filter(([appStoreId, rank]) => titles.has(appStoreId) && (rank !== null || relevantTo.includes(appStoreId)))
+            .map(([appStoreId, rank]) => ({
+                appStoreId,
+                title: titles.get(appStoreId)!,
+                rank,
+                relevant: relevantTo.includes(appStoreId),
+            }))
+            .sort((a, b) => (a.rank ?? Infinity) - (b.rank ?? Infinity));
+
+        return {
+            keyword: row.keyword,
+            kind: row.kind as GapKind,
+            tracked: trackedRow !== undefined,
+            appRank: row.appRank,
+            competitors,
+            traffic: metrics.traffic,
+            difficulty: metrics.difficulty,
+            opportunity: metrics.opportunity,
+            recommendation: metrics.recommendation,
+        };
+    };
+
+    const gaps = rows.map(toGapKeyword);
+
+    const missing = gaps
+        .filter(gap => gap.kind === 'missing' && gap.competitors.length > 0)
+        .sort((a, b) =>
+            (b.opportunity ?? -1) - (a.opportunity ?? -1) ||
+            bestRank(a.competitors) - bestRank(b.competitors)
+        );
+    const exclusive = gaps
+        .filter(gap => gap.kind === 'exclusive')
+        .sort((a, b) => (a.appRank ?? Infinity) - (b.appRank ?? Infinity));
+
+    return {
+        country,
+        checkedAt: rows[0].checkedAt,
+        depth: rows[0].depth,
+        competitors: appCompetitors.map(c => ({ appStoreId: c.appStoreId, title: c.title })),
+        missing,
+        exclusive,
+        shared: gaps.filter(gap => gap.kind === 'shared').length,
+    };
+}
+
+/**
+ * Turns keywords from the gap report into candidates for the app's tracked set,
+ * credited to the best-ranking competitor when there is one. Keywords that
+ * aren't in the report are returned separately.
+ */
+export async function getGapCandidates(appId: number, keywordList: string[], country: string = DEFAULT_COUNTRY) {
+    const report = await getGapReport(appId, country);
+    const byKeyword = new Map([...report?.missing ?? [], ...report?.exclusive ?? []].map(gap => [gap.keyword, gap]));
+
+    const candidates: KeywordCandidate[] = [];
+    const notFound: string[] = [];
+
+    for (const keyword of keywordList) {
+        const gap = byKeyword.get(normalizeKeyword(keyword));
+
+        if (!gap) {
+            notFound.push(keyword);
+            continue;
+        }
+
+        const credited = gap.competitors[0];
+        candidates.push({
+            keyword: gap.keyword,
+            source: 'competitor',
+            sourceAppStoreId: credited?.appStoreId ?? null,
+            sourceAppTitle: credited?.title ?? null,
+        });
+    }
+
+    return { candidates, notFound };
+}
@@ -0,0 +1,125 @@
+import { db } from '@/lib/db';
+import { keywordSnapshots, type KeywordSnapshot, type NewKeyword, type NewKeywordSnapshot } from '@/lib/db/schema';
+import { and, eq, inArray, sql } from 'drizzle-orm';
+import { DEFAULT_COUNTRY } from '@/lib/countries';
+import { fireKeywordAlerts } from '@/lib/alerts/rules';
+import { normalizeKeyword } from './keywords';
+
+function snapshotKey(snapshot: Pick<NewKeywordSnapshot, 'appId' | 'keyword' | 'country'>) {
+    return `${snapshot.appId}|${snapshot.country}|${snapshot.keyword}`;
+}
+
+// The latest stored snapshot of each keyword about to get a new one
+async function getLatestSnapshots(snapshots: NewKeywordSnapshot[]) {
+    const latest = new Map<string, KeywordSnapshot>();
+
+    for (const appId of new Set(snapshots.map(snapshot => snapshot.appId))) {
+        const keywordList = Array.from(new Set(
+            snapshots.filter(snapshot => snapshot.appId === appId).map(snapshot => snapshot.keyword)
+        ));
+        const rows = await db
+            .select()
+            .from(keywordSnapshots)
+            .where(and(eq(keywordSnapshots.appId, appId), inArray(keywordSnapshots.keyword, keywordList)))
+            .orderBy(sql`${keywordSnapshots.recordedAt} ASC`, keywordSnapshots.id);
+
+        for (const row of rows) latest.set(snapshotKey(row), row);
+    }
+
+    return latest;
+}
+
+// Record a metric snapshot for every successfully scored keyword row.
+// Snapshots are keyed on the normalized keyword so runs line up across re-analyses.
+// Each new snapshot is compared with the previous one to fire alert rules.
+export async function recordKeywordSnapshots(rows: NewKeyword[]) {
+    const snapshots = rows
+        .filter(row => row.analysisSucceeded)
+        .map(row => ({
+            appId: row.appId,
+            keyword: normalizeKeyword(row.keyword),
+            country: row.country ?? DEFAULT_COUNTRY,
+            traffic: row.traffic ?? null,
+            difficulty: row.difficulty ?? null,
+            opportunity: row.opportunity ?? null,
+            recommendation: row.recommendation,
+            recordedAt: row.analyzedAt,
+        }));
+
+    if (snapshots.length === 0) return;
+
+    const previous = await getLatestSnapshots(snapshots);
+    await db.insert(keywordSnapshots).values(snapshots);
+
+    // A broken rule or webhook must never fail the analysis that recorded the metrics
+    try {
+        await fireKeywordAlerts(snapshots.flatMap(snapshot => {
+            const before = previous.get(snapshotKey(snapshot));
+            return before ? [{
+                appId: snapshot.appId,
+                keyword: snapshot.keyword,
+                country: snapshot.country,
+                previous: { traffic: before.traffic, recommendation: before.recommendation },
+                current: { traffic: snapshot.traffic, recommendation: snapshot.recommendation },
+            }] : [];
+        }));
+    } catch (error) {
+        console.error('Error firing keyword alerts:', error);
+    }
+}
+
+// Full history of one keyword for an app in a storefront, oldest first
+export async function getKeywordHistory(appId: number, keyword: string, country: string = DEFAULT_COUNTRY) {
+    return db
+        .select()
+        .from(keywordSnapshots)
+        .where(and(
+            eq(keywordSnapshots.appId, appId),
+            eq(keywordSnapshots.country, country),
+            eq(keywordSnapshots.keyword, normalizeKeyword(keyword))
+        ))
+        .orderBy(sql`${keywordSnapshots.recordedAt} ASC`);
+}
+
+/**
+ * Latest `limit` snapshots for each of the given keywords, oldest first.
+ * Used to draw trend sparklines without one request per row.
+ */
+export async function getKeywordTrends(
+    appId: number,
+    keywordList: string[],
+    country: string = DEFAULT_COUNTRY,
+    limit = 12
+) {
+    const normalized = Array.from(new Set(keywordList.map(normalizeKeyword)));
+    const trends = new Map<string, { traffic: number | null; difficulty: number | null; recordedAt: string }[]>();
+
+    if (normalized.length === 0) return trends;
+
+    const rows = await db
+        .select({
+            keyword: keywordSnapshots.keyword,
+            traffic: keywordSnapshots.traffic,
+            difficulty: keywordSnapshots.difficulty,
+            recordedAt: keywordSnapshots.recordedAt,
+        })
+        .from(keywordSnapshots)
+        .where(and(
+            eq(keywordSnapshots.appId, appId),
+            eq(keywordSnapshots.country, country),
+            inArray(keywordSnapshots.keyword, normalized)
+        ))
+        .orderBy(sql`${keywordSnapshots.recordedAt} ASC`);
+
+    for (const row of rows) {
+        const points = trends.get(row.keyword) ?? [];
+        points.push({ traffic: row.traffic, difficulty: row.difficulty, recordedAt: row.recordedAt });
+        trends.set(row.keyword, points);
+    }
+
+    for (const [keyword, points] of trends) {
+        trends.set(keyword, points.slice(-limit));
+    }
+
+    return trends;
+}
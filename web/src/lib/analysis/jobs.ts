@@ -0,0 +1,947 @@
+import { db } from '@/lib/db';
+import {
+    apps,
+    keywords,
+    analysisJobs,
+    type App,
+    type AnalysisJob,
+    type Keyword,
+    type NewAnalysisJob,
+    type NewKeyword,
+    type NewKeywordGap,
+    type NewKeywordRank,
+} from '@/lib/db/schema';
+import { and, eq, inArray, ne } from 'drizzle-orm';
+import { DEFAULT_COUNTRY } from '@/lib/countries';
+import { fireJobFailedAlerts } from '@/lib/alerts/rules';
+import { getDefaultWorkspace, getWorkspace } from '@/lib/workspaces';
+import { getAppData, getSearchSuggestions, searchAppIds, type StoreAppData } from './app-store';
+import { discoverCompetitors, getCompetitors, loadCompetitorData } from './competitors';
+import {
+    generateKeywordsForApp,
+    scoreKeywordList,
+    mergeKeywordCandidates,
+    normalizeKeyword,
+    delay,
+    toKeywordCandidates,
+    type KeywordCandidate,
+    type KeywordSource,
+} from './keywords';
+import { recordKeywordSnapshots } from './history';
+import { partitionNewKeywords } from './app-keywords';
+import { getScoringConfigForApp } from './scoring';
+import {
+    findAppRank,
+    getLatestRanks,
+    positionInResults,
+    recordKeywordRanks,
+    RANK_SEARCH_DEPTH,
+    type RankCheckResult,
+} from './ranks';
+import { classifyGap, saveKeywordGaps, type GapAnalysisResult } from './gaps';
+import type { ScoringConfig } from '@services/scoring';
+
+export const ACTIVE_JOB_STATUSES = ['queued', 'running'];
+
+// Number of AI keywords used as autocomplete seeds, as in the CLI
+const AUTOCOMPLETE_SEED_COUNT = 5;
+
+export type JobKind = 'analyze' | 'refresh' | 'ranks' | 'gaps' | 'retry' | 'rescore' | 'keywords' | 'keyword';
+
+export interface KeywordChange {
+    keyword: string;
+    previousRecommendation: string;
+    recommendation: string;
+    trafficChange: number | null;
+    difficultyChange: number | null;
+}
+
+export interface RefreshResult {
+    metadataChanges: string[];
+    addedKeywords: string[];
+    rescored: number;
+    recommendationChanges: KeywordChange[];
+}
+
+// failed lists the keywords that kept their previous metrics because their lookups failed
+export interface RescoreResult {
+    rescored: number;
+    recommendationChanges: KeywordChange[];
+    failed: string[];
+}
+
+// A keyword job re-scores one edited row, failed is set when its lookups failed
+export interface KeywordEditResult {
+    keyword: string;
+    recommendationChange: KeywordChange | null;
+    failed: boolean;
+}
+
+// Keywords added by hand or from the gap report. duplicates were tracked by the time
+// the job ran, failed counts added keywords whose analysis failed.
+export interface AddKeywordsResult {
+    added: string[];
+    duplicates: string[];
+    failed: number;
+}
+
+// failed lists the keywords whose lookups still failed on network or rate-limit errors
+export interface RetryResult {
+    retried: number;
+    recovered: number;
+    noData: number;
+    failed: string[];
+}
+
+export function isJobFinished(job: AnalysisJob) {
+    return job.status === 'completed' || job.status === 'failed';
+}
+
+// Parse the stored JSON result for API responses
+export function serializeJob(job: AnalysisJob) {
+    return {
+        ...job,
+        result: job.result ? JSON.parse(job.result) : null,
+    };
+}
+
+export interface CreateJobOptions {
+    // Fetch fresh metrics for every keyword the job scores instead of reusing cached ones
+    forceRefresh?: boolean;
+    // Where an analyzed new app goes
+    workspaceId?: number;
+    // Username of who queued the job, left out for scheduled runs
+    startedBy?: string;
+    // The keywords a keywords job adds
+    candidates?: KeywordCandidate[];
+    // The row a keyword job re-scores
+    keywordEdit?: KeywordEdit;
+}
+
+// keyword is what the row is called after the edit, the same as before when it is only re-scored
+export interface KeywordEdit {
+    keywordId: number;
+    keyword: string;
+}
+
+export async function createAnalysisJob(
+    appStoreId: string,
+    kind: JobKind = 'analyze',
+    appId?: number,
+    country: string = DEFAULT_COUNTRY,
+    { forceRefresh = false, workspaceId, startedBy, candidates, keywordEdit }: CreateJobOptions = {}
+) {
+    const now = new Date().toISOString();
+    const [job] = await db.insert(analysisJobs).values({
+        kind,
+        appStoreId,
+        country,
+        appId: appId ?? null,
+        forceRefresh,
+        workspaceId: workspaceId ?? null,
+        startedBy: startedBy ?? null,
+        input: candidates || keywordEdit ? JSON.stringify(candidates ?? keywordEdit) : null,
+        status: 'queued',
+        currentStep: 'Waiting to start',
+        createdAt: now,
+        updatedAt: now,
+    }).returning();
+    return job;
+}
+
+export async function getAnalysisJob(jobId: number) {
+    const [job] = await db.select().from(analysisJobs).where(eq(analysisJobs.id, jobId)).limit(1);
+    return job ?? null;
+}
+
+// Returns the queued or running job for an app, if any
+export async function findActiveJob(appStoreId: string) {
+    const [job] = await db
+        .select()
+        .from(analysisJobs)
+        .where(and(
+            eq(analysisJobs.appStoreId, appStoreId),
+            inArray(analysisJobs.status, ACTIVE_JOB_STATUSES)
+        ))
+        .limit(1);
+    return job ?? null;
+}
+
+// Jobs still queued or running when the server starts were cut off by a restart and
+// would otherwise block new jobs for their app forever. Returns the failed jobs.
+export async function failInterruptedJobs() {
+    return db
+        .update(analysisJobs)
+        .set({
+            status: 'failed',
+            error: 'Interrupted by a server restart',
+            completedAt: new Date().toISOString(),
+            updatedAt: new Date().toISOString(),
+        })
+        .where(inArray(analysisJobs.status, ACTIVE_JOB_STATUSES))
+        .returning();
+}
+
+async function updateJob(jobId: number, changes: Partial<NewAnalysisJob>) {
+    await db
+        .update(analysisJobs)
+        .set({ ...changes, updatedAt: new Date().toISOString() })
+        .where(eq(analysisJobs.id, jobId));
+}
+
+/**
+ * Generates keywords for the app and each of its stored competitors, adds App Store
+ * autocomplete suggestions for the top app keywords, then merges everything into one
+ * deduplicated list that remembers where each keyword came from. Everything is looked
+ * up in the job's storefront. A competitor or suggestion lookup failing doesn't stop
+ * the run.
+ */
+async function generateAllKeywords(jobId: number, app: App, appData: StoreAppData, country: string) {
+    await updateJob(jobId, { currentStep: 'Generating keywords with AI' });
+    const mainAppKeywords = await generateKeywordsForApp(appData, country);
+    console.log(
+        `Generated ${mainAppKeywords.keywords.length} keywords for ${appData.title}` +
+        ` (${mainAppKeywords.screenshotKeywords.length} from screenshots)`
+    );
+
+    const candidates: KeywordCandidate[] = toKeywordCandidates(mainAppKeywords, { source: 'ai' });
+
+    const appCompetitors = await getCompetitors(app.id);
+
+    for (let i = 0; i < appCompetitors.length; i++) {
+        const competitor = appCompetitors[i];
+        await updateJob(jobId, {
+            currentStep: `Generating competitor keywords (${i + 1}/${appCompetitors.length}): ${competitor.title}`,
+        });
+
+        try {
+            const competitorData = await loadCompetitorData(competitor, country, country === app.country);
+            const competitorKeywords = await generateKeywordsForApp(competitorData, country);
+            candidates.push(...toKeywordCandidates(competitorKeywords, {
+                source: 'competitor',
+                sourceAppStoreId: competitor.appStoreId,
+                sourceAppTitle: competitorData.title,
+            }));
+        } catch (error) {
+            console.warn(`Failed to generate keywords for ${competitor.title}:`, error);
+        }
+    }
+
+    await updateJob(jobId, { currentStep: 'Fetching App Store autocomplete suggestions' });
+    for (const seed of mainAppKeywords.keywords.slice(0, AUTOCOMPLETE_SEED_COUNT)) {
+        try {
+            const suggestions = await getSearchSuggestions(seed, country);
+            candidates.push(...suggestions.map(keyword => ({
+                keyword,
+                source: 'autocomplete' as const,
+                sourceSeed: normalizeKeyword(seed),
+            })));
+        } catch (error) {
+            console.warn(`Failed to get suggestions for "${seed}":`, error);
+        }
+    }
+
+    const merged = mergeKeywordCandidates(candidates);
+    console.log(`Deduplicated: ${candidates.length} → ${merged.length} unique keywords`);
+
+    return merged;
+}
+
+// Score each keyword in a storefront in the rate-limited worker pool, reporting progress
+// on the job. Keywords answered from the metrics cache don't wait for the rate limit.
+async function scoreKeywords(
+    job: AnalysisJob,
+    appId: number,
+    candidates: KeywordCandidate[],
+    config: ScoringConfig
+) {
+    const jobId = job.id;
+    const country = job.country;
+
+    await updateJob(jobId, {
+        currentStep: 'Analyzing keywords',
+        processed: 0,
+        total: candidates.length,
+    });
+
+    const scores = await scoreKeywordList(candidates.map(candidate => candidate.keyword), country, config, {
+        forceRefresh: job.forceRefresh,
+        onProgress: (processed) => updateJob(jobId, { processed }),
+    });
+
+    const results: NewKeyword[] = candidates.map((candidate, i) => ({
+        appId,
+        keyword: candidate.keyword,
+        country,
+        source: candidate.source,
+        sourceSeed: candidate.sourceSeed ?? null,
+        sourceAppStoreId: candidate.sourceAppStoreId ?? null,
+        sourceAppTitle: candidate.sourceAppTitle ?? null,
+        fromScreenshots: candidate.fromScreenshots ?? false,
+        ...scores[i],
+    }));
+
+    return results;
+}
+
+/**
+ * Runs the full analysis pipeline for a new app: scrape, find competitors, generate
+ * keywords with AI, score every keyword and save the results. Progress is persisted
+ * on the job row so clients can follow it through the status and events endpoints.
+ */
+async function analyzeNewApp(job: AnalysisJob) {
+    const numericId = parseInt(job.appStoreId, 10);
+
+    // Step 1: Get app data from App Store
+    await updateJob(job.id, { currentStep: 'Fetching app data from App Store' });
+    const appData = await getAppData(numericId, job.country);
+    console.log(`Got app: ${appData.title}`);
+
+    // Step 2: Insert app into database. Its workspace may have been deleted since
+    // the job was queued, the app then goes to the default one.
+    const workspace = (job.workspaceId !== null ? await getWorkspace(job.workspaceId) : null)
+        ?? await getDefaultWorkspace();
+    const [newApp] = await db.insert(apps).values({
+        appStoreId: String(numericId),
+        title: appData.title,
+        description: appData.description,
+        genres: JSON.stringify(appData.genres),
+        screenshotCount: appData.screenshots.length,
+        screenshots: JSON.stringify(appData.screenshots),
+        analyzedAt: new Date().toISOString(),
+        country: job.country,
+        workspaceId: workspace.id,
+    }).returning();
+
+    // Step 3: Find similar apps to use as competitors
+    await updateJob(job.id, {
+        appId: newApp.id,
+        appTitle: newApp.title,
+        currentStep: 'Finding competitors',
+    });
+    // A failed analysis removes the app again with everything saved for it so far,
+    // otherwise /api/analyze would turn down a retry because the app exists
+    try {
+        try {
+            const found = await discoverCompetitors(newApp.id, numericId, job.country);
+            console.log(`Found ${found.length} competitors`);
+        } catch (error) {
+            console.warn('Failed to fetch similar apps:', error);
+        }
+
+        // Step 4: Generate keywords for the app and its competitors using AI
+        const generatedKeywords = await generateAllKeywords(job.id, newApp, appData, job.country);
+
+        // Step 5: Analyze each keyword
+        const keywordResults = await scoreKeywords(job, newApp.id, generatedKeywords, await getScoringConfigForApp(newApp));
+
+        // Step 6: Save all keywords to database
+        await updateJob(job.id, { currentStep: 'Saving results' });
+        if (keywordResults.length > 0) {
+            await db.insert(keywords).values(keywordResults);
+            await recordKeywordSnapshots(keywordResults);
+        }
+    } catch (error) {
+        await db.delete(apps).where(eq(apps.id, newApp.id));
+        throw error;
+    }
+
+    return null;
+}
+
+/**
+ * Writes fresh scores onto the app's existing keyword rows and returns the rows that
+ * got new metrics along with the recommendation changes. Results for keywords without
+ * a row are ignored, and a keyword whose lookups kept failing keeps its previous metrics.
+ */
+async function updateRescoredKeywords(existingByKeyword: Map<string, Keyword>, results: NewKeyword[]) {
+    const recommendationChanges: KeywordChange[] = [];
+    const rescoredRows: NewKeyword[] = [];
+
+    for (const result of results) {
+        const existing = existingByKeyword.get(normalizeKeyword(result.keyword));
+        if (!existing) continue;
+
+        if (result.failureReason === 'transient' && existing.analysisSucceeded) {
+            await db.update(keywords).set({ fromScreenshots: result.fromScreenshots }).where(eq(keywords.id, existing.id));
+            continue;
+        }
+        rescoredRows.push(result);
+
+        await db.update(keywords).set({
+            traffic: result.traffic,
+            difficulty: result.difficulty,
+            opportunity: result.opportunity,
+            recommendation: result.recommendation,
+            analysisSucceeded: result.analysisSucceeded,
+            failureReason: result.failureReason,
+            analyzedAt: result.analyzedAt,
+            fromScreenshots: result.fromScreenshots,
+        }).where(eq(keywords.id, existing.id));
+
+        if (existing.recommendation !== result.recommendation) {
+            const traffic = result.traffic ?? null;
+            const difficulty = result.difficulty ?? null;
+            recommendationChanges.push({
+                keyword: existing.keyword,
+                previousRecommendation: existing.recommendation,
+                recommendation: result.recommendation,
+                trafficChange: existing.traffic !== null && traffic !== null
+                    ? traffic - existing.traffic
+                    : null,
+                difficultyChange: existing.difficulty !== null && difficulty !== null
+                    ? difficulty - existing.difficulty
+                    : null,
+            });
+        }
+    }
+
+    return { rescoredRows, recommendationChanges };
+}
+
+/**
+ * Re-analyzes an existing app in place for the job's storefront: refreshes its
+ * metadata, re-scores every keyword it already has there (including ones added by
+ * hand), adds newly generated keywords from the app and its current competitor
+ * list, and returns a summary of what changed. Running it for a storefront the app
+ * has no keywords in yet builds that storefront's keyword set from scratch.
+ */
+async function refreshExistingApp(job: AnalysisJob): Promise<RefreshResult> {
+    if (job.appId === null) {
+        throw new Error('App no longer exists');
+    }
+
+    const [app] = await db.select().from(apps).where(eq(apps.id, job.appId)).limit(1);
+    if (!app) {
+        throw new Error('App no longer exists');
+    }
+
+    const numericId = parseInt(app.appStoreId, 10);
+    if (isNaN(numericId)) {
+        throw new Error('App has no App Store ID and cannot be refreshed');
+    }
+
+    // Step 1: Re-scrape metadata. The stored copy follows the app's own storefront,
+    // other storefronts only use their localized listing for keyword generation.
+    await updateJob(job.id, { currentStep: 'Fetching app data from App Store' });
+    const appData = await getAppData(numericId, job.country);
+
+    const metadataChanges: string[] = [];
+    if (job.country === app.country) {
+        if (appData.title !== app.title) metadataChanges.push('title');
+        if (appData.description !== app.description) metadataChanges.push('description');
+        if (JSON.stringify(appData.genres) !== app.genres) metadataChanges.push('genres');
+        if (JSON.stringify(appData.screenshots) !== app.screenshots) metadataChanges.push('screenshots');
+
+        await db.update(apps).set({
+            title: appData.title,
+            description: appData.description,
+            genres: JSON.stringify(appData.genres),
+            screenshotCount: appData.screenshots.length,
+            screenshots: JSON.stringify(appData.screenshots),
+            analyzedAt: new Date().toISOString(),
+        }).where(eq(apps.id, app.id));
+    }
+    await updateJob(job.id, { appTitle: job.country === app.country ? appData.title : app.title });
+
+    // Step 2: Generate keywords for the app and its current competitors,
+    // keeping only the ones the app doesn't have yet in this storefront
+    const existingRows = await db
+        .select()
+        .from(keywords)
+        .where(and(eq(keywords.appId, app.id), eq(keywords.country, job.country)));
+    const existingByKeyword = new Map(existingRows.map(row => [normalizeKeyword(row.keyword), row]));
+
+    const generatedKeywords = await generateAllKeywords(job.id, app, appData, job.country);
+    const addedCandidates = generatedKeywords.filter(candidate => !existingByKeyword.has(candidate.keyword));
+    const fromScreenshots = new Set(
+        generatedKeywords.filter(candidate => candidate.fromScreenshots).map(candidate => candidate.keyword)
+    );
+
+    // Step 3: Re-score existing keywords and score the new ones. Existing keywords
+    // the model now takes from the screenshots get flagged as such.
+    const results = await scoreKeywords(job, app.id, [
+        ...existingRows.map(row => ({
+            ...row,
+            source: row.source as KeywordSource,
+            fromScreenshots: row.fromScreenshots || fromScreenshots.has(normalizeKeyword(row.keyword)),
+        })),
+        ...addedCandidates,
+    ], await getScoringConfigForApp(app));
+
+    // Step 4: Update rows in place, insert new ones and record what changed
+    await updateJob(job.id, { currentStep: 'Saving results' });
+    const { rescoredRows, recommendationChanges } = await updateRescoredKeywords(existingByKeyword, results);
+    const newRows = results.filter(result => !existingByKeyword.has(normalizeKeyword(result.keyword)));
+
+    if (newRows.length > 0) {
+        await db.insert(keywords).values(newRows);
+    }
+    await recordKeywordSnapshots([...rescoredRows, ...newRows]);
+
+    return {
+        metadataChanges,
+        addedKeywords: addedCandidates.map(candidate => candidate.keyword),
+        rescored: existingRows.length,
+        recommendationChanges,
+    };
+}
+
+/**
+ * Re-scores the keywords the app has in the job's storefront without generating new
+ * ones or touching its metadata, and records snapshots of the new metrics. This is
+ * what scheduled runs do. Rejected keywords are left alone.
+ */
+async function rescoreAppKeywords(job: AnalysisJob): Promise<RescoreResult> {
+    if (job.appId === null) {
+        throw new Error('App no longer exists');
+    }
+
+    const [app] = await db.select().from(apps).where(eq(apps.id, job.appId)).limit(1);
+    if (!app) {
+        throw new Error('App no longer exists');
+    }
+    await updateJob(job.id, { appTitle: app.title });
+
+    const rows = await db
+        .select()
+        .from(keywords)
+        .where(and(
+            eq(keywords.appId, app.id),
+            eq(keywords.country, job.country),
+            ne(keywords.status, 'rejected')
+        ));
+    const existingByKeyword = new Map(rows.map(row => [normalizeKeyword(row.keyword), row]));
+
+    const results = await scoreKeywords(
+        job,
+        app.id,
+        rows.map(row => ({ ...row, source: row.source as KeywordSource })),
+        await getScoringConfigForApp(app)
+    );
+
+    await updateJob(job.id, { currentStep: 'Saving results' });
+    const { rescoredRows, recommendationChanges } = await updateRescoredKeywords(existingByKeyword, results);
+    await recordKeywordSnapshots(rescoredRows);
+
+    return {
+        rescored: rescoredRows.length,
+        recommendationChanges,
+        failed: results.filter(result => result.failureReason === 'transient').map(result => result.keyword),
+    };
+}
+
+/**
+ * Searches the App Store for every keyword the app has in the job's storefront
+ * and records where the app ranks. A failed search is reported in the result
+ * instead of being recorded as "not ranked".
+ */
+async function checkAppRanks(job: AnalysisJob): Promise<RankCheckResult> {
+    if (job.appId === null) {
+        throw new Error('App no longer exists');
+    }
+
+    const [app] = await db.select().from(apps).where(eq(apps.id, job.appId)).limit(1);
+    if (!app) {
+        throw new Error('App no longer exists');
+    }
+
+    if (isNaN(parseInt(app.appStoreId, 10))) {
+        throw new Error('App has no App Store ID to look for in search results');
+    }
+    await updateJob(job.id, { appTitle: app.title });
+
+    const rows = await db
+        .select({ keyword: keywords.keyword })
+        .from(keywords)
+        .where(and(eq(keywords.appId, app.id), eq(keywords.country, job.country)));
+    const keywordList = Array.from(new Set(rows.map(row => normalizeKeyword(row.keyword))));
+
+    await updateJob(job.id, {
+        currentStep: 'Checking search ranks',
+        processed: 0,
+        total: keywordList.length,
+    });
+
+    const checks = [];
+    const failed: string[] = [];
+
+    for (let i = 0; i < keywordList.length; i++) {
+        const keyword = keywordList[i];
+
+        try {
+            checks.push({
+                appId: app.id,
+                keyword,
+                country: job.country,
+                rank: await findAppRank(app.appStoreId, keyword, job.country, RANK_SEARCH_DEPTH),
+                depth: RANK_SEARCH_DEPTH,
+                checkedAt: new Date().toISOString(),
+            });
+        } catch (error) {
+            console.warn(`Failed to check rank for "${keyword}":`, error);
+            failed.push(keyword);
+        }
+
+        await updateJob(job.id, { processed: i + 1 });
+        if (i < keywordList.length - 1) await delay(300);
+    }
+
+    await updateJob(job.id, { currentStep: 'Saving results' });
+    await recordKeywordRanks(checks);
+
+    const latest = await getLatestRanks(app.id, keywordList, job.country);
+    const changes = checks.map(check => latest.get(check.keyword)?.change ?? null);
+
+    return {
+        checked: checks.length,
+        ranked: checks.filter(check => check.rank !== null).length,
+        failed,
+        improved: changes.filter(change => change !== null && change > 0).length,
+        declined: changes.filter(change => change !== null && change < 0).length,
+    };
+}
+
+/**
+ * Compares the app's keywords with its competitors'. Keyword candidates are the
+ * app's tracked keywords plus freshly generated keywords for each competitor; one
+ * App Store search per keyword gives the position of the app and of every
+ * competitor. Missing keywords the app doesn't track yet are scored so the report
+ * can rank them by opportunity. The app's own positions are recorded as a rank
+ * check for the keywords it tracks.
+ */
+async function analyzeKeywordGaps(job: AnalysisJob): Promise<GapAnalysisResult> {
+    if (job.appId === null) {
+        throw new Error('App no longer exists');
+    }
+
+    const [app] = await db.select().from(apps).where(eq(apps.id, job.appId)).limit(1);
+    if (!app) {
+        throw new Error('App no longer exists');
+    }
+
+    if (isNaN(parseInt(app.appStoreId, 10))) {
+        throw new Error('App has no App Store ID to look for in search results');
+    }
+
+    const appCompetitors = await getCompetitors(app.id);
+    if (appCompetitors.length === 0) {
+        throw new Error('App has no competitors to compare against');
+    }
+    await updateJob(job.id, { appTitle: app.title });
+
+    const trackedRows = await db
+        .select()
+        .from(keywords)
+        .where(and(eq(keywords.appId, app.id), eq(keywords.country, job.country)));
+    const tracked = new Map(trackedRows.map(row => [normalizeKeyword(row.keyword), row]));
+
+    // Competitors each keyword was generated from
+    const relevance = new Map<string, Set<string>>();
+    const addKeyword = (keyword: string, competitorStoreId?: string | null) => {
+        const normalized = normalizeKeyword(keyword);
+        if (normalized.length === 0) return;
+        const competitorIds = relevance.get(normalized) ?? new Set<string>();
+        if (competitorStoreId) competitorIds.add(competitorStoreId);
+        relevance.set(normalized, competitorIds);
+    };
+
+    for (const row of trackedRows) {
+        addKeyword(row.keyword, row.source === 'competitor' ? row.sourceAppStoreId : null);
+    }
+
+    // Step 1: Generate keywords for each competitor
+    for (let i = 0; i < appCompetitors.length; i++) {
+        const competitor = appCompetitors[i];
+        await updateJob(job.id, {
+            currentStep: `Generating competitor keywords (${i + 1}/${appCompetitors.length}): ${competitor.title}`,
+        });
+
+        try {
+            const competitorData = await loadCompetitorData(competitor, job.country, job.country === app.country);
+            const { keywords: competitorKeywords } = await generateKeywordsForApp(competitorData, job.country);
+            competitorKeywords.forEach(keyword => addKeyword(keyword, competitor.appStoreId));
+        } catch (error) {
+            console.warn(`Failed to generate keywords for ${competitor.title}:`, error);
+        }
+    }
+
+    // Step 2: Search each keyword once and find the app and its competitors in the results
+    const keywordList = Array.from(relevance.keys());
+    await updateJob(job.id, {
+        currentStep: 'Searching the App Store',
+        processed: 0,
+        total: keywordList.length,
+    });
+
+    const gaps: NewKeywordGap[] = [];
+    const rankChecks: NewKeywordRank[] = [];
+    const failed: string[] = [];
+
+    for (let i = 0; i < keywordList.length; i++) {
+        const keyword = keywordList[i];
+
+        try {
+            const ids = await searchAppIds(keyword, job.country, RANK_SEARCH_DEPTH);
+            const checkedAt = new Date().toISOString();
+            const appRank = positionInResults(ids, app.appStoreId);
+            const competitorRanks = Object.fromEntries(
+                appCompetitors.map(c => [c.appStoreId, positionInResults(ids, c.appStoreId)])
+            );
+            const relevantTo = Array.from(relevance.get(keyword)!);
+            const trackedRow = tracked.get(keyword);
+
+            if (trackedRow) {
+                rankChecks.push({
+                    appId: app.id,
+                    keyword,
+                    country: job.country,
+                    rank: appRank,
+                    depth: RANK_SEARCH_DEPTH,
+                    checkedAt,
+                });
+            }
+
+            const kind = classifyGap(appRank, competitorRanks, relevantTo);
+            if (kind) {
+                gaps.push({
+                    appId: app.id,
+                    keyword,
+                    country: job.country,
+                    kind,
+                    appRank,
+                    competitorRanks: JSON.stringify(competitorRanks),
+                    relevantTo: JSON.stringify(relevantTo),
+                    traffic: trackedRow?.traffic ?? null,
+                    difficulty: trackedRow?.difficulty ?? null,
+                    opportunity: trackedRow?.opportunity ?? null,
+                    recommendation: trackedRow?.recommendation ?? null,
+                    depth: RANK_SEARCH_DEPTH,
+                    checkedAt,
+                });
+            }
+        } catch (error) {
+            console.warn(`Failed to search for "${keyword}":`, error);
+            failed.push(keyword);
+        }
+
+        await updateJob(job.id, { processed: i + 1 });
+        if (i < keywordList.length - 1) await delay(300);
+    }
+
+    // Step 3: Score the missing keywords the app doesn't track yet
+    const unscored = gaps.filter(gap => gap.kind === 'missing' && !tracked.has(gap.keyword));
+    const config = await getScoringConfigForApp(app);
+    await updateJob(job.id, {
+        currentStep: 'Scoring missing keywords',
+        processed: 0,
+        total: unscored.length,
+    });
+
+    const scores = await scoreKeywordList(unscored.map(gap => gap.keyword), job.country, config, {
+        forceRefresh: job.forceRefresh,
+        onProgress: (processed) => updateJob(job.id, { processed }),
+    });
+    unscored.forEach((gap, i) => {
+        const { traffic, difficulty, opportunity, recommendation } = scores[i];
+        Object.assign(gap, { traffic, difficulty, opportunity, recommendation });
+    });
+
+    await updateJob(job.id, { currentStep: 'Saving results' });
+    await recordKeywordRanks(rankChecks);
+    await saveKeywordGaps(app.id, job.country, gaps);
+
+    return {
+        checked: keywordList.length - failed.length,
+        missing: gaps.filter(gap => gap.kind === 'missing').length,
+        exclusive: gaps.filter(gap => gap.kind === 'exclusive').length,
+        shared: gaps.filter(gap => gap.kind === 'shared').length,
+        failed,
+    };
+}
+
+/**
+ * Re-scores the keywords whose analysis failed in the job's storefront and updates
+ * their rows in place. Keywords the App Store had no data for are tried again too,
+ * since a keyword can pick up search volume later.
+ */
+async function retryFailedKeywords(job: AnalysisJob): Promise<RetryResult> {
+    if (job.appId === null) {
+        throw new Error('App no longer exists');
+    }
+
+    const [app] = await db.select().from(apps).where(eq(apps.id, job.appId)).limit(1);
+    if (!app) {
+        throw new Error('App no longer exists');
+    }
+    await updateJob(job.id, { appTitle: app.title });
+
+    const failedRows = await db
+        .select()
+        .from(keywords)
+        .where(and(
+            eq(keywords.appId, app.id),
+            eq(keywords.country, job.country),
+            eq(keywords.analysisSucceeded, false)
+        ));
+
+    await updateJob(job.id, {
+        currentStep: 'Retrying failed keywords',
+        processed: 0,
+        total: failedRows.length,
+    });
+
+    const scores = await scoreKeywordList(failedRows.map(row => row.keyword), job.country, await getScoringConfigForApp(app), {
+        forceRefresh: job.forceRefresh,
+        onProgress: (processed) => updateJob(job.id, { processed }),
+    });
+
+    await updateJob(job.id, { currentStep: 'Saving results' });
+    const recovered: NewKeyword[] = [];
+
+    for (let i = 0; i < failedRows.length; i++) {
+        const [updated] = await db
+            .update(keywords)
+            .set(scores[i])
+            .where(eq(keywords.id, failedRows[i].id))
+            .returning();
+        if (updated.analysisSucceeded) recovered.push(updated);
+    }
+    await recordKeywordSnapshots(recovered);
+
+    return {
+        retried: failedRows.length,
+        recovered: recovered.length,
+        noData: scores.filter(score => score.failureReason === 'no_data').length,
+        failed: failedRows.filter((_, i) => scores[i].failureReason === 'transient').map(row => row.keyword),
+    };
+}
+
+/**
+ * Scores and inserts the keywords queued on the job. Keywords the app started
+ * tracking since the job was queued are skipped as duplicates.
+ */
+async function addQueuedKeywords(job: AnalysisJob): Promise<AddKeywordsResult> {
+    if (job.appId === null) {
+        throw new Error('App no longer exists');
+    }
+
+    const [app] = await db.select().from(apps).where(eq(apps.id, job.appId)).limit(1);
+    if (!app) {
+        throw new Error('App no longer exists');
+    }
+    await updateJob(job.id, { appTitle: app.title });
+
+    const candidates: KeywordCandidate[] = job.input ? JSON.parse(job.input) : [];
+    const { toAdd, duplicates } = await partitionNewKeywords(app.id, candidates, job.country);
+    const results = await scoreKeywords(job, app.id, toAdd, await getScoringConfigForApp(app));
+
+    await updateJob(job.id, { currentStep: 'Saving results' });
+    if (results.length > 0) {
+        await db.insert(keywords).values(results);
+    }
+    await recordKeywordSnapshots(results);
+
+    return {
+        added: results.map(row => row.keyword),
+        duplicates,
+        failed: results.filter(row => !row.analysisSucceeded).length,
+    };
+}
+
+/**
+ * Re-scores the keyword row edited through the keyword endpoint, renaming it first
+ * when the edit changed the keyword. A renamed row always takes the new metrics since
+ * its old ones belong to the old keyword, a row re-scored as is keeps them when its
+ * lookups failed.
+ */
+async function rescoreEditedKeyword(job: AnalysisJob): Promise<KeywordEditResult> {
+    if (job.appId === null) {
+        throw new Error('App no longer exists');
+    }
+
+    const [app] = await db.select().from(apps).where(eq(apps.id, job.appId)).limit(1);
+    if (!app) {
+        throw new Error('App no longer exists');
+    }
+    await updateJob(job.id, { appTitle: app.title });
+
+    const edit: KeywordEdit = JSON.parse(job.input ?? '{}');
+    const [row] = await db
+        .select()
+        .from(keywords)
+        .where(and(eq(keywords.id, edit.keywordId), eq(keywords.appId, app.id)))
+        .limit(1);
+    if (!row) {
+        throw new Error('Keyword no longer exists');
+    }
+
+    const renamed = edit.keyword !== row.keyword;
+    if (renamed) {
+        await db.update(keywords).set({ keyword: edit.keyword }).where(eq(keywords.id, row.id));
+    }
+    const edited = { ...row, keyword: edit.keyword, analysisSucceeded: row.analysisSucceeded && !renamed };
+
+    const results = await scoreKeywords(
+        job,
+        app.id,
+        [{ ...edited, source: edited.source as KeywordSource }],
+        await getScoringConfigForApp(app)
+    );
+
+    await updateJob(job.id, { currentStep: 'Saving results' });
+    const { rescoredRows, recommendationChanges } = await updateRescoredKeywords(
+        new Map([[normalizeKeyword(edited.keyword), edited]]),
+        results
+    );
+    await recordKeywordSnapshots(rescoredRows);
+
+    return {
+        keyword: edit.keyword,
+        recommendationChange: recommendationChanges[0] ?? null,
+        failed: results[0].failureReason === 'transient',
+    };
+}
+
+// What each kind of job runs, returning the summary stored as the job's result
+const JOB_HANDLERS: Record<JobKind, (job: AnalysisJob) => Promise<object | null>> = {
+    analyze: analyzeNewApp,
+    refresh: refreshExistingApp,
+    ranks: checkAppRanks,
+    gaps: analyzeKeywordGaps,
+    retry: retryFailedKeywords,
+    rescore: rescoreAppKeywords,
+    keywords: addQueuedKeywords,
+    keyword: rescoreEditedKeyword,
+};
+
+// Runs a queued job to completion, recording failures on the job row
+export async function runAnalysisJob(jobId: number) {
+    const job = await getAnalysisJob(jobId);
+    if (!job) return;
+
+    try {
+        console.log(`Starting ${job.kind} job ${jobId} for app ID: ${job.appStoreId} (${job.country})`);
+        await updateJob(jobId, { status: 'running' });
+
+        const result = await JOB_HANDLERS[job.kind as JobKind](job);
+
+        await updateJob(jobId, {
+            status: 'completed',
+            currentStep: 'Analysis complete',
+            result: result ? JSON.stringify(result) : null,
+            completedAt: new Date().toISOString(),
+        });
+        console.log(`Job ${jobId} complete!`);
+    } catch (error) {
+        console.error(`Job ${jobId} failed:`, error);
+        const message = error instanceof Error ? error.message : 'Analysis failed';
+        await updateJob(jobId, {
+            status: 'failed',
+            error: message,
+            completedAt: new Date().toISOString(),
+        });
+        await fireJobFailedAlerts(job, message)
+            .catch(alertError => console.error(`Error firing alerts for job ${jobId}:`, alertError));
+    }
+}
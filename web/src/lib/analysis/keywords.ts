@@ -0,0 +1,234 @@
+import dotenv from 'dotenv';
+import path from 'path';
+import { DEFAULT_COUNTRY, getCountry } from '@/lib/countries';
+import { DEFAULT_SCORING_CONFIG, scoreMetrics, type ScoringConfig } from '@services/scoring';
+import { createKeywordProvider, fetchScreenshots, type KeywordResult } from '@services/keyword-providers';
+import {
+    NoKeywordDataError,
+    createRateLimiter,
+    getKeywordPoolConfig,
+    runKeywordPool,
+    type KeywordPoolConfig,
+    type Throttle,
+} from '@services/keyword-pool';
+import type { StoreAppData } from './app-store';
+import { getKeywordMetricsCache } from './metrics-cache';
+
+// The keyword provider settings and API keys live in the parent project's .env
+dotenv.config({ path: path.join(process.cwd(), '..', '.env') });
+
+// aso-v2 metrics scaled to 0-100, fetchedAt is when aso-v2 measured them
+export interface KeywordMetrics {
+    traffic: number;
+    difficulty: number;
+    fetchedAt: string;
+}
+
+export interface AnalyzeKeywordOptions {
+    // Fetch from aso-v2 even when the metrics cache has fresh metrics
+    forceRefresh?: boolean;
+}
+
+export interface ScoreKeywordsOptions extends AnalyzeKeywordOptions {
+    // Called with the number of keywords scored so far as each one finishes
+    onProgress?: (scored: number) => void | Promise<void>;
+}
+
+// no_data is final, transient means the lookups kept failing and may work later
+export type KeywordFailureReason = 'no_data' | 'transient';
+
+// One pool config and rate limiter for the whole server, so concurrent jobs share the
+// request budget (KEYWORD_CONCURRENCY etc., see services/keyword-pool.js). Created on
+// first use, after dotenv has loaded.
+let sharedPool: { config: KeywordPoolConfig; throttle: Throttle } | null = null;
+
+function getSharedPool() {
+    if (!sharedPool) {
+        const config = getKeywordPoolConfig();
+        sharedPool = { config, throttle: createRateLimiter(config.requestsPerSecond) };
+    }
+    return sharedPool;
+}
+
+// Normalize: lowercase, trim, remove extra spaces
+export function normalizeKeyword(keyword: string) {
+    return keyword.toLowerCase().trim().replace(/\s+/g, ' ');
+}
+
+export type KeywordSource = 'ai' | 'competitor' | 'autocomplete' | 'manual' | 'unknown';
+
+// A keyword together with where it came from
+export interface KeywordCandidate {
+    keyword: string;
+    source: KeywordSource;
+    sourceSeed?: string | null;
+    sourceAppStoreId?: string | null;
+    sourceAppTitle?: string | null;
+    fromScreenshots?: boolean;
+}
+
+/**
+ * Removes duplicates and near-duplicates, keeping the first occurrence. An
+ * autocomplete suggestion replaces an earlier AI or competitor guess for the
+ * same keyword because it is a proven search. A keyword counts as coming from
+ * screenshots if any of its duplicates did.
+ */
+export function mergeKeywordCandidates(candidates: KeywordCandidate[]) {
+    const merged = new Map<string, KeywordCandidate>();
+
+    for (const candidate of candidates) {
+        const normalized = normalizeKeyword(candidate.keyword);
+        if (normalized.length === 0) continue;
+
+        const existing = merged.get(normalized);
+        if (!existing || (candidate.source === 'autocomplete' && existing.source !== 'autocomplete')) {
+            merged.set(normalized, {
+                ...candidate,
+                keyword: normalized,
+                fromScreenshots: Boolean(candidate.fromScreenshots || existing?.fromScreenshots),
+            });
+        } else if (candidate.fromScreenshots) {
+            existing.fromScreenshots = true;
+        }
+    }
+
+    return Array.from(merged.values());
+}
+
+// Generate keywords for searches in the given storefront with the configured provider
+// (KEYWORD_PROVIDER / KEYWORD_MODEL, see services/keyword-providers.js). The first
+// screenshots go along so the model can pick up their captions.
+export async function generateKeywordsForApp(appData: StoreAppData, country: string = DEFAULT_COUNTRY): Promise<KeywordResult> {
+    const provider = createKeywordProvider();
+    const images = provider.name === 'mock' ? [] : await fetchScreenshots(appData.screenshots);
+
+    return provider.generateKeywords({
+        title: appData.title,
+        description: appData.description,
+        country: getCountry(country).name,
+        images,
+    });
+}
+
+// Turn a generation result into candidates, flagging the ones taken from screenshots
+export function toKeywordCandidates(
+    result: KeywordResult,
+    candidate: Omit<KeywordCandidate, 'keyword' | 'fromScreenshots'>
+): KeywordCandidate[] {
+    const fromScreenshots = new Set(result.screenshotKeywords.map(normalizeKeyword));
+    return result.keywords.map(keyword => ({
+        ...candidate,
+        keyword,
+        fromScreenshots: fromScreenshots.has(normalizeKeyword(keyword)),
+    }));
+}
+
+// Measure a keyword with aso-v2 in a storefront. Metrics any app fetched within the
+// cache TTL are reused unless forceRefresh is set, and only a real lookup waits for
+// the throttle. Throws NoKeywordDataError when aso-v2 has no data for the keyword;
+// any other error means the lookup failed and may succeed when retried.
+export async function analyzeKeyword(
+    keyword: string,
+    country: string = DEFAULT_COUNTRY,
+    options: AnalyzeKeywordOptions = {},
+    throttle: Throttle = getSharedPool().throttle
+): Promise<KeywordMetrics> {
+    const cache = getKeywordMetricsCache();
+
+    if (!options.forceRefresh) {
+        const cached = await cache.get(keyword, 'itunes', country);
+        if (cached) {
+            return { traffic: cached.traffic, difficulty: cached.difficulty, fetchedAt: cached.fetchedAt };
+        }
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const { ASO } = require('aso-v2');
+    // Store options are passed on to app-store-scraper's search and suggest calls
+    const aso = new ASO('itunes', { country });
+
+    await throttle();
+    const analysis = await aso.analyzeKeyword(keyword);
+
+    if (!analysis || !analysis.traffic || !analysis.difficulty) {
+        throw new NoKeywordDataError('No traffic or difficulty data for this keyword');
+    }
+
+    const metrics = {
+        traffic: Math.round(analysis.traffic.score * 10),
+        difficulty: Math.round(analysis.difficulty.score * 10),
+    };
+    await cache.set(keyword, 'itunes', country, { ...metrics, breakdown: analysis });
+
+    return { ...metrics, fetchedAt: new Date().toISOString() };
+}
+
+/**
+ * Scores keywords with the app's scoring config in the shared worker pool and shapes
+ * each result as keyword table columns, in input order. Failed lookups are retried
+ * with backoff; a keyword that still fails comes back as analysis_failed with
+ * failureReason 'transient', one without data with 'no_data'.
+ */
+export async function scoreKeywordList(
+    keywordList: string[],
+    country: string = DEFAULT_COUNTRY,
+    config: ScoringConfig = DEFAULT_SCORING_CONFIG,
+    options: ScoreKeywordsOptions = {}
+) {
+    const pool = getSharedPool();
+    let scored = 0;
+
+    const outcomes = await runKeywordPool(
+        keywordList,
+        (keyword, { throttle }) => analyzeKeyword(keyword, country, options, throttle),
+        {
+            ...pool.config,
+            throttle: pool.throttle,
+            onRetry: (keyword, error, attempt, waitMs) => {
+                console.warn(`Retrying "${keyword}" (${attempt}/${pool.config.maxRetries}) in ${waitMs} ms:`, error);
+            },
+            onSettled: async () => {
+                scored++;
+                await options.onProgress?.(scored);
+            },
+        }
+    );
+
+    return outcomes.map((outcome, i) => {
+        if (outcome.status === 'failed') {
+            console.warn(`Failed to analyze "${keywordList[i]}" after ${outcome.attempts} attempts:`, outcome.error);
+        }
+
+        const analysis = outcome.status === 'succeeded' ? outcome.value : null;
+        const traffic = analysis?.traffic ?? null;
+        const difficulty = analysis?.difficulty ?? null;
+        const failureReason: KeywordFailureReason | null = outcome.status === 'succeeded'
+            ? null
+            : outcome.status === 'no_data' ? 'no_data' : 'transient';
+
+        return {
+            traffic,
+            difficulty,
+            ...scoreMetrics(traffic, difficulty, config),
+            analysisSucceeded: analysis !== null,
+            failureReason,
+            analyzedAt: analysis?.fetchedAt ?? new Date().toISOString(),
+        };
+    });
+}
+
+// Score a single keyword, see scoreKeywordList
+export async function scoreKeyword(
+    keyword: string,
+    country: string = DEFAULT_COUNTRY,
+    config: ScoringConfig = DEFAULT_SCORING_CONFIG,
+    options: AnalyzeKeywordOptions = {}
+) {
+    const [result] = await scoreKeywordList([keyword], country, config, options);
+    return result;
+}
+
+// Small delay to avoid rate limiting
+export function delay(ms: number) {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
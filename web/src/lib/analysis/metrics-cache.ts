@@ -0,0 +1,47 @@
+import { db } from '@/lib/db';
+import { keywordMetrics } from '@/lib/db/schema';
+import { and, eq } from 'drizzle-orm';
+import {
+    createKeywordMetricsCache,
+    type CachedKeywordMetrics,
+    type KeywordMetricsCache,
+    type KeywordMetricsStore,
+} from '@services/keyword-metrics-cache';
+
+// Keeps the shared keyword metrics cache (services/keyword-metrics-cache.js) in the
+// keyword_metrics table, so every app and job in the dashboard reuses the same metrics
+const databaseStore: KeywordMetricsStore = {
+    async get({ keyword, platform, country }) {
+        const [row] = await db
+            .select()
+            .from(keywordMetrics)
+            .where(and(
+                eq(keywordMetrics.keyword, keyword),
+                eq(keywordMetrics.platform, platform),
+                eq(keywordMetrics.country, country)
+            ))
+            .limit(1);
+
+        return row ? { ...row, breakdown: JSON.parse(row.breakdown) } : null;
+    },
+
+    async set(entry: CachedKeywordMetrics) {
+        const values = { ...entry, breakdown: JSON.stringify(entry.breakdown) };
+        await db
+            .insert(keywordMetrics)
+            .values(values)
+            .onConflictDoUpdate({
+                target: [keywordMetrics.keyword, keywordMetrics.platform, keywordMetrics.country],
+                set: values,
+            });
+    },
+};
+
+let cache: KeywordMetricsCache | null = null;
+
+// Created on first use so KEYWORD_CACHE_TTL_HOURS is read after the parent
+// project's .env has been loaded
+export function getKeywordMetricsCache() {
+    cache ??= createKeywordMetricsCache({ store: databaseStore });
+    return cache;
+}
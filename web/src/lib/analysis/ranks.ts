@@ -0,0 +1,119 @@
+import { db } from '@/lib/db';
+import { keywordRanks, type NewKeywordRank } from '@/lib/db/schema';
+import { and, eq, inArray, sql } from 'drizzle-orm';
+import { DEFAULT_COUNTRY } from '@/lib/countries';
+import { searchAppIds } from './app-store';
+import { normalizeKeyword } from './keywords';
+
+// How many search results are checked for the app, the App Store API's usual page size
+export const RANK_SEARCH_DEPTH = 100;
+
+export interface RankSummary {
+    rank: number | null;
+    previousRank: number | null;
+    depth: number;
+    checkedAt: string;
+    previousCheckedAt: string | null;
+    change: number | null; // positions moved up since the previous check, see rankChange
+}
+
+export interface RankCheckResult {
+    checked: number;
+    ranked: number;
+    failed: string[];
+    improved: number;
+    declined: number;
+}
+
+/**
+ * Searches the App Store for a keyword and returns the app's 1-based position in
+ * the first `depth` results, or null when it isn't among them.
+ */
+export async function findAppRank(
+    appStoreId: string,
+    keyword: string,
+    country: string = DEFAULT_COUNTRY,
+    depth = RANK_SEARCH_DEPTH
+) {
+    return positionInResults(await searchAppIds(keyword, country, depth), appStoreId);
+}
+
+// 1-based position of an app in a list of search result IDs, null when it's missing
+export function positionInResults(ids: number[], appStoreId: string) {
+    const index = ids.indexOf(Number(appStoreId));
+    return index === -1 ? null : index + 1;
+}
+
+export async function recordKeywordRanks(rows: NewKeywordRank[]) {
+    if (rows.length > 0) {
+        await db.insert(keywordRanks).values(rows);
+    }
+}
+
+/**
+ * Latest and previous rank check for each of the given keywords in a storefront,
+ * keyed on the normalized keyword. Keywords that were never checked are missing.
+ */
+export async function getLatestRanks(appId: number, keywordList: string[], country: string = DEFAULT_COUNTRY) {
+    const normalized = Array.from(new Set(keywordList.map(normalizeKeyword)));
+    const ranks = new Map<string, RankSummary>();
+
+    if (normalized.length === 0) return ranks;
+
+    const rows = await db
+        .select()
+        .from(keywordRanks)
+        .where(and(
+            eq(keywordRanks.appId, appId),
+            eq(keywordRanks.country, country),
+            inArray(keywordRanks.keyword, normalized)
+        ))
+        .orderBy(sql`${keywordRanks.checkedAt} DESC`);
+
+    for (const row of rows) {
+        const latest = ranks.get(row.keyword);
+
+        if (!latest) {
+            ranks.set(row.keyword, {
+                rank: row.rank,
+                previousRank: null,
+                depth: row.depth,
+                checkedAt: row.checkedAt,
+                previousCheckedAt: null,
+                change: null,
+            });
+        } else if (latest.previousCheckedAt === null) {
+            latest.previousRank = row.rank;
+            latest.previousCheckedAt = row.checkedAt;
+            latest.change = rankChange(latest);
+        }
+    }
+
+    return ranks;
+}
+
+// Full rank history of one keyword for an app in a storefront, oldest first
+export async function getRankHistory(appId: number, keyword: string, country: string = DEFAULT_COUNTRY) {
+    return db
+        .select()
+        .from(keywordRanks)
+        .where(and(
+            eq(keywordRanks.appId, appId),
+            eq(keywordRanks.country, country),
+            eq(keywordRanks.keyword, normalizeKeyword(keyword))
+        ))
+        .orderBy(sql`${keywordRanks.checkedAt} ASC`);
+}
+
+/**
+ * Compares two rank checks. Not ranking counts as below the searched depth, so
+ * entering the results is an improvement and dropping out of them a decline.
+ * Returns null when there is no earlier check.
+ */
+export function rankChange(summary: Pick<RankSummary, 'rank' | 'previousRank' | 'depth' | 'previousCheckedAt'>) {
+    if (summary.previousCheckedAt === null) return null;
+
+    const current = summary.rank ?? summary.depth + 1;
+    const previous = summary.previousRank ?? summary.depth + 1;
+    return previous - current;
+}
@@ -0,0 +1,236 @@
+import { db } from '@/lib/db';
+import { apps, appSchedules, scheduleRuns, type AppSchedule, type ScheduleRun } from '@/lib/db/schema';
+import { and, desc, eq, inArray, lte, sql } from 'drizzle-orm';
+import { deliverPendingWebhooks } from '@/lib/alerts/webhooks';
+import { createAnalysisJob, failInterruptedJobs, findActiveJob, getAnalysisJob, runAnalysisJob } from './jobs';
+import { nextCronRun, parseCron } from './cron';
+
+export const SCHEDULE_CADENCES = ['daily', 'weekly', 'cron'];
+
+export type ScheduleCadence = 'daily' | 'weekly' | 'cron';
+
+// Daily runs start at 06:00 server time, weekly ones at 06:00 on Mondays
+export const CADENCE_CRON: Record<Exclude<ScheduleCadence, 'cron'>, string> = {
+    daily: '0 6 * * *',
+    weekly: '0 6 * * 1',
+};
+
+// How often the scheduler looks for due schedules
+const SCHEDULER_INTERVAL_MS = 60 * 1000;
+
+// Runs returned with a schedule
+const RECENT_RUN_LIMIT = 10;
+
+// Set while a scheduled re-score is running, see runDueSchedules
+let scheduledRunActive = false;
+
+export interface ScheduleInput {
+    cadence: ScheduleCadence;
+    cron?: string | null;
+    country: string;
+    enabled?: boolean;
+}
+
+// The cron expression a cadence runs on. Custom expressions are validated and
+// tidied, invalid ones throw with what's wrong.
+export function resolveScheduleCron(cadence: ScheduleCadence, cron?: string | null) {
+    if (cadence !== 'cron') return CADENCE_CRON[cadence];
+
+    if (!cron || !cron.trim()) {
+        throw new Error('A custom schedule needs a cron expression');
+    }
+    const expression = cron.trim().replace(/\s+/g, ' ');
+    nextCronRun(parseCron(expression), new Date());
+    return expression;
+}
+
+// Parse the stored JSON result for API responses
+export function serializeScheduleRun(run: ScheduleRun) {
+    return { ...run, result: run.result ? JSON.parse(run.result) : null };
+}
+
+export async function getAppSchedule(appId: number) {
+    const [schedule] = await db.select().from(appSchedules).where(eq(appSchedules.appId, appId)).limit(1);
+    return schedule ?? null;
+}
+
+// A schedule's most recent runs, newest first
+export async function getScheduleRuns(scheduleId: number, limit = RECENT_RUN_LIMIT) {
+    const runs = await db
+        .select()
+        .from(scheduleRuns)
+        .where(eq(scheduleRuns.scheduleId, scheduleId))
+        .orderBy(desc(scheduleRuns.startedAt))
+        .limit(limit);
+    return runs.map(serializeScheduleRun);
+}
+
+/**
+ * Creates or replaces an app's schedule. The next run is planned from now, so
+ * changing the cadence never triggers a run for a date that has already passed.
+ */
+export async function saveAppSchedule(appId: number, input: ScheduleInput) {
+    const now = new Date();
+    const cron = resolveScheduleCron(input.cadence, input.cron);
+    const values = {
+        cadence: input.cadence,
+        cron,
+        country: input.country,
+        enabled: input.enabled ?? true,
+        nextRunAt: nextCronRun(cron, now).toISOString(),
+        updatedAt: now.toISOString(),
+    };
+
+    const [schedule] = await db
+        .insert(appSchedules)
+        .values({ appId, ...values, createdAt: now.toISOString() })
+        .onConflictDoUpdate({ target: appSchedules.appId, set: values })
+        .returning();
+    return schedule;
+}
+
+// Every app's schedule with its latest run, for the apps list
+export async function getScheduleSummaries() {
+    const schedules = await db.select().from(appSchedules);
+    const latestRuns = await db
+        .select()
+        .from(scheduleRuns)
+        .where(inArray(
+            scheduleRuns.id,
+            db.select({ id: sql<number>`MAX(${scheduleRuns.id})` }).from(scheduleRuns).groupBy(scheduleRuns.scheduleId)
+        ));
+    const latestBySchedule = new Map(latestRuns.map(run => [run.scheduleId, serializeScheduleRun(run)]));
+
+    return new Map(schedules.map(schedule => [
+        schedule.appId,
+        { ...schedule, lastRun: latestBySchedule.get(schedule.id) ?? null },
+    ]));
+}
+
+// Records how a scheduled run's job ended
+async function finishScheduleRun(runId: number, jobId: number) {
+    const finished = await getAnalysisJob(jobId);
+    await db.update(scheduleRuns).set({
+        status: finished?.status === 'completed' ? 'completed' : 'failed',
+        error: finished?.error ?? null,
+        result: finished?.result ?? null,
+        completedAt: new Date().toISOString(),
+    }).where(eq(scheduleRuns.id, runId));
+}
+
+/**
+ * Starts re-scoring a due schedule's app, returning whether it did. The job runs in
+ * the background and its outcome is recorded once it has finished. An app that is
+ * already being analyzed is skipped for now and picked up on a later tick, as its
+ * run is still due. The next run is planned from now, so runs missed while the
+ * server was down are caught up with a single run rather than one per missed date.
+ */
+async function runSchedule(schedule: AppSchedule) {
+    const [app] = await db.select().from(apps).where(eq(apps.id, schedule.appId)).limit(1);
+    if (!app || await findActiveJob(app.appStoreId)) return false;
+
+    // Cached metrics can be up to a week old, so reusing them would record stale
+    // numbers as new history points and never trip the change alerts
+    const now = new Date();
+    const job = await createAnalysisJob(app.appStoreId, 'rescore', app.id, schedule.country, { forceRefresh: true });
+    const [run] = await db.insert(scheduleRuns).values({
+        scheduleId: schedule.id,
+        appId: app.id,
+        jobId: job.id,
+        dueAt: schedule.nextRunAt,
+        startedAt: now.toISOString(),
+        status: 'running',
+    }).returning();
+
+    await db.update(appSchedules).set({
+        lastRunAt: now.toISOString(),
+        nextRunAt: nextCronRun(schedule.cron, now).toISOString(),
+    }).where(eq(appSchedules.id, schedule.id));
+
+    console.log(`Running scheduled re-score of ${app.title} (${schedule.country}), due ${schedule.nextRunAt}`);
+    scheduledRunActive = true;
+    runAnalysisJob(job.id)
+        .then(() => finishScheduleRun(run.id, job.id))
+        .catch(error => console.error(`Error finishing scheduled run ${run.id}:`, error))
+        .finally(() => {
+            scheduledRunActive = false;
+        });
+    return true;
+}
+
+// Starts the most overdue enabled schedule. Scheduled runs go one app at a time so
+// they don't compete for the keyword request budget, the others stay due and
+// start on a tick after the running one has finished.
+export async function runDueSchedules(now = new Date()) {
+    if (scheduledRunActive) return;
+
+    const due = await db
+        .select()
+        .from(appSchedules)
+        .where(and(eq(appSchedules.enabled, true), lte(appSchedules.nextRunAt, now.toISOString())))
+        .orderBy(appSchedules.nextRunAt);
+
+    for (const schedule of due) {
+        try {
+            if (await runSchedule(schedule)) return;
+        } catch (error) {
+            console.error(`Error running schedule ${schedule.id}:`, error);
+        }
+    }
+}
+
+/**
+ * Cleans up after a restart: jobs that were cut off are failed, and their
+ * scheduled runs with them. Those schedules are made due again so the first tick
+ * catches them up, like schedules whose date passed while the server was down.
+ */
+async function recoverInterruptedRuns() {
+    const interruptedJobs = await failInterruptedJobs();
+    const interrupted = await db.select().from(scheduleRuns).where(eq(scheduleRuns.status, 'running'));
+
+    for (const run of interrupted) {
+        await db.update(scheduleRuns).set({
+            status: 'failed',
+            error: 'Interrupted by a server restart',
+            completedAt: new Date().toISOString(),
+        }).where(eq(scheduleRuns.id, run.id));
+
+        await db.update(appSchedules)
+            .set({ nextRunAt: run.dueAt })
+            .where(eq(appSchedules.id, run.scheduleId));
+    }
+
+    if (interruptedJobs.length > 0) {
+        console.warn(`Failed ${interruptedJobs.length} jobs interrupted by a restart, ${interrupted.length} of them scheduled`);
+    }
+}
+
+let schedulerTimer: ReturnType<typeof setInterval> | null = null;
+let ticking = false;
+
+async function tick() {
+    // A tick can outlast the interval while it waits for webhook deliveries
+    if (ticking) return;
+    ticking = true;
+    try {
+        await runDueSchedules();
+        // Webhook deliveries that failed are retried on the same tick
+        await deliverPendingWebhooks();
+    } catch (error) {
+        console.error('Error checking schedules:', error);
+    } finally {
+        ticking = false;
+    }
+}
+
+// Starts checking for due schedules and webhook retries every minute, catching up
+// on missed runs first. Called once when the server starts, see src/instrumentation.ts.
+export function startScheduler() {
+    if (schedulerTimer) return;
+
+    schedulerTimer = setInterval(tick, SCHEDULER_INTERVAL_MS);
+    recoverInterruptedRuns()
+        .catch(error => console.error('Error recovering interrupted runs:', error))
+        .then(tick);
+    console.log('Scheduler started');
+}
@@ -0,0 +1,125 @@
+import { db } from '@/lib/db';
+import { apps, keywords, workspaces, type App, type Workspace } from '@/lib/db/schema';
+import { and, eq } from 'drizzle-orm';
+import {
+    DEFAULT_SCORING_CONFIG,
+    resolveScoringConfig,
+    scoreMetrics,
+    type ScoringConfig,
+    type ScoringOverrides,
+} from '@services/scoring';
+import type { KeywordChange } from './jobs';
+
+// Parse the stored JSON overrides, null when the app uses the defaults
+export function parseScoringOverrides(value: string | null): ScoringOverrides | null {
+    return value ? JSON.parse(value) : null;
+}
+
+// The defaults every workspace's overrides are applied on top of
+export function getBaseScoringConfig(): ScoringConfig {
+    return DEFAULT_SCORING_CONFIG;
+}
+
+export function getScoringConfigForWorkspace(workspace: Pick<Workspace, 'scoringConfig'> | null) {
+    return resolveScoringConfig(parseScoringOverrides(workspace?.scoringConfig ?? null), getBaseScoringConfig());
+}
+
+// What an app's own overrides are applied on top of: its workspace's scoring
+export async function getAppBaseScoringConfig(app: Pick<App, 'workspaceId'>) {
+    const [workspace] = app.workspaceId !== null
+        ? await db.select().from(workspaces).where(eq(workspaces.id, app.workspaceId)).limit(1)
+        : [];
+    return getScoringConfigForWorkspace(workspace ?? null);
+}
+
+export async function getScoringConfigForApp(app: Pick<App, 'scoringConfig' | 'workspaceId'>) {
+    return resolveScoringConfig(parseScoringOverrides(app.scoringConfig), await getAppBaseScoringConfig(app));
+}
+
+export async function getAppScoringConfig(appId: number) {
+    const [app] = await db.select().from(apps).where(eq(apps.id, appId)).limit(1);
+    return app ? getScoringConfigForApp(app) : getBaseScoringConfig();
+}
+
+/**
+ * Keeps only the values of a complete config that differ from the base, so an app
+ * or workspace follows later changes to its base for everything it doesn't override.
+ * Returns null when nothing differs.
+ */
+export function diffScoringConfig(config: ScoringConfig, base: ScoringConfig): ScoringOverrides | null {
+    const overrides: ScoringOverrides = {};
+
+    for (const key of Object.keys(base.weights) as (keyof ScoringConfig['weights'])[]) {
+        if (config.weights[key] !== base.weights[key]) {
+            overrides.weights = { ...overrides.weights, [key]: config.weights[key] };
+        }
+    }
+
+    for (const name of Object.keys(base.thresholds) as (keyof ScoringConfig['thresholds'])[]) {
+        const threshold: Record<string, number> = config.thresholds[name];
+        const baseThreshold: Record<string, number> = base.thresholds[name];
+        const changed = Object.keys(baseThreshold).filter(key => threshold[key] !== baseThreshold[key]);
+
+        if (changed.length > 0) {
+            overrides.thresholds = {
+                ...overrides.thresholds,
+                [name]: Object.fromEntries(changed.map(key => [key, threshold[key]])),
+            };
+        }
+    }
+
+    return overrides.weights || overrides.thresholds ? overrides : null;
+}
+
+/**
+ * Re-applies a scoring config to an app's stored keywords without fetching new
+ * metrics. Only rows whose opportunity or recommendation actually change are
+ * written. Returns how many rows changed and which recommendations moved.
+ */
+export async function recomputeAppScores(appId: number, config: ScoringConfig) {
+    const rows = await db
+        .select()
+        .from(keywords)
+        .where(and(eq(keywords.appId, appId), eq(keywords.analysisSucceeded, true)));
+
+    let updated = 0;
+    const recommendationChanges: KeywordChange[] = [];
+
+    for (const row of rows) {
+        if (row.traffic === null || row.difficulty === null) continue;
+
+        const { opportunity, recommendation } = scoreMetrics(row.traffic, row.difficulty, config);
+        if (opportunity === row.opportunity && recommendation === row.recommendation) continue;
+
+        await db.update(keywords).set({ opportunity, recommendation }).where(eq(keywords.id, row.id));
+        updated++;
+
+        if (recommendation !== row.recommendation) {
+            recommendationChanges.push({
+                keyword: row.keyword,
+                previousRecommendation: row.recommendation,
+                recommendation,
+                trafficChange: 0,
+                difficultyChange: 0,
+            });
+        }
+    }
+
+    return { updated, recommendationChanges };
+}
+
+// Re-applies each app's scoring after its workspace's settings changed
+export async function recomputeWorkspaceScores(workspaceId: number) {
+    const workspaceApps = await db.select().from(apps).where(eq(apps.workspaceId, workspaceId));
+
+    let updated = 0;
+    const recommendationChanges: KeywordChange[] = [];
+
+    for (const app of workspaceApps) {
+        const result = await recomputeAppScores(app.id, await getScoringConfigForApp(app));
+        updated += result.updated;
+        recommendationChanges.push(...result.recommendationChanges);
+    }
+
+    return { apps: workspaceApps.length, updated, recommendationChanges };
+}
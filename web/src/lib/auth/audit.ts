@@ -0,0 +1,43 @@
+import { db } from '@/lib/db';
+import { auditLog, type AuditLogEntry } from '@/lib/db/schema';
+import { desc } from 'drizzle-orm';
+import type { AuthUser } from './users';
+
+export type AuditAction =
+    | 'app.delete'
+    | 'keyword.delete'
+    | 'competitor.delete'
+    | 'workspace.delete'
+    | 'alert_rule.delete'
+    | 'schedule.delete'
+    | 'user.delete'
+    | 'data.import';
+
+export async function recordAudit(
+    user: AuthUser,
+    action: AuditAction,
+    target: string,
+    details?: Record<string, unknown>
+) {
+    await db.insert(auditLog).values({
+        userId: user.id,
+        username: user.username,
+        action,
+        target,
+        details: details ? JSON.stringify(details) : null,
+        createdAt: new Date().toISOString(),
+    });
+}
+
+export function serializeAuditEntry(entry: AuditLogEntry) {
+    return {
+        ...entry,
+        details: entry.details ? JSON.parse(entry.details) : null,
+    };
+}
+
+// Newest first
+export async function getAuditLog(limit = 100) {
+    const rows = await db.select().from(auditLog).orderBy(desc(auditLog.createdAt), desc(auditLog.id)).limit(limit);
+    return rows.map(serializeAuditEntry);
+}
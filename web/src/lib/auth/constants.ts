@@ -0,0 +1,2 @@
+// Kept apart from the database code so the proxy can use it
+export const SESSION_COOKIE = 'aso_session';
@@ -0,0 +1,102 @@
+import { db } from '@/lib/db';
+import { apiTokens, sessions, users, type ApiToken } from '@/lib/db/schema';
+import { and, desc, eq, gt, lte } from 'drizzle-orm';
+import { createHash, randomBytes } from 'crypto';
+
+export const SESSION_TTL_DAYS = 30;
+
+// Makes tokens easy to spot in scripts and secret scanners
+export const API_TOKEN_PREFIX = 'aso_';
+export const MAX_TOKEN_NAME_LENGTH = 60;
+
+// Only hashes are stored, so a leaked database doesn't leak working credentials
+function hashToken(token: string) {
+    return createHash('sha256').update(token).digest('hex');
+}
+
+export async function createSession(userId: number) {
+    const token = randomBytes(32).toString('base64url');
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + SESSION_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+    // Signing in is a good moment to forget sessions that ran out
+    await db.delete(sessions).where(lte(sessions.expiresAt, now.toISOString()));
+    await db.insert(sessions).values({
+        userId,
+        tokenHash: hashToken(token),
+        createdAt: now.toISOString(),
+        expiresAt: expiresAt.toISOString(),
+    });
+    await db.update(users).set({ lastLoginAt: now.toISOString() }).where(eq(users.id, userId));
+
+    return { token, expiresAt };
+}
+
+export async function getSessionUser(token: string) {
+    const [row] = await db
+        .select({ user: users })
+        .from(sessions)
+        .innerJoin(users, eq(sessions.userId, users.id))
+        .where(and(
+            eq(sessions.tokenHash, hashToken(token)),
+            gt(sessions.expiresAt, new Date().toISOString())
+        ))
+        .limit(1);
+    return row?.user ?? null;
+}
+
+export async function deleteSession(token: string) {
+    await db.delete(sessions).where(eq(sessions.tokenHash, hashToken(token)));
+}
+
+// Signs the user out everywhere and revokes their API tokens after an admin resets
+// their password. Deleting a user removes both through ON DELETE CASCADE.
+export async function deleteUserCredentials(userId: number) {
+    await db.delete(sessions).where(eq(sessions.userId, userId));
+    await db.delete(apiTokens).where(eq(apiTokens.userId, userId));
+}
+
+// The token is returned once and can't be recovered afterwards
+export async function createApiToken(userId: number, name: string) {
+    const token = `${API_TOKEN_PREFIX}${randomBytes(24).toString('base64url')}`;
+    const [apiToken] = await db.insert(apiTokens).values({
+        userId,
+        name,
+        tokenHash: hashToken(token),
+        prefix: token.slice(0, API_TOKEN_PREFIX.length + 6),
+        createdAt: new Date().toISOString(),
+    }).returning();
+    return { token, apiToken: serializeApiToken(apiToken) };
+}
+
+export function serializeApiToken(apiToken: ApiToken) {
+    return {
+        id: apiToken.id,
+        name: apiToken.name,
+        prefix: apiToken.prefix,
+        createdAt: apiToken.createdAt,
+        lastUsedAt: apiToken.lastUsedAt,
+    };
+}
+
+export async function getUserApiTokens(userId: number) {
+    const rows = await db
+        .select()
+        .from(apiTokens)
+        .where(eq(apiTokens.userId, userId))
+        .orderBy(desc(apiTokens.createdAt));
+    return rows.map(serializeApiToken);
+}
+
+export async function getApiTokenUser(token: string) {
+    const [row] = await db
+        .select({ tokenId: apiTokens.id, user: users })
+        .from(apiTokens)
+        .innerJoin(users, eq(apiTokens.userId, users.id))
+        .where(eq(apiTokens.tokenHash, hashToken(token)))
+        .limit(1);
+    if (!row) return null;
+
+    await db.update(apiTokens).set({ lastUsedAt: new Date().toISOString() }).where(eq(apiTokens.id, row.tokenId));
+    return row.user;
+}
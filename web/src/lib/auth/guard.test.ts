@@ -0,0 +1,57 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { NextRequest } from 'next/server';
+import { SESSION_COOKIE } from './constants';
+import { createApiToken, createSession, deleteUserCredentials } from './credentials';
+import { requireRole } from './guard';
+import { createUser } from './users';
+
+// Runs against the in-memory database the test script sets up with DATABASE_PATH
+const request = (headers: Record<string, string> = {}) =>
+    new NextRequest('http://localhost/api/apps', { headers });
+
+describe('requireRole', () => {
+    let viewerToken: string;
+    let editorToken: string;
+    let editorSession: string;
+    let editorId: number;
+
+    before(async () => {
+        const viewer = await createUser('viewer', 'password1', 'viewer');
+        const editor = await createUser('editor', 'password1', 'editor');
+        editorId = editor.id;
+        viewerToken = (await createApiToken(viewer.id, 'script')).token;
+        editorToken = (await createApiToken(editor.id, 'script')).token;
+        editorSession = (await createSession(editor.id)).token;
+    });
+
+    it('asks requests without credentials to sign in', async () => {
+        const auth = await requireRole(request(), 'viewer');
+        assert.equal(auth.response?.status, 401);
+    });
+
+    it('rejects unknown tokens and other schemes', async () => {
+        assert.equal((await requireRole(request({ authorization: 'Bearer aso_unknown' }), 'viewer')).response?.status, 401);
+        assert.equal((await requireRole(request({ authorization: `Basic ${editorToken}` }), 'viewer')).response?.status, 401);
+    });
+
+    it('forbids roles below the required one', async () => {
+        const auth = await requireRole(request({ authorization: `Bearer ${viewerToken}` }), 'editor');
+        assert.equal(auth.response?.status, 403);
+    });
+
+    it('accepts API tokens and session cookies with enough rights', async () => {
+        const byToken = await requireRole(request({ authorization: `Bearer ${editorToken}` }), 'editor');
+        assert.equal(byToken.user?.username, 'editor');
+
+        const bySession = await requireRole(request({ cookie: `${SESSION_COOKIE}=${editorSession}` }), 'viewer');
+        assert.equal(bySession.user?.username, 'editor');
+    });
+
+    it('stops accepting a user\'s credentials once they are deleted', async () => {
+        await deleteUserCredentials(editorId);
+
+        assert.equal((await requireRole(request({ authorization: `Bearer ${editorToken}` }), 'viewer')).response?.status, 401);
+        assert.equal((await requireRole(request({ cookie: `${SESSION_COOKIE}=${editorSession}` }), 'viewer')).response?.status, 401);
+    });
+});
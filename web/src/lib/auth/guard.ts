@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SESSION_COOKIE } from './constants';
+import { getApiTokenUser, getSessionUser } from './credentials';
+import { hasRole, serializeUser, type AuthUser, type UserRole } from './users';
+
+/**
+ * The user a request is signed in as: an "Authorization: Bearer" API token
+ * when one is sent, otherwise the session cookie. null when neither is valid.
+ */
+export async function getRequestUser(request: NextRequest): Promise<AuthUser | null> {
+    const authorization = request.headers.get('authorization');
+    if (authorization) {
+        const [scheme, token] = authorization.split(' ');
+        if (scheme.toLowerCase() !== 'bearer' || !token) return null;
+
+        const user = await getApiTokenUser(token.trim());
+        return user ? serializeUser(user) : null;
+    }
+
+    const sessionToken = request.cookies.get(SESSION_COOKIE)?.value;
+    if (!sessionToken) return null;
+
+    const user = await getSessionUser(sessionToken);
+    return user ? serializeUser(user) : null;
+}
+
+type AuthResult = { user: AuthUser; response?: never } | { user?: never; response: NextResponse };
+
+/**
+ * Checks that a request is signed in with at least `role`. Routes return the
+ * response when there is one:
+ *
+ *     const auth = await requireRole(request, 'editor');
+ *     if (auth.response) return auth.response;
+ */
+export async function requireRole(request: NextRequest, role: UserRole): Promise<AuthResult> {
+    const user = await getRequestUser(request);
+
+    if (!user) {
+        return { response: NextResponse.json({ error: 'Sign in required' }, { status: 401 }) };
+    }
+    if (!hasRole(user, role)) {
+        return { response: NextResponse.json({ error: `Requires the ${role} role` }, { status: 403 }) };
+    }
+    return { user };
+}
+
+// The cookie is only marked Secure over HTTPS so the dashboard still works on a
+// plain-HTTP local network
+export function setSessionCookie(
+    request: NextRequest,
+    response: NextResponse,
+    session: { token: string; expiresAt: Date }
+) {
+    response.cookies.set(SESSION_COOKIE, session.token, {
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: request.nextUrl.protocol === 'https:',
+        path: '/',
+        expires: session.expiresAt,
+    });
+}
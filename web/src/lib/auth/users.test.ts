@@ -0,0 +1,73 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    MIN_PASSWORD_LENGTH,
+    hasRole,
+    hashPassword,
+    isUserRole,
+    validatePassword,
+    validateUsername,
+    verifyPassword,
+    type AuthUser,
+    type UserRole,
+} from './users';
+
+const userWithRole = (role: UserRole): AuthUser => ({
+    id: 1,
+    username: role,
+    role,
+    createdAt: '2025-03-10T06:00:00.000Z',
+    lastLoginAt: null,
+});
+
+describe('hasRole', () => {
+    it('lets each role do what the roles below it can', () => {
+        const allowed = (role: UserRole) => (['viewer', 'editor', 'admin'] as UserRole[])
+            .filter(required => hasRole(userWithRole(role), required));
+
+        assert.deepEqual(allowed('viewer'), ['viewer']);
+        assert.deepEqual(allowed('editor'), ['viewer', 'editor']);
+        assert.deepEqual(allowed('admin'), ['viewer', 'editor', 'admin']);
+    });
+});
+
+describe('isUserRole', () => {
+    it('accepts only the known roles', () => {
+        assert.ok(isUserRole('editor'));
+        assert.ok(!isUserRole('owner'));
+        assert.ok(!isUserRole(undefined));
+    });
+});
+
+describe('validateUsername', () => {
+    it('trims and lowercases usernames', () => {
+        assert.deepEqual(validateUsername('  Jo.Smith '), { username: 'jo.smith' });
+    });
+
+    it('rejects missing, short and oddly shaped usernames', () => {
+        assert.ok('error' in validateUsername(''));
+        assert.ok('error' in validateUsername('j'));
+        assert.ok('error' in validateUsername('-jo'));
+        assert.ok('error' in validateUsername('jo smith'));
+        assert.ok('error' in validateUsername('x'.repeat(33)));
+    });
+});
+
+describe('validatePassword', () => {
+    it('needs a string of the minimum length', () => {
+        assert.equal(validatePassword('x'.repeat(MIN_PASSWORD_LENGTH)), null);
+        assert.match(validatePassword('short') ?? '', /at least/);
+        assert.match(validatePassword(12345678) ?? '', /at least/);
+    });
+});
+
+describe('hashPassword', () => {
+    it('salts every hash and verifies only the right password', async () => {
+        const hash = await hashPassword('correct horse');
+
+        assert.notEqual(await hashPassword('correct horse'), hash);
+        assert.ok(await verifyPassword('correct horse', hash));
+        assert.ok(!await verifyPassword('wrong horse', hash));
+        assert.ok(!await verifyPassword('correct horse', 'not-a-hash'));
+    });
+});
@@ -0,0 +1,122 @@
+import { db } from '@/lib/db';
+import { users, type User } from '@/lib/db/schema';
+import { asc, count, eq } from 'drizzle-orm';
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+
+// Each role can do everything the ones before it can
+export const USER_ROLES = ['viewer', 'editor', 'admin'] as const;
+export type UserRole = typeof USER_ROLES[number];
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+const USERNAME_PATTERN = /^[a-z0-9][a-z0-9._-]{1,31}$/;
+const KEY_LENGTH = 64;
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+
+// What requests and API responses carry of a user, never the password hash
+export type AuthUser = Pick<User, 'id' | 'username' | 'role' | 'createdAt' | 'lastLoginAt'> & { role: UserRole };
+
+export function isUserRole(value: unknown): value is UserRole {
+    return USER_ROLES.includes(value as UserRole);
+}
+
+export function hasRole(user: AuthUser, role: UserRole) {
+    return USER_ROLES.indexOf(user.role) >= USER_ROLES.indexOf(role);
+}
+
+export function serializeUser(user: User): AuthUser {
+    return {
+        id: user.id,
+        username: user.username,
+        role: user.role as UserRole,
+        createdAt: user.createdAt,
+        lastLoginAt: user.lastLoginAt,
+    };
+}
+
+export async function hashPassword(password: string) {
+    const salt = randomBytes(16);
+    const hash = await scryptAsync(password, salt, KEY_LENGTH);
+    return `${salt.toString('hex')}:${hash.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, stored: string) {
+    const [salt, hash] = stored.split(':');
+    if (!salt || !hash) return false;
+
+    const expected = Buffer.from(hash, 'hex');
+    const actual = await scryptAsync(password, Buffer.from(salt, 'hex'), expected.length);
+    return timingSafeEqual(actual, expected);
+}
+
+// A normalized username, or an error message when it can't be used
+export function validateUsername(username: unknown): { username: string } | { error: string } {
+    if (typeof username !== 'string' || !username.trim()) {
+        return { error: 'username is required' };
+    }
+    const normalized = username.trim().toLowerCase();
+    if (!USERNAME_PATTERN.test(normalized)) {
+        return { error: 'username must be 2-32 letters, digits, dots, dashes or underscores' };
+    }
+    return { username: normalized };
+}
+
+export function validatePassword(password: unknown): string | null {
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+        return `password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+    }
+    return null;
+}
+
+export async function getUser(userId: number) {
+    const [user] = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+    return user ?? null;
+}
+
+export async function getUserByUsername(username: string) {
+    const [user] = await db.select().from(users).where(eq(users.username, username.trim().toLowerCase())).limit(1);
+    return user ?? null;
+}
+
+export async function listUsers() {
+    const rows = await db.select().from(users).orderBy(asc(users.username));
+    return rows.map(serializeUser);
+}
+
+// Until the first account exists the dashboard offers to create it as an admin
+export async function isSetupRequired() {
+    const [{ total }] = await db.select({ total: count() }).from(users);
+    return total === 0;
+}
+
+export async function countAdmins() {
+    const [{ total }] = await db.select({ total: count() }).from(users).where(eq(users.role, 'admin'));
+    return total;
+}
+
+export async function createUser(username: string, password: string, role: UserRole) {
+    const now = new Date().toISOString();
+    const [user] = await db.insert(users).values({
+        username,
+        passwordHash: await hashPassword(password),
+        role,
+        createdAt: now,
+        updatedAt: now,
+    }).returning();
+    return user;
+}
+
+/**
+ * The user whose password matches, or null. Unknown usernames still pay for a
+ * hash so response times don't reveal which accounts exist.
+ */
+export async function authenticateUser(username: string, password: string) {
+    const user = await getUserByUsername(username);
+    if (!user) {
+        await hashPassword(password);
+        return null;
+    }
+    return (await verifyPassword(password, user.passwordHash)) ? user : null;
+}
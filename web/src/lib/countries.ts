@@ -0,0 +1,32 @@
+// App Store storefronts the dashboard can analyze, keyed by ISO 3166 code
+// as expected by app-store-scraper and aso-v2
+export const COUNTRIES = [
+    { code: 'us', name: 'United States', flag: '🇺🇸' },
+    { code: 'gb', name: 'United Kingdom', flag: '🇬🇧' },
+    { code: 'ca', name: 'Canada', flag: '🇨🇦' },
+    { code: 'au', name: 'Australia', flag: '🇦🇺' },
+    { code: 'de', name: 'Germany', flag: '🇩🇪' },
+    { code: 'fr', name: 'France', flag: '🇫🇷' },
+    { code: 'es', name: 'Spain', flag: '🇪🇸' },
+    { code: 'it', name: 'Italy', flag: '🇮🇹' },
+    { code: 'nl', name: 'Netherlands', flag: '🇳🇱' },
+    { code: 'se', name: 'Sweden', flag: '🇸🇪' },
+    { code: 'tr', name: 'Turkey', flag: '🇹🇷' },
+    { code: 'br', name: 'Brazil', flag: '🇧🇷' },
+    { code: 'mx', name: 'Mexico', flag: '🇲🇽' },
+    { code: 'in', name: 'India', flag: '🇮🇳' },
+    { code: 'jp', name: 'Japan', flag: '🇯🇵' },
+    { code: 'kr', name: 'South Korea', flag: '🇰🇷' },
+] as const;
+
+export type CountryCode = (typeof COUNTRIES)[number]['code'];
+
+export const DEFAULT_COUNTRY: CountryCode = 'us';
+
+export function isSupportedCountry(code: unknown): code is CountryCode {
+    return typeof code === 'string' && COUNTRIES.some((country) => country.code === code);
+}
+
+export function getCountry(code: string) {
+    return COUNTRIES.find((country) => country.code === code) ?? { code, name: code.toUpperCase(), flag: '🏳️' };
+}
@@ -3,8 +3,9 @@ import { drizzle } from 'drizzle-orm/better-sqlite3';
 import * as schema from './schema';
 import path from 'path';
 
-// Database file location - in the web directory
-const dbPath = path.join(process.cwd(), 'aso-analytics.db');
+// Database file location - in the web directory unless DATABASE_PATH is set,
+// e.g. to ":memory:" so the tests never touch the real database
+const dbPath = process.env.DATABASE_PATH || path.join(process.cwd(), 'aso-analytics.db');
 
 // Create database connection
 const sqlite = new Database(dbPath);
@@ -17,6 +18,15 @@ export const db = drizzle(sqlite, { schema });
 
 // Initialize tables if they don't exist
 sqlite.exec(`
+  CREATE TABLE IF NOT EXISTS workspaces (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL UNIQUE,
+    country TEXT NOT NULL DEFAULT 'us',
+    scoring_config TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
   CREATE TABLE IF NOT EXISTS apps (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
     app_store_id TEXT NOT NULL UNIQUE,
@@ -24,23 +34,322 @@ sqlite.exec(`
     description TEXT NOT NULL,
     genres TEXT NOT NULL,
     screenshot_count INTEGER DEFAULT 0,
-    analyzed_at TEXT NOT NULL
+    screenshots TEXT NOT NULL DEFAULT '[]',
+    analyzed_at TEXT NOT NULL,
+    country TEXT NOT NULL DEFAULT 'us',
+    scoring_config TEXT,
+    workspace_id INTEGER REFERENCES workspaces(id)
   );
 
   CREATE TABLE IF NOT EXISTS keywords (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
     app_id INTEGER NOT NULL REFERENCES apps(id) ON DELETE CASCADE,
     keyword TEXT NOT NULL,
+    country TEXT NOT NULL DEFAULT 'us',
     traffic INTEGER,
     difficulty INTEGER,
     opportunity INTEGER,
     recommendation TEXT NOT NULL,
     analysis_succeeded INTEGER NOT NULL,
-    analyzed_at TEXT NOT NULL
+    failure_reason TEXT,
+    analyzed_at TEXT NOT NULL,
+    source TEXT NOT NULL DEFAULT 'ai',
+    source_seed TEXT,
+    source_app_store_id TEXT,
+    source_app_title TEXT,
+    from_screenshots INTEGER NOT NULL DEFAULT 0,
+    notes TEXT,
+    tags TEXT NOT NULL DEFAULT '[]',
+    status TEXT NOT NULL DEFAULT 'candidate'
+  );
+
+  CREATE TABLE IF NOT EXISTS analysis_jobs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    kind TEXT NOT NULL DEFAULT 'analyze',
+    app_store_id TEXT NOT NULL,
+    country TEXT NOT NULL DEFAULT 'us',
+    app_id INTEGER REFERENCES apps(id) ON DELETE SET NULL,
+    app_title TEXT,
+    status TEXT NOT NULL,
+    current_step TEXT,
+    processed INTEGER NOT NULL DEFAULT 0,
+    total INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    result TEXT,
+    force_refresh INTEGER NOT NULL DEFAULT 0,
+    workspace_id INTEGER REFERENCES workspaces(id) ON DELETE SET NULL,
+    started_by TEXT,
+    input TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    completed_at TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS keyword_snapshots (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    app_id INTEGER NOT NULL REFERENCES apps(id) ON DELETE CASCADE,
+    keyword TEXT NOT NULL,
+    country TEXT NOT NULL DEFAULT 'us',
+    traffic INTEGER,
+    difficulty INTEGER,
+    opportunity INTEGER,
+    recommendation TEXT NOT NULL,
+    recorded_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS keyword_ranks (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    app_id INTEGER NOT NULL REFERENCES apps(id) ON DELETE CASCADE,
+    keyword TEXT NOT NULL,
+    country TEXT NOT NULL DEFAULT 'us',
+    rank INTEGER,
+    depth INTEGER NOT NULL,
+    checked_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS keyword_gaps (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    app_id INTEGER NOT NULL REFERENCES apps(id) ON DELETE CASCADE,
+    keyword TEXT NOT NULL,
+    country TEXT NOT NULL DEFAULT 'us',
+    kind TEXT NOT NULL,
+    app_rank INTEGER,
+    competitor_ranks TEXT NOT NULL,
+    relevant_to TEXT NOT NULL,
+    traffic INTEGER,
+    difficulty INTEGER,
+    opportunity INTEGER,
+    recommendation TEXT,
+    depth INTEGER NOT NULL,
+    checked_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS cli_imports (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    app_id INTEGER NOT NULL REFERENCES apps(id) ON DELETE CASCADE,
+    folder TEXT NOT NULL UNIQUE,
+    file TEXT NOT NULL,
+    country TEXT NOT NULL DEFAULT 'us',
+    status TEXT NOT NULL,
+    processed INTEGER NOT NULL,
+    total INTEGER NOT NULL,
+    file_updated_at TEXT NOT NULL,
+    imported_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS keyword_metrics (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    keyword TEXT NOT NULL,
+    platform TEXT NOT NULL,
+    country TEXT NOT NULL,
+    traffic INTEGER NOT NULL,
+    difficulty INTEGER NOT NULL,
+    breakdown TEXT NOT NULL,
+    fetched_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS competitors (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    app_id INTEGER NOT NULL REFERENCES apps(id) ON DELETE CASCADE,
+    app_store_id TEXT NOT NULL,
+    title TEXT NOT NULL,
+    description TEXT NOT NULL,
+    genres TEXT NOT NULL,
+    source TEXT NOT NULL,
+    added_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS app_schedules (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    app_id INTEGER NOT NULL UNIQUE REFERENCES apps(id) ON DELETE CASCADE,
+    cadence TEXT NOT NULL,
+    cron TEXT NOT NULL,
+    country TEXT NOT NULL DEFAULT 'us',
+    enabled INTEGER NOT NULL DEFAULT 1,
+    next_run_at TEXT NOT NULL,
+    last_run_at TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS schedule_runs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    schedule_id INTEGER NOT NULL REFERENCES app_schedules(id) ON DELETE CASCADE,
+    app_id INTEGER NOT NULL REFERENCES apps(id) ON DELETE CASCADE,
+    job_id INTEGER REFERENCES analysis_jobs(id) ON DELETE SET NULL,
+    due_at TEXT NOT NULL,
+    started_at TEXT NOT NULL,
+    completed_at TEXT,
+    status TEXT NOT NULL,
+    error TEXT,
+    result TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS alert_rules (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    app_id INTEGER NOT NULL REFERENCES apps(id) ON DELETE CASCADE,
+    keyword TEXT,
+    condition TEXT NOT NULL,
+    threshold INTEGER,
+    channel TEXT NOT NULL,
+    webhook_url TEXT,
+    webhook_secret TEXT,
+    enabled INTEGER NOT NULL DEFAULT 1,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS alert_events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    rule_id INTEGER REFERENCES alert_rules(id) ON DELETE SET NULL,
+    app_id INTEGER NOT NULL REFERENCES apps(id) ON DELETE CASCADE,
+    keyword TEXT,
+    country TEXT,
+    condition TEXT NOT NULL,
+    message TEXT NOT NULL,
+    details TEXT NOT NULL,
+    channel TEXT NOT NULL,
+    fired_at TEXT NOT NULL,
+    delivery_status TEXT NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TEXT,
+    last_error TEXT,
+    delivered_at TEXT,
+    read_at TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS users (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    username TEXT NOT NULL UNIQUE,
+    password_hash TEXT NOT NULL,
+    role TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    last_login_at TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS sessions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    token_hash TEXT NOT NULL UNIQUE,
+    created_at TEXT NOT NULL,
+    expires_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS api_tokens (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    token_hash TEXT NOT NULL UNIQUE,
+    prefix TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    last_used_at TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS audit_log (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    username TEXT NOT NULL,
+    action TEXT NOT NULL,
+    target TEXT NOT NULL,
+    details TEXT,
+    created_at TEXT NOT NULL
   );
 
   CREATE INDEX IF NOT EXISTS idx_keywords_app_id ON keywords(app_id);
   CREATE INDEX IF NOT EXISTS idx_keywords_recommendation ON keywords(recommendation);
+  CREATE INDEX IF NOT EXISTS idx_analysis_jobs_status ON analysis_jobs(status);
+  CREATE INDEX IF NOT EXISTS idx_keyword_snapshots_lookup ON keyword_snapshots(app_id, keyword, recorded_at);
+  CREATE INDEX IF NOT EXISTS idx_keyword_ranks_lookup ON keyword_ranks(app_id, country, keyword, checked_at);
+  CREATE INDEX IF NOT EXISTS idx_keyword_gaps_app ON keyword_gaps(app_id, country);
+  CREATE UNIQUE INDEX IF NOT EXISTS idx_competitors_app_store ON competitors(app_id, app_store_id);
+  CREATE UNIQUE INDEX IF NOT EXISTS idx_keyword_metrics_lookup ON keyword_metrics(keyword, platform, country);
+  CREATE INDEX IF NOT EXISTS idx_app_schedules_due ON app_schedules(enabled, next_run_at);
+  CREATE INDEX IF NOT EXISTS idx_schedule_runs_schedule ON schedule_runs(schedule_id, started_at);
+  CREATE INDEX IF NOT EXISTS idx_alert_rules_app ON alert_rules(app_id, condition);
+  CREATE INDEX IF NOT EXISTS idx_alert_events_app ON alert_events(app_id, fired_at);
+  CREATE INDEX IF NOT EXISTS idx_alert_events_delivery ON alert_events(delivery_status, next_attempt_at);
+  CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions(user_id);
+  CREATE INDEX IF NOT EXISTS idx_api_tokens_user ON api_tokens(user_id);
+  CREATE INDEX IF NOT EXISTS idx_audit_log_created ON audit_log(created_at);
+`);
+
+// Add columns introduced after a table was first created
+// Returns true when the column had to be added
+function ensureColumn(table: string, column: string, definition: string) {
+  const columns = sqlite.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some(c => c.name === column)) {
+    sqlite.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    return true;
+  }
+  return false;
+}
+
+ensureColumn('analysis_jobs', 'kind', "TEXT NOT NULL DEFAULT 'analyze'");
+ensureColumn('analysis_jobs', 'result', 'TEXT');
+
+if (ensureColumn('keywords', 'source', "TEXT NOT NULL DEFAULT 'ai'")) {
+  // Keywords imported from CLI results before provenance was tracked have no known origin
+  sqlite.exec(`
+    UPDATE keywords SET source = 'unknown'
+    WHERE app_id IN (SELECT id FROM apps WHERE app_store_id LIKE 'imported-%');
+  `);
+}
+ensureColumn('keywords', 'source_seed', 'TEXT');
+ensureColumn('keywords', 'source_app_store_id', 'TEXT');
+ensureColumn('keywords', 'source_app_title', 'TEXT');
+ensureColumn('keywords', 'notes', 'TEXT');
+ensureColumn('keywords', 'tags', "TEXT NOT NULL DEFAULT '[]'");
+ensureColumn('keywords', 'status', "TEXT NOT NULL DEFAULT 'candidate'");
+
+// Everything analyzed before storefronts were selectable came from the US store
+ensureColumn('apps', 'country', "TEXT NOT NULL DEFAULT 'us'");
+ensureColumn('keywords', 'country', "TEXT NOT NULL DEFAULT 'us'");
+ensureColumn('analysis_jobs', 'country', "TEXT NOT NULL DEFAULT 'us'");
+ensureColumn('keyword_snapshots', 'country', "TEXT NOT NULL DEFAULT 'us'");
+sqlite.exec(`
+  CREATE INDEX IF NOT EXISTS idx_keywords_app_country ON keywords(app_id, country);
+`);
+
+ensureColumn('apps', 'scoring_config', 'TEXT');
+
+ensureColumn('apps', 'screenshots', "TEXT NOT NULL DEFAULT '[]'");
+ensureColumn('keywords', 'from_screenshots', 'INTEGER NOT NULL DEFAULT 0');
+
+ensureColumn('analysis_jobs', 'force_refresh', 'INTEGER NOT NULL DEFAULT 0');
+
+ensureColumn('keywords', 'failure_reason', 'TEXT');
+
+// There is always at least one workspace, and apps from before workspaces existed
+// belong to the first one
+ensureColumn('apps', 'workspace_id', 'INTEGER REFERENCES workspaces(id)');
+ensureColumn('analysis_jobs', 'workspace_id', 'INTEGER REFERENCES workspaces(id) ON DELETE SET NULL');
+sqlite.exec(`
+  INSERT INTO workspaces (name, country, created_at, updated_at)
+  SELECT 'My Apps', 'us', strftime('%Y-%m-%dT%H:%M:%fZ', 'now'), strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  WHERE NOT EXISTS (SELECT 1 FROM workspaces);
+
+  UPDATE apps SET workspace_id = (SELECT MIN(id) FROM workspaces) WHERE workspace_id IS NULL;
+
+  CREATE INDEX IF NOT EXISTS idx_apps_workspace ON apps(workspace_id);
+`);
+
+ensureColumn('analysis_jobs', 'started_by', 'TEXT');
+ensureColumn('analysis_jobs', 'input', 'TEXT');
+
+// normalizeKeyword from lib/analysis/keywords.ts for SQL, which can't import it
+// without pulling the analysis code into the database setup
+sqlite.function('normalize_keyword', { deterministic: true }, (keyword: unknown) =>
+  String(keyword).toLowerCase().trim().replace(/\s+/g, ' ')
+);
+
+// Seed the history from existing keyword rows the first time the snapshots table is used
+sqlite.exec(`
+  INSERT INTO keyword_snapshots (app_id, keyword, country, traffic, difficulty, opportunity, recommendation, recorded_at)
+  SELECT app_id, normalize_keyword(keyword), country, traffic, difficulty, opportunity, recommendation, analyzed_at
+  FROM keywords
+  WHERE analysis_succeeded = 1
+    AND NOT EXISTS (SELECT 1 FROM keyword_snapshots);
 `);
 
 export { sqlite };
@@ -1,4 +1,15 @@
-import { sqliteTable, text, integer, real } from 'drizzle-orm/sqlite-core';
+import { sqliteTable, text, integer, uniqueIndex } from 'drizzle-orm/sqlite-core';
+
+// A group of apps, e.g. your own apps or a set of competitors, with its own scoring
+// settings and default storefront
+export const workspaces = sqliteTable('workspaces', {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    name: text('name').notNull().unique(),
+    country: text('country').notNull().default('us'), // storefront new apps are analyzed in
+    scoringConfig: text('scoring_config'), // JSON overrides of the default scoring, null when unchanged
+    createdAt: text('created_at').notNull(),
+    updatedAt: text('updated_at').notNull(),
+});
 
 export const apps = sqliteTable('apps', {
     id: integer('id').primaryKey({ autoIncrement: true }),
@@ -7,22 +18,269 @@ export const apps = sqliteTable('apps', {
     description: text('description').notNull(),
     genres: text('genres').notNull(), // JSON array stored as string
     screenshotCount: integer('screenshot_count').default(0),
+    screenshots: text('screenshots').notNull().default('[]'), // JSON array of screenshot URLs
     analyzedAt: text('analyzed_at').notNull(),
+    country: text('country').notNull().default('us'), // storefront the metadata was scraped from
+    scoringConfig: text('scoring_config'), // JSON scoring overrides, null uses the workspace's scoring
+    workspaceId: integer('workspace_id').references(() => workspaces.id),
 });
 
 export const keywords = sqliteTable('keywords', {
     id: integer('id').primaryKey({ autoIncrement: true }),
     appId: integer('app_id').notNull().references(() => apps.id, { onDelete: 'cascade' }),
     keyword: text('keyword').notNull(),
+    country: text('country').notNull().default('us'), // storefront the keyword was scored in
     traffic: integer('traffic'),
     difficulty: integer('difficulty'),
     opportunity: integer('opportunity'),
     recommendation: text('recommendation').notNull(),
     analysisSucceeded: integer('analysis_succeeded', { mode: 'boolean' }).notNull(),
+    failureReason: text('failure_reason'), // no_data | transient, null when the analysis succeeded
     analyzedAt: text('analyzed_at').notNull(),
+    source: text('source').notNull().default('ai'), // ai | competitor | autocomplete | manual | unknown
+    sourceSeed: text('source_seed'), // seed keyword for autocomplete suggestions
+    sourceAppStoreId: text('source_app_store_id'), // competitor the keyword was generated from
+    sourceAppTitle: text('source_app_title'),
+    fromScreenshots: integer('from_screenshots', { mode: 'boolean' }).notNull().default(false), // model took it from screenshots
+    notes: text('notes'),
+    tags: text('tags').notNull().default('[]'), // JSON array stored as string
+    status: text('status').notNull().default('candidate'), // candidate | tracking | in_metadata | rejected
+});
+
+export const analysisJobs = sqliteTable('analysis_jobs', {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    kind: text('kind').notNull().default('analyze'), // analyze | refresh | ranks | gaps | retry | rescore | keywords
+    appStoreId: text('app_store_id').notNull(),
+    country: text('country').notNull().default('us'),
+    appId: integer('app_id').references(() => apps.id, { onDelete: 'set null' }),
+    appTitle: text('app_title'),
+    status: text('status').notNull(), // queued | running | completed | failed
+    currentStep: text('current_step'),
+    processed: integer('processed').notNull().default(0),
+    total: integer('total').notNull().default(0),
+    error: text('error'),
+    result: text('result'), // JSON summary of what the run changed
+    forceRefresh: integer('force_refresh', { mode: 'boolean' }).notNull().default(false), // bypass the keyword metrics cache
+    workspaceId: integer('workspace_id').references(() => workspaces.id, { onDelete: 'set null' }), // where a new app is added
+    startedBy: text('started_by'), // username of who queued the job, null for scheduled runs
+    input: text('input'), // JSON keyword candidates a keywords job adds
+    createdAt: text('created_at').notNull(),
+    updatedAt: text('updated_at').notNull(),
+    completedAt: text('completed_at'),
+});
+
+export const keywordSnapshots = sqliteTable('keyword_snapshots', {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    appId: integer('app_id').notNull().references(() => apps.id, { onDelete: 'cascade' }),
+    keyword: text('keyword').notNull(), // normalized: lowercase, single spaces
+    country: text('country').notNull().default('us'),
+    traffic: integer('traffic'),
+    difficulty: integer('difficulty'),
+    opportunity: integer('opportunity'),
+    recommendation: text('recommendation').notNull(),
+    recordedAt: text('recorded_at').notNull(),
+});
+
+export const keywordRanks = sqliteTable('keyword_ranks', {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    appId: integer('app_id').notNull().references(() => apps.id, { onDelete: 'cascade' }),
+    keyword: text('keyword').notNull(), // normalized: lowercase, single spaces
+    country: text('country').notNull().default('us'),
+    rank: integer('rank'), // 1-based search position, null when not in the first `depth` results
+    depth: integer('depth').notNull(), // number of search results that were checked
+    checkedAt: text('checked_at').notNull(),
+});
+
+// Latest keyword gap analysis of an app against its competitors, one row per keyword
+export const keywordGaps = sqliteTable('keyword_gaps', {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    appId: integer('app_id').notNull().references(() => apps.id, { onDelete: 'cascade' }),
+    keyword: text('keyword').notNull(), // normalized: lowercase, single spaces
+    country: text('country').notNull().default('us'),
+    kind: text('kind').notNull(), // missing | exclusive | shared
+    appRank: integer('app_rank'), // null when the app isn't in the first `depth` results
+    competitorRanks: text('competitor_ranks').notNull(), // JSON { [appStoreId]: rank | null }
+    relevantTo: text('relevant_to').notNull(), // JSON App Store IDs of competitors the keyword was generated from
+    traffic: integer('traffic'),
+    difficulty: integer('difficulty'),
+    opportunity: integer('opportunity'),
+    recommendation: text('recommendation'),
+    depth: integer('depth').notNull(),
+    checkedAt: text('checked_at').notNull(),
+});
+
+export const cliImports = sqliteTable('cli_imports', {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    appId: integer('app_id').notNull().references(() => apps.id, { onDelete: 'cascade' }),
+    folder: text('folder').notNull().unique(), // results/ folder the CLI wrote to
+    file: text('file').notNull(),
+    country: text('country').notNull().default('us'),
+    status: text('status').notNull(), // in_progress | completed
+    processed: integer('processed').notNull(),
+    total: integer('total').notNull(),
+    fileUpdatedAt: text('file_updated_at').notNull(), // lastUpdated or completedAt from the file
+    importedAt: text('imported_at').notNull(),
+});
+
+// aso-v2 metrics shared by every app, reused until they are older than the cache TTL
+export const keywordMetrics = sqliteTable('keyword_metrics', {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    keyword: text('keyword').notNull(), // normalized: lowercase, single spaces
+    platform: text('platform').notNull(), // itunes
+    country: text('country').notNull(),
+    traffic: integer('traffic').notNull(),
+    difficulty: integer('difficulty').notNull(),
+    breakdown: text('breakdown').notNull(), // JSON of aso-v2's raw traffic and difficulty analysis
+    fetchedAt: text('fetched_at').notNull(),
+}, (table) => [
+    uniqueIndex('idx_keyword_metrics_lookup').on(table.keyword, table.platform, table.country),
+]);
+
+export const competitors = sqliteTable('competitors', {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    appId: integer('app_id').notNull().references(() => apps.id, { onDelete: 'cascade' }),
+    appStoreId: text('app_store_id').notNull(),
+    title: text('title').notNull(),
+    description: text('description').notNull(),
+    genres: text('genres').notNull(), // JSON array stored as string
+    source: text('source').notNull(), // similar | manual
+    addedAt: text('added_at').notNull(),
+}, (table) => [
+    uniqueIndex('idx_competitors_app_store').on(table.appId, table.appStoreId),
+]);
+
+// When an app's keywords are re-scored automatically, one schedule per app
+export const appSchedules = sqliteTable('app_schedules', {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    appId: integer('app_id').notNull().unique().references(() => apps.id, { onDelete: 'cascade' }),
+    cadence: text('cadence').notNull(), // daily | weekly | cron
+    cron: text('cron').notNull(), // cron expression, the preset one for daily and weekly
+    country: text('country').notNull().default('us'), // storefront whose keywords are re-scored
+    enabled: integer('enabled', { mode: 'boolean' }).notNull().default(true),
+    nextRunAt: text('next_run_at').notNull(),
+    lastRunAt: text('last_run_at'),
+    createdAt: text('created_at').notNull(),
+    updatedAt: text('updated_at').notNull(),
+});
+
+// Outcome of each scheduled re-score, the job holds its progress
+export const scheduleRuns = sqliteTable('schedule_runs', {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    scheduleId: integer('schedule_id').notNull().references(() => appSchedules.id, { onDelete: 'cascade' }),
+    appId: integer('app_id').notNull().references(() => apps.id, { onDelete: 'cascade' }),
+    jobId: integer('job_id').references(() => analysisJobs.id, { onDelete: 'set null' }),
+    dueAt: text('due_at').notNull(), // when the run was due, earlier than startedAt for caught-up runs
+    startedAt: text('started_at').notNull(),
+    completedAt: text('completed_at'),
+    status: text('status').notNull(), // running | completed | failed
+    error: text('error'),
+    result: text('result'), // JSON RescoreResult of the job
+});
+
+// A condition to watch on an app, or on one of its keywords, and where to send alerts
+export const alertRules = sqliteTable('alert_rules', {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    appId: integer('app_id').notNull().references(() => apps.id, { onDelete: 'cascade' }),
+    keyword: text('keyword'), // normalized keyword, null watches all of the app's keywords
+    condition: text('condition').notNull(), // recommendation_change | traffic_change | job_failed
+    threshold: integer('threshold'), // traffic points a traffic_change has to exceed
+    channel: text('channel').notNull(), // in_app | webhook
+    webhookUrl: text('webhook_url'),
+    webhookSecret: text('webhook_secret'), // HMAC key webhook payloads are signed with
+    enabled: integer('enabled', { mode: 'boolean' }).notNull().default(true),
+    createdAt: text('created_at').notNull(),
+    updatedAt: text('updated_at').notNull(),
+});
+
+// Every alert that fired, doubling as the in-app notification list and the webhook delivery queue
+export const alertEvents = sqliteTable('alert_events', {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    ruleId: integer('rule_id').references(() => alertRules.id, { onDelete: 'set null' }),
+    appId: integer('app_id').notNull().references(() => apps.id, { onDelete: 'cascade' }),
+    keyword: text('keyword'),
+    country: text('country'),
+    condition: text('condition').notNull(),
+    message: text('message').notNull(),
+    details: text('details').notNull(), // JSON with the values that triggered the alert
+    channel: text('channel').notNull(),
+    firedAt: text('fired_at').notNull(),
+    deliveryStatus: text('delivery_status').notNull(), // pending | delivered | failed
+    attempts: integer('attempts').notNull().default(0),
+    nextAttemptAt: text('next_attempt_at'), // when a pending webhook is tried next
+    lastError: text('last_error'),
+    deliveredAt: text('delivered_at'),
+    readAt: text('read_at'), // when an in-app notification was read
+});
+
+// A local dashboard account, signed in with a password or one of its API tokens
+export const users = sqliteTable('users', {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    username: text('username').notNull().unique(), // lowercase
+    passwordHash: text('password_hash').notNull(), // scrypt, as salt:hash in hex
+    role: text('role').notNull(), // viewer | editor | admin
+    createdAt: text('created_at').notNull(),
+    updatedAt: text('updated_at').notNull(),
+    lastLoginAt: text('last_login_at'),
+});
+
+// A signed-in browser, identified by the session cookie
+export const sessions = sqliteTable('sessions', {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    tokenHash: text('token_hash').notNull().unique(), // SHA-256 of the cookie value
+    createdAt: text('created_at').notNull(),
+    expiresAt: text('expires_at').notNull(),
+});
+
+// Personal token for scripted access, sent as "Authorization: Bearer <token>"
+export const apiTokens = sqliteTable('api_tokens', {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    name: text('name').notNull(),
+    tokenHash: text('token_hash').notNull().unique(), // SHA-256 of the token, which is only shown once
+    prefix: text('prefix').notNull(), // start of the token, to tell tokens apart
+    createdAt: text('created_at').notNull(),
+    lastUsedAt: text('last_used_at'),
+});
+
+// Who deleted or imported what. Analyses record who started them on the job instead.
+export const auditLog = sqliteTable('audit_log', {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    userId: integer('user_id').references(() => users.id, { onDelete: 'set null' }),
+    username: text('username').notNull(), // kept when the user is deleted
+    action: text('action').notNull(), // e.g. app.delete, keyword.delete, data.import
+    target: text('target').notNull(), // what was acted on, e.g. the app title
+    details: text('details'), // JSON with the removed row's identifiers
+    createdAt: text('created_at').notNull(),
 });
 
+export type Workspace = typeof workspaces.$inferSelect;
+export type NewWorkspace = typeof workspaces.$inferInsert;
 export type App = typeof apps.$inferSelect;
 export type NewApp = typeof apps.$inferInsert;
 export type Keyword = typeof keywords.$inferSelect;
 export type NewKeyword = typeof keywords.$inferInsert;
+export type AnalysisJob = typeof analysisJobs.$inferSelect;
+export type NewAnalysisJob = typeof analysisJobs.$inferInsert;
+export type KeywordSnapshot = typeof keywordSnapshots.$inferSelect;
+export type NewKeywordSnapshot = typeof keywordSnapshots.$inferInsert;
+export type KeywordRank = typeof keywordRanks.$inferSelect;
+export type NewKeywordRank = typeof keywordRanks.$inferInsert;
+export type KeywordGap = typeof keywordGaps.$inferSelect;
+export type NewKeywordGap = typeof keywordGaps.$inferInsert;
+export type CliImport = typeof cliImports.$inferSelect;
+export type KeywordMetric = typeof keywordMetrics.$inferSelect;
+export type Competitor = typeof competitors.$inferSelect;
+export type NewCompetitor = typeof competitors.$inferInsert;
+export type AppSchedule = typeof appSchedules.$inferSelect;
+export type NewAppSchedule = typeof appSchedules.$inferInsert;
+export type ScheduleRun = typeof scheduleRuns.$inferSelect;
+export type AlertRule = typeof alertRules.$inferSelect;
+export type NewAlertRule = typeof alertRules.$inferInsert;
+export type AlertEvent = typeof alertEvents.$inferSelect;
+export type NewAlertEvent = typeof alertEvents.$inferInsert;
+export type User = typeof users.$inferSelect;
+export type NewUser = typeof users.$inferInsert;
+export type Session = typeof sessions.$inferSelect;
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type AuditLogEntry = typeof auditLog.$inferSelect;
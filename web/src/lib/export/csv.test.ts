@@ -0,0 +1,27 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { toCsv } from './csv';
+
+describe('toCsv', () => {
+    it('starts with a BOM and ends every line with CRLF', () => {
+        assert.equal(toCsv(['keyword', 'traffic'], [['notes', 42]]), '\uFEFFkeyword,traffic\r\nnotes,42\r\n');
+    });
+
+    it('quotes fields with separators, quotes and line breaks', () => {
+        const csv = toCsv(['keyword'], [['a, b'], ['say "hi"'], ['two\nlines']]);
+        assert.equal(csv, '\uFEFFkeyword\r\n"a, b"\r\n"say ""hi"""\r\n"two\nlines"\r\n');
+    });
+
+    it('writes null as an empty field and booleans as text', () => {
+        assert.equal(toCsv(['a', 'b', 'c'], [[null, true, false]]), '\uFEFFa,b,c\r\n,true,false\r\n');
+    });
+
+    it('keeps text that looks like a formula as text', () => {
+        const csv = toCsv(['keyword'], [['=HYPERLINK("x")'], ['+1'], ['-cmd'], ['@sum']]);
+        assert.equal(csv, '\uFEFFkeyword\r\n"\'=HYPERLINK(""x"")"\r\n\'+1\r\n\'-cmd\r\n\'@sum\r\n');
+    });
+
+    it('leaves negative numbers alone', () => {
+        assert.equal(toCsv(['change'], [[-5]]), '\uFEFFchange\r\n-5\r\n');
+    });
+});
@@ -0,0 +1,17 @@
+export type CellValue = string | number | boolean | null;
+
+// Quote fields that contain separators, quotes or line breaks (RFC 4180). Text that
+// spreadsheets would run as a formula, like a keyword starting with "=", gets a
+// leading apostrophe so it stays text.
+function escapeCsvField(value: CellValue) {
+    if (value === null) return '';
+
+    const text = typeof value === 'string' && /^[=+\-@]/.test(value) ? `'${value}` : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// CSV text with a header row. The BOM makes Excel read the file as UTF-8.
+export function toCsv(headers: string[], rows: CellValue[][]) {
+    const lines = [headers, ...rows].map(row => row.map(escapeCsvField).join(','));
+    return '\uFEFF' + lines.join('\r\n') + '\r\n';
+}
@@ -0,0 +1,109 @@
+import { NextResponse } from 'next/server';
+import type { App } from '@/lib/db/schema';
+import type { getAppKeywords } from '@/lib/analysis/app-keywords';
+import { toCsv, type CellValue } from './csv';
+import { toXlsx } from './xlsx';
+
+export const EXPORT_FORMATS = ['csv', 'xlsx', 'json'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+    return typeof value === 'string' && (EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+type ExportKeyword = Awaited<ReturnType<typeof getAppKeywords>>[number];
+
+// One exported row: a keyword together with the app it belongs to
+export interface ExportRow {
+    app: Pick<App, 'title' | 'appStoreId'>;
+    keyword: ExportKeyword;
+}
+
+interface ExportColumn {
+    key: string; // JSON property name
+    header: string; // spreadsheet column title
+    value: (row: ExportRow) => CellValue;
+}
+
+function describeSource(keyword: ExportKeyword) {
+    if (keyword.source === 'autocomplete') return keyword.sourceSeed;
+    if (keyword.source === 'competitor') return keyword.sourceAppTitle;
+    return null;
+}
+
+const appColumns: ExportColumn[] = [
+    { key: 'appTitle', header: 'App', value: ({ app }) => app.title },
+    { key: 'appStoreId', header: 'App Store ID', value: ({ app }) => app.appStoreId },
+];
+
+const keywordColumns: ExportColumn[] = [
+    { key: 'keyword', header: 'Keyword', value: ({ keyword }) => keyword.keyword },
+    { key: 'country', header: 'Country', value: ({ keyword }) => keyword.country.toUpperCase() },
+    { key: 'popularity', header: 'Popularity', value: ({ keyword }) => keyword.traffic },
+    { key: 'difficulty', header: 'Difficulty', value: ({ keyword }) => keyword.difficulty },
+    { key: 'opportunity', header: 'Opportunity', value: ({ keyword }) => keyword.opportunity },
+    { key: 'recommendation', header: 'Recommendation', value: ({ keyword }) => keyword.recommendation },
+    {
+        key: 'position',
+        header: 'Position',
+        // Checked but not ranking reads as "> 100" so it isn't mistaken for "not checked"
+        value: ({ keyword }) => keyword.rank
+            ? keyword.rank.rank ?? `> ${keyword.rank.depth}`
+            : null,
+    },
+    { key: 'positionChange', header: 'Position change', value: ({ keyword }) => keyword.rank?.change ?? null },
+    { key: 'positionCheckedAt', header: 'Position checked', value: ({ keyword }) => keyword.rank?.checkedAt ?? null },
+    { key: 'source', header: 'Source', value: ({ keyword }) => keyword.source },
+    { key: 'sourceDetail', header: 'Source detail', value: ({ keyword }) => describeSource(keyword) },
+    { key: 'fromScreenshots', header: 'From screenshots', value: ({ keyword }) => keyword.fromScreenshots },
+    { key: 'status', header: 'Status', value: ({ keyword }) => keyword.status },
+    { key: 'tags', header: 'Tags', value: ({ keyword }) => keyword.tags.join(', ') },
+    { key: 'notes', header: 'Notes', value: ({ keyword }) => keyword.notes },
+    { key: 'analyzedAt', header: 'Last update', value: ({ keyword }) => keyword.analyzedAt },
+];
+
+// File name safe version of an app title, like the CLI's results folders
+export function exportFileName(parts: string[], format: ExportFormat) {
+    const base = parts
+        .map(part => part.replace(/[^a-zA-Z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 30))
+        .filter(part => part.length > 0)
+        .join('_');
+    return `${base || 'keywords'}.${format}`;
+}
+
+/**
+ * Renders keyword rows in the requested format and wraps them in a download
+ * response. App columns are included for portfolio exports. JSON exports put
+ * the rows under "keywords" next to the given metadata.
+ */
+export function keywordExportResponse(
+    format: ExportFormat,
+    rows: ExportRow[],
+    options: { includeApp: boolean; fileName: string; sheetName: string; metadata: Record<string, unknown> }
+) {
+    const columns = options.includeApp ? [...appColumns, ...keywordColumns] : keywordColumns;
+    const headers = columns.map(column => column.header);
+    const values = rows.map(row => columns.map(column => column.value(row)));
+
+    let body: BodyInit;
+    let contentType: string;
+
+    if (format === 'csv') {
+        body = toCsv(headers, values);
+        contentType = 'text/csv; charset=utf-8';
+    } else if (format === 'xlsx') {
+        body = new Uint8Array(toXlsx(options.sheetName, headers, values));
+        contentType = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+    } else {
+        const keywords = values.map(row => Object.fromEntries(columns.map((column, i) => [column.key, row[i]])));
+        body = JSON.stringify({ ...options.metadata, exportedAt: new Date().toISOString(), keywords }, null, 2);
+        contentType = 'application/json; charset=utf-8';
+    }
+
+    return new NextResponse(body, {
+        headers: {
+            'Content-Type': contentType,
+            'Content-Disposition': `attachment; filename="${options.fileName}"`,
+        },
+    });
+}
@@ -0,0 +1,62 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { crc32, inflateRawSync } from 'zlib';
+import { toXlsx } from './xlsx';
+
+// Reads the entries of a zip archive through their local file headers
+function unzip(archive: Buffer) {
+    const entries = new Map<string, string>();
+    let offset = 0;
+
+    while (archive.readUInt32LE(offset) === 0x04034b50) {
+        const crc = archive.readUInt32LE(offset + 14);
+        const compressedSize = archive.readUInt32LE(offset + 18);
+        const nameLength = archive.readUInt16LE(offset + 26);
+        const name = archive.subarray(offset + 30, offset + 30 + nameLength).toString('utf-8');
+        const dataStart = offset + 30 + nameLength;
+        const data = inflateRawSync(archive.subarray(dataStart, dataStart + compressedSize));
+
+        assert.equal(crc32(data), crc, `CRC of ${name}`);
+        entries.set(name, data.toString('utf-8'));
+        offset = dataStart + compressedSize;
+    }
+
+    return entries;
+}
+
+describe('toXlsx', () => {
+    it('writes a zip with the workbook parts', () => {
+        const entries = unzip(toXlsx('Keywords', ['keyword'], [['notes']]));
+
+        assert.ok(entries.has('[Content_Types].xml'));
+        assert.ok(entries.has('xl/workbook.xml'));
+        assert.ok(entries.has('xl/worksheets/sheet1.xml'));
+        assert.ok(entries.has('xl/styles.xml'));
+    });
+
+    it('stores numbers, booleans and escaped inline strings', () => {
+        const sheet = unzip(toXlsx('Keywords', ['keyword', 'traffic', 'tracked'], [['a & <b>', 42, true]]))
+            .get('xl/worksheets/sheet1.xml')!;
+
+        assert.match(sheet, /<c r="A1" s="1" t="inlineStr"><is><t xml:space="preserve">keyword<\/t><\/is><\/c>/);
+        assert.match(sheet, /<c r="A2" t="inlineStr"><is><t xml:space="preserve">a &amp; &lt;b&gt;<\/t><\/is><\/c>/);
+        assert.match(sheet, /<c r="B2"><v>42<\/v><\/c>/);
+        assert.match(sheet, /<c r="C2" t="b"><v>1<\/v><\/c>/);
+    });
+
+    it('skips empty cells and names columns past Z', () => {
+        const headers = Array.from({ length: 28 }, (_, i) => `h${i}`);
+        const sheet = unzip(toXlsx('Keywords', headers, [[null, '']])).get('xl/worksheets/sheet1.xml')!;
+
+        assert.match(sheet, /<c r="AB1"/);
+        assert.doesNotMatch(sheet, /<c r="A2"/);
+        assert.doesNotMatch(sheet, /<c r="B2"/);
+    });
+
+    it('cleans up sheet names Excel would reject', () => {
+        const workbook = unzip(toXlsx('Notes: a/b [2025] with a very long name', ['keyword'], []))
+            .get('xl/workbook.xml')!;
+
+        assert.match(workbook, /name="Notes  a b  2025  with a very l"/);
+    });
+});
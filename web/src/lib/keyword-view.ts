@@ -0,0 +1,183 @@
+// Search, filters and sort of the keywords table. Shared by the table and the
+// export endpoints so an export contains exactly the rows on screen.
+
+export type SortField = 'keyword' | 'traffic' | 'difficulty' | 'opportunity' | 'rank' | 'analyzedAt';
+export type SortDirection = 'asc' | 'desc';
+
+export const SORT_FIELDS: SortField[] = ['keyword', 'traffic', 'difficulty', 'opportunity', 'rank', 'analyzedAt'];
+
+// 'all' (or a missing value) means no filtering on that column
+export interface KeywordView {
+    search: string;
+    recommendation: string;
+    source: string;
+    status: string;
+    tag: string;
+    screenshots: boolean;
+    sortField: SortField;
+    sortDirection: SortDirection;
+}
+
+export const DEFAULT_KEYWORD_VIEW: KeywordView = {
+    search: '',
+    recommendation: 'all',
+    source: 'all',
+    status: 'all',
+    tag: 'all',
+    screenshots: false,
+    sortField: 'opportunity',
+    sortDirection: 'desc',
+};
+
+// The fields filtering and sorting look at, present on both API and database rows
+export interface ViewableKeyword {
+    keyword: string;
+    traffic: number | null;
+    difficulty: number | null;
+    opportunity: number | null;
+    recommendation: string;
+    source: string;
+    status: string;
+    tags: string[];
+    fromScreenshots: boolean;
+    analyzedAt: string;
+    rank?: { rank: number | null; depth: number } | null;
+}
+
+// Not ranking sorts just below the checked depth, keywords never checked come last
+function sortValue(keyword: ViewableKeyword, field: SortField): string | number | null {
+    if (field === 'rank') {
+        return keyword.rank ? keyword.rank.rank ?? keyword.rank.depth + 1 : null;
+    }
+    return keyword[field];
+}
+
+export function applyKeywordView<T extends ViewableKeyword>(keywords: T[], view: KeywordView): T[] {
+    let result = [...keywords];
+
+    if (view.search) {
+        result = result.filter((k) =>
+            k.keyword.toLowerCase().includes(view.search.toLowerCase())
+        );
+    }
+
+    if (view.recommendation !== 'all') {
+        result = result.filter((k) => k.recommendation === view.recommendation);
+    }
+
+    if (view.source !== 'all') {
+        result = result.filter((k) => k.source === view.source);
+    }
+
+    if (view.screenshots) {
+        result = result.filter((k) => k.fromScreenshots);
+    }
+
+    if (view.status !== 'all') {
+        result = result.filter((k) => k.status === view.status);
+    }
+
+    if (view.tag !== 'all') {
+        result = result.filter((k) => k.tags.includes(view.tag));
+    }
+
+    const { sortField, sortDirection } = view;
+    result.sort((a, b) => {
+        let aVal = sortValue(a, sortField);
+        let bVal = sortValue(b, sortField);
+
+        if (aVal === null) aVal = sortDirection === 'asc' ? Infinity : -Infinity;
+        if (bVal === null) bVal = sortDirection === 'asc' ? Infinity : -Infinity;
+
+        if (typeof aVal === 'string' && typeof bVal === 'string') {
+            return sortDirection === 'asc'
+                ? aVal.localeCompare(bVal)
+                : bVal.localeCompare(aVal);
+        }
+
+        return sortDirection === 'asc'
+            ? (aVal as number) - (bVal as number)
+            : (bVal as number) - (aVal as number);
+    });
+
+    return result;
+}
+
+// Query string for the parts of a view that differ from the defaults
+export function keywordViewToParams(view: KeywordView) {
+    const params = new URLSearchParams();
+    if (view.search) params.set('search', view.search);
+    if (view.recommendation !== 'all') params.set('recommendation', view.recommendation);
+    if (view.source !== 'all') params.set('source', view.source);
+    if (view.status !== 'all') params.set('status', view.status);
+    if (view.tag !== 'all') params.set('tag', view.tag);
+    if (view.screenshots) params.set('screenshots', 'true');
+    params.set('sort', view.sortField);
+    params.set('direction', view.sortDirection);
+    return params;
+}
+
+export function keywordViewFromParams(params: URLSearchParams): KeywordView {
+    const sort = params.get('sort') as SortField | null;
+
+    return {
+        search: params.get('search') ?? DEFAULT_KEYWORD_VIEW.search,
+        recommendation: params.get('recommendation') || 'all',
+        source: params.get('source') || 'all',
+        status: params.get('status') || 'all',
+        tag: params.get('tag') || 'all',
+        screenshots: params.get('screenshots') === 'true',
+        sortField: sort && SORT_FIELDS.includes(sort) ? sort : DEFAULT_KEYWORD_VIEW.sortField,
+        sortDirection: params.get('direction') === 'asc' ? 'asc' : 'desc',
+    };
+}
+
+// Keywords of one topic cluster in view order. label is null for the group of
+// keywords that share a topic with no other visible keyword.
+export interface KeywordGroup<T> {
+    label: string | null;
+    keywords: T[];
+    traffic: number;
+    opportunity: number;
+}
+
+function toGroup<T extends ViewableKeyword>(label: string | null, keywords: T[]): KeywordGroup<T> {
+    return {
+        label,
+        keywords,
+        traffic: keywords.reduce((sum, k) => sum + (k.traffic ?? 0), 0),
+        opportunity: keywords.reduce((sum, k) => sum + (k.opportunity ?? 0), 0),
+    };
+}
+
+/**
+ * Groups already filtered and sorted keywords by topic cluster, keeping their order
+ * inside each group. Totals only count the visible keywords, and groups are sorted
+ * by them. Keywords alone in their cluster, or not clustered yet, come last.
+ */
+export function groupKeywordsByCluster<T extends ViewableKeyword & { id: number }>(
+    keywords: T[],
+    clusters: { label: string; keywordIds: number[] }[]
+): KeywordGroup<T>[] {
+    const clusterOf = new Map<number, number>();
+    clusters.forEach((cluster, i) => cluster.keywordIds.forEach(id => clusterOf.set(id, i)));
+
+    const members = clusters.map(() => [] as T[]);
+    for (const keyword of keywords) {
+        const index = clusterOf.get(keyword.id);
+        if (index !== undefined) members[index].push(keyword);
+    }
+
+    const groups = clusters
+        .map((cluster, i) => toGroup(cluster.label, members[i]))
+        .filter(group => group.keywords.length > 1)
+        .sort((a, b) => b.opportunity - a.opportunity || b.keywords.length - a.keywords.length);
+
+    const grouped = new Set(groups.flatMap(group => group.keywords.map(k => k.id)));
+    const rest = keywords.filter(k => !grouped.has(k.id));
+    if (rest.length > 0) {
+        groups.push(toGroup(null, rest));
+    }
+
+    return groups;
+}
@@ -0,0 +1,120 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    METADATA_LIMITS,
+    analyzeMetadata,
+    brandName,
+    buildMetadataProposal,
+    metadataLength,
+    tokenize,
+} from './metadata-builder';
+
+const keywords = [
+    { keyword: 'meeting notes', opportunity: 80 },
+    { keyword: 'voice recorder', opportunity: 60 },
+    { keyword: 'ai transcription', opportunity: 50 },
+    { keyword: 'audio to text', opportunity: 40 },
+    { keyword: 'dictation', opportunity: 20 },
+    { keyword: 'lecture recorder', opportunity: null },
+];
+
+describe('tokenize', () => {
+    it('lowercases and splits on anything but letters and digits', () => {
+        assert.deepEqual(tokenize('Notes: AI-Powered, 2 Go!'), ['notes', 'ai', 'powered', '2', 'go']);
+    });
+
+    it('keeps letters outside ASCII', () => {
+        assert.deepEqual(tokenize('Notizen für Besprechungen'), ['notizen', 'für', 'besprechungen']);
+    });
+});
+
+describe('metadataLength', () => {
+    it('counts characters rather than UTF-16 code units', () => {
+        assert.equal(metadataLength('notes 📝'), 7);
+    });
+});
+
+describe('brandName', () => {
+    it('takes the part before a colon or dash', () => {
+        assert.equal(brandName('Otter: Transcribe Voice Notes'), 'Otter');
+        assert.equal(brandName('Calm - Sleep & Meditation'), 'Calm');
+        assert.equal(brandName('Notion'), 'Notion');
+    });
+
+    it('keeps hyphenated names whole', () => {
+        assert.equal(brandName('Co-Pilot Notes'), 'Co-Pilot Notes');
+    });
+});
+
+describe('analyzeMetadata', () => {
+    it('flags fields over their limit', () => {
+        const result = analyzeMetadata(
+            { title: 'x'.repeat(METADATA_LIMITS.title + 1), subtitle: 'short', keywordField: '' },
+            keywords
+        );
+        assert.deepEqual(result.overLimit, ['title']);
+        assert.equal(result.lengths.title, METADATA_LIMITS.title + 1);
+    });
+
+    it('reports keyword field words already indexed or repeated', () => {
+        const result = analyzeMetadata(
+            { title: 'Cue - Meeting Notes', subtitle: 'Voice Recorder', keywordField: 'notes,ai,ai,text' },
+            keywords
+        );
+        assert.deepEqual(result.repeatedWords, ['notes', 'ai']);
+    });
+
+    it('counts keywords whose words appear across all three fields', () => {
+        const result = analyzeMetadata(
+            { title: 'Cue - Meeting Notes', subtitle: 'Voice Recorder', keywordField: 'audio,text' },
+            keywords
+        );
+        assert.deepEqual(result.covered.map(k => k.keyword), ['meeting notes', 'voice recorder', 'audio to text']);
+        assert.equal(result.coveredOpportunity, 180);
+        assert.equal(result.totalOpportunity, 250);
+    });
+});
+
+describe('buildMetadataProposal', () => {
+    it('keeps the brand and fills the title with the best keyword', () => {
+        const proposal = buildMetadataProposal('Cue: Smart AI Meeting Notes', keywords);
+        assert.equal(proposal.title, 'Cue - Meeting Notes');
+    });
+
+    it('shortens a brand that is over the title limit on its own', () => {
+        const proposal = buildMetadataProposal('Transcription Voice Recorder Pro Plus Edition', keywords);
+        assert.equal(proposal.title, 'Transcription Voice Recorder');
+
+        const oneWord = buildMetadataProposal('Supercalifragilisticexpialidocious', keywords);
+        assert.equal(oneWord.title, 'Supercalifragilisticexpialidoc');
+        assert.equal(metadataLength(oneWord.title), METADATA_LIMITS.title);
+    });
+
+    it('stays within every limit', () => {
+        const many = Array.from({ length: 60 }, (_, i) => ({ keyword: `keyword${i} phrase${i}`, opportunity: 100 - i }));
+        const proposal = buildMetadataProposal('Some App With A Long Name: Extra', many);
+
+        assert.ok(metadataLength(proposal.title) <= METADATA_LIMITS.title);
+        assert.ok(metadataLength(proposal.subtitle) <= METADATA_LIMITS.subtitle);
+        assert.ok(metadataLength(proposal.keywordField) <= METADATA_LIMITS.keywordField);
+    });
+
+    it('never repeats a word across the fields', () => {
+        const proposal = buildMetadataProposal('Cue', keywords);
+        const words = [
+            ...tokenize(proposal.title),
+            ...tokenize(proposal.subtitle),
+            ...tokenize(proposal.keywordField),
+        ];
+        assert.equal(new Set(words).size, words.length);
+    });
+
+    it('covers every keyword with an opportunity when there is room for all of them', () => {
+        const proposal = buildMetadataProposal('Cue', keywords);
+        const { covered } = analyzeMetadata(proposal, keywords);
+        assert.deepEqual(
+            covered.map(k => k.keyword).sort(),
+            keywords.filter(k => k.opportunity !== null).map(k => k.keyword).sort()
+        );
+    });
+});
@@ -0,0 +1,186 @@
+// Packs an app's best keywords into App Store metadata. Apple indexes the words of
+// the title, subtitle and keyword field together, so a search term matches once
+// each of its words appears in any of the three fields.
+
+export const METADATA_LIMITS = {
+    title: 30,
+    subtitle: 30,
+    keywordField: 100,
+} as const;
+
+export type MetadataField = keyof typeof METADATA_LIMITS;
+
+export interface AppMetadata {
+    title: string;
+    subtitle: string;
+    keywordField: string; // comma-separated, no spaces needed after the commas
+}
+
+export interface MetadataKeyword {
+    keyword: string;
+    opportunity: number | null;
+}
+
+// Words that don't help ranking and aren't worth any of the limited characters.
+// Apple matches "app" for every app already.
+const STOP_WORDS = new Set(['a', 'an', 'and', 'app', 'by', 'for', 'in', 'of', 'on', 'the', 'to', 'with']);
+
+export function tokenize(text: string) {
+    return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(token => token.length > 0);
+}
+
+// The distinct words of a keyword that count towards matching it
+function keywordTokens(keyword: string) {
+    return Array.from(new Set(tokenize(keyword).filter(token => !STOP_WORDS.has(token))));
+}
+
+// App Store Connect counts characters, not UTF-16 code units
+export function metadataLength(value: string) {
+    return Array.from(value).length;
+}
+
+// Brand part of a title like "Otter: Transcribe Voice Notes" or "Calm - Sleep & Meditation"
+export function brandName(title: string) {
+    return title.split(/\s+[-–—|]\s+|:\s+/)[0].trim();
+}
+
+// A brand that fits the title limit: whole words are dropped from the end, and a
+// single word that is still too long is cut
+function fitBrand(brand: string) {
+    const words = brand.split(/\s+/);
+    while (words.length > 1 && metadataLength(words.join(' ')) > METADATA_LIMITS.title) {
+        words.pop();
+    }
+    return Array.from(words.join(' ')).slice(0, METADATA_LIMITS.title).join('');
+}
+
+function titleCase(phrase: string) {
+    return phrase.replace(/(^|\s)(\p{L})/gu, (_, space: string, letter: string) => space + letter.toUpperCase());
+}
+
+function sumOpportunity(keywords: MetadataKeyword[]) {
+    return keywords.reduce((sum, keyword) => sum + (keyword.opportunity ?? 0), 0);
+}
+
+/**
+ * Checks metadata against the App Store limits and the keywords it targets: the
+ * length of each field, words in the keyword field that the title or subtitle
+ * already index (or that appear in it twice), and which keywords are fully
+ * covered by the words of all three fields.
+ */
+export function analyzeMetadata(metadata: AppMetadata, keywords: MetadataKeyword[]) {
+    const lengths = {
+        title: metadataLength(metadata.title),
+        subtitle: metadataLength(metadata.subtitle),
+        keywordField: metadataLength(metadata.keywordField),
+    };
+    const overLimit = (Object.keys(METADATA_LIMITS) as MetadataField[])
+        .filter(field => lengths[field] > METADATA_LIMITS[field]);
+
+    const indexed = new Set([...tokenize(metadata.title), ...tokenize(metadata.subtitle)]);
+    const fieldTokens = tokenize(metadata.keywordField);
+    const repeatedWords = Array.from(new Set(
+        fieldTokens.filter((token, i) => indexed.has(token) || fieldTokens.indexOf(token) !== i)
+    ));
+
+    const words = new Set([...indexed, ...fieldTokens]);
+    const covered = keywords.filter(k => {
+        const tokens = keywordTokens(k.keyword);
+        return tokens.length > 0 && tokens.every(token => words.has(token));
+    });
+
+    return {
+        lengths,
+        overLimit,
+        repeatedWords,
+        covered,
+        coveredOpportunity: sumOpportunity(covered),
+        totalOpportunity: sumOpportunity(keywords),
+    };
+}
+
+/**
+ * Proposes a title, subtitle and keyword field that cover as much of the keywords'
+ * total opportunity as the limits allow, without repeating a word across fields.
+ *  - Title: the app's brand, shortened when it alone is over the limit, followed
+ *    by the most valuable keyword that still fits
+ *  - Subtitle: whole keywords with new words, most opportunity per character first
+ *  - Keyword field: the remaining single words, weighted by the opportunity of the
+ *    keywords they help complete, most weight per character first
+ */
+export function buildMetadataProposal(appTitle: string, keywords: MetadataKeyword[]): AppMetadata {
+    const candidates = keywords
+        .map(k => ({ keyword: k.keyword, tokens: keywordTokens(k.keyword), value: k.opportunity ?? 0 }))
+        .filter(k => k.tokens.length > 0)
+        .sort((a, b) => b.value - a.value);
+
+    const covered = new Set<string>();
+    const isNew = (tokens: string[]) => tokens.every(token => !covered.has(token));
+    const isComplete = (tokens: string[]) => tokens.every(token => covered.has(token));
+
+    // Opportunity of the keywords that adding these words would complete
+    const gain = (tokens: string[]) => candidates
+        .filter(k => !isComplete(k.tokens) && k.tokens.every(token => covered.has(token) || tokens.includes(token)))
+        .reduce((sum, k) => sum + k.value, 0);
+
+    // Title
+    const brand = fitBrand(brandName(appTitle));
+    tokenize(brand).forEach(token => covered.add(token));
+
+    let title = brand;
+    const titlePhrase = candidates
+        .filter(k => isNew(k.tokens) && metadataLength(`${brand} - ${k.keyword}`) <= METADATA_LIMITS.title)
+        .map(k => ({ ...k, gain: gain(k.tokens) }))
+        .sort((a, b) => b.gain - a.gain)[0];
+
+    if (titlePhrase) {
+        title = `${brand} - ${titleCase(titlePhrase.keyword)}`;
+        titlePhrase.tokens.forEach(token => covered.add(token));
+    }
+
+    // Subtitle
+    const subtitlePhrases: string[] = [];
+    for (;;) {
+        const current = subtitlePhrases.join(', ');
+        const next = candidates
+            .filter(k => isNew(k.tokens))
+            .map(k => {
+                const text = current ? `${current}, ${k.keyword}` : k.keyword;
+                return { ...k, length: metadataLength(text), gain: gain(k.tokens) };
+            })
+            .filter(k => k.length <= METADATA_LIMITS.subtitle && k.gain > 0)
+            .sort((a, b) => b.gain / b.length - a.gain / a.length)[0];
+
+        if (!next) break;
+        subtitlePhrases.push(next.keyword);
+        next.tokens.forEach(token => covered.add(token));
+    }
+
+    // Keyword field
+    const fieldWords: string[] = [];
+    for (;;) {
+        const weights = new Map<string, number>();
+        for (const k of candidates) {
+            const missing = k.tokens.filter(token => !covered.has(token));
+            for (const token of missing) {
+                weights.set(token, (weights.get(token) ?? 0) + k.value / missing.length);
+            }
+        }
+
+        const used = metadataLength(fieldWords.join(','));
+        const next = Array.from(weights.entries())
+            .map(([token, weight]) => ({ token, weight, cost: metadataLength(token) + (fieldWords.length > 0 ? 1 : 0) }))
+            .filter(word => word.weight > 0 && used + word.cost <= METADATA_LIMITS.keywordField)
+            .sort((a, b) => b.weight / b.cost - a.weight / a.cost)[0];
+
+        if (!next) break;
+        fieldWords.push(next.token);
+        covered.add(next.token);
+    }
+
+    return {
+        title,
+        subtitle: titleCase(subtitlePhrases.join(', ')),
+        keywordField: fieldWords.join(','),
+    };
+}
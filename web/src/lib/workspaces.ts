@@ -0,0 +1,60 @@
+import { db } from '@/lib/db';
+import { apps, keywords, workspaces, type Workspace } from '@/lib/db/schema';
+import { asc, count, eq, sql } from 'drizzle-orm';
+
+export const MAX_WORKSPACE_NAME_LENGTH = 60;
+
+export async function getWorkspace(workspaceId: number) {
+    const [workspace] = await db.select().from(workspaces).where(eq(workspaces.id, workspaceId)).limit(1);
+    return workspace ?? null;
+}
+
+// Where apps go when no workspace is picked: the oldest one, which always exists
+export async function getDefaultWorkspace() {
+    const [workspace] = await db.select().from(workspaces).orderBy(asc(workspaces.id)).limit(1);
+    return workspace;
+}
+
+/**
+ * The workspace a request parameter or body field names. A missing value means
+ * the default workspace, an invalid or unknown one gives null.
+ */
+export async function resolveWorkspace(value: unknown): Promise<Workspace | null> {
+    if (value === undefined || value === null || value === '') return getDefaultWorkspace();
+
+    const workspaceId = typeof value === 'number' ? value : parseInt(String(value), 10);
+    return Number.isInteger(workspaceId) ? getWorkspace(workspaceId) : null;
+}
+
+// A trimmed workspace name, or an error message when it can't be used
+export function validateWorkspaceName(name: unknown): { name: string } | { error: string } {
+    if (typeof name !== 'string' || !name.trim()) {
+        return { error: 'name is required' };
+    }
+    if (name.trim().length > MAX_WORKSPACE_NAME_LENGTH) {
+        return { error: `name must be at most ${MAX_WORKSPACE_NAME_LENGTH} characters` };
+    }
+    return { name: name.trim() };
+}
+
+// Every workspace with how many apps and keywords it holds, oldest first
+export async function getWorkspaceSummaries() {
+    const rows = await db
+        .select({
+            id: workspaces.id,
+            name: workspaces.name,
+            country: workspaces.country,
+            scoringConfig: workspaces.scoringConfig,
+            createdAt: workspaces.createdAt,
+            updatedAt: workspaces.updatedAt,
+            appCount: sql<number>`COUNT(DISTINCT ${apps.id})`,
+            keywordCount: count(keywords.id),
+        })
+        .from(workspaces)
+        .leftJoin(apps, eq(apps.workspaceId, workspaces.id))
+        .leftJoin(keywords, eq(keywords.appId, apps.id))
+        .groupBy(workspaces.id)
+        .orderBy(asc(workspaces.id));
+
+    return rows.map(({ scoringConfig, ...row }) => ({ ...row, customScoring: scoringConfig !== null }));
+}
@@ -0,0 +1,14 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SESSION_COOKIE } from '@/lib/auth/constants';
+
+// Sends browsers without a session cookie to the login page. Only the cookie's
+// presence is checked here, the API routes validate it and check roles.
+export function proxy(request: NextRequest) {
+    if (request.cookies.has(SESSION_COOKIE)) return NextResponse.next();
+    return NextResponse.redirect(new URL('/login', request.url));
+}
+
+export const config = {
+    // Everything except the API, the login page and static assets
+    matcher: ['/((?!api|login|_next/static|_next/image|favicon.ico).*)'],
+};
@@ -6,18 +6,84 @@ export interface AppData {
   genres: string[];
   screenshotCount: number;
   analyzedAt: string;
+  country: string;
 }
 
 export interface KeywordAnalysis {
   id: number;
   appId: number;
   keyword: string;
+  country: string;
   traffic: number | null;
   difficulty: number | null;
   opportunity: number | null;
   recommendation: 'excellent' | 'good' | 'consider' | 'challenging' | 'avoid' | 'analysis_failed';
   analysisSucceeded: boolean;
+  // no_data: the App Store has no data for the keyword; transient: lookups kept failing
+  failureReason: KeywordFailureReason | null;
   analyzedAt: string;
+  source: KeywordSource;
+  sourceSeed: string | null;
+  sourceAppStoreId: string | null;
+  sourceAppTitle: string | null;
+  fromScreenshots: boolean;
+  notes: string | null;
+  tags: string[];
+  status: KeywordStatus;
+  history?: KeywordTrendPoint[];
+  rank?: KeywordRankSummary | null;
+}
+
+export type KeywordFailureReason = 'no_data' | 'transient';
+
+export type KeywordSource = 'ai' | 'competitor' | 'autocomplete' | 'manual' | 'unknown';
+
+export type KeywordStatus = 'candidate' | 'tracking' | 'in_metadata' | 'rejected';
+
+// Keyword count of one App Store storefront an app has been analyzed in
+export interface StorefrontSummary {
+  country: string;
+  keywordCount: number;
+}
+
+// Latest App Store search rank check of a keyword and the one before it.
+// A null rank means the app wasn't in the first `depth` results.
+export interface KeywordRankSummary {
+  rank: number | null;
+  previousRank: number | null;
+  depth: number;
+  checkedAt: string;
+  previousCheckedAt: string | null;
+  change: number | null; // positions moved up since the previous check
+}
+
+export interface KeywordTrendPoint {
+  traffic: number | null;
+  difficulty: number | null;
+  recordedAt: string;
+}
+
+export interface KeywordSnapshot {
+  id: number;
+  appId: number;
+  keyword: string;
+  country: string;
+  traffic: number | null;
+  difficulty: number | null;
+  opportunity: number | null;
+  recommendation: RecommendationType;
+  recordedAt: string;
+}
+
+export interface Competitor {
+  id: number;
+  appId: number;
+  appStoreId: string;
+  title: string;
+  description: string;
+  genres: string[];
+  source: 'similar' | 'manual';
+  addedAt: string;
 }
 
 export interface AppWithStats extends AppData {
@@ -28,6 +94,9 @@ export interface AppWithStats extends AppData {
   challengingCount: number;
   avoidCount: number;
   failedCount: number;
+  cliRun: { processed: number; total: number } | null;
+  schedule: AppSchedule | null;
+  workspaceId: number | null;
 }
 
 export interface AnalysisSummary {
@@ -42,3 +111,246 @@ export interface AnalysisSummary {
 }
 
 export type RecommendationType = KeywordAnalysis['recommendation'];
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface KeywordChange {
+  keyword: string;
+  previousRecommendation: RecommendationType;
+  recommendation: RecommendationType;
+  trafficChange: number | null;
+  difficultyChange: number | null;
+}
+
+export interface RefreshResult {
+  metadataChanges: string[];
+  addedKeywords: string[];
+  rescored: number;
+  recommendationChanges: KeywordChange[];
+}
+
+export interface RescoreResult {
+  rescored: number;
+  recommendationChanges: KeywordChange[];
+  failed: string[];
+}
+
+export interface RetryResult {
+  retried: number;
+  recovered: number;
+  noData: number;
+  failed: string[];
+}
+
+export interface KeywordEditResult {
+  keyword: string;
+  recommendationChange: KeywordChange | null;
+  failed: boolean;
+}
+
+export interface AddKeywordsResult {
+  added: string[];
+  duplicates: string[];
+  failed: number;
+}
+
+export interface RankCheckResult {
+  checked: number;
+  ranked: number;
+  failed: string[];
+  improved: number;
+  declined: number;
+}
+
+export interface GapAnalysisResult {
+  checked: number;
+  missing: number;
+  exclusive: number;
+  shared: number;
+  failed: string[];
+}
+
+export interface GapCompetitor {
+  appStoreId: string;
+  title: string;
+  rank: number | null;
+  relevant: boolean;
+}
+
+export interface GapKeyword {
+  keyword: string;
+  kind: 'missing' | 'exclusive' | 'shared';
+  tracked: boolean;
+  appRank: number | null;
+  competitors: GapCompetitor[];
+  traffic: number | null;
+  difficulty: number | null;
+  opportunity: number | null;
+  recommendation: RecommendationType | null;
+}
+
+export interface KeywordGapReport {
+  country: string;
+  checkedAt: string;
+  depth: number;
+  competitors: { appStoreId: string; title: string }[];
+  missing: GapKeyword[];
+  exclusive: GapKeyword[];
+  shared: number;
+}
+
+// Topic cluster of an app's keywords, traffic and opportunity summed over its keywords
+export interface KeywordCluster {
+  label: string;
+  keywordIds: number[];
+  traffic: number;
+  opportunity: number;
+}
+
+// method is 'tokens' when embeddings weren't configured or failed
+export interface KeywordClusterReport {
+  method: 'tokens' | 'embeddings';
+  clusters: KeywordCluster[];
+}
+
+export interface AnalysisJob {
+  id: number;
+  kind: 'analyze' | 'refresh' | 'ranks' | 'gaps' | 'retry' | 'rescore' | 'keywords' | 'keyword';
+  appStoreId: string;
+  country: string;
+  appId: number | null;
+  appTitle: string | null;
+  status: JobStatus;
+  currentStep: string | null;
+  processed: number;
+  total: number;
+  error: string | null;
+  result: RefreshResult | RankCheckResult | GapAnalysisResult | RetryResult | RescoreResult | AddKeywordsResult | KeywordEditResult | null;
+  forceRefresh: boolean;
+  startedBy: string | null; // username, null for scheduled runs
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+}
+
+export type ScheduleCadence = 'daily' | 'weekly' | 'cron';
+
+// One scheduled re-score, result is set once its job has completed
+export interface ScheduleRun {
+  id: number;
+  scheduleId: number;
+  appId: number;
+  jobId: number | null;
+  dueAt: string;
+  startedAt: string;
+  completedAt: string | null;
+  status: 'running' | 'completed' | 'failed';
+  error: string | null;
+  result: RescoreResult | null;
+}
+
+// cron is the preset expression for daily and weekly schedules
+export interface AppSchedule {
+  id: number;
+  appId: number;
+  cadence: ScheduleCadence;
+  cron: string;
+  country: string;
+  enabled: boolean;
+  nextRunAt: string;
+  lastRunAt: string | null;
+  lastRun?: ScheduleRun | null;
+}
+
+export type AlertCondition = 'recommendation_change' | 'traffic_change' | 'job_failed';
+
+export type AlertChannel = 'in_app' | 'webhook';
+
+// keyword is null for rules watching all of an app's keywords, threshold is set
+// for traffic_change rules only
+export interface AlertRule {
+  id: number;
+  appId: number;
+  keyword: string | null;
+  condition: AlertCondition;
+  threshold: number | null;
+  channel: AlertChannel;
+  webhookUrl: string | null;
+  webhookSecret: string | null; // null for viewers, who can't see signing secrets
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A fired alert. In-app alerts are delivered once stored, webhooks stay pending
+// until the receiver accepts them or the retries run out.
+export interface AlertEvent {
+  id: number;
+  ruleId: number | null;
+  appId: number;
+  keyword: string | null;
+  country: string | null;
+  condition: AlertCondition;
+  message: string;
+  details: Record<string, unknown>;
+  channel: AlertChannel;
+  firedAt: string;
+  deliveryStatus: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastError: string | null;
+  deliveredAt: string | null;
+  readAt: string | null;
+}
+
+export interface AppNotification extends AlertEvent {
+  appTitle: string;
+}
+
+// country is the storefront new apps in the workspace are analyzed in
+export interface Workspace {
+  id: number;
+  name: string;
+  country: string;
+  customScoring: boolean;
+  appCount: number;
+  keywordCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Each role can do everything the ones before it can
+export type UserRole = 'viewer' | 'editor' | 'admin';
+
+export interface User {
+  id: number;
+  username: string;
+  role: UserRole;
+  createdAt: string;
+  lastLoginAt: string | null;
+}
+
+// prefix is the start of the token, the full token is only shown when it's created
+export interface ApiToken {
+  id: number;
+  name: string;
+  prefix: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+export interface AuditLogEntry {
+  id: number;
+  userId: number | null;
+  username: string;
+  action: string;
+  target: string;
+  details: Record<string, unknown> | null;
+  createdAt: string;
+}
+
+// setupRequired is true until the first account, an admin, has been created
+export interface AuthSession {
+  user: User | null;
+  setupRequired: boolean;
+}